@@ -0,0 +1,254 @@
+'use client'
+
+import { AuthGuard } from '@/components/auth-guard'
+import { Navbar } from '@/components/layout/navbar'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Calendar, Clock, Search, User, History, ArrowRight } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { auditService, getAuditActorLabel } from '@/lib/audit-service'
+import type { BookingAuditEntry } from '@/lib/audit-service'
+import { formatTimeRange } from '@/lib/booking-rules'
+import { getAuditStatusColor } from '@/components/admin/booking-audit-dialog'
+import { useToast } from '@/hooks/use-toast'
+import Link from 'next/link'
+
+export default function AdminAuditPage() {
+  const { toast } = useToast()
+
+  const [entries, setEntries] = useState<BookingAuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState('all')
+  const [actorFilter, setActorFilter] = useState('all')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+
+  useEffect(() => {
+    fetchAuditLog()
+  }, [statusFilter, fromDate, toDate])
+
+  const fetchAuditLog = async () => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await auditService.getAuditLog({
+        newStatus: statusFilter !== 'all' ? statusFilter : undefined,
+        fromDate: fromDate || undefined,
+        toDate: toDate || undefined
+      })
+      if (error) throw error
+      setEntries(data || [])
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load audit log",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Search and actor filters apply to the loaded entries
+  const filteredEntries = entries.filter(entry => {
+    if (actorFilter === 'system' && entry.changer) return false
+    if (actorFilter === 'admin' && entry.changer?.role !== 'admin') return false
+    if (actorFilter === 'user' && (!entry.changer || entry.changer.role === 'admin')) return false
+
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase()
+      return Boolean(
+        entry.booking?.game?.name.toLowerCase().includes(term) ||
+        entry.booking?.user?.name.toLowerCase().includes(term) ||
+        entry.booking?.user?.email.toLowerCase().includes(term) ||
+        entry.changer?.name.toLowerCase().includes(term) ||
+        entry.changer?.email.toLowerCase().includes(term) ||
+        entry.notes?.toLowerCase().includes(term)
+      )
+    }
+
+    return true
+  })
+
+  return (
+    <AuthGuard requireRole="admin">
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">Booking Audit Log</h1>
+                <p className="text-gray-600">Every booking status change, who made it and why</p>
+              </div>
+              <div className="flex space-x-4">
+                <Link href="/admin/bookings">
+                  <Button variant="outline">
+                    All Bookings
+                  </Button>
+                </Link>
+                <Link href="/admin">
+                  <Button variant="outline">
+                    ← Back to Dashboard
+                  </Button>
+                </Link>
+              </div>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg">Filters & Search</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+                <div className="relative md:col-span-2">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    placeholder="Search user, game, notes..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Changed to" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any Status</SelectItem>
+                    <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="confirmed">Confirmed</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="canceled">Canceled</SelectItem>
+                    <SelectItem value="no_show">No Show</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <Select value={actorFilter} onValueChange={setActorFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Changed by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Anyone</SelectItem>
+                    <SelectItem value="admin">Admins</SelectItem>
+                    <SelectItem value="user">Users</SelectItem>
+                    <SelectItem value="system">System</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <Input
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  aria-label="From date"
+                />
+
+                <Input
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                  aria-label="To date"
+                />
+              </div>
+              <div className="flex justify-between items-center mt-4">
+                <p className="text-sm text-gray-600">
+                  Showing {filteredEntries.length} of {entries.length} changes
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSearchTerm('')
+                    setStatusFilter('all')
+                    setActorFilter('all')
+                    setFromDate('')
+                    setToDate('')
+                  }}
+                >
+                  Clear Filters
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Audit Entries */}
+          <div className="space-y-4">
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600 mx-auto"></div>
+                <p className="text-gray-600 mt-4">Loading audit log...</p>
+              </div>
+            ) : filteredEntries.length > 0 ? (
+              filteredEntries.map((entry) => (
+                <Card key={entry.id}>
+                  <CardContent className="p-4">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <h3 className="font-semibold">{entry.booking?.game?.name || 'Deleted booking'}</h3>
+                          <Badge className={getAuditStatusColor(entry.old_status)}>
+                            {entry.old_status || 'new'}
+                          </Badge>
+                          <ArrowRight className="h-4 w-4 text-gray-400" />
+                          <Badge className={getAuditStatusColor(entry.new_status)}>
+                            {entry.new_status}
+                          </Badge>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-gray-600">
+                          {entry.booking && (
+                            <div className="flex items-center">
+                              <Calendar className="h-4 w-4 mr-2" />
+                              {new Date(entry.booking.booking_date).toLocaleDateString()} • {formatTimeRange(entry.booking.start_time, entry.booking.end_time)}
+                            </div>
+                          )}
+                          <div className="flex items-center">
+                            <User className="h-4 w-4 mr-2" />
+                            Booked by {entry.booking?.user?.name || 'Unknown user'}
+                          </div>
+                          <div className="flex items-center">
+                            <History className="h-4 w-4 mr-2" />
+                            Changed by {getAuditActorLabel(entry)}
+                          </div>
+                        </div>
+
+                        {entry.notes && (
+                          <p className="mt-2 text-sm text-gray-800">{entry.notes}</p>
+                        )}
+                      </div>
+
+                      <div className="flex items-center text-sm text-gray-500 md:ml-6">
+                        <Clock className="h-4 w-4 mr-1" />
+                        {new Date(entry.changed_at).toLocaleDateString()} at {new Date(entry.changed_at).toLocaleTimeString()}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            ) : (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <History className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No changes found</h3>
+                  <p className="text-gray-600">
+                    {searchTerm || statusFilter !== 'all' || actorFilter !== 'all' || fromDate || toDate
+                      ? 'No status changes match your current filters.'
+                      : 'No booking status changes have been recorded yet.'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </AuthGuard>
+  )
+}
@@ -7,10 +7,15 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Calendar, Clock, DollarSign, Search, Filter, User, CheckCircle, XCircle, Eye } from 'lucide-react'
+import { Calendar, Clock, DollarSign, Search, Filter, User, CheckCircle, XCircle, Eye, History, ScanLine, Users } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { bookingService } from '@/lib/booking-service'
+import { BookingStatusError } from '@/lib/booking-status-rules'
+import { addDays, formatTimeRange } from '@/lib/booking-rules'
+import { APPROVAL_DECISION_LABELS, ApprovalDecisionType } from '@/lib/approval-rules'
 import { useToast } from '@/hooks/use-toast'
+import { useVenueTime } from '@/hooks/use-venue-time'
+import { BookingAuditDialog } from '@/components/admin/booking-audit-dialog'
 import Link from 'next/link'
 
 interface BookingWithDetails {
@@ -20,6 +25,12 @@ interface BookingWithDetails {
   end_time: string
   status: string
   total_cost: number
+  payment_status: string
+  refund_percent?: number | null
+  refund_amount?: number | null
+  checked_in_at?: string | null
+  approval_decision?: ApprovalDecisionType | null
+  approval_rule_name?: string | null
   notes?: string
   created_at: string
   game: {
@@ -29,6 +40,7 @@ interface BookingWithDetails {
     price_per_hour: number
     max_players: number
   }
+  court: { name: string } | null
   user: {
     id: string
     name: string
@@ -39,6 +51,7 @@ interface BookingWithDetails {
 
 export default function AdminBookingsPage() {
   const { toast } = useToast()
+  const { today } = useVenueTime()
   
   const [bookings, setBookings] = useState<BookingWithDetails[]>([])
   const [filteredBookings, setFilteredBookings] = useState<BookingWithDetails[]>([])
@@ -46,7 +59,9 @@ export default function AdminBookingsPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('all')
   const [dateFilter, setDateFilter] = useState('all')
+  const [paymentFilter, setPaymentFilter] = useState('all')
   const [processingId, setProcessingId] = useState<string | null>(null)
+  const [historyBookingId, setHistoryBookingId] = useState<string | null>(null)
 
   useEffect(() => {
     fetchAllBookings()
@@ -54,7 +69,7 @@ export default function AdminBookingsPage() {
 
   useEffect(() => {
     filterBookings()
-  }, [bookings, searchTerm, statusFilter, dateFilter])
+  }, [bookings, searchTerm, statusFilter, dateFilter, paymentFilter, today])
 
   const fetchAllBookings = async () => {
     try {
@@ -78,8 +93,6 @@ export default function AdminBookingsPage() {
 
   const filterBookings = () => {
     let filtered = [...bookings]
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
 
     // Search filter
     if (searchTerm) {
@@ -96,23 +109,26 @@ export default function AdminBookingsPage() {
       filtered = filtered.filter(booking => booking.status === statusFilter)
     }
 
+    // Payment filter
+    if (paymentFilter !== 'all') {
+      filtered = filtered.filter(booking => booking.payment_status === paymentFilter)
+    }
+
     // Date filter
     if (dateFilter !== 'all') {
+      // Dates compare as YYYY-MM-DD strings against today at the venue
       filtered = filtered.filter(booking => {
-        const bookingDate = new Date(booking.booking_date)
-        bookingDate.setHours(0, 0, 0, 0)
-        
+        const bookingDate = booking.booking_date
+
         switch (dateFilter) {
           case 'today':
-            return bookingDate.getTime() === today.getTime()
+            return bookingDate === today
           case 'upcoming':
             return bookingDate >= today
           case 'past':
             return bookingDate < today
           case 'this_week':
-            const weekFromNow = new Date(today)
-            weekFromNow.setDate(today.getDate() + 7)
-            return bookingDate >= today && bookingDate <= weekFromNow
+            return bookingDate >= today && bookingDate <= addDays(today, 7)
           default:
             return true
         }
@@ -144,7 +160,7 @@ export default function AdminBookingsPage() {
       console.error('Error approving booking:', error)
       toast({
         title: "Error",
-        description: "Failed to approve booking",
+        description: error instanceof BookingStatusError ? error.message : "Failed to approve booking",
         variant: "destructive"
       })
     } finally {
@@ -156,7 +172,7 @@ export default function AdminBookingsPage() {
     try {
       setProcessingId(bookingId)
 
-      const { error } = await bookingService.cancelBooking(bookingId, 'Rejected by admin')
+      const { error } = await bookingService.rejectBooking(bookingId)
       if (error) {
         throw error
       }
@@ -171,7 +187,7 @@ export default function AdminBookingsPage() {
       console.error('Error rejecting booking:', error)
       toast({
         title: "Error",
-        description: "Failed to reject booking",
+        description: error instanceof BookingStatusError ? error.message : "Failed to reject booking",
         variant: "destructive"
       })
     } finally {
@@ -198,7 +214,7 @@ export default function AdminBookingsPage() {
       console.error('Error marking no-show:', error)
       toast({
         title: "Error",
-        description: "Failed to mark as no-show",
+        description: error instanceof BookingStatusError ? error.message : "Failed to mark as no-show",
         variant: "destructive"
       })
     } finally {
@@ -225,7 +241,7 @@ export default function AdminBookingsPage() {
       console.error('Error marking completed:', error)
       toast({
         title: "Error",
-        description: "Failed to mark as completed",
+        description: error instanceof BookingStatusError ? error.message : "Failed to mark as completed",
         variant: "destructive"
       })
     } finally {
@@ -252,7 +268,7 @@ export default function AdminBookingsPage() {
       console.error('Error cancelling booking:', error)
       toast({
         title: "Error",
-        description: "Failed to cancel booking",
+        description: error instanceof BookingStatusError ? error.message : "Failed to cancel booking",
         variant: "destructive"
       })
     } finally {
@@ -277,6 +293,18 @@ export default function AdminBookingsPage() {
     }
   }
 
+  const getPaymentStatusColor = (paymentStatus: string) => {
+    switch (paymentStatus) {
+      case 'paid':
+        return 'bg-green-100 text-green-800'
+      case 'refunded':
+      case 'partially_refunded':
+        return 'bg-purple-100 text-purple-800'
+      default:
+        return 'bg-orange-100 text-orange-800'
+    }
+  }
+
   const getBookingStats = () => {
     const total = filteredBookings.length
     const pending = filteredBookings.filter(b => b.status === 'pending').length
@@ -318,11 +346,31 @@ export default function AdminBookingsPage() {
                 <h1 className="text-3xl font-bold text-gray-900 mb-2">All Bookings Management</h1>
                 <p className="text-gray-600">Manage and monitor all game bookings</p>
               </div>
-              <Link href="/admin">
-                <Button variant="outline">
-                  ← Back to Dashboard
-                </Button>
-              </Link>
+              <div className="flex space-x-4">
+                <Link href="/admin/check-in">
+                  <Button variant="outline">
+                    <ScanLine className="h-4 w-4 mr-2" />
+                    Check-in
+                  </Button>
+                </Link>
+                <Link href="/admin/sessions">
+                  <Button variant="outline">
+                    <Users className="h-4 w-4 mr-2" />
+                    Sessions
+                  </Button>
+                </Link>
+                <Link href="/admin/audit">
+                  <Button variant="outline">
+                    <History className="h-4 w-4 mr-2" />
+                    Audit Log
+                  </Button>
+                </Link>
+                <Link href="/admin">
+                  <Button variant="outline">
+                    ← Back to Dashboard
+                  </Button>
+                </Link>
+              </div>
             </div>
           </div>
 
@@ -383,7 +431,7 @@ export default function AdminBookingsPage() {
               <CardTitle className="text-lg">Filters & Search</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                   <Input
@@ -408,6 +456,19 @@ export default function AdminBookingsPage() {
                   </SelectContent>
                 </Select>
 
+                <Select value={paymentFilter} onValueChange={setPaymentFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by payment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Payments</SelectItem>
+                    <SelectItem value="unpaid">Unpaid</SelectItem>
+                    <SelectItem value="paid">Paid</SelectItem>
+                    <SelectItem value="partially_refunded">Partially Refunded</SelectItem>
+                    <SelectItem value="refunded">Refunded</SelectItem>
+                  </SelectContent>
+                </Select>
+
                 <Select value={dateFilter} onValueChange={setDateFilter}>
                   <SelectTrigger>
                     <SelectValue placeholder="Filter by date" />
@@ -427,6 +488,7 @@ export default function AdminBookingsPage() {
                     setSearchTerm('')
                     setStatusFilter('all')
                     setDateFilter('all')
+                    setPaymentFilter('all')
                   }}
                 >
                   Clear Filters
@@ -444,11 +506,17 @@ export default function AdminBookingsPage() {
                     <div className="flex flex-col lg:flex-row lg:items-center justify-between">
                       <div className="flex-1">
                         <div className="flex items-center space-x-4 mb-3">
-                          <h3 className="text-lg font-semibold">{booking.game?.name}</h3>
+                          <h3 className="text-lg font-semibold">
+                            {booking.game?.name}
+                            {booking.court && <span className="text-gray-500 font-normal"> · {booking.court.name}</span>}
+                          </h3>
                           <Badge className={getStatusColor(booking.status)}>
                             {booking.status.replace('_', ' ')}
                           </Badge>
-                          {new Date(booking.booking_date) >= new Date(new Date().toDateString()) && (
+                          <Badge className={getPaymentStatusColor(booking.payment_status)}>
+                            {booking.payment_status.replace('_', ' ')}
+                          </Badge>
+                          {booking.booking_date >= today && (
                             <Badge variant="outline" className="text-blue-600 border-blue-600">
                               Upcoming
                             </Badge>
@@ -470,7 +538,7 @@ export default function AdminBookingsPage() {
                           </div>
                           <div className="flex items-center">
                             <Clock className="h-4 w-4 mr-2" />
-                            {booking.start_time} - {booking.end_time}
+                            {formatTimeRange(booking.start_time, booking.end_time)}
                           </div>
                           <div className="flex items-center">
                             <DollarSign className="h-4 w-4 mr-2" />
@@ -484,8 +552,22 @@ export default function AdminBookingsPage() {
                           </p>
                         )}
 
+                        {booking.checked_in_at && (
+                          <p className="text-sm text-green-700 mt-2 flex items-center">
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Checked in at {new Date(booking.checked_in_at).toLocaleTimeString()}
+                          </p>
+                        )}
+
+                        {booking.approval_decision && booking.approval_decision !== 'not_required' && (
+                          <p className="text-xs text-gray-500 mt-2">
+                            {APPROVAL_DECISION_LABELS[booking.approval_decision]}
+                            {booking.approval_rule_name && ` by rule "${booking.approval_rule_name}"`}
+                          </p>
+                        )}
+
                         <p className="text-xs text-gray-500 mt-2">
-                          Booked: {new Date(booking.created_at).toLocaleDateString()}
+                          Booked:{new Date(booking.created_at).toLocaleDateString()}
                         </p>
                       </div>
 
@@ -546,10 +628,35 @@ export default function AdminBookingsPage() {
                           </>
                         )}
 
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setHistoryBookingId(booking.id)}
+                        >
+                          <History className="h-4 w-4 mr-1" />
+                          History
+                        </Button>
+
+                        {booking.status === 'no_show' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-blue-600 border-blue-600 hover:bg-blue-50"
+                            onClick={() => handleMarkCompleted(booking.id)}
+                            disabled={processingId === booking.id}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Mark Completed
+                          </Button>
+                        )}
+
                         {(booking.status === 'canceled' || booking.status === 'no_show' || booking.status === 'completed') && (
                           <div className="text-sm text-gray-500 py-2">
                             {booking.status === 'completed' && 'Booking completed'}
                             {booking.status === 'canceled' && 'Booking cancelled - slot available'}
+                            {booking.status === 'canceled' && booking.refund_percent != null && (
+                              <div>Refund: ₹{booking.refund_amount ?? 0} ({booking.refund_percent}%)</div>
+                            )}
                             {booking.status === 'no_show' && 'No-show - slot available'}
                           </div>
                         )}
@@ -573,6 +680,11 @@ export default function AdminBookingsPage() {
             )}
           </div>
         </div>
+
+        <BookingAuditDialog
+          bookingId={historyBookingId}
+          onOpenChange={(open) => !open && setHistoryBookingId(null)}
+        />
       </div>
     </AuthGuard>
   )
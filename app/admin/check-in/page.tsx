@@ -0,0 +1,143 @@
+'use client'
+
+import { AuthGuard } from '@/components/auth-guard'
+import { Navbar } from '@/components/layout/navbar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Calendar, Clock, User, CheckCircle, XCircle, ScanLine } from 'lucide-react'
+import { useRef, useState } from 'react'
+import { bookingService } from '@/lib/booking-service'
+import type { CheckInResult } from '@/lib/booking-service'
+import { formatTimeRange } from '@/lib/booking-rules'
+import { useToast } from '@/hooks/use-toast'
+import Link from 'next/link'
+
+export default function AdminCheckInPage() {
+  const { toast } = useToast()
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const [code, setCode] = useState('')
+  const [checking, setChecking] = useState(false)
+  const [result, setResult] = useState<CheckInResult | null>(null)
+
+  // QR scanners type the code and press Enter, so this handles scanned and pasted codes alike
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) return
+
+    try {
+      setChecking(true)
+
+      const { data, error } = await bookingService.checkIn(code.trim())
+      if (error || !data) throw error
+
+      setResult(data)
+      setCode('')
+    } catch (error) {
+      console.error('Error checking in booking:', error)
+      toast({
+        title: "Error",
+        description: "Failed to check in booking",
+        variant: "destructive"
+      })
+    } finally {
+      setChecking(false)
+      inputRef.current?.focus()
+    }
+  }
+
+  return (
+    <AuthGuard requireRole="admin">
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+
+        <div className="container mx-auto px-4 py-8 max-w-2xl">
+          <div className="mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">Venue Check-in</h1>
+                <p className="text-gray-600">Scan the QR code on a customer&apos;s booking</p>
+              </div>
+              <Link href="/admin/bookings">
+                <Button variant="outline">
+                  ← Back to Bookings
+                </Button>
+              </Link>
+            </div>
+          </div>
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ScanLine className="mr-2 h-5 w-5" />
+                Scan Code
+              </CardTitle>
+              <CardDescription>
+                Scan with a QR scanner, or paste the code shown under the customer&apos;s QR code.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCheckIn} className="flex space-x-2">
+                <Input
+                  ref={inputRef}
+                  autoFocus
+                  placeholder="Check-in code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+                <Button type="submit" disabled={checking || !code.trim()}>
+                  {checking ? 'Checking...' : 'Check In'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {result?.status === 'invalid' && (
+            <Card className="border-red-300 bg-red-50">
+              <CardContent className="p-6 flex items-center">
+                <XCircle className="h-8 w-8 text-red-600 mr-4" />
+                <div>
+                  <p className="font-semibold text-red-800">Not checked in</p>
+                  <p className="text-sm text-red-700">{result.message}</p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {result?.status === 'checked_in' && (
+            <Card className={result.alreadyCheckedIn ? 'border-yellow-300 bg-yellow-50' : 'border-green-300 bg-green-50'}>
+              <CardContent className="p-6">
+                <div className="flex items-center mb-4">
+                  <CheckCircle className={`h-8 w-8 mr-4 ${result.alreadyCheckedIn ? 'text-yellow-600' : 'text-green-600'}`} />
+                  <div>
+                    <p className="font-semibold">
+                      {result.alreadyCheckedIn ? 'Already checked in' : 'Checked in'}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      at {new Date(result.booking.checked_in_at!).toLocaleTimeString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-gray-700">
+                  <div className="flex items-center">
+                    <User className="h-4 w-4 mr-2" />
+                    {result.booking.profile?.name || 'Unknown user'}
+                  </div>
+                  <div className="flex items-center">
+                    <Calendar className="h-4 w-4 mr-2" />
+                    {result.booking.game?.name || 'Unknown game'} • {new Date(result.booking.booking_date).toLocaleDateString()}
+                  </div>
+                  <div className="flex items-center">
+                    <Clock className="h-4 w-4 mr-2" />
+                    {formatTimeRange(result.booking.start_time, result.booking.end_time)}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </AuthGuard>
+  )
+}
@@ -20,14 +20,21 @@ import {
 } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { bookingService } from '@/lib/booking-service'
+import { BookingStatusError } from '@/lib/booking-status-rules'
+import { formatTimeRange } from '@/lib/booking-rules'
 import { gameService } from '@/lib/game-service'
 import { userService } from '@/lib/user-service'
 import { useToast } from '@/hooks/use-toast'
 import { AddGameModal } from '@/components/admin/add-game-modal'
 import { EditGameModal } from '@/components/admin/edit-game-modal'
 import { DeleteGameDialog } from '@/components/admin/delete-game-dialog'
+import { GameScheduleDialog } from '@/components/admin/game-schedule-dialog'
+import { GameCourtsDialog } from '@/components/admin/game-courts-dialog'
 import { PendingRequestsModal } from '@/components/admin/pending-requests-modal'
 import { SettingsForm } from '@/components/admin/settings-form'
+import { PricingRulesForm } from '@/components/admin/pricing-rules-form'
+import { ApprovalRulesForm } from '@/components/admin/approval-rules-form'
+import { PromoCodesForm } from '@/components/admin/promo-codes-form'
 import Link from 'next/link'
 
 interface BookingWithDetails {
@@ -71,8 +78,12 @@ export default function AdminDashboard() {
   // Modal states
   const [editingGame, setEditingGame] = useState<Game | null>(null)
   const [deletingGame, setDeletingGame] = useState<Game | null>(null)
+  const [schedulingGame, setSchedulingGame] = useState<Game | null>(null)
+  const [courtsGame, setCourtsGame] = useState<Game | null>(null)
   const [editModalOpen, setEditModalOpen] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false)
+  const [courtsDialogOpen, setCourtsDialogOpen] = useState(false)
   const [pendingModalOpen, setPendingModalOpen] = useState(false)
 
   useEffect(() => {
@@ -165,7 +176,7 @@ export default function AdminDashboard() {
       console.error('Error approving booking:', error)
       toast({
         title: "Error",
-        description: "Failed to approve booking",
+        description: error instanceof BookingStatusError ? error.message : "Failed to approve booking",
         variant: "destructive"
       })
     }
@@ -173,7 +184,7 @@ export default function AdminDashboard() {
 
   const handleRejectBooking = async (bookingId: string) => {
     try {
-      const { error } = await bookingService.cancelBooking(bookingId, 'Rejected by admin')
+      const { error } = await bookingService.rejectBooking(bookingId)
       if (error) {
         throw error
       }
@@ -189,7 +200,7 @@ export default function AdminDashboard() {
       console.error('Error rejecting booking:', error)
       toast({
         title: "Error",
-        description: "Failed to reject booking",
+        description: error instanceof BookingStatusError ? error.message : "Failed to reject booking",
         variant: "destructive"
       })
     }
@@ -200,6 +211,16 @@ export default function AdminDashboard() {
     setEditModalOpen(true)
   }
 
+  const handleScheduleGame = (game: Game) => {
+    setSchedulingGame(game)
+    setScheduleDialogOpen(true)
+  }
+
+  const handleManageCourts = (game: Game) => {
+    setCourtsGame(game)
+    setCourtsDialogOpen(true)
+  }
+
   const handleDeleteGame = (game: Game) => {
     setDeletingGame(game)
     setDeleteDialogOpen(true)
@@ -365,7 +386,7 @@ export default function AdminDashboard() {
                           <div>
                             <h3 className="font-semibold">{booking.profile?.name || 'Unknown User'}</h3>
                             <p className="text-sm text-gray-600">
-                              {booking.game?.name || 'Unknown Game'} • {new Date(booking.booking_date).toLocaleDateString()} • {booking.start_time} - {booking.end_time}
+                              {booking.game?.name || 'Unknown Game'} • {new Date(booking.booking_date).toLocaleDateString()} • {formatTimeRange(booking.start_time, booking.end_time)}
                             </p>
                             <p className="text-sm font-medium">₹{booking.total_cost}</p>
                           </div>
@@ -430,7 +451,7 @@ export default function AdminDashboard() {
                           <div>
                             <h3 className="font-semibold">{booking.profile?.name || 'Unknown User'}</h3>
                             <p className="text-sm text-gray-600">
-                              {booking.game?.name || 'Unknown Game'} • {new Date(booking.booking_date).toLocaleDateString()} • {booking.start_time} - {booking.end_time}
+                              {booking.game?.name || 'Unknown Game'} • {new Date(booking.booking_date).toLocaleDateString()} • {formatTimeRange(booking.start_time, booking.end_time)}
                             </p>
                           </div>
                           <div className="flex items-center space-x-3">
@@ -511,6 +532,20 @@ export default function AdminDashboard() {
                               >
                                 Edit
                               </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleScheduleGame(game)}
+                              >
+                                Schedule
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleManageCourts(game)}
+                              >
+                                Courts
+                              </Button>
                               <Button
                                 size="sm"
                                 variant="destructive"
@@ -597,6 +632,9 @@ export default function AdminDashboard() {
 
             <TabsContent value="settings" className="space-y-6">
               <SettingsForm />
+              <ApprovalRulesForm />
+              <PricingRulesForm />
+              <PromoCodesForm />
             </TabsContent>
           </Tabs>
         </div>
@@ -609,6 +647,18 @@ export default function AdminDashboard() {
           onGameUpdated={handleGameUpdated}
         />
 
+        <GameScheduleDialog
+          game={schedulingGame}
+          open={scheduleDialogOpen}
+          onOpenChange={setScheduleDialogOpen}
+        />
+
+        <GameCourtsDialog
+          game={courtsGame}
+          open={courtsDialogOpen}
+          onOpenChange={setCourtsDialogOpen}
+        />
+
         <DeleteGameDialog
           game={deletingGame}
           open={deleteDialogOpen}
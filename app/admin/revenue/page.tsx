@@ -5,7 +5,7 @@ import { Navbar } from '@/components/layout/navbar'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { DollarSign, TrendingUp, Calendar, Trophy, BarChart3, PieChart } from 'lucide-react'
+import { DollarSign, TrendingUp, Calendar, Trophy, BarChart3, PieChart, Tag } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { bookingService } from '@/lib/booking-service'
 import { useToast } from '@/hooks/use-toast'
@@ -13,6 +13,8 @@ import Link from 'next/link'
 
 interface RevenueData {
   totalRevenue: number
+  grossRevenue: number
+  totalDiscounts: number
   monthlyRevenue: number
   weeklyRevenue: number
   dailyRevenue: number
@@ -26,6 +28,12 @@ interface RevenueData {
     revenue: number
     bookings: number
   }>
+  promoRedemptions: Array<{
+    code: string
+    redemptions: number
+    discount: number
+    revenue: number
+  }>
   recentTransactions: Array<{
     id: string
     user_name: string
@@ -147,6 +155,11 @@ export default function AdminRevenuePage() {
                   <div className="ml-4">
                     <p className="text-sm font-medium text-gray-600">Total Revenue</p>
                     <p className="text-2xl font-bold text-gray-900">₹{revenueData.totalRevenue}</p>
+                    {revenueData.totalDiscounts > 0 && (
+                      <p className="text-xs text-gray-500">
+                        ₹{revenueData.grossRevenue} gross - ₹{revenueData.totalDiscounts} discounts
+                      </p>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -265,6 +278,52 @@ export default function AdminRevenuePage() {
             </Card>
           </div>
 
+          {/* Promo Code Redemptions */}
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Tag className="h-5 w-5 mr-2" />
+                Promo Codes
+              </CardTitle>
+              <CardDescription>Gross vs. net revenue and redemptions per code</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">Gross Revenue</p>
+                  <p className="text-xl font-bold">₹{revenueData.grossRevenue}</p>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">Discounts</p>
+                  <p className="text-xl font-bold text-red-600">-₹{revenueData.totalDiscounts}</p>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">Net Revenue</p>
+                  <p className="text-xl font-bold text-green-600">₹{revenueData.totalRevenue}</p>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {revenueData.promoRedemptions.length > 0 ? (
+                  revenueData.promoRedemptions.map((promo) => (
+                    <div key={promo.code} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium font-mono">{promo.code}</p>
+                        <p className="text-sm text-gray-600">{promo.redemptions} redemption{promo.redemptions !== 1 ? 's' : ''}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-bold">₹{promo.revenue}</p>
+                        <p className="text-xs text-red-600">-₹{promo.discount} discount</p>
+                      </div>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-center text-gray-600 py-4">No promo codes redeemed in this period</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Recent Transactions */}
           <Card>
             <CardHeader>
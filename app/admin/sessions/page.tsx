@@ -0,0 +1,445 @@
+'use client'
+
+import { AuthGuard } from '@/components/auth-guard'
+import { Navbar } from '@/components/layout/navbar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Calendar, Clock, DollarSign, Users, XCircle } from 'lucide-react'
+import { useAuth } from '@/hooks/use-auth'
+import { useEffect, useState } from 'react'
+import { gameService } from '@/lib/game-service'
+import { sessionService, OpenSessionWithDetails, SessionSeat } from '@/lib/session-service'
+import { formatTimeRange } from '@/lib/booking-rules'
+import type { Database } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { useVenueTime } from '@/hooks/use-venue-time'
+import Link from 'next/link'
+
+type Game = Database['public']['Tables']['games']['Row']
+type GameCourt = Database['public']['Tables']['game_courts']['Row']
+
+const EMPTY_FORM = {
+  gameId: '',
+  courtId: '',
+  title: '',
+  date: '',
+  startTime: '',
+  endTime: '',
+  pricePerSeat: '',
+  notes: ''
+}
+
+export default function AdminSessionsPage() {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const { today } = useVenueTime()
+
+  const [games, setGames] = useState<Game[]>([])
+  const [courts, setCourts] = useState<GameCourt[]>([])
+  const [sessions, setSessions] = useState<OpenSessionWithDetails[]>([])
+  const [loading, setLoading] = useState(true)
+  const [publishing, setPublishing] = useState(false)
+  const [formData, setFormData] = useState(EMPTY_FORM)
+  const [rosterSessionId, setRosterSessionId] = useState<string | null>(null)
+  const [roster, setRoster] = useState<SessionSeat[]>([])
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+      const [gamesResult, sessionsResult] = await Promise.all([
+        gameService.getAllGames(),
+        sessionService.getUpcomingSessions()
+      ])
+
+      if (gamesResult.error) throw gamesResult.error
+      if (sessionsResult.error) throw sessionsResult.error
+
+      setGames(gamesResult.data || [])
+      setSessions(sessionsResult.data || [])
+    } catch (error) {
+      console.error('Error fetching open sessions:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load open sessions",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleGameSelect = async (gameId: string) => {
+    setFormData(prev => ({ ...prev, gameId, courtId: '' }))
+
+    const { data, error } = await gameService.getCourts(gameId, { activeOnly: true })
+    if (error) {
+      console.error('Error fetching courts:', error)
+      return
+    }
+    setCourts(data || [])
+  }
+
+  // Suggest splitting the hourly court price evenly across a full session
+  const getSuggestedSeatPrice = () => {
+    const game = games.find(g => g.id === formData.gameId)
+    if (!game || !formData.startTime || !formData.endTime || game.max_players <= 0) return null
+
+    const start = new Date(`2000-01-01T${formData.startTime}`)
+    const end = new Date(`2000-01-01T${formData.endTime}`)
+    const hours = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
+    if (hours <= 0) return null
+
+    return Math.round((game.price_per_hour * hours) / game.max_players)
+  }
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    if (!formData.gameId || !formData.courtId || !formData.title.trim() || !formData.date ||
+        !formData.startTime || !formData.endTime || formData.pricePerSeat === '') {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields",
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (formData.startTime >= formData.endTime) {
+      toast({
+        title: "Error",
+        description: "End time must be after start time",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setPublishing(true)
+
+      const { error } = await sessionService.createSession({
+        game_id: formData.gameId,
+        court_id: formData.courtId,
+        title: formData.title.trim(),
+        session_date: formData.date,
+        start_time: formData.startTime,
+        end_time: formData.endTime,
+        price_per_seat: Number(formData.pricePerSeat),
+        notes: formData.notes.trim() || null,
+        created_by: user.id
+      })
+
+      if (error) throw error
+
+      toast({
+        title: "Success",
+        description: "Open session published"
+      })
+      setFormData(EMPTY_FORM)
+      setCourts([])
+      fetchData()
+    } catch (error: any) {
+      console.error('Error publishing open session:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to publish open session",
+        variant: "destructive"
+      })
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const handleToggleRoster = async (sessionId: string) => {
+    if (rosterSessionId === sessionId) {
+      setRosterSessionId(null)
+      return
+    }
+
+    const { data, error } = await sessionService.getRoster(sessionId)
+    if (error) {
+      console.error('Error fetching roster:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load roster",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setRoster(data || [])
+    setRosterSessionId(sessionId)
+  }
+
+  const handleCancelSession = async (session: OpenSessionWithDetails) => {
+    if (!confirm(`Cancel "${session.title}"? Every booked seat will be cancelled.`)) return
+
+    const { error } = await sessionService.cancelSession(session.id)
+    if (error) {
+      console.error('Error cancelling open session:', error)
+      toast({
+        title: "Error",
+        description: "Failed to cancel open session",
+        variant: "destructive"
+      })
+      return
+    }
+
+    toast({
+      title: "Success",
+      description: "Open session cancelled"
+    })
+    if (rosterSessionId === session.id) {
+      setRosterSessionId(null)
+    }
+    fetchData()
+  }
+
+  const suggestedPrice = getSuggestedSeatPrice()
+
+  return (
+    <AuthGuard requireRole="admin">
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">Open Sessions</h1>
+                <p className="text-gray-600">Publish shared sessions that players book seat by seat</p>
+              </div>
+              <Link href="/admin/bookings">
+                <Button variant="outline">
+                  ← Back to Bookings
+                </Button>
+              </Link>
+            </div>
+          </div>
+
+          <div className="grid lg:grid-cols-3 gap-8">
+            {/* Publish form */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Publish Session</CardTitle>
+                <CardDescription>The session takes its court for the whole window</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handlePublish} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="title">Title *</Label>
+                    <Input
+                      id="title"
+                      placeholder="e.g., Open nets"
+                      value={formData.title}
+                      onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Game *</Label>
+                    <Select value={formData.gameId} onValueChange={handleGameSelect}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a game" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {games.map((game) => (
+                          <SelectItem key={game.id} value={game.id}>
+                            {game.name} (up to {game.max_players} players)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Court *</Label>
+                    <Select
+                      value={formData.courtId}
+                      onValueChange={(courtId) => setFormData(prev => ({ ...prev, courtId }))}
+                      disabled={courts.length === 0}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a court" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {courts.map((court) => (
+                          <SelectItem key={court.id} value={court.id}>
+                            {court.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Date *</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      min={today}
+                      value={formData.date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="startTime">Start *</Label>
+                      <Input
+                        id="startTime"
+                        type="time"
+                        value={formData.startTime}
+                        onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="endTime">End *</Label>
+                      <Input
+                        id="endTime"
+                        type="time"
+                        value={formData.endTime}
+                        onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="pricePerSeat">Price per Seat (₹) *</Label>
+                    <Input
+                      id="pricePerSeat"
+                      type="number"
+                      min="0"
+                      value={formData.pricePerSeat}
+                      onChange={(e) => setFormData(prev => ({ ...prev, pricePerSeat: e.target.value }))}
+                    />
+                    {suggestedPrice !== null && (
+                      <p className="text-xs text-gray-500">
+                        Court price split across a full session: ₹{suggestedPrice}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes</Label>
+                    <Input
+                      id="notes"
+                      placeholder="Shown to players"
+                      value={formData.notes}
+                      onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                    />
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={publishing}>
+                    {publishing ? 'Publishing...' : 'Publish Session'}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Upcoming sessions */}
+            <div className="lg:col-span-2 space-y-4">
+              {loading ? (
+                [1, 2].map((i) => (
+                  <Card key={i} className="animate-pulse">
+                    <CardContent className="p-6">
+                      <div className="h-6 bg-gray-200 rounded w-48 mb-2"></div>
+                      <div className="h-4 bg-gray-200 rounded w-64"></div>
+                    </CardContent>
+                  </Card>
+                ))
+              ) : sessions.length === 0 ? (
+                <Card>
+                  <CardContent className="text-center py-12">
+                    <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-600">No upcoming open sessions</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                sessions.map((session) => (
+                  <Card key={session.id}>
+                    <CardContent className="p-6">
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-1">
+                          <div className="flex items-center space-x-2">
+                            <h3 className="font-semibold text-lg">{session.title}</h3>
+                            <Badge variant="outline">
+                              {session.seatsTaken}/{session.game.max_players} seats
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            {session.game.name}{session.court && ` · ${session.court.name}`}
+                          </p>
+                          <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                            <span className="flex items-center">
+                              <Calendar className="h-4 w-4 mr-1" />
+                              {new Date(`${session.session_date}T00:00:00`).toLocaleDateString()}
+                            </span>
+                            <span className="flex items-center">
+                              <Clock className="h-4 w-4 mr-1" />
+                              {formatTimeRange(session.start_time, session.end_time)}
+                            </span>
+                            <span className="flex items-center">
+                              <DollarSign className="h-4 w-4 mr-1" />
+                              ₹{session.price_per_seat} per seat
+                            </span>
+                          </div>
+                        </div>
+                        <div className="flex space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => handleToggleRoster(session.id)}>
+                            <Users className="h-4 w-4 mr-1" />
+                            {rosterSessionId === session.id ? 'Hide Roster' : 'Roster'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => handleCancelSession(session)}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+
+                      {rosterSessionId === session.id && (
+                        <div className="mt-4 border-t pt-4">
+                          {roster.length === 0 ? (
+                            <p className="text-sm text-gray-500">No seats booked yet</p>
+                          ) : (
+                            <div className="space-y-2">
+                              {roster.map((seat) => (
+                                <div key={seat.id} className="flex items-center justify-between text-sm">
+                                  <div>
+                                    <span className="font-medium">{seat.user?.name || 'Unknown player'}</span>
+                                    {seat.user?.email && <span className="text-gray-500"> · {seat.user.email}</span>}
+                                  </div>
+                                  <Badge variant="outline" className="capitalize">
+                                    {seat.status.replace('_', ' ')}
+                                  </Badge>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </AuthGuard>
+  )
+}
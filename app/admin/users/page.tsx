@@ -7,9 +7,15 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Users, Search, Filter, Mail, Calendar, Activity, UserCheck, UserX } from 'lucide-react'
+import { Users, Search, Filter, Mail, Calendar, Activity, UserCheck, UserX, History, KeyRound, UserPlus, Shield } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { userService } from '@/lib/user-service'
+import type { AdminInviteWithPeople } from '@/lib/user-service'
+import { getInviteStatus } from '@/lib/invite-rules'
+import { useAuth } from '@/hooks/use-auth'
+import { AccountAuditDialog } from '@/components/admin/account-audit-dialog'
+import { ForcePasswordResetDialog } from '@/components/admin/force-password-reset-dialog'
+import { AdminInviteDialog } from '@/components/admin/admin-invite-dialog'
 import { useToast } from '@/hooks/use-toast'
 import Link from 'next/link'
 
@@ -22,6 +28,7 @@ interface UserWithStats {
   last_sign_in_at?: string
   email_verified?: boolean
   phone_verified?: boolean
+  password_reset_required?: boolean
   totalBookings?: number
   totalSpent?: number
   lastBooking?: string
@@ -29,6 +36,7 @@ interface UserWithStats {
 
 export default function AdminUsersPage() {
   const { toast } = useToast()
+  const { user: currentUser } = useAuth()
   
   const [users, setUsers] = useState<UserWithStats[]>([])
   const [filteredUsers, setFilteredUsers] = useState<UserWithStats[]>([])
@@ -36,9 +44,15 @@ export default function AdminUsersPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [roleFilter, setRoleFilter] = useState('all')
   const [statusFilter, setStatusFilter] = useState('all')
+  const [historyUser, setHistoryUser] = useState<UserWithStats | null>(null)
+  const [resetUser, setResetUser] = useState<UserWithStats | null>(null)
+  const [invites, setInvites] = useState<AdminInviteWithPeople[]>([])
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false)
+  const [updatingRoleId, setUpdatingRoleId] = useState<string | null>(null)
 
   useEffect(() => {
     fetchAllUsers()
+    fetchInvites()
   }, [])
 
   useEffect(() => {
@@ -65,6 +79,76 @@ export default function AdminUsersPage() {
     }
   }
 
+  const fetchInvites = async () => {
+    const { data, error } = await userService.getAdminInvites()
+    if (error) {
+      console.error('Error fetching invites:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load admin invites",
+        variant: "destructive"
+      })
+      return
+    }
+    setInvites(data || [])
+  }
+
+  const handleRoleChange = async (user: UserWithStats) => {
+    const role = user.role === 'admin' ? 'user' : 'admin'
+    const action = role === 'admin' ? `Make ${user.name} an admin?` : `Remove admin access from ${user.name}?`
+    if (!confirm(action)) return
+
+    try {
+      setUpdatingRoleId(user.id)
+
+      const { data, error } = await userService.updateUserRole(user.id, role)
+      if (error) throw error
+
+      if (data?.status === 'invalid') {
+        toast({
+          title: "Role not changed",
+          description: data.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      toast({
+        title: "Role updated",
+        description: role === 'admin' ? `${user.name} is now an admin` : `${user.name} is now a regular user`
+      })
+      fetchAllUsers()
+    } catch (error) {
+      console.error('Error changing role:', error)
+      toast({
+        title: "Error",
+        description: "Failed to change the role",
+        variant: "destructive"
+      })
+    } finally {
+      setUpdatingRoleId(null)
+    }
+  }
+
+  const handleRevokeInvite = async (invite: AdminInviteWithPeople) => {
+    if (!confirm('Withdraw this invite? Its link will stop working.')) return
+
+    const { data, error } = await userService.revokeAdminInvite(invite.id)
+    if (error || data?.status === 'invalid') {
+      toast({
+        title: "Invite not withdrawn",
+        description: data?.status === 'invalid' ? data.message : 'Failed to withdraw the invite',
+        variant: "destructive"
+      })
+    } else {
+      toast({
+        title: "Invite withdrawn",
+        description: "The invite link no longer works"
+      })
+    }
+    fetchInvites()
+  }
+
   const filterUsers = () => {
     let filtered = [...users]
 
@@ -154,6 +238,7 @@ export default function AdminUsersPage() {
   }
 
   const stats = getUserStats()
+  const pendingInvites = invites.filter(invite => getInviteStatus(invite, new Date()) === 'pending')
 
   return (
     <AuthGuard requireRole="admin">
@@ -167,11 +252,17 @@ export default function AdminUsersPage() {
                 <h1 className="text-3xl font-bold text-gray-900 mb-2">Users Management</h1>
                 <p className="text-gray-600">Manage and monitor all platform users</p>
               </div>
-              <Link href="/admin">
-                <Button variant="outline">
-                  ← Back to Dashboard
+              <div className="flex space-x-4">
+                <Button onClick={() => setInviteDialogOpen(true)}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Invite Admin
                 </Button>
-              </Link>
+                <Link href="/admin">
+                  <Button variant="outline">
+                    ← Back to Dashboard
+                  </Button>
+                </Link>
+              </div>
             </div>
           </div>
 
@@ -281,6 +372,36 @@ export default function AdminUsersPage() {
             </CardContent>
           </Card>
 
+          {/* Pending Invites */}
+          {pendingInvites.length > 0 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-lg">Pending Admin Invites</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {pendingInvites.map((invite) => (
+                  <div key={invite.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 border rounded-lg p-3">
+                    <div className="text-sm">
+                      <p className="font-medium">{invite.phone ? `For ${invite.phone}` : 'Anyone with the link'}</p>
+                      {invite.note && <p className="text-gray-800">{invite.note}</p>}
+                      <p className="text-gray-500">
+                        Created by {invite.creator?.name || 'a former admin'} on {new Date(invite.created_at).toLocaleDateString()} • Expires {new Date(invite.expires_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => handleRevokeInvite(invite)}
+                    >
+                      Withdraw
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Users List */}
           <div className="space-y-4">
             {filteredUsers.length > 0 ? (
@@ -312,6 +433,11 @@ export default function AdminUsersPage() {
                                   Verified
                                 </Badge>
                               )}
+                              {user.password_reset_required && (
+                                <Badge className="bg-orange-100 text-orange-800">
+                                  Password Reset Pending
+                                </Badge>
+                              )}
                             </div>
                           </div>
                           
@@ -340,6 +466,35 @@ export default function AdminUsersPage() {
                             </p>
                           )}
                         </div>
+
+                        <div className="flex space-x-2 mt-4 lg:mt-0 lg:ml-6">
+                          <Button variant="outline" size="sm" onClick={() => setHistoryUser(user)}>
+                            <History className="h-4 w-4 mr-1" />
+                            History
+                          </Button>
+                          {user.id !== currentUser?.id && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRoleChange(user)}
+                                disabled={updatingRoleId === user.id}
+                              >
+                                <Shield className="h-4 w-4 mr-1" />
+                                {user.role === 'admin' ? 'Remove Admin' : 'Make Admin'}
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => setResetUser(user)}
+                              >
+                                <KeyRound className="h-4 w-4 mr-1" />
+                                Force Reset
+                              </Button>
+                            </>
+                          )}
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -360,6 +515,23 @@ export default function AdminUsersPage() {
             )}
           </div>
         </div>
+
+        <AccountAuditDialog
+          user={historyUser}
+          onOpenChange={(open) => !open && setHistoryUser(null)}
+        />
+
+        <ForcePasswordResetDialog
+          user={resetUser}
+          onOpenChange={(open) => !open && setResetUser(null)}
+          onReset={fetchAllUsers}
+        />
+
+        <AdminInviteDialog
+          open={inviteDialogOpen}
+          onOpenChange={setInviteDialogOpen}
+          onCreated={fetchInvites}
+        />
       </div>
     </AuthGuard>
   )
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findProfileByPhone, sendPhoneOtp } from '@/lib/phone-otp-server'
+import { checkPasswordResetLimit, PASSWORD_RESET_REQUIRED_MESSAGE } from '@/lib/account-server'
+import { normalizePhone, OTP_RESEND_COOLDOWN_SECONDS } from '@/lib/phone-rules'
+import type { OtpPurpose } from '@/lib/phone-rules'
+import type { SendPhoneCodeResult } from '@/lib/auth'
+
+function invalid(message: string) {
+  const result: SendPhoneCodeResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Text a one-time code to a phone number. Signing in and resetting a password
+// need an account with that number; signing up needs the number to be free.
+export async function POST(request: NextRequest) {
+  try {
+    const { phone: input, purpose } = await request.json() as { phone?: string; purpose?: OtpPurpose }
+
+    if (purpose !== 'sign_in' && purpose !== 'sign_up' && purpose !== 'password_reset') {
+      return invalid('Unknown verification purpose')
+    }
+
+    const phone = normalizePhone(input || '')
+    if (!phone) {
+      return invalid('Please enter a valid phone number')
+    }
+
+    const profile = await findProfileByPhone(phone)
+    if (purpose !== 'sign_up' && !profile) {
+      return invalid('No account uses this phone number. Sign up to create one.')
+    }
+    if (purpose === 'sign_up' && profile) {
+      return invalid('An account already uses this phone number. Sign in instead.')
+    }
+
+    if (purpose === 'sign_in' && profile!.password_reset_required) {
+      return invalid(PASSWORD_RESET_REQUIRED_MESSAGE)
+    }
+
+    if (purpose === 'password_reset') {
+      const limited = await checkPasswordResetLimit(profile!.id)
+      if (limited) {
+        const result: SendPhoneCodeResult = { status: 'rate_limited', message: limited }
+        return NextResponse.json(result, { status: 429 })
+      }
+    }
+
+    const limited = await sendPhoneOtp(phone, purpose)
+    if (limited) {
+      const result: SendPhoneCodeResult = { status: 'rate_limited', message: limited }
+      return NextResponse.json(result, { status: 429 })
+    }
+
+    const result: SendPhoneCodeResult = { status: 'sent', phone, resendAfterSeconds: OTP_RESEND_COOLDOWN_SECONDS }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error sending phone code:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import {
+  createSignInToken,
+  findProfileByPhone,
+  markPhoneVerified,
+  verifyPhoneOtp
+} from '@/lib/phone-otp-server'
+import {
+  checkPasswordResetLimit,
+  recordAccountEvent,
+  setAccountPassword,
+  PASSWORD_RESET_REQUIRED_MESSAGE
+} from '@/lib/account-server'
+import { getAccountEmail, MIN_PASSWORD_LENGTH, normalizePhone } from '@/lib/phone-rules'
+import type { VerifyPhoneCodeRequest, VerifyPhoneCodeResult } from '@/lib/auth'
+
+function invalid(message: string) {
+  const result: VerifyPhoneCodeResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Check a texted code and hand back a token the browser exchanges for a
+// session. Signing up creates the account only once its number is proven, and
+// a password reset sets the new password before signing the user in.
+export async function POST(request: NextRequest) {
+  try {
+    const { phone: input, purpose, code, name, password } = await request.json() as Partial<VerifyPhoneCodeRequest>
+
+    if (purpose !== 'sign_in' && purpose !== 'sign_up' && purpose !== 'password_reset') {
+      return invalid('Unknown verification purpose')
+    }
+
+    const phone = normalizePhone(input || '')
+    if (!phone) {
+      return invalid('Please enter a valid phone number')
+    }
+
+    if (!code) {
+      return invalid('Enter the code we sent to your phone')
+    }
+
+    if (purpose === 'sign_up' && !name?.trim()) {
+      return invalid('Please enter your name')
+    }
+    if (purpose !== 'sign_in' && (!password || password.length < MIN_PASSWORD_LENGTH)) {
+      return invalid(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`)
+    }
+
+    const rejected = await verifyPhoneOtp(phone, purpose, code)
+    if (rejected) {
+      return invalid(rejected)
+    }
+
+    const existing = await findProfileByPhone(phone)
+    let email: string
+
+    if (purpose !== 'sign_up') {
+      if (!existing) {
+        return invalid('No account uses this phone number. Sign up to create one.')
+      }
+
+      if (purpose === 'sign_in' && existing.password_reset_required) {
+        return invalid(PASSWORD_RESET_REQUIRED_MESSAGE)
+      }
+
+      if (purpose === 'password_reset') {
+        const limited = await checkPasswordResetLimit(existing.id)
+        if (limited) {
+          return invalid(limited)
+        }
+      }
+
+      email = await markPhoneVerified(existing, phone)
+
+      if (purpose === 'password_reset') {
+        await setAccountPassword(existing.id, password!)
+        await recordAccountEvent({
+          user_id: existing.id,
+          action: 'password_reset',
+          actor_id: existing.id,
+          notes: `Reset with a code sent to ${phone}`
+        })
+      }
+    } else {
+      if (existing) {
+        return invalid('An account already uses this phone number. Sign in instead.')
+      }
+
+      email = getAccountEmail(phone)
+      const { data, error } = await supabaseAdmin.auth.admin.createUser({
+        email,
+        password,
+        email_confirm: true,
+        user_metadata: { name: name!.trim(), phone }
+      })
+
+      if (error) throw error
+
+      const { error: profileError } = await supabaseAdmin
+        .from('profiles')
+        .update({ phone_verified_at: new Date().toISOString() })
+        .eq('id', data.user.id)
+
+      if (profileError) throw profileError
+    }
+
+    const result: VerifyPhoneCodeResult = { status: 'verified', tokenHash: await createSignInToken(email) }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error verifying phone code:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
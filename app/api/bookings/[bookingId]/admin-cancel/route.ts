@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { cancelBookingWithRefund, getServerSettings } from '@/lib/booking-server'
+import { quoteAdminCancellation } from '@/lib/cancellation-rules'
+import { checkStatusTransition } from '@/lib/booking-status-rules'
+import { notifyBooking } from '@/lib/notification-server'
+import { getPaidAmount } from '@/lib/payment-server'
+import type { CancelBookingResult } from '@/lib/booking-service'
+
+function invalid(message: string) {
+  const result: CancelBookingResult = { status: 'invalid', message, errors: [message] }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Cancel or reject any booking (admin only). The user gets back everything they
+// paid, since the venue called it off.
+export async function POST(request: NextRequest, { params }: { params: { bookingId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdminUser(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { reason, reject } = await request.json() as { reason?: string; reject?: boolean }
+
+    const { data: booking, error } = await supabaseAdmin
+      .from('bookings')
+      .select('*')
+      .eq('id', params.bookingId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    const settings = await getServerSettings()
+    const now = new Date()
+
+    const transitionError = checkStatusTransition(booking, 'canceled', now, settings.venue_timezone)
+    if (transitionError) {
+      return invalid(transitionError.message)
+    }
+
+    const notes = reason || (reject ? 'Rejected by admin' : 'Cancelled by admin')
+    const quote = quoteAdminCancellation(booking, settings.venue_timezone, now, await getPaidAmount(booking.id))
+
+    const canceled = await cancelBookingWithRefund(booking, quote, notes, user.id)
+    if (!canceled) {
+      return invalid('This booking was changed by someone else. Refresh and try again.')
+    }
+
+    await notifyBooking(canceled.id, reject ? 'booking_rejected' : 'booking_cancelled', {
+      reason: notes,
+      refundAmount: quote.refundAmount
+    })
+
+    const result: CancelBookingResult = { status: 'canceled', booking: canceled, refundAmount: quote.refundAmount }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error cancelling booking as admin:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
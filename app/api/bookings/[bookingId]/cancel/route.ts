@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import { cancelBookingWithRefund, getServerSettings } from '@/lib/booking-server'
+import { quoteCancellation } from '@/lib/cancellation-rules'
+import { notifyBooking } from '@/lib/notification-server'
+import { getPaidAmount } from '@/lib/payment-server'
+import type { CancellationQuote } from '@/lib/cancellation-rules'
+import type { CancelBookingResult } from '@/lib/booking-service'
+
+function invalid(message: string) {
+  const result: CancelBookingResult = { status: 'invalid', message, errors: [message] }
+  return NextResponse.json(result, { status: 422 })
+}
+
+async function getOwnBooking(bookingId: string, userId: string) {
+  const { data: booking, error } = await supabaseAdmin
+    .from('bookings')
+    .select('*')
+    .eq('id', bookingId)
+    .maybeSingle()
+
+  if (error) throw error
+  return booking && booking.user_id === userId ? booking : null
+}
+
+// Quote the refund for cancelling one of the signed-in user's bookings now
+export async function GET(request: NextRequest, { params }: { params: { bookingId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const booking = await getOwnBooking(params.bookingId, user.id)
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      const quote: CancellationQuote = {
+        allowed: false,
+        reason: 'This booking can no longer be cancelled',
+        hoursBefore: 0,
+        refundPercent: 0,
+        refundAmount: 0
+      }
+      return NextResponse.json(quote)
+    }
+
+    const settings = await getServerSettings()
+    return NextResponse.json(quoteCancellation(booking, settings, new Date(), await getPaidAmount(booking.id)))
+  } catch (error) {
+    console.error('Error quoting cancellation:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Cancel one of the signed-in user's bookings under the cancellation policy
+export async function POST(request: NextRequest, { params }: { params: { bookingId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { reason } = await request.json() as { reason?: string }
+
+    const booking = await getOwnBooking(params.bookingId, user.id)
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      return invalid('This booking can no longer be cancelled')
+    }
+
+    const settings = await getServerSettings()
+    const quote = quoteCancellation(booking, settings, new Date(), await getPaidAmount(booking.id))
+    if (!quote.allowed) {
+      return invalid(quote.reason || 'This booking can no longer be cancelled')
+    }
+
+    const canceled = await cancelBookingWithRefund(booking, quote, reason || 'Cancelled by user', user.id)
+    if (!canceled) {
+      return invalid('This booking can no longer be cancelled')
+    }
+
+    await notifyBooking(canceled.id, 'booking_cancelled')
+
+    const result: CancelBookingResult = { status: 'canceled', booking: canceled, refundAmount: quote.refundAmount }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error cancelling booking:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
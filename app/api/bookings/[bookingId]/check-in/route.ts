@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import { createCheckInToken } from '@/lib/check-in-token'
+import type { CheckInCodeResult } from '@/lib/booking-service'
+
+function invalid(message: string) {
+  const result: CheckInCodeResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Issue the check-in code for one of the signed-in user's confirmed bookings
+export async function GET(request: NextRequest, { params }: { params: { bookingId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking, error } = await supabaseAdmin
+      .from('bookings')
+      .select('*')
+      .eq('id', params.bookingId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!booking || booking.user_id !== user.id) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (booking.status !== 'confirmed') {
+      return invalid('Only confirmed bookings can be checked in')
+    }
+
+    const result: CheckInCodeResult = { status: 'issued', token: createCheckInToken(booking) }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error issuing check-in code:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import type { RespondToInvitationResult } from '@/lib/booking-service'
+
+function invalid(message: string) {
+  const result: RespondToInvitationResult = { status: 'invalid', message, errors: [message] }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Accept or decline an invitation to a booking as the invited player.
+// Declining after accepting leaves the booking and frees the place.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { bookingId: string; participantId: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { response } = await request.json() as { response: 'accept' | 'decline' }
+    if (response !== 'accept' && response !== 'decline') {
+      return invalid('Respond with accept or decline')
+    }
+
+    const { data: participant, error } = await supabaseAdmin
+      .from('booking_participants')
+      .select(`
+        *,
+        booking:bookings(status)
+      `)
+      .eq('id', params.participantId)
+      .eq('booking_id', params.bookingId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!participant || participant.user_id !== user.id) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+    }
+
+    if (!participant.booking || !['pending', 'confirmed'].includes(participant.booking.status)) {
+      return invalid('This booking is no longer active')
+    }
+
+    if (response === 'accept' && participant.status !== 'invited') {
+      return invalid(participant.status === 'accepted'
+        ? 'You have already accepted this invitation'
+        : 'This invitation was declined. Ask the organiser to invite you again.')
+    }
+
+    if (response === 'decline' && participant.status === 'declined') {
+      return invalid('You have already declined this invitation')
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('booking_participants')
+      .update({
+        status: response === 'accept' ? 'accepted' : 'declined',
+        responded_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', participant.id)
+      .select()
+      .single()
+
+    if (updateError) throw updateError
+
+    const result: RespondToInvitationResult = { status: 'responded', participant: updated }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error responding to invitation:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,266 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { getServerSettings, PARTICIPANT_LIMIT_CODE } from '@/lib/booking-server'
+import { holdsRosterPlace, splitBookingCost, validateCustomShares } from '@/lib/cost-split-rules'
+import { getPhoneVariants, normalizePhone } from '@/lib/phone-rules'
+import { getVenueToday } from '@/lib/venue-time'
+import { notifyBooking } from '@/lib/notification-server'
+import type { SplitMode } from '@/lib/cost-split-rules'
+import type {
+  BookingParticipantWithProfile,
+  BookingRoster,
+  InviteParticipantResult,
+  UpdateCostSplitResult
+} from '@/lib/booking-service'
+
+function invalid(message: string, errors: string[] = [message]) {
+  const result: InviteParticipantResult | UpdateCostSplitResult = { status: 'invalid', message, errors }
+  return NextResponse.json(result, { status: 422 })
+}
+
+async function getBooking(bookingId: string) {
+  const { data: booking, error } = await supabaseAdmin
+    .from('bookings')
+    .select(`
+      *,
+      game:games(max_players),
+      profile:profiles(id, name)
+    `)
+    .eq('id', bookingId)
+    .maybeSingle()
+
+  if (error) throw error
+  return booking
+}
+
+async function getParticipants(bookingId: string): Promise<BookingParticipantWithProfile[]> {
+  const { data, error } = await supabaseAdmin
+    .from('booking_participants')
+    .select(`
+      *,
+      profile:profiles(name, phone)
+    `)
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as unknown as BookingParticipantWithProfile[]
+}
+
+// Only upcoming, active court bookings take players; seats in open sessions are per player already
+function getInviteError(booking: { status: string; session_id: string | null; booking_date: string }, today: string): string | null {
+  if (!['pending', 'confirmed'].includes(booking.status)) {
+    return 'Players can only be invited to pending or confirmed bookings'
+  }
+  if (booking.session_id) {
+    return 'Seats in an open session cannot be shared'
+  }
+  if (booking.booking_date < today) {
+    return 'This booking has already taken place'
+  }
+  return null
+}
+
+// The players of a booking and everyone's share of its cost, for its organiser,
+// its invited or accepted players, and admins
+export async function GET(request: NextRequest, { params }: { params: { bookingId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const booking = await getBooking(params.bookingId)
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    const participants = await getParticipants(booking.id)
+    const isMember = booking.user_id === user.id ||
+      participants.some(p => p.user_id === user.id && holdsRosterPlace(p.status))
+
+    if (!isMember && !(await isAdminUser(user.id))) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    const result: BookingRoster = {
+      organiser: { id: booking.user_id, name: booking.profile?.name || 'Organiser' },
+      totalCost: booking.total_cost,
+      maxPlayers: booking.game?.max_players || 1,
+      splitMode: booking.split_mode,
+      participants,
+      split: splitBookingCost(booking.total_cost, booking.split_mode, participants)
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching booking players:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Invite a registered user to one of the signed-in user's bookings by phone number
+export async function POST(request: NextRequest, { params }: { params: { bookingId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { phone } = await request.json() as { phone?: string }
+
+    const booking = await getBooking(params.bookingId)
+    if (!booking || booking.user_id !== user.id) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    const settings = await getServerSettings()
+    const inviteError = getInviteError(booking, getVenueToday(settings.venue_timezone))
+    if (inviteError) {
+      return invalid(inviteError)
+    }
+
+    const normalized = normalizePhone(phone || '')
+    if (!normalized) {
+      return invalid('Enter the phone number of the player to invite')
+    }
+
+    // Verified numbers are stored in E.164 form; older ones as they were entered
+    const { data: invitee, error: inviteeError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, name')
+      .in('phone', [phone!.trim(), ...getPhoneVariants(normalized)])
+      .limit(1)
+      .maybeSingle()
+
+    if (inviteeError) throw inviteeError
+    if (!invitee) {
+      return invalid('No registered player has that phone number')
+    }
+    if (invitee.id === user.id) {
+      return invalid('You are already the organiser of this booking')
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('booking_participants')
+      .select('*')
+      .eq('booking_id', booking.id)
+      .eq('user_id', invitee.id)
+      .maybeSingle()
+
+    if (existingError) throw existingError
+    if (existing && holdsRosterPlace(existing.status)) {
+      return invalid(`${invitee.name} has already been invited`)
+    }
+
+    // A player who declined can be invited again
+    const { data: participant, error: inviteWriteError } = existing
+      ? await supabaseAdmin
+          .from('booking_participants')
+          .update({
+            status: 'invited',
+            invited_by: user.id,
+            responded_at: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabaseAdmin
+          .from('booking_participants')
+          .insert([{ booking_id: booking.id, user_id: invitee.id, invited_by: user.id }])
+          .select()
+          .single()
+
+    if (inviteWriteError?.code === PARTICIPANT_LIMIT_CODE) {
+      const maxPlayers = booking.game?.max_players || 1
+      return invalid(`This game allows at most ${maxPlayers} player${maxPlayers !== 1 ? 's' : ''} per booking`)
+    }
+
+    if (inviteWriteError) throw inviteWriteError
+
+    await notifyBooking(booking.id, 'booking_invitation', { organiserName: booking.profile?.name }, invitee.id)
+
+    const result: InviteParticipantResult = { status: 'invited', participant }
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error inviting player:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Split the cost of one of the signed-in user's bookings equally or by custom shares
+export async function PUT(request: NextRequest, { params }: { params: { bookingId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { splitMode, shares = {} } = await request.json() as {
+      splitMode: SplitMode
+      shares?: Record<string, number>
+    }
+
+    if (splitMode !== 'equal' && splitMode !== 'custom') {
+      return invalid('Unknown split mode')
+    }
+
+    const booking = await getBooking(params.bookingId)
+    if (!booking || booking.user_id !== user.id) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      return invalid('The cost split can only be changed for pending or confirmed bookings')
+    }
+
+    const participants = await getParticipants(booking.id)
+    const players = participants.filter(p => holdsRosterPlace(p.status))
+
+    if (splitMode === 'custom') {
+      if (Object.keys(shares).some(id => !players.some(p => p.id === id))) {
+        return invalid('Shares can only be set for invited or accepted players')
+      }
+
+      const errors = validateCustomShares(booking.total_cost, players.map(p => Number(shares[p.id] ?? 0)))
+      if (errors.length > 0) {
+        return invalid(errors[0], errors)
+      }
+
+      for (const player of players) {
+        const { error: shareError } = await supabaseAdmin
+          .from('booking_participants')
+          .update({ share_amount: Number(shares[player.id] ?? 0), updated_at: new Date().toISOString() })
+          .eq('id', player.id)
+
+        if (shareError) throw shareError
+      }
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({ split_mode: splitMode, updated_at: new Date().toISOString() })
+      .eq('id', booking.id)
+
+    if (updateError) throw updateError
+
+    const updatedParticipants = await getParticipants(booking.id)
+    const result: UpdateCostSplitResult = {
+      status: 'updated',
+      split: splitBookingCost(booking.total_cost, splitMode, updatedParticipants)
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error updating cost split:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import {
+  getServerGame,
+  getServerPricingRules,
+  getServerSettings,
+  getApprovalDecider,
+  findConflictingSlots,
+  recordApprovalDecision,
+  refundRescheduleDifference,
+  SLOT_CONFLICT_CODE
+} from '@/lib/booking-server'
+import { validateBookingWindow } from '@/lib/booking-rules'
+import { getRescheduleRefund, quoteCancellation } from '@/lib/cancellation-rules'
+import { getVenueToday } from '@/lib/venue-time'
+import { calculateBookingPrice } from '@/lib/pricing-rules'
+import { calculateDiscount } from '@/lib/promo-rules'
+import { getPaidAmount } from '@/lib/payment-server'
+import type { RescheduleBookingResult, RescheduleRequest } from '@/lib/booking-service'
+
+function invalid(message: string, errors: string[] = [message]) {
+  const result: RescheduleBookingResult = { status: 'invalid', message, errors }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Move one of the signed-in user's bookings to a new date and time
+export async function PATCH(request: NextRequest, { params }: { params: { bookingId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { bookingDate, startTime, endTime } = await request.json() as RescheduleRequest
+
+    if (!bookingDate || !startTime || !endTime) {
+      return invalid('Please choose a new date, start time and end time')
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('*')
+      .eq('id', params.bookingId)
+      .maybeSingle()
+
+    if (bookingError) throw bookingError
+    if (!booking || booking.user_id !== user.id) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      return invalid('Only upcoming bookings can be rescheduled')
+    }
+
+    // A seat belongs to its session's time; cancel it and book another session instead
+    if (booking.session_id) {
+      return invalid('Seats in an open session cannot be rescheduled')
+    }
+
+    const settings = await getServerSettings()
+    const now = new Date()
+    const paidAmount = await getPaidAmount(booking.id)
+
+    // Moving a booking gives up its slot, so it follows the same deadline as cancelling
+    if (!quoteCancellation(booking, settings, now, paidAmount).allowed) {
+      return invalid(`Bookings can't be changed less than ${settings.cancellation_deadline} hour${settings.cancellation_deadline !== 1 ? 's' : ''} before they start`)
+    }
+
+    const gameWithSchedule = await getServerGame(booking.game_id)
+    if (!gameWithSchedule) {
+      return invalid('This game is no longer available')
+    }
+    const { game, schedule } = gameWithSchedule
+
+    const today = getVenueToday(settings.venue_timezone, now)
+    const errors = validateBookingWindow({ bookingDate, startTime, endTime }, settings, today, { schedule })
+    if (errors.length > 0) {
+      return invalid(errors[0], errors)
+    }
+
+    const pricingRules = await getServerPricingRules(booking.game_id)
+    const grossCost = calculateBookingPrice(game.price_per_hour, bookingDate, startTime, endTime, pricingRules, settings.is_24_7).total
+
+    // A promo code already redeemed on this booking carries over to the new time
+    let discountAmount = 0
+    if (booking.promo_code_id) {
+      const { data: promo, error: promoError } = await supabaseAdmin
+        .from('promo_codes')
+        .select('*')
+        .eq('id', booking.promo_code_id)
+        .maybeSingle()
+
+      if (promoError) throw promoError
+      if (promo) {
+        discountAmount = calculateDiscount(promo, grossCost)
+      }
+    }
+
+    const newCost = grossCost - discountAmount
+    const refundAmount = getRescheduleRefund(paidAmount, newCost)
+
+    if (refundAmount === null) {
+      return invalid(`The new time costs ₹${newCost}, more than the ₹${paidAmount} already paid. Cancel this booking and book the new time instead.`)
+    }
+
+    // The new time is judged afresh, so it may need approval even if the old one didn't
+    const decideApproval = await getApprovalDecider(settings, user.id)
+    const approval = decideApproval({ gameId: booking.game_id, bookingDate, startTime, endTime, totalCost: newCost })
+
+    const { data: moved, error: rescheduleError } = await supabaseAdmin.rpc('reschedule_booking', {
+      p_booking_id: booking.id,
+      p_booking_date: bookingDate,
+      p_start_time: startTime,
+      p_end_time: endTime,
+      p_status: approval.status,
+      p_total_cost: newCost,
+      p_discount_amount: discountAmount
+    })
+
+    if (rescheduleError?.code === SLOT_CONFLICT_CODE) {
+      const result: RescheduleBookingResult = {
+        status: 'conflict',
+        message: 'The new time is already booked. Please choose another time.',
+        conflicts: await findConflictingSlots(booking.game_id, bookingDate, startTime, endTime, [booking.id])
+      }
+      return NextResponse.json(result, { status: 409 })
+    }
+
+    if (rescheduleError) throw rescheduleError
+    if (!moved) {
+      return invalid('Only upcoming bookings can be rescheduled')
+    }
+
+    const rescheduled = await recordApprovalDecision(moved.id, approval)
+
+    await refundRescheduleDifference(booking.id, refundAmount)
+
+    const result: RescheduleBookingResult = { status: 'rescheduled', booking: rescheduled, refundAmount }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error rescheduling booking:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
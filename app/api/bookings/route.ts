@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import {
+  getServerCourt,
+  getServerGame,
+  getServerPricingRules,
+  getServerSettings,
+  getApprovalDecider,
+  findConflictingSlots,
+  recordApprovalDecision,
+  resolvePromoCode,
+  PROMO_LIMIT_CODE,
+  SLOT_CONFLICT_CODE
+} from '@/lib/booking-server'
+import {
+  generateSeriesDates,
+  validateBookingWindow,
+  validateRecurrence
+} from '@/lib/booking-rules'
+import { calculateBookingPrice } from '@/lib/pricing-rules'
+import { calculateDiscount } from '@/lib/promo-rules'
+import { getVenueToday } from '@/lib/venue-time'
+import { notifyBooking } from '@/lib/notification-server'
+import type { Database } from '@/lib/supabase'
+import type { BookingRequest, CreateBookingResult } from '@/lib/booking-service'
+
+type Booking = Database['public']['Tables']['bookings']['Row']
+
+function invalid(message: string, errors: string[] = [message]) {
+  const result: CreateBookingResult = { status: 'invalid', message, errors }
+  return NextResponse.json(result, { status: 422 })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { gameId, bookingDate, startTime, endTime, notes, recurrence, promoCode, courtId } = await request.json() as BookingRequest
+
+    if (!gameId || !bookingDate || !startTime || !endTime) {
+      return invalid('Please fill in all required fields')
+    }
+
+    const gameWithSchedule = await getServerGame(gameId)
+    if (!gameWithSchedule) {
+      return invalid('Selected game does not exist')
+    }
+    const { game, schedule } = gameWithSchedule
+
+    if (courtId && !(await getServerCourt(gameId, courtId))) {
+      return invalid('Selected court is not available for this game')
+    }
+
+    const settings = await getServerSettings()
+
+    const today = getVenueToday(settings.venue_timezone)
+    const errors = validateBookingWindow({ bookingDate, startTime, endTime }, settings, today, { schedule })
+    if (recurrence) {
+      errors.push(...validateRecurrence(bookingDate, recurrence))
+      if (promoCode) {
+        errors.push('Promo codes can only be applied to single bookings')
+      }
+    }
+    if (errors.length > 0) {
+      return invalid(errors[0], errors)
+    }
+
+    const pricingRules = await getServerPricingRules(gameId)
+    const decideApproval = await getApprovalDecider(settings, user.id)
+    const priceFor = (date: string) =>
+      calculateBookingPrice(game.price_per_hour, date, startTime, endTime, pricingRules, settings.is_24_7).total
+
+    const reservation = {
+      p_user_id: user.id,
+      p_game_id: gameId,
+      p_start_time: startTime,
+      p_end_time: endTime,
+      p_notes: notes || null,
+      p_court_id: courtId || null
+    }
+
+    if (!recurrence) {
+      const grossCost = priceFor(bookingDate)
+      let discount = { p_promo_code_id: null as string | null, p_discount_amount: 0 }
+
+      if (promoCode) {
+        const { promo, error: promoError } = await resolvePromoCode(promoCode, user.id, gameId)
+        if (!promo) {
+          return invalid(promoError)
+        }
+        discount = { p_promo_code_id: promo.id, p_discount_amount: calculateDiscount(promo, grossCost) }
+      }
+
+      const totalCost = grossCost - discount.p_discount_amount
+      const approval = decideApproval({ gameId, bookingDate, startTime, endTime, totalCost })
+
+      const { data: reserved, error: reserveError } = await supabaseAdmin.rpc('reserve_booking', {
+        ...reservation,
+        ...discount,
+        p_booking_date: bookingDate,
+        p_status: approval.status,
+        p_total_cost: totalCost
+      })
+
+      if (reserveError?.code === PROMO_LIMIT_CODE) {
+        return invalid('This promo code has reached its usage limit')
+      }
+
+      if (reserveError?.code === SLOT_CONFLICT_CODE) {
+        // Report which active bookings are in the way so the page can show them
+        const conflicts = await findConflictingSlots(gameId, bookingDate, startTime, endTime, [], courtId)
+        const result: CreateBookingResult = {
+          status: 'conflict',
+          message: 'This time slot was just booked by someone else. Please choose another time.',
+          conflicts
+        }
+        return NextResponse.json(result, { status: 409 })
+      }
+
+      if (reserveError) throw reserveError
+
+      const booking = await recordApprovalDecision(reserved.id, approval)
+      await notifyBooking(booking.id, 'booking_created')
+
+      const result: CreateBookingResult = { status: 'created', booking }
+      return NextResponse.json(result, { status: 201 })
+    }
+
+    // Recurring series: the first occurrence follows the normal rules above,
+    // later ones only skip the advance booking limit
+    const dates = generateSeriesDates(bookingDate, recurrence)
+    const occurrenceErrors = dates.slice(1).flatMap(date =>
+      validateBookingWindow({ bookingDate: date, startTime, endTime }, settings, today, { ignoreAdvanceLimit: true, schedule })
+    )
+    if (occurrenceErrors.length > 0) {
+      return invalid(occurrenceErrors[0], occurrenceErrors)
+    }
+
+    const { data: series, error: seriesError } = await supabaseAdmin
+      .from('booking_series')
+      .insert([{
+        user_id: user.id,
+        game_id: gameId,
+        frequency: recurrence.frequency,
+        start_date: bookingDate,
+        until_date: recurrence.untilDate || null,
+        occurrences: recurrence.occurrences || null,
+        start_time: startTime,
+        end_time: endTime
+      }])
+      .select()
+      .single()
+
+    if (seriesError) throw seriesError
+
+    const bookings: Booking[] = []
+    const skippedDates: string[] = []
+
+    // Each occurrence is reserved atomically on its own; dates taken in the
+    // meantime are skipped rather than failing the whole series
+    for (const date of dates) {
+      const totalCost = priceFor(date)
+      const approval = decideApproval({ gameId, bookingDate: date, startTime, endTime, totalCost })
+
+      const { data: reserved, error: reserveError } = await supabaseAdmin.rpc('reserve_booking', {
+        ...reservation,
+        p_booking_date: date,
+        p_status: approval.status,
+        p_total_cost: totalCost,
+        p_series_id: series.id
+      })
+
+      if (reserveError?.code === SLOT_CONFLICT_CODE) {
+        skippedDates.push(date)
+        continue
+      }
+
+      if (reserveError) throw reserveError
+      bookings.push(await recordApprovalDecision(reserved.id, approval))
+    }
+
+    if (bookings.length === 0) {
+      await supabaseAdmin.from('booking_series').delete().eq('id', series.id)
+
+      const conflicts = await findConflictingSlots(gameId, bookingDate, startTime, endTime, [], courtId)
+      const result: CreateBookingResult = {
+        status: 'conflict',
+        message: 'Every date in this series is already booked. Please choose another time.',
+        conflicts
+      }
+      return NextResponse.json(result, { status: 409 })
+    }
+
+    // One message for the whole series rather than one per date
+    await notifyBooking(bookings[0].id, 'booking_created', { extraOccurrences: bookings.length - 1 })
+
+    const result: CreateBookingResult = {
+      status: 'series_created',
+      seriesId: series.id,
+      bookings,
+      skippedDates
+    }
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error creating booking:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
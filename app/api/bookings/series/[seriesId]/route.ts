@@ -0,0 +1,281 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import {
+  getServerGame,
+  getServerPricingRules,
+  getServerSettings,
+  getApprovalDecider,
+  cancelBookingWithRefund,
+  recordApprovalDecision,
+  refundRescheduleDifference,
+  SLOT_CONFLICT_CODE
+} from '@/lib/booking-server'
+import { getMinBookingDate, validateBookingWindow } from '@/lib/booking-rules'
+import { calculateBookingPrice } from '@/lib/pricing-rules'
+import { getRescheduleRefund, quoteCancellation } from '@/lib/cancellation-rules'
+import { getVenueToday } from '@/lib/venue-time'
+import { notifyBooking } from '@/lib/notification-server'
+import { getPaidAmounts } from '@/lib/payment-server'
+import type { CancelSeriesResult, UpdateSeriesResult } from '@/lib/booking-service'
+import type { Database } from '@/lib/supabase'
+
+type Booking = Database['public']['Tables']['bookings']['Row']
+
+function invalid(message: string, errors: string[] = [message]) {
+  const result: UpdateSeriesResult = { status: 'invalid', message, errors }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Move the remaining occurrences of a recurring series to a new time.
+// Occurrences already inside the cancellation deadline keep their time.
+export async function PATCH(request: NextRequest, { params }: { params: { seriesId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { startTime, endTime } = await request.json() as { startTime: string, endTime: string }
+
+    if (!startTime || !endTime) {
+      return invalid('Please choose a start and end time')
+    }
+
+    const { data: series, error: seriesError } = await supabaseAdmin
+      .from('booking_series')
+      .select('*')
+      .eq('id', params.seriesId)
+      .maybeSingle()
+
+    if (seriesError) throw seriesError
+    if (!series || series.user_id !== user.id) {
+      return NextResponse.json({ error: 'Booking series not found' }, { status: 404 })
+    }
+
+    const gameWithSchedule = await getServerGame(series.game_id)
+    if (!gameWithSchedule) {
+      return invalid('This game is no longer available')
+    }
+    const { game, schedule } = gameWithSchedule
+
+    const settings = await getServerSettings()
+    const now = new Date()
+    const today = getVenueToday(settings.venue_timezone, now)
+
+    const { data: upcoming, error: occurrencesError } = await supabaseAdmin
+      .from('bookings')
+      .select('*')
+      .eq('series_id', series.id)
+      .gte('booking_date', getMinBookingDate(settings, today))
+      .in('status', ['pending', 'confirmed'])
+      .order('booking_date', { ascending: true })
+
+    if (occurrencesError) throw occurrencesError
+
+    // Moving an occurrence gives up its slot, so it follows the same deadline as
+    // cancelling. Occurrences share a start time, so the ones past the deadline
+    // all come first and the rest can move from the first date still open.
+    const remaining = upcoming || []
+    const paidAmounts = await getPaidAmounts(remaining.map(occurrence => occurrence.id))
+    const firstOpen = remaining.findIndex(occurrence =>
+      quoteCancellation(occurrence, settings, now, paidAmounts.get(occurrence.id) || 0).allowed
+    )
+    const occurrences = firstOpen === -1 ? [] : remaining.slice(firstOpen)
+    const skippedDates = remaining
+      .slice(0, firstOpen === -1 ? remaining.length : firstOpen)
+      .map(occurrence => occurrence.booking_date)
+
+    if (occurrences.length === 0) {
+      return invalid(skippedDates.length > 0
+        ? `Bookings can't be changed less than ${settings.cancellation_deadline} hour${settings.cancellation_deadline !== 1 ? 's' : ''} before they start`
+        : 'This series has no remaining bookings that can be changed')
+    }
+    const fromDate = occurrences[0].booking_date
+
+    const errors = occurrences.flatMap(occurrence =>
+      validateBookingWindow(
+        { bookingDate: occurrence.booking_date, startTime, endTime },
+        settings,
+        today,
+        { ignoreAdvanceLimit: true, schedule }
+      )
+    )
+    if (errors.length > 0) {
+      return invalid(errors[0], Array.from(new Set(errors)))
+    }
+
+    // Report every clashing date up front; nothing is changed unless all dates
+    // have a free court
+    const conflictDates: string[] = []
+    for (const occurrence of occurrences) {
+      const { data: hasConflict, error: conflictError } = await supabaseAdmin.rpc('check_booking_conflict', {
+        p_game_id: series.game_id,
+        p_booking_date: occurrence.booking_date,
+        p_start_time: startTime,
+        p_end_time: endTime,
+        p_exclude_booking_id: occurrence.id
+      })
+
+      if (conflictError) throw conflictError
+      if (hasConflict) {
+        conflictDates.push(occurrence.booking_date)
+      }
+    }
+
+    const conflictResult: UpdateSeriesResult = {
+      status: 'conflict',
+      message: 'The new time is already booked on some dates in this series.',
+      conflictDates
+    }
+
+    if (conflictDates.length > 0) {
+      return NextResponse.json(conflictResult, { status: 409 })
+    }
+
+    // Occurrences are re-priced individually since rules can differ by date
+    const pricingRules = await getServerPricingRules(series.game_id)
+    const costs: Record<string, number> = {}
+    for (const occurrence of occurrences) {
+      costs[occurrence.booking_date] = calculateBookingPrice(
+        game.price_per_hour,
+        occurrence.booking_date,
+        startTime,
+        endTime,
+        pricingRules,
+        settings.is_24_7
+      ).total
+    }
+
+    const refunds = occurrences.map(occurrence => getRescheduleRefund(paidAmounts.get(occurrence.id) || 0, costs[occurrence.booking_date]))
+    const dearerDates = occurrences
+      .filter((occurrence, index) => refunds[index] === null)
+      .map(occurrence => occurrence.booking_date)
+    if (dearerDates.length > 0) {
+      return invalid(
+        'The new time costs more than was already paid for some dates. Cancel those bookings and book the new time instead.',
+        dearerDates.map(date => `${date} is already paid for and would cost ₹${costs[date]} at the new time`)
+      )
+    }
+
+    // The series moves as one, so it is only confirmed if every date would be
+    const decideApproval = await getApprovalDecider(settings, user.id)
+    const approvals = occurrences.map(occurrence => decideApproval({
+      gameId: series.game_id,
+      bookingDate: occurrence.booking_date,
+      startTime,
+      endTime,
+      totalCost: costs[occurrence.booking_date]
+    }))
+    const needsReview = approvals.find(approval => approval.status === 'pending')
+
+    const { data: moved, error: updateError } = await supabaseAdmin.rpc('update_booking_series_times', {
+      p_series_id: series.id,
+      p_from_date: fromDate,
+      p_start_time: startTime,
+      p_end_time: endTime,
+      p_status: needsReview ? 'pending' : 'confirmed',
+      p_costs: costs
+    })
+
+    if (updateError?.code === SLOT_CONFLICT_CODE) {
+      // Another booking landed between the check above and the update
+      return NextResponse.json({ ...conflictResult, conflictDates: [] }, { status: 409 })
+    }
+
+    if (updateError) throw updateError
+
+    const approvalById = new Map(occurrences.map((occurrence, index) => [occurrence.id, approvals[index]]))
+    const bookings: Booking[] = []
+    for (const booking of moved || []) {
+      bookings.push(await recordApprovalDecision(booking.id, needsReview || approvalById.get(booking.id) || approvals[0]))
+    }
+
+    // Paid occurrences moved to a cheaper time get the difference back
+    const refundById = new Map(occurrences.map((occurrence, index) => [occurrence.id, refunds[index] || 0]))
+    let refundAmount = 0
+    for (const booking of bookings) {
+      const refund = refundById.get(booking.id) || 0
+      await refundRescheduleDifference(booking.id, refund)
+      refundAmount += refund
+    }
+
+    const result: UpdateSeriesResult = { status: 'updated', bookings, refundAmount, skippedDates }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error updating booking series:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Cancel the upcoming occurrences of a series. Occurrences already inside the
+// cancellation deadline are kept and reported back.
+export async function DELETE(request: NextRequest, { params }: { params: { seriesId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { reason } = await request.json() as { reason?: string }
+
+    const { data: series, error: seriesError } = await supabaseAdmin
+      .from('booking_series')
+      .select('*')
+      .eq('id', params.seriesId)
+      .maybeSingle()
+
+    if (seriesError) throw seriesError
+    if (!series || series.user_id !== user.id) {
+      return NextResponse.json({ error: 'Booking series not found' }, { status: 404 })
+    }
+
+    const settings = await getServerSettings()
+    const now = new Date()
+    const today = getVenueToday(settings.venue_timezone, now)
+
+    const { data: occurrences, error: occurrencesError } = await supabaseAdmin
+      .from('bookings')
+      .select('*')
+      .eq('series_id', series.id)
+      .gte('booking_date', today)
+      .in('status', ['pending', 'confirmed'])
+      .order('booking_date', { ascending: true })
+
+    if (occurrencesError) throw occurrencesError
+
+    const result: CancelSeriesResult = { status: 'canceled', bookings: [], refundAmount: 0, skippedDates: [] }
+    const paidAmounts = await getPaidAmounts((occurrences || []).map(occurrence => occurrence.id))
+
+    for (const occurrence of occurrences || []) {
+      const quote = quoteCancellation(occurrence, settings, now, paidAmounts.get(occurrence.id) || 0)
+      if (!quote.allowed) {
+        result.skippedDates.push(occurrence.booking_date)
+        continue
+      }
+
+      const canceled = await cancelBookingWithRefund(occurrence, quote, reason || 'Series cancelled by user', user.id)
+      if (canceled) {
+        result.bookings.push(canceled)
+        result.refundAmount += quote.refundAmount
+      }
+    }
+
+    if (result.bookings.length > 0) {
+      await notifyBooking(result.bookings[0].id, 'booking_cancelled', {
+        extraOccurrences: result.bookings.length - 1,
+        refundAmount: result.refundAmount
+      })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error cancelling booking series:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
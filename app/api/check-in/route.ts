@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { getCheckInTokenBookingId, verifyCheckInToken } from '@/lib/check-in-token'
+import { checkCheckInWindow } from '@/lib/check-in-rules'
+import { getServerSettings } from '@/lib/booking-server'
+import type { CheckedInBooking, CheckInResult } from '@/lib/booking-service'
+
+const BOOKING_SELECT = `
+  *,
+  game:games(name),
+  profile:profiles(name, email)
+`
+
+function invalid(message: string) {
+  const result: CheckInResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Check a booking in from the code on the user's QR code (staff only).
+// Checking in twice is harmless and reports the original check-in.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdminUser(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { token } = await request.json() as { token?: string }
+    const bookingId = token ? getCheckInTokenBookingId(token) : null
+    if (!token || !bookingId) {
+      return invalid('This is not a valid check-in code')
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('bookings')
+      .select(BOOKING_SELECT)
+      .eq('id', bookingId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    const booking = data as CheckedInBooking | null
+    if (!booking || !verifyCheckInToken(token, booking)) {
+      return invalid('This check-in code is invalid or out of date')
+    }
+
+    if (booking.checked_in_at) {
+      const result: CheckInResult = { status: 'checked_in', booking, alreadyCheckedIn: true }
+      return NextResponse.json(result)
+    }
+
+    if (booking.status !== 'confirmed') {
+      return invalid(`This booking is ${booking.status.replace('_', '-')} and can't be checked in`)
+    }
+
+    const settings = await getServerSettings()
+    const windowError = checkCheckInWindow(booking, new Date(), settings.venue_timezone)
+    if (windowError) {
+      return invalid(windowError)
+    }
+
+    const { data: checkedIn, error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({
+        checked_in_at: new Date().toISOString(),
+        checked_in_by: user.id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', booking.id)
+      .eq('status', 'confirmed')
+      .is('checked_in_at', null)
+      .select(BOOKING_SELECT)
+      .maybeSingle()
+
+    if (updateError) throw updateError
+    if (!checkedIn) {
+      return invalid('This booking was changed while checking in. Scan the code again.')
+    }
+
+    const result: CheckInResult = { status: 'checked_in', booking: checkedIn as CheckedInBooking, alreadyCheckedIn: false }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error checking in booking:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { recordAccountEvent } from '@/lib/account-server'
+import { getInviteError, getInviteStatus } from '@/lib/invite-rules'
+import type { RevokeInviteResult } from '@/lib/user-service'
+
+function invalid(message: string) {
+  const result: RevokeInviteResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Withdraw an invite that hasn't been used yet (admin only)
+export async function DELETE(request: NextRequest, { params }: { params: { inviteId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdminUser(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { data: invite, error } = await supabaseAdmin
+      .from('admin_invites')
+      .select('*')
+      .eq('id', params.inviteId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 })
+    }
+
+    const inviteError = getInviteError(getInviteStatus(invite, new Date()))
+    if (inviteError) {
+      return invalid(inviteError)
+    }
+
+    // Only withdraw it if it wasn't accepted in the meantime
+    const { data: revoked, error: revokeError } = await supabaseAdmin
+      .from('admin_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invite.id)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id')
+
+    if (revokeError) throw revokeError
+    if (!revoked || revoked.length === 0) {
+      return invalid('This invite has already been used or withdrawn')
+    }
+
+    await recordAccountEvent({
+      action: 'invite_revoked',
+      actor_id: user.id,
+      invite_id: invite.id
+    })
+
+    const result: RevokeInviteResult = { status: 'revoked' }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error revoking invite:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import { findInviteByToken, recordAccountEvent, setUserRole } from '@/lib/account-server'
+import { getInviteError, getInviteStatus } from '@/lib/invite-rules'
+import { normalizePhone } from '@/lib/phone-rules'
+import type { AcceptInviteResult } from '@/lib/user-service'
+
+function invalid(message: string) {
+  const result: AcceptInviteResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Accept an admin invite as the signed-in user, making them an admin
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token } = await request.json() as { token?: string }
+    const invite = token ? await findInviteByToken(token) : null
+    if (!invite) {
+      return invalid('This invite link is not valid')
+    }
+
+    const inviteError = getInviteError(getInviteStatus(invite, new Date()))
+    if (inviteError) {
+      return invalid(inviteError)
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, role, phone, phone_verified_at')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError) throw profileError
+
+    if (profile.role === 'admin') {
+      return invalid('You are already an admin')
+    }
+
+    // Only a number proven with a code counts; profiles can hold any number typed in
+    if (invite.phone && !profile.phone_verified_at) {
+      return NextResponse.json({
+        error: 'Verify your phone number by signing in with a text message code to accept this invite'
+      }, { status: 403 })
+    }
+
+    if (invite.phone && normalizePhone(profile.phone) !== invite.phone) {
+      return invalid('This invite is for a different phone number')
+    }
+
+    // Claim the invite first so it can only ever be used once
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('admin_invites')
+      .update({ accepted_by: user.id, accepted_at: new Date().toISOString() })
+      .eq('id', invite.id)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id')
+
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) {
+      return invalid('This invite has already been used or withdrawn')
+    }
+
+    await setUserRole(user.id, 'admin')
+    await recordAccountEvent({
+      user_id: user.id,
+      action: 'invite_accepted',
+      actor_id: user.id,
+      invite_id: invite.id,
+      notes: 'Became an admin by accepting an invite'
+    })
+
+    const result: AcceptInviteResult = { status: 'accepted' }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error accepting invite:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
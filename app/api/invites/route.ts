@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { createAdminInvite, recordAccountEvent } from '@/lib/account-server'
+import { DEFAULT_INVITE_EXPIRY_DAYS, MAX_INVITE_EXPIRY_DAYS } from '@/lib/invite-rules'
+import { normalizePhone } from '@/lib/phone-rules'
+import type { CreateInviteRequest, CreateInviteResult } from '@/lib/user-service'
+
+function invalid(message: string) {
+  const result: CreateInviteResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Issue a single-use invite that makes whoever accepts it an admin (admin only).
+// It can be limited to one phone number.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdminUser(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { phone: input, note, expiresInDays = DEFAULT_INVITE_EXPIRY_DAYS } = await request.json() as CreateInviteRequest
+
+    const phone = input?.trim() ? normalizePhone(input) : null
+    if (input?.trim() && !phone) {
+      return invalid('Please enter a valid phone number, or leave it empty to let anyone use the invite')
+    }
+
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_INVITE_EXPIRY_DAYS) {
+      return invalid(`Invites can last between 1 and ${MAX_INVITE_EXPIRY_DAYS} days`)
+    }
+
+    const { invite, token } = await createAdminInvite(user.id, {
+      phone,
+      note: note?.trim() || null,
+      expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    })
+
+    await recordAccountEvent({
+      action: 'invite_created',
+      actor_id: user.id,
+      invite_id: invite.id,
+      notes: phone ? `Admin invite for ${phone}` : 'Admin invite for anyone with the link'
+    })
+
+    const result: CreateInviteResult = { status: 'created', invite, token }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error creating invite:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { runJob } from '@/lib/job-runner'
+import { BOOKING_JOBS } from '@/lib/booking-jobs'
+
+// Always run on request; never serve a cached response to the scheduler
+export const dynamic = 'force-dynamic'
+
+// Jobs are triggered by a scheduler, not a signed-in user, so they use a shared secret
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    throw new Error('Missing CRON_SECRET. Scheduled jobs cannot be authorised without it.')
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get('authorization') || '')
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+// Run every job, or just the one named by ?job=
+async function runJobs(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const name = request.nextUrl.searchParams.get('job')
+    const jobs = name ? BOOKING_JOBS.filter(job => job.name === name) : BOOKING_JOBS
+
+    if (jobs.length === 0) {
+      return NextResponse.json({ error: `Unknown job: ${name}` }, { status: 404 })
+    }
+
+    const now = new Date()
+    const runs = []
+    for (const job of jobs) {
+      runs.push(await runJob(job, now))
+    }
+
+    const failed = runs.some(run => run.status === 'failed')
+    return NextResponse.json({ runs }, { status: failed ? 500 : 200 })
+  } catch (error) {
+    console.error('Error running jobs:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Hosted cron services (e.g. Vercel Cron) call with GET
+export async function GET(request: NextRequest) {
+  return runJobs(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runJobs(request)
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { notifyBooking } from '@/lib/notification-server'
+import type { BookingNotificationEvent } from '@/lib/notification-templates'
+import type { Database } from '@/lib/supabase'
+
+type BookingStatus = Database['public']['Tables']['bookings']['Row']['status']
+
+// Booking statuses each event can be sent for, so a notification always matches the booking
+const EVENT_STATUSES: Record<BookingNotificationEvent, BookingStatus[]> = {
+  booking_created: ['pending', 'confirmed'],
+  booking_approved: ['confirmed'],
+  booking_rejected: ['canceled'],
+  booking_reminder: ['pending', 'confirmed'],
+  booking_cancelled: ['canceled'],
+  // Sent to invited players by the participants route only
+  booking_invitation: []
+}
+
+// Notify a user about a status change an admin made from the browser.
+// Changes made by the server's own booking routes notify directly.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdminUser(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { bookingId, event, reason } = await request.json() as {
+      bookingId: string
+      event: BookingNotificationEvent
+      reason?: string
+    }
+
+    if (!EVENT_STATUSES[event]) {
+      return NextResponse.json({ error: 'Unknown notification event' }, { status: 400 })
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, status')
+      .eq('id', bookingId)
+      .maybeSingle()
+
+    if (bookingError) throw bookingError
+    if (!booking) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (!EVENT_STATUSES[event].includes(booking.status)) {
+      return NextResponse.json({ error: `A ${booking.status} booking can't be sent a ${event} notification` }, { status: 409 })
+    }
+
+    const sent = await notifyBooking(booking.id, event, { reason })
+    return NextResponse.json({ sent })
+  } catch (error) {
+    console.error('Error sending booking notification:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
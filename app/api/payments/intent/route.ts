@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import { createBookingPaymentIntent } from '@/lib/payment-server'
+import type { CreatePaymentIntentResult } from '@/lib/payment-service'
+
+function invalid(message: string) {
+  const result: CreatePaymentIntentResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Start a payment for one of the signed-in user's bookings
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { bookingId } = await request.json() as { bookingId: string }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('*')
+      .eq('id', bookingId)
+      .maybeSingle()
+
+    if (bookingError) throw bookingError
+    if (!booking || booking.user_id !== user.id) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      return invalid('Only upcoming bookings can be paid for')
+    }
+
+    if (booking.payment_status !== 'unpaid') {
+      return invalid('This booking has already been paid')
+    }
+
+    if (booking.total_cost <= 0) {
+      return invalid('Nothing to pay for this booking')
+    }
+
+    const intent = await createBookingPaymentIntent(booking)
+
+    const result: CreatePaymentIntentResult = { status: 'created', intent }
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error creating payment intent:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
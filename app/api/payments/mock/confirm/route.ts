@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import { applyPaymentEvent, getPaymentProvider } from '@/lib/payment-server'
+import { MockPaymentProvider } from '@/lib/mock-payment-provider'
+
+// Complete a mock payment. Stands in for the provider's checkout page: it signs a
+// payment.succeeded event and runs it through the same verification as the webhook.
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV !== 'development' && process.env.NODE_ENV !== 'test') {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const provider = getPaymentProvider()
+    if (!(provider instanceof MockPaymentProvider)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { intentId } = await request.json() as { intentId: string }
+
+    const { data: payment, error: paymentError } = await supabaseAdmin
+      .from('payments')
+      .select('*')
+      .eq('provider_intent_id', intentId)
+      .maybeSingle()
+
+    if (paymentError) throw paymentError
+    if (!payment || payment.user_id !== user.id) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+    }
+
+    const { payload, signature } = provider.createSignedEvent('payment.succeeded', payment.provider_intent_id, payment.amount)
+    await applyPaymentEvent(provider.verifyWebhook(payload, signature))
+
+    return NextResponse.json({ status: 'paid' })
+  } catch (error) {
+    console.error('Error confirming mock payment:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyPaymentEvent, getPaymentProvider } from '@/lib/payment-server'
+import { WebhookSignatureError } from '@/lib/payment-provider'
+
+// Payment provider webhook. The raw body is verified before anything is applied.
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getPaymentProvider()
+    const payload = await request.text()
+    const event = provider.verifyWebhook(payload, request.headers.get(provider.signatureHeader))
+
+    const applied = await applyPaymentEvent(event)
+
+    return NextResponse.json({ received: true, duplicate: !applied })
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error handling payment webhook:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
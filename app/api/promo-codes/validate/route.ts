@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/supabase-server'
+import { getServerGame, getServerPricingRules, getServerSettings, resolvePromoCode } from '@/lib/booking-server'
+import { calculateBookingPrice } from '@/lib/pricing-rules'
+import { calculateDiscount } from '@/lib/promo-rules'
+import type { PromoPreviewRequest, PromoPreviewResult } from '@/lib/promo-service'
+
+function invalid(message: string) {
+  const result: PromoPreviewResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Check a promo code against a prospective booking and return the discount it gives
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { code, gameId, bookingDate, startTime, endTime } = await request.json() as PromoPreviewRequest
+
+    if (!code || !gameId || !bookingDate || !startTime || !endTime) {
+      return invalid('Choose a game, date and time before applying a promo code')
+    }
+
+    const gameWithSchedule = await getServerGame(gameId)
+    if (!gameWithSchedule) {
+      return invalid('Selected game does not exist')
+    }
+
+    const { promo, error: promoError } = await resolvePromoCode(code, user.id, gameId)
+    if (!promo) {
+      return invalid(promoError)
+    }
+
+    const [settings, pricingRules] = await Promise.all([
+      getServerSettings(),
+      getServerPricingRules(gameId)
+    ])
+    const grossCost = calculateBookingPrice(
+      gameWithSchedule.game.price_per_hour,
+      bookingDate,
+      startTime,
+      endTime,
+      pricingRules,
+      settings.is_24_7
+    ).total
+    const discount = calculateDiscount(promo, grossCost)
+
+    const result: PromoPreviewResult = {
+      status: 'valid',
+      code: promo.code,
+      description: promo.description,
+      grossCost,
+      discount,
+      netCost: grossCost - discount
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error validating promo code:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import {
+  getApprovalDecider,
+  getServerSettings,
+  recordApprovalDecision,
+  SLOT_CONFLICT_CODE
+} from '@/lib/booking-server'
+import { notifyBooking } from '@/lib/notification-server'
+import { getBookingWindow } from '@/lib/booking-status-rules'
+import type { BookSeatResult } from '@/lib/session-service'
+
+// Raised by reserve_session_seat when the session was cancelled
+const SESSION_UNAVAILABLE_CODE = 'P0002'
+
+// unique_violation on the one-active-seat-per-user index
+const SEAT_TAKEN_CODE = '23505'
+
+function unavailable(message: string) {
+  const result: BookSeatResult = { status: 'unavailable', message }
+  return NextResponse.json(result, { status: 409 })
+}
+
+// Book a seat in an open session for the signed-in user, priced per seat
+export async function POST(request: NextRequest, { params }: { params: { sessionId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { notes } = await request.json() as { notes?: string }
+
+    const { data: session, error: sessionError } = await supabaseAdmin
+      .from('open_sessions')
+      .select('*')
+      .eq('id', params.sessionId)
+      .maybeSingle()
+
+    if (sessionError) throw sessionError
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    // Overnight sessions end the next day, so the date alone isn't enough
+    const settings = await getServerSettings()
+    const { end } = getBookingWindow(
+      { booking_date: session.session_date, start_time: session.start_time, end_time: session.end_time },
+      settings.venue_timezone
+    )
+    if (end <= new Date()) {
+      return unavailable('This session has already taken place.')
+    }
+
+    const decideApproval = await getApprovalDecider(settings, user.id)
+    const approval = decideApproval({
+      gameId: session.game_id,
+      bookingDate: session.session_date,
+      startTime: session.start_time,
+      endTime: session.end_time,
+      totalCost: session.price_per_seat
+    })
+
+    const { data: reserved, error: reserveError } = await supabaseAdmin.rpc('reserve_session_seat', {
+      p_user_id: user.id,
+      p_session_id: session.id,
+      p_status: approval.status,
+      p_total_cost: session.price_per_seat,
+      p_notes: notes || null
+    })
+
+    if (reserveError?.code === SESSION_UNAVAILABLE_CODE) {
+      return unavailable('This session has been cancelled.')
+    }
+
+    if (reserveError?.code === SLOT_CONFLICT_CODE) {
+      return unavailable('This session is full.')
+    }
+
+    if (reserveError?.code === SEAT_TAKEN_CODE) {
+      return unavailable('You already have a seat in this session.')
+    }
+
+    if (reserveError) throw reserveError
+
+    const booking = await recordApprovalDecision(reserved.id, approval)
+    await notifyBooking(booking.id, 'booking_created')
+
+    const result: BookSeatResult = { status: 'booked', booking }
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error booking session seat:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -56,7 +56,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password, name = 'Test User', role = 'user' } = await request.json()
+    const { email, password, name = 'Test User' } = await request.json()
 
     // Test signup with anon key
     const supabaseAnon = createClient(
@@ -64,15 +64,14 @@ export async function POST(request: NextRequest) {
       process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
     )
 
-    console.log('Attempting signup with:', { email, name, role })
+    console.log('Attempting signup with:', { email, name })
 
     const { data, error } = await supabaseAnon.auth.signUp({
       email,
       password,
       options: {
         data: {
-          name,
-          role
+          name
         }
       }
     })
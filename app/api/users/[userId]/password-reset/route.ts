@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { forcePasswordReset, recordAccountEvent } from '@/lib/account-server'
+import { getNotificationChannel } from '@/lib/notification-server'
+import type { ForcePasswordResetResult } from '@/lib/user-service'
+
+function invalid(message: string) {
+  const result: ForcePasswordResetResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Force a user to set a new password (admin only). Their current password
+// stops working straight away and they are texted how to choose a new one.
+export async function POST(request: NextRequest, { params }: { params: { userId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdminUser(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { reason } = await request.json() as { reason?: string }
+
+    if (params.userId === user.id) {
+      return invalid('Use Change Password in your settings to change your own password')
+    }
+
+    const { data: profile, error } = await supabaseAdmin
+      .from('profiles')
+      .select('id, name, phone')
+      .eq('id', params.userId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    await forcePasswordReset(profile.id)
+    await recordAccountEvent({
+      user_id: profile.id,
+      action: 'password_reset_forced',
+      actor_id: user.id,
+      notes: reason?.trim() || null
+    })
+
+    // The reset stands even if the text can't be sent
+    let notified = true
+    try {
+      await getNotificationChannel('sms').send({
+        to: profile.phone,
+        subject: 'Your Boundary Box password was reset',
+        body: `Hi ${profile.name}, the venue has reset your Boundary Box password. Choose "Forgot password?" on the sign-in page to set a new one.`
+      })
+    } catch (notifyError) {
+      console.error('Error sending password reset notice:', notifyError)
+      notified = false
+    }
+
+    const result: ForcePasswordResetResult = { status: 'reset', notified }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error forcing password reset:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
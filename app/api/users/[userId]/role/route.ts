@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { recordAccountEvent, setUserRole } from '@/lib/account-server'
+import type { UpdateRoleResult } from '@/lib/user-service'
+
+function invalid(message: string) {
+  const result: UpdateRoleResult = { status: 'invalid', message }
+  return NextResponse.json(result, { status: 422 })
+}
+
+// Change another user's role (admin only). Admins can't change their own role,
+// so there is always at least one admin left.
+export async function PATCH(request: NextRequest, { params }: { params: { userId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdminUser(user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { role } = await request.json() as { role?: string }
+
+    if (role !== 'user' && role !== 'admin') {
+      return invalid('Role must be user or admin')
+    }
+
+    if (params.userId === user.id) {
+      return invalid('You can\'t change your own role. Ask another admin to do it.')
+    }
+
+    const { data: profile, error } = await supabaseAdmin
+      .from('profiles')
+      .select('id, role')
+      .eq('id', params.userId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (profile.role === role) {
+      return invalid(`This user is already ${role === 'admin' ? 'an admin' : 'a regular user'}`)
+    }
+
+    await setUserRole(profile.id, role)
+    await recordAccountEvent({
+      user_id: profile.id,
+      action: 'role_changed',
+      actor_id: user.id,
+      notes: `Changed from ${profile.role} to ${role}`
+    })
+
+    const result: UpdateRoleResult = { status: 'updated', role }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error changing user role:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
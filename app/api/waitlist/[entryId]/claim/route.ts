@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin, getRequestUser } from '@/lib/supabase-server'
+import {
+  getApprovalDecider,
+  getServerPricingRules,
+  getServerSettings,
+  recordApprovalDecision,
+  SLOT_CONFLICT_CODE
+} from '@/lib/booking-server'
+import { calculateBookingPrice } from '@/lib/pricing-rules'
+import { notifyBooking } from '@/lib/notification-server'
+import type { ClaimOfferResult } from '@/lib/waitlist-service'
+
+// Raised by claim_waitlist_offer when the offer was claimed, cancelled or has lapsed
+const OFFER_UNAVAILABLE_CODE = 'P0002'
+
+function unavailable(message: string) {
+  const result: ClaimOfferResult = { status: 'unavailable', message }
+  return NextResponse.json(result, { status: 409 })
+}
+
+// Claim a waitlist offer for the signed-in user
+export async function POST(request: NextRequest, { params }: { params: { entryId: string } }) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: entry, error: entryError } = await supabaseAdmin
+      .from('waitlist_entries')
+      .select('*, game:games(*)')
+      .eq('id', params.entryId)
+      .maybeSingle()
+
+    if (entryError) throw entryError
+    if (!entry || entry.user_id !== user.id) {
+      return NextResponse.json({ error: 'Waitlist entry not found' }, { status: 404 })
+    }
+
+    const settings = await getServerSettings()
+    const pricingRules = await getServerPricingRules(entry.game_id)
+    const price = calculateBookingPrice(
+      entry.game.price_per_hour,
+      entry.booking_date,
+      entry.start_time,
+      entry.end_time,
+      pricingRules,
+      settings.is_24_7
+    )
+
+    const decideApproval = await getApprovalDecider(settings, user.id)
+    const approval = decideApproval({
+      gameId: entry.game_id,
+      bookingDate: entry.booking_date,
+      startTime: entry.start_time,
+      endTime: entry.end_time,
+      totalCost: price.total
+    })
+
+    const { data: claimed, error: claimError } = await supabaseAdmin.rpc('claim_waitlist_offer', {
+      p_entry_id: entry.id,
+      p_status: approval.status,
+      p_total_cost: price.total
+    })
+
+    if (claimError?.code === OFFER_UNAVAILABLE_CODE) {
+      return unavailable('This offer has expired or was already claimed.')
+    }
+
+    if (claimError?.code === SLOT_CONFLICT_CODE) {
+      return unavailable('This slot has been booked in the meantime.')
+    }
+
+    if (claimError) throw claimError
+
+    const booking = await recordApprovalDecision(claimed.id, approval)
+    await notifyBooking(booking.id, 'booking_created')
+
+    const result: ClaimOfferResult = { status: 'claimed', booking }
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error claiming waitlist offer:', error)
+    return NextResponse.json({
+      error: 'Server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,25 +1,143 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/use-auth'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp'
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { MIN_PASSWORD_LENGTH, OTP_LENGTH, normalizePhone } from '@/lib/phone-rules'
+import type { OtpPurpose } from '@/lib/phone-rules'
+import type { SendPhoneCodeResult } from '@/lib/auth'
 import Image from 'next/image'
 import Link from 'next/link'
 
+type SignInMode = 'code' | 'password' | 'reset'
+
+// A code that has been texted, waiting to be entered
+interface PendingCode {
+  phone: string
+  resendAt: number
+}
+
+interface CodeEntryProps {
+  pending: PendingCode
+  isLoading: boolean
+  submitLabel: string
+  onSubmit: (code: string) => void
+  onResend: () => void
+  onChangeNumber: () => void
+}
+
+function CodeEntry({ pending, isLoading, submitLabel, onSubmit, onResend, onChangeNumber }: CodeEntryProps) {
+  const [code, setCode] = useState('')
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const waitSeconds = Math.max(0, Math.ceil((pending.resendAt - now) / 1000))
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSubmit(code)
+      }}
+      className="space-y-4"
+    >
+      <div className="space-y-2">
+        <Label>Verification Code</Label>
+        <p className="text-sm text-gray-600">Enter the {OTP_LENGTH}-digit code we sent to {pending.phone}</p>
+        <InputOTP maxLength={OTP_LENGTH} value={code} onChange={setCode} autoFocus>
+          <InputOTPGroup>
+            {Array.from({ length: OTP_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button type="submit" className="w-full" disabled={isLoading || code.length < OTP_LENGTH}>
+        {isLoading ? 'Verifying...' : submitLabel}
+      </Button>
+      <div className="flex justify-between text-sm">
+        <button type="button" className="text-gray-600 hover:text-green-600" onClick={onChangeNumber}>
+          Change number
+        </button>
+        <button
+          type="button"
+          className="text-gray-600 hover:text-green-600 disabled:opacity-50 disabled:hover:text-gray-600"
+          onClick={onResend}
+          disabled={isLoading || waitSeconds > 0}
+        >
+          {waitSeconds > 0 ? `Resend code in ${waitSeconds}s` : 'Resend code'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
 export default function AuthPage() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
-  const { signIn, signUp } = useAuth()
+  const searchParams = useSearchParams()
+  // Sent here after an admin forced a password reset
+  const resetRequired = searchParams.get('reset') === 'required'
+  // Where to go once signed in, e.g. back to an invite; only paths on this site
+  const next = searchParams.get('next')
+  const redirectTo = next?.startsWith('/') && !next.startsWith('//') ? next : '/dashboard'
+  const [signInMode, setSignInMode] = useState<SignInMode>(resetRequired ? 'reset' : 'code')
+  const [signInCode, setSignInCode] = useState<PendingCode | null>(null)
+  const [resetCode, setResetCode] = useState<PendingCode | null>(null)
+  const [newPassword, setNewPassword] = useState('')
+  const [signUpCode, setSignUpCode] = useState<PendingCode | null>(null)
+  const [signUpDetails, setSignUpDetails] = useState({ name: '', password: '' })
+  const { signIn, signInWithCode, requestPhoneCode, signUp, resetPassword } = useAuth()
   const router = useRouter()
 
-  const handleSignIn = async (e: React.FormEvent<HTMLFormElement>) => {
+  // Text a code to the number; returns where it went, or null with the error shown
+  const sendCode = async (phone: string, purpose: OtpPurpose): Promise<PendingCode | null> => {
+    if (!normalizePhone(phone)) {
+      setError('Please enter a valid phone number')
+      return null
+    }
+
+    const { data, error } = await requestPhoneCode(phone, purpose)
+    const result = data as SendPhoneCodeResult | null
+
+    if (error || !result) {
+      setError(error?.message || 'Failed to send the code')
+      return null
+    }
+
+    if (result.status !== 'sent') {
+      setError(result.message)
+      return null
+    }
+
+    return { phone: result.phone, resendAt: Date.now() + result.resendAfterSeconds * 1000 }
+  }
+
+  const handleRequestSignInCode = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError('')
+
+    const formData = new FormData(e.currentTarget)
+    const pending = await sendCode(formData.get('phone') as string, 'sign_in')
+    if (pending) setSignInCode(pending)
+
+    setIsLoading(false)
+  }
+
+  const handlePasswordSignIn = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setIsLoading(true)
     setError('')
@@ -28,8 +146,7 @@ export default function AuthPage() {
     const phone = formData.get('phone') as string
     const password = formData.get('password') as string
 
-    // Validate phone number format
-    if (!phone.match(/^\+?[1-9]\d{1,14}$/)) {
+    if (!normalizePhone(phone)) {
       setError('Please enter a valid phone number')
       setIsLoading(false)
       return
@@ -40,41 +157,134 @@ export default function AuthPage() {
     if (error) {
       setError(error.message)
     } else {
-      router.push('/dashboard')
+      router.push(redirectTo)
+    }
+
+    setIsLoading(false)
+  }
+
+  const handleSignInWithCode = async (code: string) => {
+    if (!signInCode) return
+    setIsLoading(true)
+    setError('')
+
+    const { error } = await signInWithCode(signInCode.phone, code)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      router.push(redirectTo)
     }
 
     setIsLoading(false)
   }
 
-  const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
+  const handleRequestSignUpCode = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setIsLoading(true)
     setError('')
 
     const formData = new FormData(e.currentTarget)
-    const phone = formData.get('phone') as string
-    const password = formData.get('password') as string
     const name = formData.get('name') as string
+    const password = formData.get('password') as string
 
-    // Validate phone number format
-    if (!phone.match(/^\+?[1-9]\d{1,14}$/)) {
-      setError('Please enter a valid phone number')
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`)
       setIsLoading(false)
       return
     }
 
-    // All new signups default to 'user' role
-    const { error } = await signUp(phone, password, name, 'user')
+    const pending = await sendCode(formData.get('phone') as string, 'sign_up')
+    if (pending) {
+      setSignUpDetails({ name, password })
+      setSignUpCode(pending)
+    }
+
+    setIsLoading(false)
+  }
+
+  const handleSignUp = async (code: string) => {
+    if (!signUpCode) return
+    setIsLoading(true)
+    setError('')
+
+    const { error } = await signUp(signUpCode.phone, signUpDetails.password, signUpDetails.name, code)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      router.push(redirectTo)
+    }
+
+    setIsLoading(false)
+  }
+
+  const handleRequestResetCode = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError('')
+
+    const formData = new FormData(e.currentTarget)
+    const password = formData.get('password') as string
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`)
+      setIsLoading(false)
+      return
+    }
+
+    if (password !== formData.get('confirmPassword')) {
+      setError('Passwords do not match')
+      setIsLoading(false)
+      return
+    }
+
+    const pending = await sendCode(formData.get('phone') as string, 'password_reset')
+    if (pending) {
+      setNewPassword(password)
+      setResetCode(pending)
+    }
+
+    setIsLoading(false)
+  }
+
+  const handleResetPassword = async (code: string) => {
+    if (!resetCode) return
+    setIsLoading(true)
+    setError('')
+
+    const { error } = await resetPassword(resetCode.phone, newPassword, code)
 
     if (error) {
       setError(error.message)
     } else {
-      router.push('/dashboard')
+      router.push(redirectTo)
     }
 
     setIsLoading(false)
   }
 
+  const switchSignInMode = (mode: SignInMode) => {
+    setSignInMode(mode)
+    setError('')
+  }
+
+  const handleResend = async (pending: PendingCode, purpose: OtpPurpose, setPending: (pending: PendingCode) => void) => {
+    setIsLoading(true)
+    setError('')
+
+    const resent = await sendCode(pending.phone, purpose)
+    if (resent) setPending(resent)
+
+    setIsLoading(false)
+  }
+
+  const errorAlert = error && (
+    <Alert variant="destructive">
+      <AlertDescription>{error}</AlertDescription>
+    </Alert>
+  )
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-blue-50 p-4">
       <div className="w-full max-w-md">
@@ -93,7 +303,7 @@ export default function AuthPage() {
           <p className="text-gray-600 text-center mt-2">Sign in to your account or create a new one</p>
         </div>
 
-        <Tabs defaultValue="signin" className="w-full">
+        <Tabs defaultValue="signin" className="w-full" onValueChange={() => setError('')}>
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="signin">Sign In</TabsTrigger>
             <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -102,42 +312,163 @@ export default function AuthPage() {
           <TabsContent value="signin">
             <Card>
               <CardHeader>
-                <CardTitle>Sign In</CardTitle>
+                <CardTitle>{signInMode === 'reset' ? 'Reset Password' : 'Sign In'}</CardTitle>
                 <CardDescription>
-                  Enter your credentials to access your account
+                  {signInMode === 'reset'
+                    ? 'Choose a new password. We will text a code to your phone number to confirm it is you.'
+                    : signInMode === 'password'
+                      ? 'Enter your phone number and password'
+                      : 'We will text a code to your phone number'}
                 </CardDescription>
               </CardHeader>
-              <CardContent>
-                <form onSubmit={handleSignIn} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-phone">Phone Number</Label>
-                    <Input
-                      id="signin-phone"
-                      name="phone"
-                      type="tel"
-                      placeholder="Enter your phone number (e.g., +919876543210)"
-                      required
+              <CardContent className="space-y-4">
+                {signInMode === 'reset' && resetRequired && !resetCode && (
+                  <Alert>
+                    <AlertDescription>
+                      Your password has been reset by the venue. Set a new one to keep using your account.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {signInMode === 'reset' ? (
+                  resetCode ? (
+                    <>
+                      {errorAlert}
+                      <CodeEntry
+                        pending={resetCode}
+                        isLoading={isLoading}
+                        submitLabel="Reset Password"
+                        onSubmit={handleResetPassword}
+                        onResend={() => handleResend(resetCode, 'password_reset', setResetCode)}
+                        onChangeNumber={() => {
+                          setResetCode(null)
+                          setError('')
+                        }}
+                      />
+                    </>
+                  ) : (
+                    <form onSubmit={handleRequestResetCode} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="reset-phone">Phone Number</Label>
+                        <Input
+                          id="reset-phone"
+                          name="phone"
+                          type="tel"
+                          placeholder="Enter your phone number (e.g., +919876543210)"
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="reset-password">New Password</Label>
+                        <Input
+                          id="reset-password"
+                          name="password"
+                          type="password"
+                          placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="reset-confirm-password">Confirm New Password</Label>
+                        <Input
+                          id="reset-confirm-password"
+                          name="confirmPassword"
+                          type="password"
+                          placeholder="Enter the new password again"
+                          required
+                        />
+                      </div>
+                      {errorAlert}
+                      <Button type="submit" className="w-full" disabled={isLoading}>
+                        {isLoading ? 'Sending Code...' : 'Send Code'}
+                      </Button>
+                    </form>
+                  )
+                ) : signInMode === 'password' ? (
+                  <form onSubmit={handlePasswordSignIn} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-phone">Phone Number</Label>
+                      <Input
+                        id="signin-phone"
+                        name="phone"
+                        type="tel"
+                        placeholder="Enter your phone number (e.g., +919876543210)"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-password">Password</Label>
+                      <Input
+                        id="signin-password"
+                        name="password"
+                        type="password"
+                        placeholder="Enter your password"
+                        required
+                      />
+                    </div>
+                    {errorAlert}
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? 'Signing In...' : 'Sign In'}
+                    </Button>
+                  </form>
+                ) : signInCode ? (
+                  <>
+                    {errorAlert}
+                    <CodeEntry
+                      pending={signInCode}
+                      isLoading={isLoading}
+                      submitLabel="Sign In"
+                      onSubmit={handleSignInWithCode}
+                      onResend={() => handleResend(signInCode, 'sign_in', setSignInCode)}
+                      onChangeNumber={() => {
+                        setSignInCode(null)
+                        setError('')
+                      }}
                     />
+                  </>
+                ) : (
+                  <form onSubmit={handleRequestSignInCode} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-code-phone">Phone Number</Label>
+                      <Input
+                        id="signin-code-phone"
+                        name="phone"
+                        type="tel"
+                        placeholder="Enter your phone number (e.g., +919876543210)"
+                        required
+                      />
+                    </div>
+                    {errorAlert}
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? 'Sending Code...' : 'Send Code'}
+                    </Button>
+                  </form>
+                )}
+                {signInMode === 'reset' ? (
+                  <button
+                    type="button"
+                    className="w-full text-center text-sm text-gray-600 hover:text-green-600"
+                    onClick={() => switchSignInMode('code')}
+                  >
+                    Back to sign in
+                  </button>
+                ) : (
+                  <div className="flex justify-between text-sm">
+                    <button
+                      type="button"
+                      className="text-gray-600 hover:text-green-600"
+                      onClick={() => switchSignInMode(signInMode === 'password' ? 'code' : 'password')}
+                    >
+                      {signInMode === 'password' ? 'Use a text message code instead' : 'Use your password instead'}
+                    </button>
+                    <button
+                      type="button"
+                      className="text-gray-600 hover:text-green-600"
+                      onClick={() => switchSignInMode('reset')}
+                    >
+                      Forgot password?
+                    </button>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-password">Password</Label>
-                    <Input
-                      id="signin-password"
-                      name="password"
-                      type="password"
-                      placeholder="Enter your password"
-                      required
-                    />
-                  </div>
-                  {error && (
-                    <Alert variant="destructive">
-                      <AlertDescription>{error}</AlertDescription>
-                    </Alert>
-                  )}
-                  <Button type="submit" className="w-full" disabled={isLoading}>
-                    {isLoading ? 'Signing In...' : 'Sign In'}
-                  </Button>
-                </form>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -147,50 +478,64 @@ export default function AuthPage() {
               <CardHeader>
                 <CardTitle>Sign Up</CardTitle>
                 <CardDescription>
-                  Create a new account to start booking
+                  Create a new account to start booking. We will text a code to confirm your phone number.
                 </CardDescription>
               </CardHeader>
-              <CardContent>
-                <form onSubmit={handleSignUp} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-name">Full Name</Label>
-                    <Input
-                      id="signup-name"
-                      name="name"
-                      type="text"
-                      placeholder="Enter your full name"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-phone">Phone Number</Label>
-                    <Input
-                      id="signup-phone"
-                      name="phone"
-                      type="tel"
-                      placeholder="Enter your phone number (e.g., +919876543210)"
-                      required
+              <CardContent className="space-y-4">
+                {signUpCode ? (
+                  <>
+                    {errorAlert}
+                    <CodeEntry
+                      pending={signUpCode}
+                      isLoading={isLoading}
+                      submitLabel="Create Account"
+                      onSubmit={handleSignUp}
+                      onResend={() => handleResend(signUpCode, 'sign_up', setSignUpCode)}
+                      onChangeNumber={() => {
+                        setSignUpCode(null)
+                        setError('')
+                      }}
                     />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-password">Password</Label>
-                    <Input
-                      id="signup-password"
-                      name="password"
-                      type="password"
-                      placeholder="Create a password"
-                      required
-                    />
-                  </div>
-                  {error && (
-                    <Alert variant="destructive">
-                      <AlertDescription>{error}</AlertDescription>
-                    </Alert>
-                  )}
-                  <Button type="submit" className="w-full" disabled={isLoading}>
-                    {isLoading ? 'Creating Account...' : 'Sign Up'}
-                  </Button>
-                </form>
+                  </>
+                ) : (
+                  <form onSubmit={handleRequestSignUpCode} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-name">Full Name</Label>
+                      <Input
+                        id="signup-name"
+                        name="name"
+                        type="text"
+                        placeholder="Enter your full name"
+                        defaultValue={signUpDetails.name}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-phone">Phone Number</Label>
+                      <Input
+                        id="signup-phone"
+                        name="phone"
+                        type="tel"
+                        placeholder="Enter your phone number (e.g., +919876543210)"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-password">Password</Label>
+                      <Input
+                        id="signup-password"
+                        name="password"
+                        type="password"
+                        placeholder={`Create a password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+                        required
+                      />
+                    </div>
+                    {errorAlert}
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? 'Sending Code...' : 'Send Code'}
+                    </Button>
+                  </form>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -204,4 +549,4 @@ export default function AuthPage() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
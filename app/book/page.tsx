@@ -8,13 +8,22 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Textarea } from '@/components/ui/textarea'
-import { Calendar, Clock, Trophy, DollarSign, CheckCircle } from 'lucide-react'
+import { Switch } from '@/components/ui/switch'
+import { Calendar, Clock, Trophy, DollarSign, CheckCircle, AlertTriangle, Repeat, BellPlus, Tag, X } from 'lucide-react'
 import { useAuth } from '@/hooks/use-auth'
 import { useEffect, useState } from 'react'
 import { gameService } from '@/lib/game-service'
-import { bookingService } from '@/lib/booking-service'
+import { waitlistService } from '@/lib/waitlist-service'
+import { bookingService, BookingSlot, SeriesOccurrencePreview } from '@/lib/booking-service'
+import { addDays, CourtBooking, findFreeCourtIds, formatTimeRange, GameSchedule, getBookingRange, getMinBookingDate, getOperatingHours, MAX_SERIES_OCCURRENCES, RecurrenceRule, toTimestamp } from '@/lib/booking-rules'
+import { calculateBookingPrice, PriceBreakdown, PricingRule } from '@/lib/pricing-rules'
+import { pricingService } from '@/lib/pricing-service'
+import { promoService, PromoPreviewResult } from '@/lib/promo-service'
+import { sessionService } from '@/lib/session-service'
 import { supabase } from '@/lib/supabase'
-import { settingsService, SystemSettings } from '@/lib/settings-service'
+import type { Database } from '@/lib/supabase'
+import { settingsService, SystemSettings, DEFAULT_SETTINGS } from '@/lib/settings-service'
+import { DEFAULT_VENUE_TIMEZONE, getVenueToday } from '@/lib/venue-time'
 import { useToast } from '@/hooks/use-toast'
 import { useRouter } from 'next/navigation'
 
@@ -26,6 +35,10 @@ interface Game {
   max_players: number
 }
 
+type GameCourt = Database['public']['Tables']['game_courts']['Row']
+
+// An active booking or open session near the selected date, with the times it was booked for
+type BookedSlot = CourtBooking & { booking_date: string; start_time: string; end_time: string }
 
 
 export default function BookPage() {
@@ -35,27 +48,56 @@ export default function BookPage() {
   
   const [games, setGames] = useState<Game[]>([])
   const [selectedGame, setSelectedGame] = useState<Game | null>(null)
-  const [existingBookings, setExistingBookings] = useState<{start_time: string, end_time: string}[]>([])
+  const [existingBookings, setExistingBookings] = useState<BookedSlot[]>([])
+  const [courts, setCourts] = useState<GameCourt[]>([])
   const [settings, setSettings] = useState<SystemSettings | null>(null)
+  const [schedule, setSchedule] = useState<GameSchedule | null>(null)
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
+  const [joiningWaitlist, setJoiningWaitlist] = useState<string | null>(null)
 
   const [formData, setFormData] = useState({
     gameId: '',
     bookingDate: '',
     startTime: '',
     endTime: '',
+    courtId: '', // empty for any free court
     notes: ''
   })
 
   const [estimatedCost, setEstimatedCost] = useState(0)
+  const [priceBreakdown, setPriceBreakdown] = useState<PriceBreakdown | null>(null)
+  const [promoInput, setPromoInput] = useState('')
+  const [appliedPromo, setAppliedPromo] = useState<Extract<PromoPreviewResult, { status: 'valid' }> | null>(null)
+  const [promoError, setPromoError] = useState('')
+  const [applyingPromo, setApplyingPromo] = useState(false)
   const [timeError, setTimeError] = useState('')
+  const [slotConflict, setSlotConflict] = useState<{ message: string, conflicts: BookingSlot[] } | null>(null)
+
+  // Recurring series options
+  const [repeatEnabled, setRepeatEnabled] = useState(false)
+  const [repeatOptions, setRepeatOptions] = useState({
+    frequency: 'weekly' as RecurrenceRule['frequency'],
+    endMode: 'count' as 'count' | 'until',
+    occurrences: '4',
+    untilDate: ''
+  })
+  const [seriesPreview, setSeriesPreview] = useState<SeriesOccurrencePreview[]>([])
 
   useEffect(() => {
     fetchGames()
     fetchSettings()
   }, [])
 
+  useEffect(() => {
+    if (formData.gameId) {
+      fetchSchedule()
+      fetchPricingRules()
+      fetchCourts()
+    }
+  }, [formData.gameId])
+
   useEffect(() => {
     if (formData.gameId && formData.bookingDate) {
       fetchExistingBookings()
@@ -65,7 +107,18 @@ export default function BookPage() {
   useEffect(() => {
     calculateCost()
     validateTimeSelection()
-  }, [selectedGame, formData.startTime, formData.endTime, existingBookings, settings])
+  }, [selectedGame, formData.startTime, formData.endTime, formData.courtId, existingBookings, courts, settings, schedule, pricingRules, formData.bookingDate])
+
+  useEffect(() => {
+    setSlotConflict(null)
+    // The discount depends on the price, so an applied code has to be re-checked
+    setAppliedPromo(null)
+    setPromoError('')
+  }, [formData.gameId, formData.bookingDate, formData.startTime, formData.endTime, formData.courtId, repeatEnabled])
+
+  useEffect(() => {
+    fetchSeriesPreview()
+  }, [repeatEnabled, repeatOptions, formData.gameId, formData.bookingDate, formData.startTime, formData.endTime, formData.courtId])
 
   const fetchGames = async () => {
     try {
@@ -97,59 +150,181 @@ export default function BookPage() {
     } catch (error) {
       console.error('Error fetching settings:', error)
       // Use default settings if fetch fails
-      setSettings({
-        opening_time: '06:00',
-        closing_time: '22:00',
-        is_24_7: false,
-        advance_booking_days: 7,
-        require_admin_approval: true,
-        booking_slot_duration: 30,
-        min_booking_duration: 1,
-        max_booking_duration: 4,
-        cancellation_deadline: 2
-      })
+      setSettings({ ...DEFAULT_SETTINGS })
     } finally {
       setLoading(false)
     }
   }
 
+  const fetchSchedule = async () => {
+    const { data, error } = await gameService.getGameSchedule(formData.gameId)
+    if (error) {
+      console.error('Error fetching game schedule:', error)
+    }
+    // Without a schedule the global opening hours apply
+    setSchedule(data)
+  }
+
+  const fetchCourts = async () => {
+    const { data, error } = await gameService.getCourts(formData.gameId, { activeOnly: true })
+    if (error) {
+      console.error('Error fetching courts:', error)
+    }
+    setCourts(data || [])
+  }
+
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim()) return
+
+    setApplyingPromo(true)
+    setPromoError('')
+
+    try {
+      const { data: result, error } = await promoService.previewCode({
+        code: promoInput,
+        gameId: formData.gameId,
+        bookingDate: formData.bookingDate,
+        startTime: formData.startTime,
+        endTime: formData.endTime
+      })
+
+      if (error || !result) {
+        throw error
+      }
+
+      if (result.status === 'invalid') {
+        setAppliedPromo(null)
+        setPromoError(result.message)
+        return
+      }
+
+      setAppliedPromo(result)
+    } catch (error: any) {
+      console.error('Error applying promo code:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply promo code",
+        variant: "destructive"
+      })
+    } finally {
+      setApplyingPromo(false)
+    }
+  }
+
+  const handleRemovePromo = () => {
+    setAppliedPromo(null)
+    setPromoInput('')
+    setPromoError('')
+  }
+
+  const fetchPricingRules = async () => {
+    const { data, error } = await pricingService.getRulesForGame(formData.gameId)
+    if (error) {
+      console.error('Error fetching pricing rules:', error)
+    }
+    // Without rules the flat hourly price applies
+    setPricingRules(data || [])
+  }
+
+  // Opening hours for the selected game and date
+  const operatingHours = settings ? getOperatingHours(settings, formData.bookingDate, schedule) : null
+
   const fetchExistingBookings = async () => {
     if (!formData.gameId || !formData.bookingDate) return
 
     try {
+      // The selected date and the night after it, which overnight bookings run into
+      const range = {
+        startsAt: `${formData.bookingDate}T00:00:00`,
+        endsAt: `${addDays(formData.bookingDate, 2)}T00:00:00`
+      }
+
       const { data, error } = await supabase
         .from('bookings')
-        .select('start_time, end_time')
+        .select('court_id, booking_date, start_time, end_time, starts_at, ends_at')
         .eq('game_id', formData.gameId)
-        .eq('booking_date', formData.bookingDate)
+        .lt('starts_at', range.endsAt)
+        .gt('ends_at', range.startsAt)
+        .is('session_id', null)
         .in('status', ['pending', 'confirmed'])
+        .order('starts_at', { ascending: true })
 
       if (error) throw error
-      setExistingBookings(data || [])
+
+      // Open sessions hold their court too; their seats are booked from the sessions page
+      const { data: sessions, error: sessionsError } = await sessionService.getSessionsInRange(formData.gameId, range)
+      if (sessionsError) throw sessionsError
+
+      setExistingBookings([
+        ...(data || []),
+        ...(sessions || []).map(session => ({
+          court_id: session.court_id,
+          booking_date: session.session_date,
+          start_time: session.start_time,
+          end_time: session.end_time,
+          starts_at: session.starts_at,
+          ends_at: session.ends_at
+        }))
+      ])
     } catch (error) {
       console.error('Error fetching existing bookings:', error)
       setExistingBookings([])
     }
   }
 
-  const calculateCost = () => {
-    if (!selectedGame || !formData.startTime || !formData.endTime) {
-      setEstimatedCost(0)
+  const getRecurrence = (): RecurrenceRule | undefined => {
+    if (!repeatEnabled) return undefined
+
+    return repeatOptions.endMode === 'count'
+      ? { frequency: repeatOptions.frequency, occurrences: parseInt(repeatOptions.occurrences) || 0 }
+      : { frequency: repeatOptions.frequency, untilDate: repeatOptions.untilDate }
+  }
+
+  const fetchSeriesPreview = async () => {
+    const recurrence = getRecurrence()
+    if (!recurrence || !formData.gameId || !formData.bookingDate || !formData.startTime || !formData.endTime) {
+      setSeriesPreview([])
       return
     }
 
-    // Calculate duration in hours
-    const duration = calculateDuration(formData.startTime, formData.endTime)
-    if (duration > 0) {
-      const cost = Math.round(selectedGame.price_per_hour * duration)
-      setEstimatedCost(cost)
-    } else {
+    if (!recurrence.occurrences && !recurrence.untilDate) {
+      setSeriesPreview([])
+      return
+    }
+
+    const { data } = await bookingService.previewSeries(
+      formData.gameId,
+      formData.bookingDate,
+      formData.startTime,
+      formData.endTime,
+      recurrence,
+      formData.courtId || undefined
+    )
+    setSeriesPreview(data || [])
+  }
+
+  const calculateCost = () => {
+    if (!selectedGame || !formData.bookingDate || !formData.startTime || !formData.endTime || !operatingHours) {
       setEstimatedCost(0)
+      setPriceBreakdown(null)
+      return
     }
+
+    // Same pricing engine as the booking API, so the estimate matches the charged amount
+    const breakdown = calculateBookingPrice(
+      selectedGame.price_per_hour,
+      formData.bookingDate,
+      formData.startTime,
+      formData.endTime,
+      pricingRules,
+      operatingHours.is24_7
+    )
+    setEstimatedCost(breakdown.total)
+    setPriceBreakdown(breakdown.total > 0 ? breakdown : null)
   }
 
   const calculateDuration = (startTime: string, endTime: string): number => {
-    if (!startTime || !endTime || !settings) return 0
+    if (!startTime || !endTime || !operatingHours) return 0
 
     const [startHour, startMinute] = startTime.split(':').map(Number)
     const [endHour, endMinute] = endTime.split(':').map(Number)
@@ -158,7 +333,7 @@ export default function BookPage() {
     let endTotalMinutes = endHour * 60 + endMinute
 
     // Handle overnight bookings in 24/7 mode
-    if (settings.is_24_7 && endTotalMinutes <= startTotalMinutes) {
+    if (operatingHours.is24_7 && endTotalMinutes <= startTotalMinutes) {
       // Add 24 hours to end time for overnight booking
       endTotalMinutes += 24 * 60
     }
@@ -187,28 +362,22 @@ export default function BookPage() {
       return
     }
 
-    // Check for conflicts with existing bookings
-    const hasConflict = existingBookings.some(booking => {
-      return (
-        (formData.startTime >= booking.start_time && formData.startTime < booking.end_time) ||
-        (formData.endTime > booking.start_time && formData.endTime <= booking.end_time) ||
-        (formData.startTime <= booking.start_time && formData.endTime >= booking.end_time)
-      )
-    })
-
-    if (hasConflict) {
-      setTimeError('Selected time conflicts with an existing booking')
+    // Check that a court (or the chosen court) is still free
+    if (!isTimeSlotAvailable(formData.startTime, formData.endTime)) {
+      setTimeError(formData.courtId
+        ? 'Selected court is already booked at this time'
+        : 'Selected time conflicts with an existing booking')
       return
     }
   }
 
   const generateTimeOptions = () => {
-    if (!settings) return []
+    if (!settings || !operatingHours || !operatingHours.isOpen) return []
 
     const options = []
     const slotDuration = settings.booking_slot_duration
 
-    if (settings.is_24_7) {
+    if (operatingHours.is24_7) {
       // 24/7 mode: generate slots for full 24 hours
       for (let minutes = 0; minutes < 24 * 60; minutes += slotDuration) {
         const hour = Math.floor(minutes / 60)
@@ -217,9 +386,9 @@ export default function BookPage() {
         options.push(timeString)
       }
     } else {
-      // Regular mode: use opening and closing times
-      const [openHour, openMinute] = settings.opening_time.split(':').map(Number)
-      const [closeHour, closeMinute] = settings.closing_time.split(':').map(Number)
+      // Regular mode: use the game's opening and closing times for the day
+      const [openHour, openMinute] = operatingHours.openingTime.split(':').map(Number)
+      const [closeHour, closeMinute] = operatingHours.closingTime.split(':').map(Number)
 
       const startTotalMinutes = openHour * 60 + openMinute
       const endTotalMinutes = closeHour * 60 + closeMinute
@@ -235,17 +404,24 @@ export default function BookPage() {
     return options
   }
 
+  // Courts free for the whole time range, limited to the chosen court if there is one
+  const getFreeCourts = (startTime: string, endTime: string, courtId = formData.courtId) => {
+    const courtIds = courts.map(court => court.id).filter(id => !courtId || id === courtId)
+    return findFreeCourtIds(courtIds, existingBookings, getBookingRange(formData.bookingDate, startTime, endTime))
+  }
+
+  // Bookings that take up part of the selected date, including overnight ones from the day before
+  const bookingsOnDate = existingBookings.filter(booking =>
+    toTimestamp(booking.starts_at) < `${addDays(formData.bookingDate, 1)}T00:00:00`
+  )
+
   const isTimeSlotAvailable = (startTime: string, endTime: string) => {
-    // Check if the proposed time slot conflicts with any existing booking
-    return !existingBookings.some(booking => {
-      return (
-        (startTime >= booking.start_time && startTime < booking.end_time) ||
-        (endTime > booking.start_time && endTime <= booking.end_time) ||
-        (startTime <= booking.start_time && endTime >= booking.end_time)
-      )
-    })
+    return getFreeCourts(startTime, endTime).length > 0
   }
 
+  const getCourtName = (courtId: string | null) =>
+    courts.find(court => court.id === courtId)?.name || 'Court'
+
   const getAvailableStartTimes = () => {
     if (!settings) return []
 
@@ -272,7 +448,10 @@ export default function BookPage() {
   const handleGameSelect = (gameId: string) => {
     const game = games.find(g => g.id === gameId)
     setSelectedGame(game || null)
-    setFormData(prev => ({ ...prev, gameId, startTime: '', endTime: '' }))
+    setSchedule(null)
+    setPricingRules([])
+    setCourts([])
+    setFormData(prev => ({ ...prev, gameId, startTime: '', endTime: '', courtId: '' }))
     setEstimatedCost(0)
     setTimeError('')
   }
@@ -310,23 +489,54 @@ export default function BookPage() {
     setSubmitting(true)
 
     try {
-      const { error } = await bookingService.createBooking({
-        user_id: user.id,
-        game_id: formData.gameId,
-        booking_date: formData.bookingDate,
-        start_time: formData.startTime,
-        end_time: formData.endTime,
-        notes: formData.notes || null
+      const { data: result, error } = await bookingService.createBooking({
+        gameId: formData.gameId,
+        bookingDate: formData.bookingDate,
+        startTime: formData.startTime,
+        endTime: formData.endTime,
+        notes: formData.notes || null,
+        recurrence: getRecurrence(),
+        promoCode: appliedPromo?.code,
+        courtId: formData.courtId || null
       })
 
-      if (error) {
+      if (error || !result) {
         throw error
       }
 
-      toast({
-        title: "Success",
-        description: "Booking created successfully! Awaiting admin approval."
-      })
+      if (result.status === 'conflict') {
+        // Someone else reserved the slot first - show what's in the way and refresh availability
+        setSlotConflict({ message: result.message, conflicts: result.conflicts })
+        fetchExistingBookings()
+        return
+      }
+
+      if (result.status === 'invalid') {
+        setTimeError(result.message)
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      if (result.status === 'series_created') {
+        const skipped = result.skippedDates.length
+        toast({
+          title: "Success",
+          description: `${result.bookings.length} recurring booking${result.bookings.length !== 1 ? 's' : ''} created` +
+            (skipped > 0 ? `, ${skipped} conflicting date${skipped !== 1 ? 's' : ''} skipped` : '') +
+            (result.bookings[0]?.status === 'pending' ? '. Awaiting admin approval.' : '.')
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: result.booking.status === 'confirmed'
+            ? "Booking confirmed successfully!"
+            : "Booking created successfully! Awaiting admin approval."
+        })
+      }
 
       router.push('/dashboard')
     } catch (error: any) {
@@ -341,26 +551,48 @@ export default function BookPage() {
     }
   }
 
-  const getMinDate = () => {
-    const today = new Date()
+  const handleJoinWaitlist = async (startTime: string, endTime: string) => {
+    if (!user || !formData.gameId || !formData.bookingDate) return
 
-    // If 24/7 mode is enabled, allow today's bookings
-    if (settings?.is_24_7) {
-      return today.toISOString().split('T')[0]
+    try {
+      setJoiningWaitlist(`${startTime}-${endTime}`)
+
+      const { error } = await waitlistService.joinWaitlist(user.id, formData.gameId, formData.bookingDate, startTime, endTime)
+      if (error) {
+        throw error
+      }
+
+      toast({
+        title: "Added to waitlist",
+        description: `We'll hold ${startTime} - ${endTime} for you if it frees up. Check My Bookings for offers.`
+      })
+    } catch (error: any) {
+      console.error('Error joining waitlist:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to join waitlist",
+        variant: "destructive"
+      })
+    } finally {
+      setJoiningWaitlist(null)
     }
+  }
+
+  // Amount the user pays after any promo discount
+  const payableCost = appliedPromo ? appliedPromo.netCost : estimatedCost
 
-    // Otherwise, only allow tomorrow onwards
-    const tomorrow = new Date()
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    return tomorrow.toISOString().split('T')[0]
+  // Booking dates follow the venue's calendar, not the browser's
+  const getVenueDate = () => getVenueToday(settings?.venue_timezone || DEFAULT_VENUE_TIMEZONE)
+
+  const getMinDate = () => {
+    // Today's bookings are only allowed in 24/7 mode
+    return settings ? getMinBookingDate(settings, getVenueDate()) : addDays(getVenueDate(), 1)
   }
 
   const getMaxDate = () => {
-    if (!settings) return new Date().toISOString().split('T')[0]
+    if (!settings) return getVenueDate()
 
-    const maxDate = new Date()
-    maxDate.setDate(maxDate.getDate() + settings.advance_booking_days)
-    return maxDate.toISOString().split('T')[0]
+    return addDays(getVenueDate(), settings.advance_booking_days)
   }
 
   return (
@@ -416,6 +648,13 @@ export default function BookPage() {
                         onChange={(e) => setFormData(prev => ({ ...prev, bookingDate: e.target.value }))}
                         disabled={!formData.gameId || !settings}
                       />
+                      {formData.bookingDate && operatingHours && !operatingHours.isOpen && (
+                        <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                          <p className="text-sm text-red-700">
+                            {selectedGame?.name} is not available on this date: {operatingHours.closedReason}
+                          </p>
+                        </div>
+                      )}
                     </div>
 
                     {/* Time Selection */}
@@ -423,10 +662,10 @@ export default function BookPage() {
                       <div>
                         <Label>Booking Time *</Label>
                         <p className="text-sm text-gray-600 mb-3">
-                          {settings ? (
-                            settings.is_24_7 ?
+                          {settings && operatingHours ? (
+                            operatingHours.is24_7 ?
                               `Select start and end time (${settings.booking_slot_duration}-minute intervals, ${settings.min_booking_duration}-${settings.max_booking_duration} hour duration) - 24/7 operation, overnight bookings allowed` :
-                              `Select start and end time (${settings.booking_slot_duration}-minute intervals, ${settings.min_booking_duration}-${settings.max_booking_duration} hour duration)`
+                              `Select start and end time (${settings.booking_slot_duration}-minute intervals, ${settings.min_booking_duration}-${settings.max_booking_duration} hour duration) - open ${operatingHours.openingTime.slice(0, 5)} to ${operatingHours.closingTime.slice(0, 5)}`
                           ) : (
                             'Loading booking configuration...'
                           )}
@@ -446,7 +685,7 @@ export default function BookPage() {
                                 return { ...prev, startTime: value, endTime: newEndTime }
                               })
                             }}
-                            disabled={!formData.bookingDate || !settings}
+                            disabled={!formData.bookingDate || !settings || !operatingHours?.isOpen}
                           >
                             <SelectTrigger>
                               <SelectValue placeholder="Select start time" />
@@ -509,6 +748,44 @@ export default function BookPage() {
                         </div>
                       </div>
 
+                      {/* Court selection, only when the game has more than one */}
+                      {courts.length > 1 && (
+                        <div>
+                          <Label htmlFor="court">Court</Label>
+                          <Select
+                            value={formData.courtId || 'any'}
+                            onValueChange={(value) => setFormData(prev => ({ ...prev, courtId: value === 'any' ? '' : value }))}
+                            disabled={!formData.bookingDate || !operatingHours?.isOpen}
+                          >
+                            <SelectTrigger id="court">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="any">Any available court</SelectItem>
+                              {courts.map((court) => {
+                                const isAvailable = !formData.startTime || !formData.endTime ||
+                                  getFreeCourts(formData.startTime, formData.endTime, court.id).length > 0
+                                return (
+                                  <SelectItem
+                                    key={court.id}
+                                    value={court.id}
+                                    disabled={!isAvailable}
+                                    className={!isAvailable ? 'opacity-50 cursor-not-allowed' : ''}
+                                  >
+                                    {court.name} {!isAvailable && '(Booked)'}
+                                  </SelectItem>
+                                )
+                              })}
+                            </SelectContent>
+                          </Select>
+                          {!formData.courtId && formData.startTime && formData.endTime && !timeError && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              {getFreeCourts(formData.startTime, formData.endTime).length} of {courts.length} courts free - one will be assigned when you book
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       {/* Time validation error */}
                       {timeError && (
                         <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -516,13 +793,44 @@ export default function BookPage() {
                         </div>
                       )}
 
+                      {/* Slot taken while the form was open */}
+                      {slotConflict && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                          <div className="text-sm font-medium text-red-800 mb-2 flex items-center">
+                            <AlertTriangle className="h-4 w-4 mr-1" />
+                            {slotConflict.message}
+                          </div>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="mb-2"
+                            onClick={() => handleJoinWaitlist(formData.startTime, formData.endTime)}
+                            disabled={joiningWaitlist === `${formData.startTime}-${formData.endTime}`}
+                          >
+                            <BellPlus className="h-4 w-4 mr-1" />
+                            Join waitlist for {formatTimeRange(formData.startTime, formData.endTime)}
+                          </Button>
+                          {slotConflict.conflicts.length > 0 && (
+                            <div className="grid grid-cols-2 gap-2">
+                              {slotConflict.conflicts.map((conflict) => (
+                                <div key={conflict.id} className="text-xs text-red-700 bg-red-100 px-2 py-1 rounded">
+                                  {formatTimeRange(conflict.start_time, conflict.end_time)}
+                                  {conflict.booking_date !== formData.bookingDate && ` on ${conflict.booking_date}`} ({conflict.status})
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+
                       {/* Duration and cost preview */}
                       {formData.startTime && formData.endTime && !timeError && (
                         <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
                           <div className="flex justify-between items-center">
                             <div>
                               <div className="text-sm font-medium text-green-800">
-                                {formData.startTime} - {formData.endTime}
+                                {formatTimeRange(formData.startTime, formData.endTime)}
                               </div>
                               <div className="text-xs text-green-600">
                                 Duration: {(() => {
@@ -539,7 +847,9 @@ export default function BookPage() {
                                   ₹{estimatedCost}
                                 </div>
                                 <div className="text-xs text-green-600">
-                                  @ ₹{selectedGame.price_per_hour}/hour
+                                  {priceBreakdown && priceBreakdown.segments.some(segment => segment.rules.length > 0)
+                                    ? 'Dynamic pricing applied'
+                                    : `@ ₹${selectedGame.price_per_hour}/hour`}
                                 </div>
                               </div>
                             )}
@@ -548,27 +858,47 @@ export default function BookPage() {
                       )}
 
                       {/* Existing bookings info */}
-                      {formData.bookingDate && existingBookings.length > 0 && (
+                      {formData.bookingDate && bookingsOnDate.length > 0 && (
                         <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
                           <div className="text-sm font-medium text-amber-800 mb-2 flex items-center">
                             <Clock className="h-4 w-4 mr-1" />
-                            Unavailable time slots for this date:
+                            {courts.length > 1 ? 'Booked courts for this date:' : 'Unavailable time slots for this date:'}
                           </div>
                           <div className="grid grid-cols-2 gap-2">
-                            {existingBookings.map((booking, index) => (
-                              <div key={index} className="text-xs text-amber-700 bg-amber-100 px-2 py-1 rounded">
-                                {booking.start_time} - {booking.end_time}
+                            {bookingsOnDate.map((booking, index) => (
+                              <div key={index} className="flex items-center justify-between text-xs text-amber-700 bg-amber-100 px-2 py-1 rounded">
+                                <span>
+                                  {courts.length > 1 && `${getCourtName(booking.court_id)}: `}
+                                  {booking.booking_date === formData.bookingDate
+                                    ? formatTimeRange(booking.start_time, booking.end_time)
+                                    : `Until ${booking.end_time.slice(0, 5)} (from the night before)`}
+                                </span>
+                                {/* Waiting only makes sense once every court is taken, and only for this date's slots */}
+                                {booking.booking_date === formData.bookingDate &&
+                                  getFreeCourts(booking.start_time, booking.end_time, '').length === 0 && (
+                                  <button
+                                    type="button"
+                                    className="flex items-center text-amber-800 hover:underline disabled:opacity-50"
+                                    onClick={() => handleJoinWaitlist(booking.start_time, booking.end_time)}
+                                    disabled={joiningWaitlist === `${booking.start_time}-${booking.end_time}`}
+                                  >
+                                    <BellPlus className="h-3 w-3 mr-1" />
+                                    Waitlist
+                                  </button>
+                                )}
                               </div>
                             ))}
                           </div>
                           <div className="text-xs text-amber-600 mt-2">
-                            These times are greyed out in the dropdowns above
+                            {courts.length > 1
+                              ? 'Times with no free court are greyed out in the dropdowns above. Join the waitlist to get first claim if a court frees up.'
+                              : 'These times are greyed out in the dropdowns above. Join the waitlist to get first claim if one frees up.'}
                           </div>
                         </div>
                       )}
 
                       {/* No conflicts message */}
-                      {formData.bookingDate && existingBookings.length === 0 && (
+                      {formData.bookingDate && bookingsOnDate.length === 0 && (
                         <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
                           <div className="text-sm text-green-700 flex items-center">
                             <CheckCircle className="h-4 w-4 mr-1" />
@@ -578,6 +908,159 @@ export default function BookPage() {
                       )}
                     </div>
 
+                    {/* Recurrence */}
+                    <div className="space-y-4 p-4 border rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-0.5">
+                          <Label htmlFor="repeat-toggle" className="flex items-center">
+                            <Repeat className="h-4 w-4 mr-2" />
+                            Repeat this booking
+                          </Label>
+                          <p className="text-xs text-gray-600">Book the same time every week or every other week</p>
+                        </div>
+                        <Switch
+                          id="repeat-toggle"
+                          checked={repeatEnabled}
+                          onCheckedChange={setRepeatEnabled}
+                        />
+                      </div>
+
+                      {repeatEnabled && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <div>
+                            <Label>Frequency</Label>
+                            <Select
+                              value={repeatOptions.frequency}
+                              onValueChange={(value) => setRepeatOptions(prev => ({ ...prev, frequency: value as RecurrenceRule['frequency'] }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="weekly">Every week</SelectItem>
+                                <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div>
+                            <Label>Ends</Label>
+                            <Select
+                              value={repeatOptions.endMode}
+                              onValueChange={(value) => setRepeatOptions(prev => ({ ...prev, endMode: value as 'count' | 'until' }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="count">After a number of bookings</SelectItem>
+                                <SelectItem value="until">On a date</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div>
+                            {repeatOptions.endMode === 'count' ? (
+                              <>
+                                <Label htmlFor="occurrences">Occurrences</Label>
+                                <Input
+                                  id="occurrences"
+                                  type="number"
+                                  min="2"
+                                  max={MAX_SERIES_OCCURRENCES}
+                                  value={repeatOptions.occurrences}
+                                  onChange={(e) => setRepeatOptions(prev => ({ ...prev, occurrences: e.target.value }))}
+                                />
+                              </>
+                            ) : (
+                              <>
+                                <Label htmlFor="until-date">Until</Label>
+                                <Input
+                                  id="until-date"
+                                  type="date"
+                                  min={formData.bookingDate || getMinDate()}
+                                  value={repeatOptions.untilDate}
+                                  onChange={(e) => setRepeatOptions(prev => ({ ...prev, untilDate: e.target.value }))}
+                                />
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {repeatEnabled && seriesPreview.length > 0 && (
+                        <div className="space-y-2">
+                          <div className="text-sm font-medium text-gray-700">
+                            {seriesPreview.filter(o => !o.hasConflict).length} of {seriesPreview.length} dates available
+                          </div>
+                          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                            {seriesPreview.map((occurrence) => (
+                              <div
+                                key={occurrence.date}
+                                className={`text-xs px-2 py-1 rounded ${occurrence.hasConflict ? 'bg-red-100 text-red-700 line-through' : 'bg-green-100 text-green-700'}`}
+                              >
+                                {new Date(occurrence.date).toLocaleDateString('en-US', {
+                                  weekday: 'short',
+                                  month: 'short',
+                                  day: 'numeric'
+                                })}
+                              </div>
+                            ))}
+                          </div>
+                          {seriesPreview.some(o => o.hasConflict) && (
+                            <p className="text-xs text-red-600">
+                              Dates that are already booked will be skipped when the series is created
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Promo Code */}
+                    {!repeatEnabled && (
+                      <div>
+                        <Label htmlFor="promoCode">Promo Code</Label>
+                        {appliedPromo ? (
+                          <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg">
+                            <div className="flex items-center text-sm text-green-800">
+                              <Tag className="h-4 w-4 mr-2" />
+                              <span>
+                                <span className="font-medium">{appliedPromo.code}</span> applied - you save ₹{appliedPromo.discount}
+                                {appliedPromo.description && <span className="text-green-600"> ({appliedPromo.description})</span>}
+                              </span>
+                            </div>
+                            <Button type="button" size="sm" variant="ghost" onClick={handleRemovePromo}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex gap-2">
+                            <Input
+                              id="promoCode"
+                              placeholder="Enter promo code"
+                              value={promoInput}
+                              onChange={(e) => {
+                                setPromoInput(e.target.value)
+                                setPromoError('')
+                              }}
+                              className="uppercase"
+                            />
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={handleApplyPromo}
+                              disabled={applyingPromo || !promoInput.trim() || !formData.startTime || !formData.endTime}
+                            >
+                              {applyingPromo ? 'Applying...' : 'Apply'}
+                            </Button>
+                          </div>
+                        )}
+                        {promoError && (
+                          <p className="text-sm text-red-600 mt-1">{promoError}</p>
+                        )}
+                      </div>
+                    )}
+
                     {/* Notes */}
                     <div>
                       <Label htmlFor="notes">Additional Notes</Label>
@@ -593,7 +1076,7 @@ export default function BookPage() {
                       <Button
                         type="submit"
                         className="w-full h-12 text-base font-medium"
-                        disabled={submitting || !formData.gameId || !formData.bookingDate || !formData.startTime || !formData.endTime || !!timeError}
+                        disabled={submitting || !formData.gameId || !formData.bookingDate || !formData.startTime || !formData.endTime || !!timeError || !!slotConflict}
                       >
                         {submitting ? (
                           <div className="flex items-center">
@@ -601,7 +1084,7 @@ export default function BookPage() {
                             Creating Booking...
                           </div>
                         ) : (
-                          `Create Booking${estimatedCost > 0 ? ` - ₹${estimatedCost}` : ''}`
+                          `Create Booking${estimatedCost > 0 ? ` - ₹${payableCost}` : ''}`
                         )}
                       </Button>
 
@@ -609,9 +1092,9 @@ export default function BookPage() {
                       {formData.startTime && formData.endTime && (
                         <div className="mt-3 p-3 bg-green-50 rounded-lg md:hidden">
                           <div className="text-sm text-green-800">
-                            <div className="font-medium">Selected: {formData.startTime} - {formData.endTime}</div>
+                            <div className="font-medium">Selected: {formatTimeRange(formData.startTime, formData.endTime)}</div>
                             {estimatedCost > 0 && (
-                              <div>Total: ₹{estimatedCost}</div>
+                              <div>Total: ₹{payableCost}</div>
                             )}
                           </div>
                         </div>
@@ -669,7 +1152,7 @@ export default function BookPage() {
                           <div className="bg-green-50 p-3 rounded-lg">
                             <div className="text-green-600 text-xs font-medium">SELECTED TIME</div>
                             <div className="font-semibold text-green-800">
-                              {formData.startTime} - {formData.endTime}
+                              {formatTimeRange(formData.startTime, formData.endTime)}
                             </div>
                             <div className="text-green-600 text-xs">
                               Duration: {(() => {
@@ -685,10 +1168,40 @@ export default function BookPage() {
 
                       {estimatedCost > 0 && (
                         <div className="border-t pt-4">
+                          {priceBreakdown && priceBreakdown.segments.some(segment => segment.rules.length > 0) && (
+                            <div className="space-y-2 mb-3">
+                              <p className="text-sm font-medium text-gray-700">Price Breakdown</p>
+                              {priceBreakdown.segments.map((segment) => (
+                                <div key={`${segment.date}-${segment.startTime}`} className="flex justify-between text-sm">
+                                  <div>
+                                    <div className="text-gray-700">
+                                      {segment.startTime} - {segment.endTime} ({segment.hours}h @ ₹{segment.rate}/hour)
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                      {segment.rules.length > 0 ? segment.rules.join(', ') : 'Standard rate'}
+                                    </div>
+                                  </div>
+                                  <span className="font-medium">₹{segment.cost}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                           <div className="bg-gradient-to-r from-green-50 to-blue-50 p-4 rounded-lg">
+                            {appliedPromo && (
+                              <div className="space-y-1 mb-2 text-sm">
+                                <div className="flex justify-between text-gray-600">
+                                  <span>Subtotal</span>
+                                  <span>₹{estimatedCost}</span>
+                                </div>
+                                <div className="flex justify-between text-green-700">
+                                  <span>Promo {appliedPromo.code}</span>
+                                  <span>-₹{appliedPromo.discount}</span>
+                                </div>
+                              </div>
+                            )}
                             <div className="flex justify-between items-center">
                               <span className="text-gray-700 font-medium">Total Amount:</span>
-                              <span className="text-2xl font-bold text-green-600">₹{estimatedCost}</span>
+                              <span className="text-2xl font-bold text-green-600">₹{payableCost}</span>
                             </div>
                           </div>
                         </div>
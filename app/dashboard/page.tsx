@@ -5,12 +5,13 @@ import { Navbar } from '@/components/layout/navbar'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Calendar, Clock, Trophy, Plus, History } from 'lucide-react'
+import { Calendar, Clock, Trophy, Plus, History, Users } from 'lucide-react'
 import Link from 'next/link'
 import { useAuth } from '@/hooks/use-auth'
 import { useEffect, useState } from 'react'
 import { bookingService } from '@/lib/booking-service'
 import { gameService } from '@/lib/game-service'
+import { formatTimeRange } from '@/lib/booking-rules'
 
 interface BookingWithGame {
   id: string
@@ -89,7 +90,7 @@ export default function Dashboard() {
           </div>
 
           {/* Quick Actions */}
-          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <div className="grid md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
             <Link href="/book">
               <Card className="hover:shadow-lg transition-shadow cursor-pointer">
                 <CardHeader className="text-center">
@@ -120,6 +121,16 @@ export default function Dashboard() {
               </Card>
             </Link>
 
+            <Link href="/sessions">
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+                <CardHeader className="text-center">
+                  <Users className="h-12 w-12 text-teal-600 mx-auto mb-2" />
+                  <CardTitle>Open Sessions</CardTitle>
+                  <CardDescription>Book a seat in a session</CardDescription>
+                </CardHeader>
+              </Card>
+            </Link>
+
             <Link href="/games">
               <Card className="hover:shadow-lg transition-shadow cursor-pointer">
                 <CardHeader className="text-center">
@@ -154,7 +165,7 @@ export default function Dashboard() {
                         <div>
                           <h3 className="font-semibold">{booking.game?.name || 'Unknown Game'}</h3>
                           <p className="text-sm text-gray-600">
-                            {new Date(booking.booking_date).toLocaleDateString()} • {booking.start_time} - {booking.end_time}
+                            {new Date(booking.booking_date).toLocaleDateString()} • {formatTimeRange(booking.start_time, booking.end_time)}
                           </p>
                         </div>
                       </div>
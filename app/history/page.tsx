@@ -12,7 +12,9 @@ import { Calendar, Clock, DollarSign, Search, Filter, Star } from 'lucide-react'
 import { useAuth } from '@/hooks/use-auth'
 import { useEffect, useState } from 'react'
 import { bookingService } from '@/lib/booking-service'
+import { addDays, addMonths, formatTimeRange } from '@/lib/booking-rules'
 import { useToast } from '@/hooks/use-toast'
+import { useVenueTime } from '@/hooks/use-venue-time'
 
 interface BookingWithGame {
   id: string
@@ -21,8 +23,11 @@ interface BookingWithGame {
   end_time: string
   status: string
   total_cost: number
+  refund_amount?: number | null
   notes?: string
   created_at: string
+  // A group booking the user played in rather than organised
+  joined?: boolean
   game: {
     id: string
     name: string
@@ -35,6 +40,7 @@ interface BookingWithGame {
 export default function HistoryPage() {
   const { user } = useAuth()
   const { toast } = useToast()
+  const { today } = useVenueTime()
 
   const [bookings, setBookings] = useState<BookingWithGame[]>([])
   const [filteredBookings, setFilteredBookings] = useState<BookingWithGame[]>([])
@@ -53,7 +59,7 @@ export default function HistoryPage() {
 
   useEffect(() => {
     filterBookings()
-  }, [bookings, searchTerm, statusFilter, gameFilter, dateFilter])
+  }, [bookings, searchTerm, statusFilter, gameFilter, dateFilter, today])
 
   const fetchBookingHistory = async () => {
     if (!user) return
@@ -61,11 +67,17 @@ export default function HistoryPage() {
     try {
       setLoading(true)
 
-      // Get all user bookings (both past and upcoming)
-      const { data } = await bookingService.getUserBookings(user.id)
-      if (data) {
-        setBookings(data as BookingWithGame[])
-      }
+      // Get all user bookings (both past and upcoming) and group bookings they joined
+      const [{ data }, { data: participating }] = await Promise.all([
+        bookingService.getUserBookings(user.id),
+        bookingService.getParticipatingBookings(user.id)
+      ])
+
+      const joined = (participating || [])
+        .filter(participation => participation.status === 'accepted' && participation.booking)
+        .map(participation => ({ ...participation.booking, joined: true }) as BookingWithGame)
+
+      setBookings([...((data || []) as BookingWithGame[]), ...joined])
     } catch (error) {
       console.error('Error fetching booking history:', error)
       toast({
@@ -80,8 +92,6 @@ export default function HistoryPage() {
 
   const filterBookings = () => {
     let filtered = [...bookings]
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
 
     // Search filter
     if (searchTerm) {
@@ -103,9 +113,9 @@ export default function HistoryPage() {
 
     // Date filter
     if (dateFilter !== 'all') {
+      // Dates compare as YYYY-MM-DD strings against today at the venue
       filtered = filtered.filter(booking => {
-        const bookingDate = new Date(booking.booking_date)
-        bookingDate.setHours(0, 0, 0, 0)
+        const bookingDate = booking.booking_date
 
         switch (dateFilter) {
           case 'upcoming':
@@ -113,15 +123,11 @@ export default function HistoryPage() {
           case 'past':
             return bookingDate < today
           case 'today':
-            return bookingDate.getTime() === today.getTime()
+            return bookingDate === today
           case 'this_week':
-            const weekFromNow = new Date(today)
-            weekFromNow.setDate(today.getDate() + 7)
-            return bookingDate >= today && bookingDate <= weekFromNow
+            return bookingDate >= today && bookingDate <= addDays(today, 7)
           case 'this_month':
-            const monthFromNow = new Date(today)
-            monthFromNow.setMonth(today.getMonth() + 1)
-            return bookingDate >= today && bookingDate <= monthFromNow
+            return bookingDate >= today && bookingDate <= addMonths(today, 1)
           default:
             return true
         }
@@ -158,7 +164,7 @@ export default function HistoryPage() {
 
   const calculateTotalSpent = () => {
     return filteredBookings
-      .filter(booking => booking.status === 'confirmed')
+      .filter(booking => booking.status === 'confirmed' && !booking.joined)
       .reduce((total, booking) => total + booking.total_cost, 0)
   }
 
@@ -472,7 +478,12 @@ export default function HistoryPage() {
                             <Badge className={getStatusColor(booking.status)}>
                               {booking.status.replace('_', ' ')}
                             </Badge>
-                            {new Date(booking.booking_date) >= new Date(new Date().toDateString()) && (
+                            {booking.joined && (
+                              <Badge variant="outline" className="text-teal-600 border-teal-600">
+                                Group booking
+                              </Badge>
+                            )}
+                            {booking.booking_date >= today && (
                               <Badge variant="outline" className="text-blue-600 border-blue-600">
                                 Upcoming
                               </Badge>
@@ -487,11 +498,14 @@ export default function HistoryPage() {
                           </div>
                           <div className="flex items-center">
                             <Clock className="h-4 w-4 mr-2" />
-                            {booking.start_time} - {booking.end_time}
+                            {formatTimeRange(booking.start_time, booking.end_time)}
                           </div>
                           <div className="flex items-center">
                             <DollarSign className="h-4 w-4 mr-2" />
                             ₹{booking.total_cost}
+                            {booking.status === 'canceled' && booking.refund_amount != null && booking.refund_amount > 0 && (
+                              <span className="ml-1 text-purple-700">(₹{booking.refund_amount} refunded)</span>
+                            )}
                           </div>
                         </div>
 
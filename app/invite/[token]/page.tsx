@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ShieldCheck } from 'lucide-react'
+import { userService } from '@/lib/user-service'
+import { getInvitePath } from '@/lib/invite-rules'
+import Link from 'next/link'
+
+export default function InvitePage({ params }: { params: { token: string } }) {
+  const { user, profile, loading, refreshProfile } = useAuth()
+  const router = useRouter()
+  const [accepting, setAccepting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleAccept = async () => {
+    setAccepting(true)
+    setError('')
+
+    const { data, error } = await userService.acceptAdminInvite(params.token)
+
+    if (error || !data) {
+      setError(error?.message || 'Failed to accept the invite')
+    } else if (data.status === 'invalid') {
+      setError(data.message)
+    } else {
+      await refreshProfile()
+      router.push('/admin')
+    }
+
+    setAccepting(false)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-green-600"></div>
+      </div>
+    )
+  }
+
+  const signInPath = `/auth?next=${encodeURIComponent(getInvitePath(params.token))}`
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-green-600" />
+            Admin Invitation
+          </CardTitle>
+          <CardDescription>
+            You have been invited to help run Boundary Box as an admin.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!user ? (
+            <>
+              <p className="text-sm text-gray-600">
+                Sign in, or create an account with your phone number, to accept the invitation.
+              </p>
+              <Link href={signInPath}>
+                <Button className="w-full">Sign In to Accept</Button>
+              </Link>
+            </>
+          ) : profile?.role === 'admin' ? (
+            <>
+              <p className="text-sm text-gray-600">You are already an admin.</p>
+              <Link href="/admin">
+                <Button className="w-full">Go to Admin Dashboard</Button>
+              </Link>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                Accepting will give {profile?.name || 'your account'} admin access. Each invite can only be used once.
+              </p>
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <Button className="w-full" onClick={handleAccept} disabled={accepting}>
+                {accepting ? 'Accepting...' : 'Accept Invitation'}
+              </Button>
+            </>
+          )}
+          <div className="text-center">
+            <Link href="/" className="text-sm text-gray-600 hover:text-green-600">
+              ← Back to Home
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,11 +6,31 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Calendar, Clock, MapPin, DollarSign, X, Edit } from 'lucide-react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Calendar, Clock, MapPin, DollarSign, X, Edit, Repeat, BellRing, CheckCircle, CreditCard, CalendarClock, QrCode, Users, LogOut } from 'lucide-react'
 import { useAuth } from '@/hooks/use-auth'
 import { useEffect, useState } from 'react'
-import { bookingService } from '@/lib/booking-service'
+import { bookingService, ParticipatingBooking } from '@/lib/booking-service'
+import { waitlistService, WaitlistEntryWithGame } from '@/lib/waitlist-service'
+import { paymentService } from '@/lib/payment-service'
+import { settingsService } from '@/lib/settings-service'
+import { DEFAULT_VENUE_TIMEZONE, getVenueToday, venueTimeToDate } from '@/lib/venue-time'
+import type { CancellationQuote } from '@/lib/cancellation-rules'
+import { formatTimeRange } from '@/lib/booking-rules'
 import { useToast } from '@/hooks/use-toast'
+import { EditSeriesDialog } from '@/components/bookings/edit-series-dialog'
+import { RescheduleBookingDialog } from '@/components/bookings/reschedule-booking-dialog'
+import { CheckInQrDialog } from '@/components/bookings/check-in-qr-dialog'
+import { BookingPlayersDialog } from '@/components/bookings/booking-players-dialog'
 
 interface BookingWithGame {
   id: string
@@ -19,8 +39,14 @@ interface BookingWithGame {
   end_time: string
   status: string
   total_cost: number
+  payment_status: string
   notes?: string
+  series_id?: string | null
+  session_id?: string | null
+  checked_in_at?: string | null
   created_at: string
+  // Set when the user is an invited player rather than the organiser
+  participation?: { id: string; status: ParticipatingBooking['status'] }
   game: {
     id: string
     name: string
@@ -38,6 +64,18 @@ export default function MyBookingsPage() {
   const [currentBookings, setCurrentBookings] = useState<BookingWithGame[]>([])
   const [loading, setLoading] = useState(true)
   const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [editingSeries, setEditingSeries] = useState<BookingWithGame | null>(null)
+  const [reschedulingBooking, setReschedulingBooking] = useState<BookingWithGame | null>(null)
+  const [checkInBooking, setCheckInBooking] = useState<BookingWithGame | null>(null)
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntryWithGame[]>([])
+  const [waitlistActionId, setWaitlistActionId] = useState<string | null>(null)
+  const [payingId, setPayingId] = useState<string | null>(null)
+  const [cancelTarget, setCancelTarget] = useState<BookingWithGame | null>(null)
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null)
+  const [invitations, setInvitations] = useState<ParticipatingBooking[]>([])
+  const [playersBooking, setPlayersBooking] = useState<BookingWithGame | null>(null)
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+  const [venueTimeZone, setVenueTimeZone] = useState(DEFAULT_VENUE_TIMEZONE)
 
   useEffect(() => {
     if (user) {
@@ -51,21 +89,49 @@ export default function MyBookingsPage() {
     try {
       setLoading(true)
       
+      const timeZone = await settingsService.getVenueTimeZone()
+      const today = getVenueToday(timeZone)
+      setVenueTimeZone(timeZone)
+
+      // Group bookings the user has been invited to or plays in
+      const { data: participating } = await bookingService.getParticipatingBookings(user.id)
+      const activeParticipations = (participating || []).filter(participation =>
+        participation.booking &&
+        participation.booking.booking_date >= today &&
+        ['pending', 'confirmed'].includes(participation.booking.status)
+      )
+      setInvitations(activeParticipations.filter(participation => participation.status === 'invited'))
+
+      const joinedBookings = activeParticipations
+        .filter(participation => participation.status === 'accepted')
+        .map(participation => ({
+          ...participation.booking,
+          participation: { id: participation.id, status: participation.status }
+        }) as BookingWithGame)
+
+      const byStartTime = (a: BookingWithGame, b: BookingWithGame) =>
+        a.booking_date.localeCompare(b.booking_date) || a.start_time.localeCompare(b.start_time)
+
       // Get upcoming bookings
       const { data: upcoming } = await bookingService.getUpcomingBookings(user.id)
       if (upcoming) {
-        setUpcomingBookings(upcoming as BookingWithGame[])
+        setUpcomingBookings([...(upcoming as BookingWithGame[]), ...joinedBookings].sort(byStartTime))
       }
 
       // Get all user bookings to filter current ones
       const { data: allBookings } = await bookingService.getUserBookings(user.id)
       if (allBookings) {
-        const today = new Date().toISOString().split('T')[0]
-        const current = allBookings.filter((booking: BookingWithGame) => 
+        const current = [...(allBookings as BookingWithGame[]), ...joinedBookings].filter((booking: BookingWithGame) => 
           booking.booking_date === today && 
           ['pending', 'confirmed'].includes(booking.status)
         )
-        setCurrentBookings(current as BookingWithGame[])
+        setCurrentBookings(current.sort(byStartTime))
+      }
+
+      // Get waitlist entries and open offers
+      const { data: entries } = await waitlistService.getUserEntries(user.id)
+      if (entries) {
+        setWaitlistEntries(entries)
       }
     } catch (error) {
       console.error('Error fetching bookings:', error)
@@ -79,19 +145,52 @@ export default function MyBookingsPage() {
     }
   }
 
+  // Show the refund the policy gives before the user confirms
+  const handleRequestCancel = async (booking: BookingWithGame) => {
+    setCancelTarget(booking)
+    setCancelQuote(null)
+
+    const { data: quote, error } = await bookingService.getCancellationQuote(booking.id)
+
+    if (error || !quote) {
+      console.error('Error fetching cancellation quote:', error)
+      setCancelTarget(null)
+      toast({
+        title: "Error",
+        description: "Failed to check the cancellation policy",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setCancelQuote(quote)
+  }
+
   const handleCancelBooking = async (bookingId: string) => {
     try {
       setCancellingId(bookingId)
+      setCancelTarget(null)
       
-      const { error } = await bookingService.cancelBooking(bookingId, 'Cancelled by user')
+      const { data: result, error } = await bookingService.cancelBooking(bookingId, 'Cancelled by user')
       
-      if (error) {
+      if (error || !result) {
         throw error
       }
 
+      if (result.status === 'invalid') {
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
       toast({
         title: "Success",
-        description: "Booking cancelled successfully"
+        description: result.refundAmount > 0
+          ? `Booking cancelled. ₹${result.refundAmount} will be refunded.`
+          : "Booking cancelled successfully"
       })
 
       // Refresh bookings
@@ -108,6 +207,189 @@ export default function MyBookingsPage() {
     }
   }
 
+  const handlePayBooking = async (bookingId: string) => {
+    try {
+      setPayingId(bookingId)
+
+      const { data: result, error } = await paymentService.payForBooking(bookingId)
+
+      if (error || !result) {
+        throw error
+      }
+
+      if (result.status === 'redirect') {
+        window.location.href = result.checkoutUrl
+        return
+      }
+
+      if (result.status === 'invalid') {
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: "Payment received"
+      })
+
+      fetchBookings()
+    } catch (error: any) {
+      console.error('Error paying for booking:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Payment failed",
+        variant: "destructive"
+      })
+    } finally {
+      setPayingId(null)
+    }
+  }
+
+  const handleCancelSeries = async (seriesId: string) => {
+    try {
+      setCancellingId(seriesId)
+
+      const { data: result, error } = await bookingService.cancelSeries(seriesId, 'Series cancelled by user')
+
+      if (error || !result) {
+        throw error
+      }
+
+      const cancelled = result.bookings.length
+      const details = [
+        result.refundAmount > 0 ? `₹${result.refundAmount} will be refunded.` : '',
+        result.skippedDates.length > 0
+          ? `${result.skippedDates.length} booking${result.skippedDates.length !== 1 ? 's were' : ' was'} kept because ${result.skippedDates.length !== 1 ? 'they are' : 'it is'} past the cancellation deadline.`
+          : ''
+      ].filter(Boolean).join(' ')
+
+      toast({
+        title: "Success",
+        description: `${cancelled} booking${cancelled !== 1 ? 's' : ''} in this series cancelled. ${details}`.trim()
+      })
+
+      fetchBookings()
+    } catch (error) {
+      console.error('Error cancelling series:', error)
+      toast({
+        title: "Error",
+        description: "Failed to cancel series",
+        variant: "destructive"
+      })
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  const handleClaimOffer = async (entryId: string) => {
+    try {
+      setWaitlistActionId(entryId)
+
+      const { data: result, error } = await waitlistService.claimOffer(entryId)
+      if (error || !result) {
+        throw error
+      }
+
+      if (result.status === 'unavailable') {
+        toast({
+          title: "Offer unavailable",
+          description: result.message,
+          variant: "destructive"
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: result.booking.status === 'confirmed'
+            ? "Slot claimed and booking confirmed!"
+            : "Slot claimed! Awaiting admin approval."
+        })
+      }
+
+      fetchBookings()
+    } catch (error) {
+      console.error('Error claiming waitlist offer:', error)
+      toast({
+        title: "Error",
+        description: "Failed to claim slot",
+        variant: "destructive"
+      })
+    } finally {
+      setWaitlistActionId(null)
+    }
+  }
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    try {
+      setWaitlistActionId(entryId)
+
+      const { error } = await waitlistService.leaveWaitlist(entryId)
+      if (error) {
+        throw error
+      }
+
+      toast({
+        title: "Success",
+        description: "Removed from waitlist"
+      })
+
+      setWaitlistEntries(prev => prev.filter(entry => entry.id !== entryId))
+    } catch (error) {
+      console.error('Error leaving waitlist:', error)
+      toast({
+        title: "Error",
+        description: "Failed to leave waitlist",
+        variant: "destructive"
+      })
+    } finally {
+      setWaitlistActionId(null)
+    }
+  }
+
+  // Accept or decline an invitation; declining an accepted one leaves the booking
+  const handleRespondToInvitation = async (bookingId: string, participantId: string, response: 'accept' | 'decline') => {
+    try {
+      setRespondingId(participantId)
+
+      const { data: result, error } = await bookingService.respondToInvitation(bookingId, participantId, response)
+      if (error || !result) {
+        throw error
+      }
+
+      if (result.status === 'invalid') {
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: response === 'accept' ? "You've joined the booking" : "Invitation declined"
+        })
+      }
+
+      fetchBookings()
+    } catch (error) {
+      console.error('Error responding to invitation:', error)
+      toast({
+        title: "Error",
+        description: "Failed to respond to invitation",
+        variant: "destructive"
+      })
+    } finally {
+      setRespondingId(null)
+    }
+  }
+
+  const getOfferMinutesLeft = (entry: WaitlistEntryWithGame) => {
+    if (!entry.offer_expires_at) return 0
+    return Math.max(0, Math.ceil((new Date(entry.offer_expires_at).getTime() - Date.now()) / (1000 * 60)))
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -123,13 +405,23 @@ export default function MyBookingsPage() {
     }
   }
 
+  const getPaymentStatusColor = (paymentStatus: string) => {
+    switch (paymentStatus) {
+      case 'paid':
+        return 'bg-green-100 text-green-800'
+      case 'refunded':
+      case 'partially_refunded':
+        return 'bg-purple-100 text-purple-800'
+      default:
+        return 'bg-orange-100 text-orange-800'
+    }
+  }
+
+  // The cancellation deadline is enforced by the server; the quote dialog explains it
   const canCancelBooking = (booking: BookingWithGame) => {
-    const bookingDateTime = new Date(`${booking.booking_date}T${booking.start_time}`)
-    const now = new Date()
-    const hoursDifference = (bookingDateTime.getTime() - now.getTime()) / (1000 * 60 * 60)
-    
-    return booking.status === 'pending' || 
-           (booking.status === 'confirmed' && hoursDifference > 2) // Can cancel confirmed bookings 2+ hours before
+    const bookingDateTime = venueTimeToDate(`${booking.booking_date}T${booking.start_time}`, venueTimeZone)
+
+    return ['pending', 'confirmed'].includes(booking.status) && bookingDateTime.getTime() > Date.now()
   }
 
   const BookingCard = ({ booking, showCancelButton = true }: { booking: BookingWithGame, showCancelButton?: boolean }) => (
@@ -140,9 +432,20 @@ export default function MyBookingsPage() {
             <CardTitle className="text-lg">{booking.game?.name}</CardTitle>
             <CardDescription>{booking.game?.description}</CardDescription>
           </div>
-          <Badge className={getStatusColor(booking.status)}>
-            {booking.status.replace('_', ' ')}
-          </Badge>
+          <div className="flex flex-col items-end gap-1">
+            <Badge className={getStatusColor(booking.status)}>
+              {booking.status.replace('_', ' ')}
+            </Badge>
+            <Badge className={getPaymentStatusColor(booking.payment_status)}>
+              {booking.payment_status.replace('_', ' ')}
+            </Badge>
+            {booking.series_id && (
+              <Badge variant="outline" className="text-blue-600 border-blue-600">
+                <Repeat className="h-3 w-3 mr-1" />
+                Recurring
+              </Badge>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -159,14 +462,28 @@ export default function MyBookingsPage() {
           
           <div className="flex items-center text-sm text-gray-600">
             <Clock className="h-4 w-4 mr-2" />
-            {booking.start_time} - {booking.end_time}
+            {formatTimeRange(booking.start_time, booking.end_time)}
           </div>
           
           <div className="flex items-center text-sm text-gray-600">
             <DollarSign className="h-4 w-4 mr-2" />
-            ₹{booking.total_cost}
+            ₹{booking.total_cost}{booking.session_id && ' per seat'}
           </div>
 
+          {booking.session_id && (
+            <div className="flex items-center text-sm text-gray-600">
+              <Users className="h-4 w-4 mr-2" />
+              Seat in an open session
+            </div>
+          )}
+
+          {booking.participation && (
+            <div className="flex items-center text-sm text-gray-600">
+              <Users className="h-4 w-4 mr-2" />
+              You&apos;re a player in this group booking
+            </div>
+          )}
+
           {booking.notes && (
             <div className="text-sm text-gray-600">
               <strong>Notes:</strong> {booking.notes}
@@ -177,16 +494,108 @@ export default function MyBookingsPage() {
             Booked on: {new Date(booking.created_at).toLocaleDateString()}
           </div>
 
-          {showCancelButton && canCancelBooking(booking) && (
+          {!booking.session_id && ['pending', 'confirmed'].includes(booking.status) && (
+            <div className="flex space-x-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPlayersBooking(booking)}
+              >
+                <Users className="h-4 w-4 mr-1" />
+                Players
+              </Button>
+              {booking.participation && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 border-red-600 hover:bg-red-50"
+                  onClick={() => handleRespondToInvitation(booking.id, booking.participation!.id, 'decline')}
+                  disabled={respondingId === booking.participation.id}
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  {respondingId === booking.participation.id ? 'Leaving...' : 'Leave Booking'}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Payment, check-in and changes stay with the organiser */}
+          {booking.participation ? null : booking.checked_in_at ? (
+            <div className="flex items-center text-sm text-green-700">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Checked in at {new Date(booking.checked_in_at).toLocaleTimeString()}
+            </div>
+          ) : booking.status === 'confirmed' && (
             <div className="flex space-x-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCheckInBooking(booking)}
+              >
+                <QrCode className="h-4 w-4 mr-1" />
+                Check-in Code
+              </Button>
+            </div>
+          )}
+
+          {showCancelButton && !booking.participation && booking.payment_status === 'unpaid' && booking.total_cost > 0 &&
+            ['pending', 'confirmed'].includes(booking.status) && (
+            <div className="flex space-x-2 pt-2">
+              <Button
+                size="sm"
+                onClick={() => handlePayBooking(booking.id)}
+                disabled={payingId === booking.id}
+              >
+                <CreditCard className="h-4 w-4 mr-1" />
+                {payingId === booking.id ? 'Processing...' : `Pay ₹${booking.total_cost}`}
+              </Button>
+            </div>
+          )}
+
+          {showCancelButton && !booking.participation && canCancelBooking(booking) && (
+            <div className="flex space-x-2 pt-2">
+              {/* A seat keeps its session's time, so it can only be cancelled */}
+              {!booking.session_id && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setReschedulingBooking(booking)}
+                >
+                  <CalendarClock className="h-4 w-4 mr-1" />
+                  Reschedule
+                </Button>
+              )}
               <Button
                 variant="destructive"
                 size="sm"
-                onClick={() => handleCancelBooking(booking.id)}
+                onClick={() => handleRequestCancel(booking)}
                 disabled={cancellingId === booking.id}
               >
                 <X className="h-4 w-4 mr-1" />
-                {cancellingId === booking.id ? 'Cancelling...' : 'Cancel Booking'}
+                {cancellingId === booking.id ? 'Cancelling...' : booking.session_id ? 'Cancel Seat' : 'Cancel Booking'}
+              </Button>
+            </div>
+          )}
+
+          {showCancelButton && !booking.participation && booking.series_id && ['pending', 'confirmed'].includes(booking.status) && (
+            <div className="flex flex-wrap gap-2 pt-2 border-t">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditingSeries(booking)}
+              >
+                <Edit className="h-4 w-4 mr-1" />
+                Edit Series
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-600 border-red-600 hover:bg-red-50"
+                onClick={() => handleCancelSeries(booking.series_id!)}
+                disabled={cancellingId === booking.series_id}
+              >
+                <X className="h-4 w-4 mr-1" />
+                {cancellingId === booking.series_id ? 'Cancelling...' : 'Cancel Series'}
               </Button>
             </div>
           )}
@@ -223,13 +632,19 @@ export default function MyBookingsPage() {
           </div>
 
           <Tabs defaultValue="upcoming" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="upcoming">
                 Upcoming ({upcomingBookings.length})
               </TabsTrigger>
               <TabsTrigger value="today">
                 Today ({currentBookings.length})
               </TabsTrigger>
+              <TabsTrigger value="waitlist">
+                Waitlist ({waitlistEntries.filter(entry => entry.status !== 'expired').length})
+              </TabsTrigger>
+              <TabsTrigger value="invitations">
+                Invitations ({invitations.length})
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="upcoming" className="mt-6">
@@ -269,8 +684,232 @@ export default function MyBookingsPage() {
                 )}
               </div>
             </TabsContent>
+
+            <TabsContent value="waitlist" className="mt-6">
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {waitlistEntries.length > 0 ? (
+                  waitlistEntries.map((entry) => (
+                    <Card key={entry.id} className={entry.status === 'offered' ? 'border-green-500 shadow-md' : ''}>
+                      <CardHeader>
+                        <div className="flex justify-between items-start">
+                          <CardTitle className="text-lg">{entry.game?.name}</CardTitle>
+                          <Badge className={
+                            entry.status === 'offered' ? 'bg-green-100 text-green-800' :
+                            entry.status === 'expired' ? 'bg-gray-100 text-gray-800' :
+                            'bg-yellow-100 text-yellow-800'
+                          }>
+                            {entry.status === 'offered' ? 'slot available' : entry.status}
+                          </Badge>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-3">
+                          <div className="flex items-center text-sm text-gray-600">
+                            <Calendar className="h-4 w-4 mr-2" />
+                            {new Date(entry.booking_date).toLocaleDateString('en-US', {
+                              weekday: 'long',
+                              year: 'numeric',
+                              month: 'long',
+                              day: 'numeric'
+                            })}
+                          </div>
+
+                          <div className="flex items-center text-sm text-gray-600">
+                            <Clock className="h-4 w-4 mr-2" />
+                            {formatTimeRange(entry.start_time, entry.end_time)}
+                          </div>
+
+                          {entry.status === 'offered' && (
+                            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 flex items-center">
+                              <BellRing className="h-4 w-4 mr-2" />
+                              This slot is held for you for {getOfferMinutesLeft(entry)} more minute{getOfferMinutesLeft(entry) !== 1 ? 's' : ''}
+                            </div>
+                          )}
+
+                          {entry.status === 'expired' && (
+                            <div className="text-sm text-gray-500">
+                              The offer for this slot has expired and was passed to the next person in line.
+                            </div>
+                          )}
+
+                          <div className="flex space-x-2 pt-2">
+                            {entry.status === 'offered' && (
+                              <Button
+                                size="sm"
+                                onClick={() => handleClaimOffer(entry.id)}
+                                disabled={waitlistActionId === entry.id}
+                              >
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                {waitlistActionId === entry.id ? 'Claiming...' : 'Claim Slot'}
+                              </Button>
+                            )}
+                            {entry.status !== 'expired' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleLeaveWaitlist(entry.id)}
+                                disabled={waitlistActionId === entry.id}
+                              >
+                                <X className="h-4 w-4 mr-1" />
+                                Leave Waitlist
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))
+                ) : (
+                  <div className="col-span-full text-center py-12">
+                    <BellRing className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No waitlist entries</h3>
+                    <p className="text-gray-600 mb-4">Join the waitlist from the booking page when a slot is already taken.</p>
+                    <Button asChild>
+                      <a href="/book">Book a Game</a>
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="invitations" className="mt-6">
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {invitations.length > 0 ? (
+                  invitations.map((invitation) => (
+                    <Card key={invitation.id} className="border-green-500 shadow-md">
+                      <CardHeader>
+                        <CardTitle className="text-lg">{invitation.booking.game?.name}</CardTitle>
+                        <CardDescription>You&apos;ve been invited to play</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-3">
+                          <div className="flex items-center text-sm text-gray-600">
+                            <Calendar className="h-4 w-4 mr-2" />
+                            {new Date(invitation.booking.booking_date).toLocaleDateString('en-US', {
+                              weekday: 'long',
+                              year: 'numeric',
+                              month: 'long',
+                              day: 'numeric'
+                            })}
+                          </div>
+
+                          <div className="flex items-center text-sm text-gray-600">
+                            <Clock className="h-4 w-4 mr-2" />
+                            {formatTimeRange(invitation.booking.start_time, invitation.booking.end_time)}
+                          </div>
+
+                          <div className="flex space-x-2 pt-2">
+                            <Button
+                              size="sm"
+                              onClick={() => handleRespondToInvitation(invitation.booking_id, invitation.id, 'accept')}
+                              disabled={respondingId === invitation.id}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Accept
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRespondToInvitation(invitation.booking_id, invitation.id, 'decline')}
+                              disabled={respondingId === invitation.id}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Decline
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setPlayersBooking({
+                                ...invitation.booking,
+                                participation: { id: invitation.id, status: invitation.status }
+                              } as BookingWithGame)}
+                            >
+                              <Users className="h-4 w-4 mr-1" />
+                              Players
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))
+                ) : (
+                  <div className="col-span-full text-center py-12">
+                    <Users className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No invitations</h3>
+                    <p className="text-gray-600 mb-4">When another player invites you to their booking, it shows up here.</p>
+                  </div>
+                )}
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
+
+        <EditSeriesDialog
+          seriesId={editingSeries?.series_id || null}
+          gameName={editingSeries?.game?.name}
+          startTime={editingSeries?.start_time}
+          endTime={editingSeries?.end_time}
+          open={!!editingSeries}
+          onOpenChange={(open) => !open && setEditingSeries(null)}
+          onSeriesUpdated={fetchBookings}
+        />
+
+        <RescheduleBookingDialog
+          booking={reschedulingBooking}
+          open={!!reschedulingBooking}
+          onOpenChange={(open) => !open && setReschedulingBooking(null)}
+          onRescheduled={fetchBookings}
+        />
+
+        <BookingPlayersDialog
+          booking={playersBooking}
+          canManage={!!playersBooking && !playersBooking.participation}
+          open={!!playersBooking}
+          onOpenChange={(open) => !open && setPlayersBooking(null)}
+        />
+
+        <CheckInQrDialog
+          booking={checkInBooking}
+          open={!!checkInBooking}
+          onOpenChange={(open) => !open && setCheckInBooking(null)}
+        />
+
+        <AlertDialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel Booking</AlertDialogTitle>
+              <AlertDialogDescription asChild>
+                <div className="space-y-2">
+                  <p>
+                    {cancelTarget?.game?.name} on {cancelTarget?.booking_date}, {cancelTarget && formatTimeRange(cancelTarget.start_time, cancelTarget.end_time)}
+                  </p>
+                  {!cancelQuote ? (
+                    <p>Checking the cancellation policy...</p>
+                  ) : !cancelQuote.allowed ? (
+                    <p className="text-red-600">{cancelQuote.reason}</p>
+                  ) : cancelTarget?.payment_status === 'paid' || cancelTarget?.payment_status === 'partially_refunded' ? (
+                    <p className="font-medium text-gray-900">
+                      You&apos;ll get a {cancelQuote.refundPercent}% refund: ₹{cancelQuote.refundAmount} of ₹{cancelTarget.total_cost}.
+                    </p>
+                  ) : (
+                    <p>No payment has been taken for this booking, so there is nothing to refund.</p>
+                  )}
+                </div>
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Booking</AlertDialogCancel>
+              {cancelQuote?.allowed && cancelTarget && (
+                <AlertDialogAction
+                  onClick={() => handleCancelBooking(cancelTarget.id)}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Cancel Booking
+                </AlertDialogAction>
+              )}
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </AuthGuard>
   )
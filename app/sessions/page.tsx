@@ -0,0 +1,185 @@
+'use client'
+
+import { AuthGuard } from '@/components/auth-guard'
+import { Navbar } from '@/components/layout/navbar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Calendar, Clock, DollarSign, Users } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { sessionService, OpenSessionWithDetails } from '@/lib/session-service'
+import { formatTimeRange } from '@/lib/booking-rules'
+import { useToast } from '@/hooks/use-toast'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+export default function SessionsPage() {
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const [sessions, setSessions] = useState<OpenSessionWithDetails[]>([])
+  const [loading, setLoading] = useState(true)
+  const [bookingId, setBookingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSessions()
+  }, [])
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await sessionService.getUpcomingSessions()
+
+      if (error) throw error
+      setSessions(data || [])
+    } catch (error) {
+      console.error('Error fetching open sessions:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load open sessions",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleBookSeat = async (session: OpenSessionWithDetails) => {
+    try {
+      setBookingId(session.id)
+
+      const { data: result, error } = await sessionService.bookSeat(session.id)
+      if (error || !result) throw error
+
+      if (result.status === 'unavailable') {
+        toast({
+          title: "Seat not booked",
+          description: result.message,
+          variant: "destructive"
+        })
+        fetchSessions()
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: result.booking.status === 'confirmed'
+          ? "Seat booked successfully!"
+          : "Seat requested! Awaiting admin approval."
+      })
+      router.push('/my-bookings')
+    } catch (error: any) {
+      console.error('Error booking seat:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to book seat",
+        variant: "destructive"
+      })
+    } finally {
+      setBookingId(null)
+    }
+  }
+
+  return (
+    <AuthGuard requireRole="user">
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">Open Sessions</h1>
+                <p className="text-gray-600">Book a single seat in a shared session</p>
+              </div>
+              <Link href="/dashboard">
+                <Button variant="outline">
+                  ← Back to Dashboard
+                </Button>
+              </Link>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {[1, 2, 3].map((i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardHeader>
+                    <div className="h-6 bg-gray-200 rounded w-32"></div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      <div className="h-4 bg-gray-200 rounded w-40"></div>
+                      <div className="h-4 bg-gray-200 rounded w-28"></div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : sessions.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">No open sessions are scheduled right now</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {sessions.map((session) => {
+                const seatsLeft = Math.max(session.game.max_players - session.seatsTaken, 0)
+
+                return (
+                  <Card key={session.id}>
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center justify-between">
+                        {session.title}
+                        <Badge className={seatsLeft > 0 ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                          {seatsLeft > 0 ? `${seatsLeft} seat${seatsLeft !== 1 ? 's' : ''} left` : 'Full'}
+                        </Badge>
+                      </CardTitle>
+                      <CardDescription>
+                        {session.game.name}{session.court && ` · ${session.court.name}`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2 text-sm text-gray-600 mb-4">
+                        <div className="flex items-center">
+                          <Calendar className="h-4 w-4 mr-2" />
+                          {new Date(`${session.session_date}T00:00:00`).toLocaleDateString('en-US', {
+                            weekday: 'long',
+                            month: 'long',
+                            day: 'numeric'
+                          })}
+                        </div>
+                        <div className="flex items-center">
+                          <Clock className="h-4 w-4 mr-2" />
+                          {formatTimeRange(session.start_time, session.end_time)}
+                        </div>
+                        <div className="flex items-center">
+                          <DollarSign className="h-4 w-4 mr-2" />
+                          ₹{session.price_per_seat} per seat
+                        </div>
+                        <div className="flex items-center">
+                          <Users className="h-4 w-4 mr-2" />
+                          {session.seatsTaken} of {session.game.max_players} players
+                        </div>
+                        {session.notes && <p>{session.notes}</p>}
+                      </div>
+                      <Button
+                        className="w-full"
+                        onClick={() => handleBookSeat(session)}
+                        disabled={seatsLeft === 0 || bookingId === session.id}
+                      >
+                        {bookingId === session.id ? 'Booking...' : seatsLeft > 0 ? 'Book a Seat' : 'Session Full'}
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </AuthGuard>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { History, User } from 'lucide-react'
+import { auditService, getAccountAuditActionLabel } from '@/lib/audit-service'
+import type { AccountAuditEntry } from '@/lib/audit-service'
+import { useToast } from '@/hooks/use-toast'
+
+interface AccountAuditDialogProps {
+  user: { id: string; name: string } | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function AccountAuditDialog({ user, onOpenChange }: AccountAuditDialogProps) {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<AccountAuditEntry[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (user) {
+      fetchAuditLog(user.id)
+    }
+  }, [user])
+
+  const fetchAuditLog = async (id: string) => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await auditService.getAccountAuditLog(id)
+      if (error) throw error
+      setEntries(data || [])
+    } catch (error) {
+      console.error('Error fetching account history:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load account history",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={user !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Account History
+          </DialogTitle>
+          <DialogDescription>
+            Password resets and role changes on {user?.name}&apos;s account, and who made them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading history...</p>
+          </div>
+        ) : entries.length > 0 ? (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+            {entries.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+                <p className="text-xs text-gray-500 mb-1">
+                  {new Date(entry.created_at).toLocaleDateString()} at {new Date(entry.created_at).toLocaleTimeString()}
+                </p>
+                <p className="font-medium">{getAccountAuditActionLabel(entry.action)}</p>
+                <p className="text-sm text-gray-600 flex items-center">
+                  <User className="h-3 w-3 mr-1" />
+                  {!entry.actor ? 'System' : entry.actor.role === 'admin' ? `${entry.actor.name} (admin)` : entry.actor.name}
+                </p>
+                {entry.notes && (
+                  <p className="text-sm text-gray-800 mt-1">{entry.notes}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No account changes recorded for this user</p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
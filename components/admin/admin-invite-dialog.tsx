@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Copy, UserPlus } from 'lucide-react'
+import { userService } from '@/lib/user-service'
+import { DEFAULT_INVITE_EXPIRY_DAYS, MAX_INVITE_EXPIRY_DAYS, getInvitePath } from '@/lib/invite-rules'
+import { useToast } from '@/hooks/use-toast'
+
+interface AdminInviteDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreated: () => void
+}
+
+export function AdminInviteDialog({ open, onOpenChange, onCreated }: AdminInviteDialogProps) {
+  const { toast } = useToast()
+  const [phone, setPhone] = useState('')
+  const [note, setNote] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState(DEFAULT_INVITE_EXPIRY_DAYS)
+  const [submitting, setSubmitting] = useState(false)
+  // Shown once after the invite is created; the token can't be looked up again
+  const [inviteLink, setInviteLink] = useState<string | null>(null)
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setPhone('')
+      setNote('')
+      setExpiresInDays(DEFAULT_INVITE_EXPIRY_DAYS)
+      setInviteLink(null)
+    }
+    onOpenChange(isOpen)
+  }
+
+  const handleCreate = async () => {
+    try {
+      setSubmitting(true)
+
+      const { data, error } = await userService.createAdminInvite({ phone, note, expiresInDays })
+      if (error) throw error
+
+      if (data?.status === 'invalid') {
+        toast({
+          title: "Invite not created",
+          description: data.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      if (data?.status === 'created') {
+        setInviteLink(`${window.location.origin}${getInvitePath(data.token)}`)
+        onCreated()
+      }
+    } catch (error) {
+      console.error('Error creating invite:', error)
+      toast({
+        title: "Error",
+        description: "Failed to create the invite",
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!inviteLink) return
+    await navigator.clipboard.writeText(inviteLink)
+    toast({
+      title: "Copied",
+      description: "The invite link is on your clipboard"
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <UserPlus className="h-5 w-5 mr-2" />
+            Invite an Admin
+          </DialogTitle>
+          <DialogDescription>
+            Whoever opens the link and accepts becomes an admin. Each link works once.
+          </DialogDescription>
+        </DialogHeader>
+
+        {inviteLink ? (
+          <div className="space-y-2">
+            <Label htmlFor="invite-link">Invite Link</Label>
+            <div className="flex space-x-2">
+              <Input id="invite-link" value={inviteLink} readOnly />
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Copy it now and send it to the person you are inviting. It won&apos;t be shown again.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-phone">Phone Number (optional)</Label>
+              <Input
+                id="invite-phone"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="Only this number can accept the invite"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-note">Note (optional)</Label>
+              <Input
+                id="invite-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Weekend front desk manager"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-expiry">Expires After (days)</Label>
+              <Input
+                id="invite-expiry"
+                type="number"
+                min={1}
+                max={MAX_INVITE_EXPIRY_DAYS}
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(parseInt(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {inviteLink ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={submitting}>
+                {submitting ? 'Creating...' : 'Create Invite'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,440 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { AlertTriangle, Edit, Plus, ShieldCheck, Trash2 } from 'lucide-react'
+import { approvalService } from '@/lib/approval-service'
+import { APPROVAL_RULE_TYPE_LABELS, ApprovalRule, ApprovalRuleType } from '@/lib/approval-rules'
+import { WEEKDAY_NAMES } from '@/lib/booking-rules'
+import { gameService } from '@/lib/game-service'
+import { useToast } from '@/hooks/use-toast'
+
+interface Game {
+  id: string
+  name: string
+}
+
+const emptyRule = {
+  name: '',
+  rule_type: 'trusted_user' as ApprovalRuleType,
+  min_completed_bookings: '3',
+  game_ids: [] as string[],
+  weekdays: [] as number[],
+  start_time: '',
+  end_time: '',
+  max_total_cost: '',
+  is_active: true
+}
+
+export function ApprovalRulesForm() {
+  const { toast } = useToast()
+  const [rules, setRules] = useState<ApprovalRule[]>([])
+  const [games, setGames] = useState<Game[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyRule)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  const loadRules = async () => {
+    try {
+      setLoading(true)
+      const [rulesResult, gamesResult] = await Promise.all([
+        approvalService.getAllRules(),
+        gameService.getAllGames()
+      ])
+
+      if (rulesResult.error) throw rulesResult.error
+      if (gamesResult.error) throw gamesResult.error
+
+      setRules(rulesResult.data || [])
+      setGames(gamesResult.data || [])
+    } catch (error) {
+      console.error('Error loading approval rules:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load approval rules",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Short description of which bookings a rule approves
+  const describeRule = (rule: ApprovalRule): string => {
+    switch (rule.rule_type) {
+      case 'trusted_user':
+        return `Users with ${rule.min_completed_bookings}+ completed bookings and no no-shows`
+      case 'game':
+        return (rule.game_ids || [])
+          .map(id => games.find(game => game.id === id)?.name || 'Deleted game')
+          .join(', ')
+      case 'off_peak': {
+        const days = rule.weekdays && rule.weekdays.length > 0
+          ? rule.weekdays.map(day => WEEKDAY_NAMES[day].slice(0, 3)).join(', ')
+          : 'Every day'
+        return `${rule.start_time?.slice(0, 5)} - ${rule.end_time?.slice(0, 5)}, ${days}`
+      }
+      case 'max_cost':
+        return `Bookings costing up to ₹${rule.max_total_cost}`
+    }
+  }
+
+  const openNewRule = () => {
+    setEditingRuleId(null)
+    setFormData(emptyRule)
+    setErrors([])
+    setDialogOpen(true)
+  }
+
+  const openEditRule = (rule: ApprovalRule) => {
+    setEditingRuleId(rule.id)
+    setFormData({
+      name: rule.name,
+      rule_type: rule.rule_type,
+      min_completed_bookings: rule.min_completed_bookings?.toString() || '3',
+      game_ids: rule.game_ids || [],
+      weekdays: rule.weekdays || [],
+      start_time: rule.start_time?.slice(0, 5) || '',
+      end_time: rule.end_time?.slice(0, 5) || '',
+      max_total_cost: rule.max_total_cost?.toString() || '',
+      is_active: rule.is_active
+    })
+    setErrors([])
+    setDialogOpen(true)
+  }
+
+  const toggleWeekday = (weekday: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      weekdays: checked
+        ? [...prev.weekdays, weekday].sort()
+        : prev.weekdays.filter(day => day !== weekday)
+    }))
+  }
+
+  const toggleGame = (gameId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      game_ids: checked
+        ? [...prev.game_ids, gameId]
+        : prev.game_ids.filter(id => id !== gameId)
+    }))
+  }
+
+  const handleSave = async () => {
+    const type = formData.rule_type
+
+    const rule = {
+      name: formData.name.trim(),
+      rule_type: type,
+      min_completed_bookings: type === 'trusted_user' ? parseInt(formData.min_completed_bookings) : null,
+      game_ids: type === 'game' ? formData.game_ids : null,
+      weekdays: type === 'off_peak' ? formData.weekdays : null,
+      start_time: type === 'off_peak' ? formData.start_time : null,
+      end_time: type === 'off_peak' ? formData.end_time : null,
+      max_total_cost: type === 'max_cost' ? parseFloat(formData.max_total_cost) : null,
+      is_active: formData.is_active
+    }
+
+    const validation = approvalService.validateRule(rule)
+    if (!validation.isValid) {
+      setErrors(validation.errors)
+      return
+    }
+
+    try {
+      setSaving(true)
+
+      const { error } = editingRuleId
+        ? await approvalService.updateRule(editingRuleId, rule)
+        : await approvalService.createRule(rule)
+
+      if (error) throw error
+
+      toast({
+        title: "Success",
+        description: editingRuleId ? "Approval rule updated" : "Approval rule created"
+      })
+      setDialogOpen(false)
+      loadRules()
+    } catch (error: any) {
+      console.error('Error saving approval rule:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save approval rule",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (rule: ApprovalRule, isActive: boolean) => {
+    const { error } = await approvalService.updateRule(rule.id, { is_active: isActive })
+
+    if (error) {
+      console.error('Error updating approval rule:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update approval rule",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: isActive } : r))
+  }
+
+  const handleDelete = async (ruleId: string) => {
+    const { error } = await approvalService.deleteRule(ruleId)
+
+    if (error) {
+      console.error('Error deleting approval rule:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete approval rule",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setRules(prev => prev.filter(r => r.id !== ruleId))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Auto-approval Rules
+        </CardTitle>
+        <CardDescription>
+          When admin approval is required, bookings matching any active rule are confirmed straight away.
+          Everything else waits in the pending requests queue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No approval rules yet. Every booking needs an admin to approve it.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rule.name}</span>
+                    <Badge variant="outline">{APPROVAL_RULE_TYPE_LABELS[rule.rule_type]}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-600">{describeRule(rule)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => openEditRule(rule)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDelete(rule.id)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={openNewRule}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Approval Rule
+        </Button>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? 'Edit Approval Rule' : 'Add Approval Rule'}</DialogTitle>
+            <DialogDescription>
+              The booking records which rule approved it, so you can review automatic approvals later.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2">
+            {errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc list-inside space-y-1">
+                    {errors.map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="approval-rule-name">Name *</Label>
+              <Input
+                id="approval-rule-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Regular players"
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Rule Type</Label>
+              <Select
+                value={formData.rule_type}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, rule_type: value as ApprovalRuleType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(APPROVAL_RULE_TYPE_LABELS) as ApprovalRuleType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{APPROVAL_RULE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.rule_type === 'trusted_user' && (
+              <div className="grid gap-2">
+                <Label htmlFor="approval-rule-completed">Completed Bookings *</Label>
+                <Input
+                  id="approval-rule-completed"
+                  type="number"
+                  min="1"
+                  value={formData.min_completed_bookings}
+                  onChange={(e) => setFormData(prev => ({ ...prev, min_completed_bookings: e.target.value }))}
+                />
+                <p className="text-xs text-gray-600">Users with a single no-show never match this rule</p>
+              </div>
+            )}
+
+            {formData.rule_type === 'game' && (
+              <div className="grid gap-2">
+                <Label>Games *</Label>
+                <div className="flex flex-wrap gap-3">
+                  {games.map((game) => (
+                    <label key={game.id} className="flex items-center gap-1 text-sm">
+                      <Checkbox
+                        checked={formData.game_ids.includes(game.id)}
+                        onCheckedChange={(checked) => toggleGame(game.id, checked === true)}
+                      />
+                      {game.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {formData.rule_type === 'off_peak' && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="approval-rule-start">From</Label>
+                    <Input
+                      id="approval-rule-start"
+                      type="time"
+                      value={formData.start_time}
+                      onChange={(e) => setFormData(prev => ({ ...prev, start_time: e.target.value }))}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="approval-rule-end">Until</Label>
+                    <Input
+                      id="approval-rule-end"
+                      type="time"
+                      value={formData.end_time}
+                      onChange={(e) => setFormData(prev => ({ ...prev, end_time: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-600">The whole booking must fall inside these hours</p>
+
+                <div className="grid gap-2">
+                  <Label>Days (leave empty for every day)</Label>
+                  <div className="flex flex-wrap gap-3">
+                    {WEEKDAY_NAMES.map((name, weekday) => (
+                      <label key={weekday} className="flex items-center gap-1 text-sm">
+                        <Checkbox
+                          checked={formData.weekdays.includes(weekday)}
+                          onCheckedChange={(checked) => toggleWeekday(weekday, checked === true)}
+                        />
+                        {name.slice(0, 3)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {formData.rule_type === 'max_cost' && (
+              <div className="grid gap-2">
+                <Label htmlFor="approval-rule-cost">Maximum Cost (₹) *</Label>
+                <Input
+                  id="approval-rule-cost"
+                  type="number"
+                  min="1"
+                  value={formData.max_total_cost}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_total_cost: e.target.value }))}
+                />
+                <p className="text-xs text-gray-600">Compared with the booking&apos;s total after discounts</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="approval-rule-active">Active</Label>
+              <Switch
+                id="approval-rule-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
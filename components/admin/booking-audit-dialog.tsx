@@ -0,0 +1,121 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { History, User, ArrowRight } from 'lucide-react'
+import { auditService, getAuditActorLabel } from '@/lib/audit-service'
+import type { BookingAuditEntry } from '@/lib/audit-service'
+import { useToast } from '@/hooks/use-toast'
+
+interface BookingAuditDialogProps {
+  bookingId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function getAuditStatusColor(status: string | null) {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800'
+    case 'confirmed':
+      return 'bg-green-100 text-green-800'
+    case 'completed':
+      return 'bg-blue-100 text-blue-800'
+    case 'canceled':
+      return 'bg-red-100 text-red-800'
+    default:
+      return 'bg-gray-100 text-gray-800'
+  }
+}
+
+export function BookingAuditDialog({ bookingId, onOpenChange }: BookingAuditDialogProps) {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<BookingAuditEntry[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (bookingId) {
+      fetchAuditLog(bookingId)
+    }
+  }, [bookingId])
+
+  const fetchAuditLog = async (id: string) => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await auditService.getBookingAuditLog(id)
+      if (error) throw error
+      setEntries(data || [])
+    } catch (error) {
+      console.error('Error fetching booking history:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load booking history",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={bookingId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Booking History
+          </DialogTitle>
+          <DialogDescription>
+            Every status change on this booking, who made it and why.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading history...</p>
+          </div>
+        ) : entries.length > 0 ? (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+            {entries.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+                <p className="text-xs text-gray-500 mb-1">
+                  {new Date(entry.changed_at).toLocaleDateString()} at {new Date(entry.changed_at).toLocaleTimeString()}
+                </p>
+                <div className="flex items-center space-x-2 mb-1">
+                  <Badge className={getAuditStatusColor(entry.old_status)}>
+                    {entry.old_status || 'new'}
+                  </Badge>
+                  <ArrowRight className="h-4 w-4 text-gray-400" />
+                  <Badge className={getAuditStatusColor(entry.new_status)}>
+                    {entry.new_status}
+                  </Badge>
+                </div>
+                <p className="text-sm text-gray-600 flex items-center">
+                  <User className="h-3 w-3 mr-1" />
+                  {getAuditActorLabel(entry)}
+                </p>
+                {entry.notes && (
+                  <p className="text-sm text-gray-800 mt-1">{entry.notes}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No status changes recorded for this booking</p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { KeyRound } from 'lucide-react'
+import { userService } from '@/lib/user-service'
+import { useToast } from '@/hooks/use-toast'
+
+interface ForcePasswordResetDialogProps {
+  user: { id: string; name: string } | null
+  onOpenChange: (open: boolean) => void
+  onReset: () => void
+}
+
+export function ForcePasswordResetDialog({ user, onOpenChange, onReset }: ForcePasswordResetDialogProps) {
+  const { toast } = useToast()
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleReset = async () => {
+    if (!user) return
+
+    try {
+      setSubmitting(true)
+
+      const { data, error } = await userService.forcePasswordReset(user.id, reason)
+      if (error) throw error
+
+      if (data?.status === 'invalid') {
+        toast({
+          title: "Password not reset",
+          description: data.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      toast({
+        title: "Password reset",
+        description: data?.notified
+          ? `${user.name} has been texted how to set a new password.`
+          : `${user.name} must set a new password, but the text telling them couldn't be sent.`
+      })
+      setReason('')
+      onReset()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error forcing password reset:', error)
+      toast({
+        title: "Error",
+        description: "Failed to reset the password",
+        variant: "destructive"
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={user !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <KeyRound className="h-5 w-5 mr-2" />
+            Force Password Reset
+          </DialogTitle>
+          <DialogDescription>
+            {user?.name}&apos;s current password will stop working and they will be signed out.
+            They can set a new one with a code texted to their phone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="force-reset-reason">Reason (optional)</Label>
+          <Textarea
+            id="force-reset-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Password shared with someone else"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleReset} disabled={submitting}>
+            {submitting ? 'Resetting...' : 'Reset Password'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,289 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { LayoutGrid, Trash2 } from 'lucide-react'
+import { gameService, CourtOccupancy } from '@/lib/game-service'
+import { formatTimeRange } from '@/lib/booking-rules'
+import type { Database } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { useVenueTime } from '@/hooks/use-venue-time'
+
+type GameCourt = Database['public']['Tables']['game_courts']['Row']
+
+interface Game {
+  id: string
+  name: string
+}
+
+interface GameCourtsDialogProps {
+  game: Game | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function GameCourtsDialog({ game, open, onOpenChange }: GameCourtsDialogProps) {
+  const { toast } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [courts, setCourts] = useState<GameCourt[]>([])
+  const [newCourtName, setNewCourtName] = useState('')
+  const [addingCourt, setAddingCourt] = useState(false)
+  const { today } = useVenueTime()
+  const [occupancyDate, setOccupancyDate] = useState(today)
+  const [occupancy, setOccupancy] = useState<CourtOccupancy[]>([])
+
+  useEffect(() => {
+    if (game && open) {
+      fetchCourts(game.id)
+    }
+  }, [game, open])
+
+  // Start on today at the venue once its timezone has loaded
+  useEffect(() => {
+    setOccupancyDate(today)
+  }, [today])
+
+  useEffect(() => {
+    if (game && open && occupancyDate) {
+      fetchOccupancy(game.id, occupancyDate)
+    }
+  }, [game, open, occupancyDate, courts])
+
+  const fetchCourts = async (gameId: string) => {
+    try {
+      setLoading(true)
+      const { data, error } = await gameService.getCourts(gameId)
+
+      if (error) throw error
+      setCourts(data || [])
+    } catch (error: any) {
+      console.error('Error fetching courts:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load courts",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOccupancy = async (gameId: string, date: string) => {
+    const { data, error } = await gameService.getCourtOccupancy(gameId, date)
+
+    if (error) {
+      console.error('Error fetching court occupancy:', error)
+      return
+    }
+    setOccupancy(data || [])
+  }
+
+  const handleAddCourt = async () => {
+    if (!game || !newCourtName.trim()) return
+
+    try {
+      setAddingCourt(true)
+      const sortOrder = courts.reduce((max, court) => Math.max(max, court.sort_order), 0) + 1
+      const { data, error } = await gameService.addCourt(game.id, newCourtName.trim(), sortOrder)
+
+      if (error) {
+        // Unique (game_id, name)
+        if (typeof error === 'object' && 'code' in error && error.code === '23505') {
+          throw new Error('This game already has a court with that name')
+        }
+        throw error
+      }
+
+      if (data) {
+        setCourts(prev => [...prev, data])
+      }
+      setNewCourtName('')
+    } catch (error: any) {
+      console.error('Error adding court:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add court",
+        variant: "destructive"
+      })
+    } finally {
+      setAddingCourt(false)
+    }
+  }
+
+  const handleToggleCourt = async (court: GameCourt, isActive: boolean) => {
+    const { data, error } = await gameService.updateCourt(court.id, { is_active: isActive })
+
+    if (error || !data) {
+      console.error('Error updating court:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update court",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setCourts(prev => prev.map(c => c.id === data.id ? data : c))
+  }
+
+  const handleDeleteCourt = async (courtId: string) => {
+    const { error } = await gameService.deleteCourt(courtId)
+
+    if (error) {
+      console.error('Error deleting court:', error)
+      toast({
+        title: "Error",
+        description: typeof error === 'object' && 'code' in error && error.code === '23503'
+          ? 'This court has bookings. Deactivate it instead.'
+          : 'Failed to delete court',
+        variant: "destructive"
+      })
+      return
+    }
+
+    setCourts(prev => prev.filter(c => c.id !== courtId))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <LayoutGrid className="h-5 w-5 mr-2" />
+            Courts{game ? ` - ${game.name}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Each court can be booked separately. Inactive courts keep their bookings but take no new ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-3 py-4">
+            <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+            <div className="h-40 bg-gray-200 rounded animate-pulse"></div>
+          </div>
+        ) : (
+          <div className="space-y-6 py-4">
+            {/* Court list */}
+            <div className="space-y-2">
+              <h3 className="font-medium">Courts</h3>
+              {courts.length === 0 ? (
+                <p className="text-sm text-gray-500">No courts yet - this game cannot be booked until one is added</p>
+              ) : (
+                <div className="space-y-2">
+                  {courts.map((court) => (
+                    <div key={court.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                      <span className="text-sm font-medium">{court.name}</span>
+                      <div className="flex items-center space-x-3">
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            id={`court-active-${court.id}`}
+                            checked={court.is_active}
+                            onCheckedChange={(checked) => handleToggleCourt(court, checked)}
+                          />
+                          <Label htmlFor={`court-active-${court.id}`} className="text-sm text-gray-600">
+                            Active
+                          </Label>
+                        </div>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDeleteCourt(court.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-[1fr_auto] gap-2">
+                <Input
+                  placeholder="Court name (e.g., Court 2)"
+                  value={newCourtName}
+                  onChange={(e) => setNewCourtName(e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleAddCourt}
+                  disabled={!newCourtName.trim() || addingCourt}
+                >
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            {/* Per-court occupancy */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Occupancy</h3>
+                <Input
+                  type="date"
+                  className="w-[160px]"
+                  value={occupancyDate}
+                  onChange={(e) => setOccupancyDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                {occupancy.map(({ court, bookings, sessions }) => (
+                  <div key={court.id} className="p-2 border rounded-lg">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-medium">{court.name}</span>
+                      <span className="text-xs text-gray-500">
+                        {bookings.length === 0 && sessions.length === 0
+                          ? 'Free all day'
+                          : `${bookings.length} booking${bookings.length !== 1 ? 's' : ''}` +
+                            (sessions.length > 0 ? `, ${sessions.length} open session${sessions.length !== 1 ? 's' : ''}` : '')}
+                      </span>
+                    </div>
+                    {(bookings.length > 0 || sessions.length > 0) && (
+                      <div className="flex flex-wrap gap-2">
+                        {sessions.map((session) => (
+                          <Badge key={session.id} variant="outline" className="border-blue-300 text-blue-800">
+                            {session.session_date !== occupancyDate && 'From the night before: '}
+                            {formatTimeRange(session.start_time, session.end_time)} · {session.title}
+                          </Badge>
+                        ))}
+                        {bookings.map((booking) => (
+                          <Badge
+                            key={booking.id}
+                            variant="outline"
+                            className={booking.status === 'pending' ? 'border-yellow-300 text-yellow-800' : 'border-green-300 text-green-800'}
+                          >
+                            {booking.booking_date !== occupancyDate && 'From the night before: '}
+                            {formatTimeRange(booking.start_time, booking.end_time)}
+                            {booking.user?.name && ` · ${booking.user.name}`}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,387 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { CalendarOff, Clock, Trash2 } from 'lucide-react'
+import { gameService } from '@/lib/game-service'
+import { WEEKDAY_NAMES, WeekdayHours } from '@/lib/booking-rules'
+import type { Database } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { useVenueTime } from '@/hooks/use-venue-time'
+
+type BlackoutDate = Database['public']['Tables']['game_blackout_dates']['Row']
+
+interface Game {
+  id: string
+  name: string
+}
+
+interface GameScheduleDialogProps {
+  game: Game | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+type WeekdayMode = 'default' | 'custom' | 'closed'
+
+interface WeekdayRow {
+  mode: WeekdayMode
+  opening_time: string
+  closing_time: string
+}
+
+const emptyWeekdayRows = (): WeekdayRow[] =>
+  WEEKDAY_NAMES.map(() => ({ mode: 'default', opening_time: '', closing_time: '' }))
+
+export function GameScheduleDialog({ game, open, onOpenChange }: GameScheduleDialogProps) {
+  const { toast } = useToast()
+  const { today } = useVenueTime()
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [gameHours, setGameHours] = useState({ opening_time: '', closing_time: '' })
+  const [weekdayRows, setWeekdayRows] = useState<WeekdayRow[]>(emptyWeekdayRows())
+  const [blackoutDates, setBlackoutDates] = useState<BlackoutDate[]>([])
+  const [newBlackout, setNewBlackout] = useState({ date: '', reason: '' })
+  const [addingBlackout, setAddingBlackout] = useState(false)
+
+  useEffect(() => {
+    if (game && open) {
+      fetchSchedule(game.id)
+    }
+  }, [game, open])
+
+  const fetchSchedule = async (gameId: string) => {
+    try {
+      setLoading(true)
+      const { data, error } = await gameService.getGameSchedule(gameId)
+
+      if (error) throw error
+      if (!data) return
+
+      setGameHours({
+        opening_time: data.opening_time?.slice(0, 5) || '',
+        closing_time: data.closing_time?.slice(0, 5) || ''
+      })
+
+      const rows = emptyWeekdayRows()
+      data.weekday_hours.forEach(h => {
+        rows[h.weekday] = {
+          mode: h.is_closed ? 'closed' : 'custom',
+          opening_time: h.opening_time?.slice(0, 5) || '',
+          closing_time: h.closing_time?.slice(0, 5) || ''
+        }
+      })
+      setWeekdayRows(rows)
+      setBlackoutDates(data.blackout_dates as BlackoutDate[])
+    } catch (error: any) {
+      console.error('Error fetching game schedule:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load schedule",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateWeekdayRow = (weekday: number, updates: Partial<WeekdayRow>) => {
+    setWeekdayRows(prev => prev.map((row, index) => index === weekday ? { ...row, ...updates } : row))
+  }
+
+  const validateSchedule = (): string | null => {
+    const { opening_time, closing_time } = gameHours
+    if ((opening_time && !closing_time) || (!opening_time && closing_time)) {
+      return 'Set both opening and closing time, or leave both empty to use the global hours'
+    }
+    if (opening_time && closing_time && opening_time >= closing_time) {
+      return 'Closing time must be after opening time'
+    }
+
+    for (let weekday = 0; weekday < weekdayRows.length; weekday++) {
+      const row = weekdayRows[weekday]
+      if (row.mode !== 'custom') continue
+
+      if (!row.opening_time || !row.closing_time) {
+        return `Set opening and closing time for ${WEEKDAY_NAMES[weekday]}`
+      }
+      if (row.opening_time >= row.closing_time) {
+        return `Closing time must be after opening time on ${WEEKDAY_NAMES[weekday]}`
+      }
+    }
+
+    return null
+  }
+
+  const handleSaveHours = async () => {
+    if (!game) return
+
+    const validationError = validateSchedule()
+    if (validationError) {
+      toast({
+        title: "Error",
+        description: validationError,
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+
+      const { error: gameError } = await gameService.updateGame(game.id, {
+        opening_time: gameHours.opening_time || null,
+        closing_time: gameHours.closing_time || null
+      })
+      if (gameError) throw gameError
+
+      const weekdayHours: WeekdayHours[] = weekdayRows
+        .map((row, weekday) => ({ row, weekday }))
+        .filter(({ row }) => row.mode !== 'default')
+        .map(({ row, weekday }) => ({
+          weekday,
+          is_closed: row.mode === 'closed',
+          opening_time: row.mode === 'custom' ? row.opening_time : null,
+          closing_time: row.mode === 'custom' ? row.closing_time : null
+        }))
+
+      const { error: weekdayError } = await gameService.saveWeekdayHours(game.id, weekdayHours)
+      if (weekdayError) throw weekdayError
+
+      toast({
+        title: "Success",
+        description: "Opening hours updated successfully"
+      })
+    } catch (error: any) {
+      console.error('Error saving opening hours:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save opening hours",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddBlackout = async () => {
+    if (!game || !newBlackout.date) return
+
+    try {
+      setAddingBlackout(true)
+      const { data, error } = await gameService.addBlackoutDate(game.id, newBlackout.date, newBlackout.reason)
+
+      if (error) {
+        // Unique (game_id, blackout_date)
+        if (typeof error === 'object' && 'code' in error && error.code === '23505') {
+          throw new Error('This date is already blacked out')
+        }
+        throw error
+      }
+
+      if (data) {
+        setBlackoutDates(prev =>
+          [...prev, data].sort((a, b) => a.blackout_date.localeCompare(b.blackout_date))
+        )
+      }
+      setNewBlackout({ date: '', reason: '' })
+    } catch (error: any) {
+      console.error('Error adding blackout date:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add blackout date",
+        variant: "destructive"
+      })
+    } finally {
+      setAddingBlackout(false)
+    }
+  }
+
+  const handleRemoveBlackout = async (blackoutId: string) => {
+    const { error } = await gameService.removeBlackoutDate(blackoutId)
+
+    if (error) {
+      console.error('Error removing blackout date:', error)
+      toast({
+        title: "Error",
+        description: "Failed to remove blackout date",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setBlackoutDates(prev => prev.filter(b => b.id !== blackoutId))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            Schedule{game ? ` - ${game.name}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Set opening hours for this game and block out dates for maintenance or tournaments.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-3 py-4">
+            <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+            <div className="h-40 bg-gray-200 rounded animate-pulse"></div>
+          </div>
+        ) : (
+          <div className="space-y-6 py-4">
+            {/* Default hours */}
+            <div className="space-y-2">
+              <h3 className="font-medium">Opening Hours</h3>
+              <p className="text-sm text-gray-600">
+                Leave empty to use the global opening hours from system settings.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="game-opening-time">Opening Time</Label>
+                  <Input
+                    id="game-opening-time"
+                    type="time"
+                    value={gameHours.opening_time}
+                    onChange={(e) => setGameHours(prev => ({ ...prev, opening_time: e.target.value }))}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="game-closing-time">Closing Time</Label>
+                  <Input
+                    id="game-closing-time"
+                    type="time"
+                    value={gameHours.closing_time}
+                    onChange={(e) => setGameHours(prev => ({ ...prev, closing_time: e.target.value }))}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Weekday overrides */}
+            <div className="space-y-2">
+              <h3 className="font-medium">Weekly Schedule</h3>
+              <div className="space-y-2">
+                {weekdayRows.map((row, weekday) => (
+                  <div key={weekday} className="grid grid-cols-[100px_130px_1fr_1fr] gap-2 items-center">
+                    <span className="text-sm font-medium">{WEEKDAY_NAMES[weekday]}</span>
+                    <Select
+                      value={row.mode}
+                      onValueChange={(value) => updateWeekdayRow(weekday, { mode: value as WeekdayMode })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Default hours</SelectItem>
+                        <SelectItem value="custom">Custom hours</SelectItem>
+                        <SelectItem value="closed">Closed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {row.mode === 'custom' ? (
+                      <>
+                        <Input
+                          type="time"
+                          value={row.opening_time}
+                          onChange={(e) => updateWeekdayRow(weekday, { opening_time: e.target.value })}
+                        />
+                        <Input
+                          type="time"
+                          value={row.closing_time}
+                          onChange={(e) => updateWeekdayRow(weekday, { closing_time: e.target.value })}
+                        />
+                      </>
+                    ) : (
+                      <span className="col-span-2 text-sm text-gray-500">
+                        {row.mode === 'closed' ? 'Not bookable' : 'Uses opening hours above'}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button type="button" onClick={handleSaveHours} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Hours'}
+                </Button>
+              </div>
+            </div>
+
+            {/* Blackout dates */}
+            <div className="space-y-2">
+              <h3 className="font-medium flex items-center">
+                <CalendarOff className="h-4 w-4 mr-2" />
+                Blackout Dates
+              </h3>
+              <div className="grid grid-cols-[160px_1fr_auto] gap-2">
+                <Input
+                  type="date"
+                  min={today}
+                  value={newBlackout.date}
+                  onChange={(e) => setNewBlackout(prev => ({ ...prev, date: e.target.value }))}
+                />
+                <Input
+                  placeholder="Reason (e.g., Maintenance)"
+                  value={newBlackout.reason}
+                  onChange={(e) => setNewBlackout(prev => ({ ...prev, reason: e.target.value }))}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleAddBlackout}
+                  disabled={!newBlackout.date || addingBlackout}
+                >
+                  Add
+                </Button>
+              </div>
+
+              {blackoutDates.length === 0 ? (
+                <p className="text-sm text-gray-500">No upcoming blackout dates</p>
+              ) : (
+                <div className="space-y-2">
+                  {blackoutDates.map((blackout) => (
+                    <div key={blackout.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                      <div className="text-sm">
+                        <span className="font-medium">
+                          {new Date(`${blackout.blackout_date}T00:00:00`).toLocaleDateString()}
+                        </span>
+                        {blackout.reason && <span className="text-gray-600"> - {blackout.reason}</span>}
+                      </div>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRemoveBlackout(blackout.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -10,8 +10,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Clock, Calendar, User, DollarSign, CheckCircle, XCircle } from 'lucide-react'
+import { Clock, Calendar, User, DollarSign, CheckCircle, XCircle, Hourglass } from 'lucide-react'
 import { bookingService } from '@/lib/booking-service'
+import { settingsService, DEFAULT_SETTINGS, SystemSettings } from '@/lib/settings-service'
+import { BookingStatusError } from '@/lib/booking-status-rules'
+import { formatTimeRange } from '@/lib/booking-rules'
+import { getApprovalDeadline } from '@/lib/approval-rules'
 import { useToast } from '@/hooks/use-toast'
 
 interface BookingWithDetails {
@@ -23,6 +27,7 @@ interface BookingWithDetails {
   total_cost: number
   notes?: string
   created_at: string
+  pending_since: string | null
   game: {
     id: string
     name: string
@@ -30,6 +35,7 @@ interface BookingWithDetails {
     price_per_hour: number
     max_players: number
   }
+  court: { name: string } | null
   user: {
     id: string
     name: string
@@ -43,11 +49,21 @@ interface PendingRequestsModalProps {
   onRequestsUpdated: () => void
 }
 
+// e.g. "3h 20m", or "12m" under an hour
+function formatTimeRemaining(ms: number): string {
+  const totalMinutes = Math.max(0, Math.floor(ms / (1000 * 60)))
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
 export function PendingRequestsModal({ open, onOpenChange, onRequestsUpdated }: PendingRequestsModalProps) {
   const { toast } = useToast()
   const [pendingBookings, setPendingBookings] = useState<BookingWithDetails[]>([])
   const [loading, setLoading] = useState(false)
   const [processingId, setProcessingId] = useState<string | null>(null)
+  const [settings, setSettings] = useState<SystemSettings>(DEFAULT_SETTINGS)
+  const [now, setNow] = useState(() => new Date())
 
   useEffect(() => {
     if (open) {
@@ -55,14 +71,29 @@ export function PendingRequestsModal({ open, onOpenChange, onRequestsUpdated }:
     }
   }, [open])
 
+  // Keep the time remaining on each request current while the modal is open
+  useEffect(() => {
+    if (!open) return
+
+    setNow(new Date())
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [open])
+
   const fetchPendingBookings = async () => {
     try {
       setLoading(true)
       
-      const { data } = await bookingService.getPendingBookings()
+      const [{ data }, { data: settingsData }] = await Promise.all([
+        bookingService.getPendingBookings(),
+        settingsService.getSettings()
+      ])
       if (data) {
         setPendingBookings(data as BookingWithDetails[])
       }
+      if (settingsData) {
+        setSettings(settingsData)
+      }
     } catch (error) {
       console.error('Error fetching pending bookings:', error)
       toast({
@@ -96,7 +127,7 @@ export function PendingRequestsModal({ open, onOpenChange, onRequestsUpdated }:
       console.error('Error approving booking:', error)
       toast({
         title: "Error",
-        description: "Failed to approve booking",
+        description: error instanceof BookingStatusError ? error.message : "Failed to approve booking",
         variant: "destructive"
       })
     } finally {
@@ -108,7 +139,7 @@ export function PendingRequestsModal({ open, onOpenChange, onRequestsUpdated }:
     try {
       setProcessingId(bookingId)
       
-      const { error } = await bookingService.cancelBooking(bookingId, 'Rejected by admin')
+      const { error } = await bookingService.rejectBooking(bookingId)
       if (error) {
         throw error
       }
@@ -125,7 +156,7 @@ export function PendingRequestsModal({ open, onOpenChange, onRequestsUpdated }:
       console.error('Error rejecting booking:', error)
       toast({
         title: "Error",
-        description: "Failed to reject booking",
+        description: error instanceof BookingStatusError ? error.message : "Failed to reject booking",
         variant: "destructive"
       })
     } finally {
@@ -143,6 +174,7 @@ export function PendingRequestsModal({ open, onOpenChange, onRequestsUpdated }:
           </DialogTitle>
           <DialogDescription>
             Review and approve or reject pending booking requests from users.
+            Requests not reviewed in time expire and free their slot.
           </DialogDescription>
         </DialogHeader>
         
@@ -153,81 +185,95 @@ export function PendingRequestsModal({ open, onOpenChange, onRequestsUpdated }:
               <p className="text-gray-600 mt-2">Loading pending requests...</p>
             </div>
           ) : pendingBookings.length > 0 ? (
-            pendingBookings.map((booking) => (
-              <div key={booking.id} className="border rounded-lg p-4 space-y-3">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <h4 className="font-semibold">{booking.game?.name}</h4>
-                      <Badge className="bg-yellow-100 text-yellow-800">
-                        Pending
-                      </Badge>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-gray-600">
-                      <div className="flex items-center">
-                        <User className="h-4 w-4 mr-2" />
-                        <div>
-                          <p className="font-medium">{booking.user?.name}</p>
-                          <p className="text-xs">{booking.user?.email}</p>
-                        </div>
-                      </div>
-                      
-                      <div className="flex items-center">
-                        <Calendar className="h-4 w-4 mr-2" />
-                        {new Date(booking.booking_date).toLocaleDateString('en-US', {
-                          weekday: 'short',
-                          month: 'short',
-                          day: 'numeric'
-                        })}
-                      </div>
-                      
-                      <div className="flex items-center">
-                        <Clock className="h-4 w-4 mr-2" />
-                        {booking.start_time} - {booking.end_time}
+            pendingBookings.map((booking) => {
+              const remaining = getApprovalDeadline(booking, settings.approval_sla_hours, settings.approval_cutoff_minutes, settings.venue_timezone).getTime() - now.getTime()
+
+              return (
+                <div key={booking.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2 mb-2">
+                        <h4 className="font-semibold">
+                          {booking.game?.name}
+                          {booking.court && <span className="text-gray-500 font-normal"> · {booking.court.name}</span>}
+                        </h4>
+                        <Badge className="bg-yellow-100 text-yellow-800">
+                          Pending
+                        </Badge>
+                        <Badge
+                          variant="outline"
+                          className={remaining < 60 * 60 * 1000 ? 'border-red-300 text-red-700' : 'text-gray-700'}
+                        >
+                          <Hourglass className="h-3 w-3 mr-1" />
+                          {remaining > 0 ? `Expires in ${formatTimeRemaining(remaining)}` : 'Expiring'}
+                        </Badge>
                       </div>
                       
-                      <div className="flex items-center">
-                        <DollarSign className="h-4 w-4 mr-2" />
-                        ₹{booking.total_cost}
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-gray-600">
+                        <div className="flex items-center">
+                          <User className="h-4 w-4 mr-2" />
+                          <div>
+                            <p className="font-medium">{booking.user?.name}</p>
+                            <p className="text-xs">{booking.user?.email}</p>
+                          </div>
+                        </div>
+                        
+                        <div className="flex items-center">
+                          <Calendar className="h-4 w-4 mr-2" />
+                          {new Date(booking.booking_date).toLocaleDateString('en-US', {
+                            weekday: 'short',
+                            month: 'short',
+                            day: 'numeric'
+                          })}
+                        </div>
+                        
+                        <div className="flex items-center">
+                          <Clock className="h-4 w-4 mr-2" />
+                          {formatTimeRange(booking.start_time, booking.end_time)}
+                        </div>
+                        
+                        <div className="flex items-center">
+                          <DollarSign className="h-4 w-4 mr-2" />
+                          ₹{booking.total_cost}
+                        </div>
                       </div>
-                    </div>
 
-                    {booking.notes && (
-                      <div className="mt-2 p-2 bg-gray-50 rounded text-sm">
-                        <strong>Notes:</strong> {booking.notes}
-                      </div>
-                    )}
+                      {booking.notes && (
+                        <div className="mt-2 p-2 bg-gray-50 rounded text-sm">
+                          <strong>Notes:</strong> {booking.notes}
+                        </div>
+                      )}
 
-                    <p className="text-xs text-gray-500 mt-2">
-                      Requested: {new Date(booking.created_at).toLocaleDateString()} at {new Date(booking.created_at).toLocaleTimeString()}
-                    </p>
+                      <p className="text-xs text-gray-500 mt-2">
+                        Requested: {new Date(booking.created_at).toLocaleDateString()} at {new Date(booking.created_at).toLocaleTimeString()}
+                      </p>
+                    </div>
                   </div>
-                </div>
 
-                <div className="flex space-x-2 pt-2 border-t">
-                  <Button
-                    size="sm"
-                    onClick={() => handleApproveBooking(booking.id)}
-                    disabled={processingId === booking.id}
-                    className="flex-1"
-                  >
-                    <CheckCircle className="h-4 w-4 mr-1" />
-                    {processingId === booking.id ? 'Processing...' : 'Approve'}
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="destructive"
-                    onClick={() => handleRejectBooking(booking.id)}
-                    disabled={processingId === booking.id}
-                    className="flex-1"
-                  >
-                    <XCircle className="h-4 w-4 mr-1" />
-                    Reject
-                  </Button>
+                  <div className="flex space-x-2 pt-2 border-t">
+                    <Button
+                      size="sm"
+                      onClick={() => handleApproveBooking(booking.id)}
+                      disabled={processingId === booking.id}
+                      className="flex-1"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      {processingId === booking.id ? 'Processing...' : 'Approve'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => handleRejectBooking(booking.id)}
+                      disabled={processingId === booking.id}
+                      className="flex-1"
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            ))
+              )
+            })
           ) : (
             <div className="text-center py-8">
               <Clock className="h-12 w-12 text-gray-300 mx-auto mb-2" />
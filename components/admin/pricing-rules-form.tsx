@@ -0,0 +1,450 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { AlertTriangle, Edit, Plus, Tag, Trash2 } from 'lucide-react'
+import { pricingService, PricingRuleWithGame } from '@/lib/pricing-service'
+import { PRICING_RULE_TYPE_LABELS, PricingRuleType } from '@/lib/pricing-rules'
+import { WEEKDAY_NAMES } from '@/lib/booking-rules'
+import { gameService } from '@/lib/game-service'
+import { useToast } from '@/hooks/use-toast'
+
+interface Game {
+  id: string
+  name: string
+}
+
+const ALL_GAMES = 'all'
+
+const emptyRule = {
+  name: '',
+  game_id: ALL_GAMES,
+  rule_type: 'time_band' as PricingRuleType,
+  weekdays: [] as number[],
+  start_time: '',
+  end_time: '',
+  holiday_date: '',
+  multiplier: '1',
+  priority: '0',
+  is_active: true
+}
+
+// Short description of when a rule applies
+function describeRule(rule: PricingRuleWithGame): string {
+  const days = rule.weekdays && rule.weekdays.length > 0
+    ? rule.weekdays.map(day => WEEKDAY_NAMES[day].slice(0, 3)).join(', ')
+    : 'Every day'
+
+  switch (rule.rule_type) {
+    case 'time_band':
+      return `${rule.start_time?.slice(0, 5)} - ${rule.end_time?.slice(0, 5)}, ${days}`
+    case 'day_of_week':
+      return days
+    case 'holiday':
+      return rule.holiday_date ? new Date(`${rule.holiday_date}T00:00:00`).toLocaleDateString() : ''
+  }
+}
+
+export function PricingRulesForm() {
+  const { toast } = useToast()
+  const [rules, setRules] = useState<PricingRuleWithGame[]>([])
+  const [games, setGames] = useState<Game[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyRule)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  const loadRules = async () => {
+    try {
+      setLoading(true)
+      const [rulesResult, gamesResult] = await Promise.all([
+        pricingService.getAllRules(),
+        gameService.getAllGames()
+      ])
+
+      if (rulesResult.error) throw rulesResult.error
+      if (gamesResult.error) throw gamesResult.error
+
+      setRules(rulesResult.data || [])
+      setGames(gamesResult.data || [])
+    } catch (error) {
+      console.error('Error loading pricing rules:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load pricing rules",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openNewRule = () => {
+    setEditingRuleId(null)
+    setFormData(emptyRule)
+    setErrors([])
+    setDialogOpen(true)
+  }
+
+  const openEditRule = (rule: PricingRuleWithGame) => {
+    setEditingRuleId(rule.id)
+    setFormData({
+      name: rule.name,
+      game_id: rule.game_id || ALL_GAMES,
+      rule_type: rule.rule_type,
+      weekdays: rule.weekdays || [],
+      start_time: rule.start_time?.slice(0, 5) || '',
+      end_time: rule.end_time?.slice(0, 5) || '',
+      holiday_date: rule.holiday_date || '',
+      multiplier: rule.multiplier.toString(),
+      priority: rule.priority.toString(),
+      is_active: rule.is_active
+    })
+    setErrors([])
+    setDialogOpen(true)
+  }
+
+  const toggleWeekday = (weekday: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      weekdays: checked
+        ? [...prev.weekdays, weekday].sort()
+        : prev.weekdays.filter(day => day !== weekday)
+    }))
+  }
+
+  const handleSave = async () => {
+    const isTimeBand = formData.rule_type === 'time_band'
+    const isHoliday = formData.rule_type === 'holiday'
+
+    const rule = {
+      name: formData.name.trim(),
+      game_id: formData.game_id === ALL_GAMES ? null : formData.game_id,
+      rule_type: formData.rule_type,
+      weekdays: isHoliday ? null : formData.weekdays,
+      start_time: isTimeBand ? formData.start_time : null,
+      end_time: isTimeBand ? formData.end_time : null,
+      holiday_date: isHoliday ? formData.holiday_date : null,
+      multiplier: parseFloat(formData.multiplier),
+      priority: parseInt(formData.priority) || 0,
+      is_active: formData.is_active
+    }
+
+    const validation = pricingService.validateRule(rule)
+    if (!validation.isValid) {
+      setErrors(validation.errors)
+      return
+    }
+
+    try {
+      setSaving(true)
+
+      const { error } = editingRuleId
+        ? await pricingService.updateRule(editingRuleId, rule)
+        : await pricingService.createRule(rule)
+
+      if (error) throw error
+
+      toast({
+        title: "Success",
+        description: editingRuleId ? "Pricing rule updated" : "Pricing rule created"
+      })
+      setDialogOpen(false)
+      loadRules()
+    } catch (error: any) {
+      console.error('Error saving pricing rule:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save pricing rule",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (rule: PricingRuleWithGame, isActive: boolean) => {
+    const { error } = await pricingService.updateRule(rule.id, { is_active: isActive })
+
+    if (error) {
+      console.error('Error updating pricing rule:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update pricing rule",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: isActive } : r))
+  }
+
+  const handleDelete = async (ruleId: string) => {
+    const { error } = await pricingService.deleteRule(ruleId)
+
+    if (error) {
+      console.error('Error deleting pricing rule:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete pricing rule",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setRules(prev => prev.filter(r => r.id !== ruleId))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Tag className="mr-2 h-5 w-5" />
+          Pricing Rules
+        </CardTitle>
+        <CardDescription>
+          Adjust the hourly price for peak hours, weekends and holidays. Rules multiply the game&apos;s base price;
+          a holiday rule replaces all other rules on its date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No pricing rules yet. All games are charged their flat hourly price.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rule.name}</span>
+                    <Badge variant="outline">{PRICING_RULE_TYPE_LABELS[rule.rule_type]}</Badge>
+                    <Badge variant="secondary">×{rule.multiplier}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {describeRule(rule)} · {rule.game ? rule.game.name : 'All games'}
+                    {rule.priority !== 0 && ` · Priority ${rule.priority}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => openEditRule(rule)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDelete(rule.id)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={openNewRule}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Pricing Rule
+        </Button>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? 'Edit Pricing Rule' : 'Add Pricing Rule'}</DialogTitle>
+            <DialogDescription>
+              When several rules of the same kind match, game-specific rules win over global ones, then the highest priority.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2">
+            {errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc list-inside space-y-1">
+                    {errors.map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="rule-name">Name *</Label>
+              <Input
+                id="rule-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Evening peak"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Rule Type</Label>
+                <Select
+                  value={formData.rule_type}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, rule_type: value as PricingRuleType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PRICING_RULE_TYPE_LABELS) as PricingRuleType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{PRICING_RULE_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Game</Label>
+                <Select
+                  value={formData.game_id}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, game_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_GAMES}>All games</SelectItem>
+                    {games.map((game) => (
+                      <SelectItem key={game.id} value={game.id}>{game.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.rule_type === 'time_band' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="rule-start">From</Label>
+                  <Input
+                    id="rule-start"
+                    type="time"
+                    value={formData.start_time}
+                    onChange={(e) => setFormData(prev => ({ ...prev, start_time: e.target.value }))}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="rule-end">Until</Label>
+                  <Input
+                    id="rule-end"
+                    type="time"
+                    value={formData.end_time}
+                    onChange={(e) => setFormData(prev => ({ ...prev, end_time: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+
+            {formData.rule_type !== 'holiday' && (
+              <div className="grid gap-2">
+                <Label>
+                  {formData.rule_type === 'time_band' ? 'Days (leave empty for every day)' : 'Days *'}
+                </Label>
+                <div className="flex flex-wrap gap-3">
+                  {WEEKDAY_NAMES.map((name, weekday) => (
+                    <label key={weekday} className="flex items-center gap-1 text-sm">
+                      <Checkbox
+                        checked={formData.weekdays.includes(weekday)}
+                        onCheckedChange={(checked) => toggleWeekday(weekday, checked === true)}
+                      />
+                      {name.slice(0, 3)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {formData.rule_type === 'holiday' && (
+              <div className="grid gap-2">
+                <Label htmlFor="rule-date">Date *</Label>
+                <Input
+                  id="rule-date"
+                  type="date"
+                  value={formData.holiday_date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, holiday_date: e.target.value }))}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="rule-multiplier">Price Multiplier *</Label>
+                <Input
+                  id="rule-multiplier"
+                  type="number"
+                  min="0.1"
+                  max="10"
+                  step="0.05"
+                  value={formData.multiplier}
+                  onChange={(e) => setFormData(prev => ({ ...prev, multiplier: e.target.value }))}
+                />
+                <p className="text-xs text-gray-600">1.5 = 50% more, 0.8 = 20% off</p>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  value={formData.priority}
+                  onChange={(e) => setFormData(prev => ({ ...prev, priority: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-active">Active</Label>
+              <Switch
+                id="rule-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,423 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { AlertTriangle, Edit, Plus, Ticket, Trash2 } from 'lucide-react'
+import { promoService, PromoCodeWithUsage } from '@/lib/promo-service'
+import { DiscountType } from '@/lib/promo-rules'
+import { gameService } from '@/lib/game-service'
+import { useToast } from '@/hooks/use-toast'
+
+interface Game {
+  id: string
+  name: string
+}
+
+const emptyPromo = {
+  code: '',
+  description: '',
+  discount_type: 'percentage' as DiscountType,
+  discount_value: '',
+  valid_from: '',
+  valid_until: '',
+  max_redemptions: '',
+  max_redemptions_per_user: '',
+  game_ids: [] as string[],
+  is_active: true
+}
+
+// Convert between stored timestamps and datetime-local input values
+const toInputDateTime = (value: string | null) =>
+  value ? new Date(new Date(value).getTime() - new Date().getTimezoneOffset() * 60000).toISOString().slice(0, 16) : ''
+const fromInputDateTime = (value: string) => value ? new Date(value).toISOString() : null
+
+export function PromoCodesForm() {
+  const { toast } = useToast()
+  const [promos, setPromos] = useState<PromoCodeWithUsage[]>([])
+  const [games, setGames] = useState<Game[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingPromoId, setEditingPromoId] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyPromo)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    loadPromos()
+  }, [])
+
+  const loadPromos = async () => {
+    try {
+      setLoading(true)
+      const [promosResult, gamesResult] = await Promise.all([
+        promoService.getAllCodes(),
+        gameService.getAllGames()
+      ])
+
+      if (promosResult.error) throw promosResult.error
+      if (gamesResult.error) throw gamesResult.error
+
+      setPromos(promosResult.data || [])
+      setGames(gamesResult.data || [])
+    } catch (error) {
+      console.error('Error loading promo codes:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load promo codes",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openNewPromo = () => {
+    setEditingPromoId(null)
+    setFormData(emptyPromo)
+    setErrors([])
+    setDialogOpen(true)
+  }
+
+  const openEditPromo = (promo: PromoCodeWithUsage) => {
+    setEditingPromoId(promo.id)
+    setFormData({
+      code: promo.code,
+      description: promo.description || '',
+      discount_type: promo.discount_type,
+      discount_value: promo.discount_value.toString(),
+      valid_from: toInputDateTime(promo.valid_from),
+      valid_until: toInputDateTime(promo.valid_until),
+      max_redemptions: promo.max_redemptions?.toString() || '',
+      max_redemptions_per_user: promo.max_redemptions_per_user?.toString() || '',
+      game_ids: promo.game_ids || [],
+      is_active: promo.is_active
+    })
+    setErrors([])
+    setDialogOpen(true)
+  }
+
+  const toggleGame = (gameId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      game_ids: checked ? [...prev.game_ids, gameId] : prev.game_ids.filter(id => id !== gameId)
+    }))
+  }
+
+  const handleSave = async () => {
+    const promo = {
+      code: formData.code,
+      description: formData.description.trim() || null,
+      discount_type: formData.discount_type,
+      discount_value: parseFloat(formData.discount_value),
+      valid_from: fromInputDateTime(formData.valid_from),
+      valid_until: fromInputDateTime(formData.valid_until),
+      max_redemptions: formData.max_redemptions ? parseInt(formData.max_redemptions) : null,
+      max_redemptions_per_user: formData.max_redemptions_per_user ? parseInt(formData.max_redemptions_per_user) : null,
+      game_ids: formData.game_ids.length > 0 ? formData.game_ids : null,
+      is_active: formData.is_active
+    }
+
+    const validation = promoService.validateCode(promo)
+    if (!validation.isValid) {
+      setErrors(validation.errors)
+      return
+    }
+
+    try {
+      setSaving(true)
+
+      const { error } = editingPromoId
+        ? await promoService.updateCode(editingPromoId, promo)
+        : await promoService.createCode(promo)
+
+      if (error) throw error
+
+      toast({
+        title: "Success",
+        description: editingPromoId ? "Promo code updated" : "Promo code created"
+      })
+      setDialogOpen(false)
+      loadPromos()
+    } catch (error: any) {
+      console.error('Error saving promo code:', error)
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save promo code",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (promo: PromoCodeWithUsage, isActive: boolean) => {
+    const { error } = await promoService.updateCode(promo.id, { is_active: isActive })
+
+    if (error) {
+      console.error('Error updating promo code:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update promo code",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setPromos(prev => prev.map(p => p.id === promo.id ? { ...p, is_active: isActive } : p))
+  }
+
+  const handleDelete = async (promoId: string) => {
+    const { error } = await promoService.deleteCode(promoId)
+
+    if (error) {
+      console.error('Error deleting promo code:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete promo code",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setPromos(prev => prev.filter(p => p.id !== promoId))
+  }
+
+  const describeValidity = (promo: PromoCodeWithUsage) => {
+    if (!promo.valid_from && !promo.valid_until) return 'No expiry'
+    const from = promo.valid_from ? new Date(promo.valid_from).toLocaleDateString() : 'now'
+    const until = promo.valid_until ? new Date(promo.valid_until).toLocaleDateString() : 'no end'
+    return `${from} - ${until}`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Ticket className="mr-2 h-5 w-5" />
+          Promo Codes
+        </CardTitle>
+        <CardDescription>Create discount codes users can apply when booking</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+          </div>
+        ) : promos.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No promo codes yet</p>
+        ) : (
+          <div className="space-y-3">
+            {promos.map((promo) => (
+              <div key={promo.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium font-mono">{promo.code}</span>
+                    <Badge variant="secondary">
+                      {promo.discount_type === 'percentage' ? `${promo.discount_value}% off` : `₹${promo.discount_value} off`}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {describeValidity(promo)} · Used {promo.redemptions}
+                    {promo.max_redemptions ? `/${promo.max_redemptions}` : ''} times
+                    {promo.game_ids && promo.game_ids.length > 0 &&
+                      ` · ${games.filter(g => promo.game_ids?.includes(g.id)).map(g => g.name).join(', ')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={promo.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(promo, checked)}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => openEditPromo(promo)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleDelete(promo.id)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={openNewPromo}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Promo Code
+        </Button>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPromoId ? 'Edit Promo Code' : 'Add Promo Code'}</DialogTitle>
+            <DialogDescription>
+              Promo codes apply to single bookings. Leave limits empty for unlimited use.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2">
+            {errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc list-inside space-y-1">
+                    {errors.map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="promo-code">Code *</Label>
+              <Input
+                id="promo-code"
+                value={formData.code}
+                onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                placeholder="e.g., WEEKEND20"
+                className="font-mono"
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="promo-description">Description</Label>
+              <Textarea
+                id="promo-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Discount Type</Label>
+                <Select
+                  value={formData.discount_type}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, discount_type: value as DiscountType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage</SelectItem>
+                    <SelectItem value="flat">Flat amount (₹)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="promo-value">
+                  {formData.discount_type === 'percentage' ? 'Discount (%) *' : 'Discount (₹) *'}
+                </Label>
+                <Input
+                  id="promo-value"
+                  type="number"
+                  min="0"
+                  value={formData.discount_value}
+                  onChange={(e) => setFormData(prev => ({ ...prev, discount_value: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="promo-from">Valid From</Label>
+                <Input
+                  id="promo-from"
+                  type="datetime-local"
+                  value={formData.valid_from}
+                  onChange={(e) => setFormData(prev => ({ ...prev, valid_from: e.target.value }))}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="promo-until">Valid Until</Label>
+                <Input
+                  id="promo-until"
+                  type="datetime-local"
+                  value={formData.valid_until}
+                  onChange={(e) => setFormData(prev => ({ ...prev, valid_until: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="promo-max">Total Uses</Label>
+                <Input
+                  id="promo-max"
+                  type="number"
+                  min="1"
+                  value={formData.max_redemptions}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_redemptions: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="promo-max-user">Uses per User</Label>
+                <Input
+                  id="promo-max-user"
+                  type="number"
+                  min="1"
+                  value={formData.max_redemptions_per_user}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_redemptions_per_user: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Games (leave empty for all games)</Label>
+              <div className="flex flex-wrap gap-3">
+                {games.map((game) => (
+                  <label key={game.id} className="flex items-center gap-1 text-sm">
+                    <Checkbox
+                      checked={formData.game_ids.includes(game.id)}
+                      onCheckedChange={(checked) => toggleGame(game.id, checked === true)}
+                    />
+                    {game.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="promo-active">Active</Label>
+              <Switch
+                id="promo-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Promo Code'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
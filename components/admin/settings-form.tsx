@@ -9,8 +9,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Separator } from '@/components/ui/separator'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Settings, Save, RotateCcw, AlertTriangle, Clock } from 'lucide-react'
+import { Settings, Save, RotateCcw, AlertTriangle, Clock, Plus, Trash2 } from 'lucide-react'
 import { settingsService, SystemSettings } from '@/lib/settings-service'
+import type { RefundTier } from '@/lib/cancellation-rules'
 import { useToast } from '@/hooks/use-toast'
 
 export function SettingsForm() {
@@ -121,6 +122,26 @@ export function SettingsForm() {
     setErrors([]) // Clear errors when user makes changes
   }
 
+  const updateRefundTier = (index: number, key: keyof RefundTier, value: number) => {
+    if (!settings) return
+    updateSetting('refund_tiers', settings.refund_tiers.map((tier, i) => i === index ? { ...tier, [key]: value } : tier))
+  }
+
+  const addRefundTier = () => {
+    if (!settings) return
+    updateSetting('refund_tiers', [...settings.refund_tiers, { min_hours_before: 0, refund_percent: 0 }])
+  }
+
+  // Comma-separated hour lists, e.g. "24, 2"
+  const updateHoursList = (key: 'reminder_offsets_hours' | 'approval_nudge_hours', value: string) => {
+    updateSetting(key, value.split(',').map(part => part.trim()).filter(Boolean).map(Number))
+  }
+
+  const removeRefundTier = (index: number) => {
+    if (!settings) return
+    updateSetting('refund_tiers', settings.refund_tiers.filter((_, i) => i !== index))
+  }
+
   if (loading) {
     return (
       <Card>
@@ -237,6 +258,17 @@ export function SettingsForm() {
               </div>
             </div>
           )}
+
+          <div className="space-y-2">
+            <Label htmlFor="venue-timezone">Venue Timezone</Label>
+            <Input
+              id="venue-timezone"
+              placeholder="Asia/Kolkata"
+              value={settings.venue_timezone}
+              onChange={(e) => updateSetting('venue_timezone', e.target.value.trim())}
+            />
+            <p className="text-xs text-gray-600">Booking dates and times, and what counts as today, follow this timezone</p>
+          </div>
         </div>
 
         <Separator />
@@ -314,6 +346,131 @@ export function SettingsForm() {
               value={settings.cancellation_deadline}
               onChange={(e) => updateSetting('cancellation_deadline', parseInt(e.target.value))}
             />
+            <p className="text-xs text-gray-600">Users can&apos;t cancel a booking once it is closer than this to its start time</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Refund Tiers</Label>
+            <p className="text-xs text-gray-600">
+              Cancellations made at least this many hours ahead get the matching refund. Anything later gets no refund.
+            </p>
+            {settings.refund_tiers.map((tier, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max="720"
+                  value={tier.min_hours_before}
+                  onChange={(e) => updateRefundTier(index, 'min_hours_before', parseFloat(e.target.value))}
+                  className="w-28"
+                  aria-label="Hours before"
+                />
+                <span className="text-sm text-gray-600">hours or more before:</span>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={tier.refund_percent}
+                  onChange={(e) => updateRefundTier(index, 'refund_percent', parseInt(e.target.value))}
+                  className="w-24"
+                  aria-label="Refund percent"
+                />
+                <span className="text-sm text-gray-600">% refund</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeRefundTier(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addRefundTier}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tier
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="waitlist-offer-minutes">Waitlist Offer Window (Minutes)</Label>
+            <Input
+              id="waitlist-offer-minutes"
+              type="number"
+              min="5"
+              max="1440"
+              value={settings.waitlist_offer_minutes}
+              onChange={(e) => updateSetting('waitlist_offer_minutes', parseInt(e.target.value))}
+            />
+            <p className="text-xs text-gray-600">How long a freed slot is held for the next waitlisted user before passing it on</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="auto-close-grace-minutes">Auto-close Grace Period (Minutes)</Label>
+            <Input
+              id="auto-close-grace-minutes"
+              type="number"
+              min="0"
+              max="1440"
+              value={settings.auto_close_grace_minutes}
+              onChange={(e) => updateSetting('auto_close_grace_minutes', parseInt(e.target.value))}
+            />
+            <p className="text-xs text-gray-600">
+              How long after a booking ends it is closed automatically: completed, or no-show if staff were checking people in that day and this user never checked in
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reminder-offsets">Booking Reminders (Hours Before)</Label>
+              <Input
+                id="reminder-offsets"
+                placeholder="24, 2"
+                defaultValue={settings.reminder_offsets_hours.join(', ')}
+                key={`reminders-${settings.updated_at}`}
+                onChange={(e) => updateHoursList('reminder_offsets_hours', e.target.value)}
+              />
+              <p className="text-xs text-gray-600">Comma-separated. Leave empty to turn reminders off.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="approval-nudges">Approval Reminders (Hours Pending)</Label>
+              <Input
+                id="approval-nudges"
+                placeholder="2, 12"
+                defaultValue={settings.approval_nudge_hours.join(', ')}
+                key={`nudges-${settings.updated_at}`}
+                onChange={(e) => updateHoursList('approval_nudge_hours', e.target.value)}
+              />
+              <p className="text-xs text-gray-600">Admins are emailed when a booking has waited this long for approval</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="approval-sla-hours">Approval Deadline (Hours Pending)</Label>
+              <Input
+                id="approval-sla-hours"
+                type="number"
+                min="1"
+                max="168"
+                value={settings.approval_sla_hours}
+                onChange={(e) => updateSetting('approval_sla_hours', parseInt(e.target.value))}
+              />
+              <p className="text-xs text-gray-600">Requests not approved or rejected in this time expire and free their slot</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="approval-cutoff-minutes">Approval Cutoff (Minutes Before Start)</Label>
+              <Input
+                id="approval-cutoff-minutes"
+                type="number"
+                min="0"
+                max="1440"
+                value={settings.approval_cutoff_minutes}
+                onChange={(e) => updateSetting('approval_cutoff_minutes', parseInt(e.target.value))}
+              />
+              <p className="text-xs text-gray-600">Requests still pending this close to the start expire, even within the deadline</p>
+            </div>
           </div>
         </div>
 
@@ -334,6 +491,17 @@ export function SettingsForm() {
                 onCheckedChange={(checked) => updateSetting('require_admin_approval', checked)}
               />
             </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>SMS &amp; WhatsApp Notifications</Label>
+                <p className="text-sm text-gray-600">Send booking updates by SMS and WhatsApp to users who opt in</p>
+              </div>
+              <Switch
+                checked={settings.send_sms_notifications}
+                onCheckedChange={(checked) => updateSetting('send_sms_notifications', checked)}
+              />
+            </div>
             
 
           </div>
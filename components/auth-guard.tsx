@@ -17,7 +17,7 @@ export function AuthGuard({
   requireRole,
   redirectTo = '/auth'
 }: AuthGuardProps) {
-  const { user, profile, loading } = useAuth()
+  const { user, profile, loading, signOut } = useAuth()
   const router = useRouter()
 
   useEffect(() => {
@@ -28,6 +28,12 @@ export function AuthGuard({
       return
     }
 
+    // An admin forced a password reset; existing sessions end here
+    if (profile?.password_reset_required) {
+      signOut().then(() => router.push('/auth?reset=required'))
+      return
+    }
+
     if (requireRole && profile?.role !== requireRole) {
       if (profile?.role === 'admin') {
         router.push('/admin')
@@ -36,7 +42,7 @@ export function AuthGuard({
       }
       return
     }
-  }, [user, profile, loading, requireAuth, requireRole, redirectTo, router])
+  }, [user, profile, loading, requireAuth, requireRole, redirectTo, router, signOut])
 
   if (loading) {
     return (
@@ -46,7 +52,7 @@ export function AuthGuard({
     )
   }
 
-  if (requireAuth && !user) {
+  if ((requireAuth && !user) || profile?.password_reset_required) {
     return null
   }
 
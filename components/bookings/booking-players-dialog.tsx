@@ -0,0 +1,283 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { UserPlus, Users } from 'lucide-react'
+import { bookingService, BookingRoster } from '@/lib/booking-service'
+import { formatTimeRange } from '@/lib/booking-rules'
+import { holdsRosterPlace } from '@/lib/cost-split-rules'
+import type { SplitMode } from '@/lib/cost-split-rules'
+import { useToast } from '@/hooks/use-toast'
+
+interface BookingPlayersDialogProps {
+  booking: {
+    id: string
+    booking_date: string
+    start_time: string
+    end_time: string
+    game: { name: string }
+  } | null
+  // Only the organiser can invite players and change the split
+  canManage: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const PARTICIPANT_STATUS_COLORS = {
+  invited: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-100 text-gray-800'
+}
+
+export function BookingPlayersDialog({ booking, canManage, open, onOpenChange }: BookingPlayersDialogProps) {
+  const { toast } = useToast()
+  const [roster, setRoster] = useState<BookingRoster | null>(null)
+  const [phone, setPhone] = useState('')
+  const [inviting, setInviting] = useState(false)
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal')
+  const [customShares, setCustomShares] = useState<Record<string, string>>({})
+  const [savingSplit, setSavingSplit] = useState(false)
+
+  useEffect(() => {
+    if (open && booking) {
+      setRoster(null)
+      setPhone('')
+      loadRoster(booking.id)
+    }
+  }, [open, booking])
+
+  const loadRoster = async (bookingId: string) => {
+    const { data, error } = await bookingService.getBookingRoster(bookingId)
+
+    if (error || !data) {
+      console.error('Error fetching booking players:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load players",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setRoster(data)
+    setSplitMode(data.splitMode)
+    setCustomShares(Object.fromEntries(
+      data.participants.map(p => [p.id, p.share_amount != null ? String(p.share_amount) : ''])
+    ))
+  }
+
+  const handleInvite = async () => {
+    if (!booking || !phone.trim()) return
+
+    try {
+      setInviting(true)
+      const { data: result, error } = await bookingService.inviteParticipant(booking.id, phone.trim())
+
+      if (error || !result) throw error
+
+      if (result.status === 'invalid') {
+        toast({
+          title: "Player not invited",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: "Invitation sent"
+      })
+      setPhone('')
+      loadRoster(booking.id)
+    } catch (error) {
+      console.error('Error inviting player:', error)
+      toast({
+        title: "Error",
+        description: "Failed to invite player",
+        variant: "destructive"
+      })
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleSaveSplit = async () => {
+    if (!booking) return
+
+    try {
+      setSavingSplit(true)
+      const shares = splitMode === 'custom'
+        ? Object.fromEntries(
+            Object.entries(customShares)
+              .filter(([id]) => roster?.participants.some(p => p.id === id && holdsRosterPlace(p.status)))
+              .map(([id, amount]) => [id, Number(amount || 0)])
+          )
+        : {}
+
+      const { data: result, error } = await bookingService.updateCostSplit(booking.id, splitMode, shares)
+
+      if (error || !result) throw error
+
+      if (result.status === 'invalid') {
+        toast({
+          title: "Split not saved",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: "Cost split updated"
+      })
+      loadRoster(booking.id)
+    } catch (error) {
+      console.error('Error updating cost split:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update cost split",
+        variant: "destructive"
+      })
+    } finally {
+      setSavingSplit(false)
+    }
+  }
+
+  const players = roster?.participants.filter(p => holdsRosterPlace(p.status)) || []
+  const placesLeft = roster ? roster.maxPlayers - 1 - players.length : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Players
+          </DialogTitle>
+          <DialogDescription>
+            {booking && `${booking.game.name} on ${booking.booking_date}, ${formatTimeRange(booking.start_time, booking.end_time)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!roster ? (
+          <div className="space-y-3 py-4">
+            <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+            <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+          </div>
+        ) : (
+          <div className="space-y-6 py-4">
+            {/* Roster with everyone's share */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Roster</h3>
+                <span className="text-xs text-gray-500">
+                  {players.length + 1} of {roster.maxPlayers} players · ₹{roster.totalCost} total
+                </span>
+              </div>
+              <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                <span className="font-medium">{roster.organiser.name} (organiser)</span>
+                <span>₹{roster.split.organiserShare}</span>
+              </div>
+              {roster.participants.map((participant) => (
+                <div key={participant.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{participant.profile?.name || 'Player'}</span>
+                    <Badge className={PARTICIPANT_STATUS_COLORS[participant.status]}>
+                      {participant.status}
+                    </Badge>
+                  </div>
+                  {canManage && splitMode === 'custom' && holdsRosterPlace(participant.status) ? (
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-[100px] h-8"
+                      value={customShares[participant.id] ?? ''}
+                      onChange={(e) => setCustomShares(prev => ({ ...prev, [participant.id]: e.target.value }))}
+                    />
+                  ) : (
+                    <span>
+                      {participant.status === 'accepted' ? `₹${roster.split.shares[participant.id] ?? 0}` : '-'}
+                    </span>
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                Only accepted players pay a share; the organiser covers the rest.
+              </p>
+            </div>
+
+            {canManage && (
+              <>
+                {/* Cost split */}
+                <div className="space-y-2">
+                  <Label>Split the cost</Label>
+                  <div className="grid grid-cols-[1fr_auto] gap-2">
+                    <Select value={splitMode} onValueChange={(value) => setSplitMode(value as SplitMode)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="equal">Equally between players</SelectItem>
+                        <SelectItem value="custom">Custom shares</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button type="button" variant="outline" onClick={handleSaveSplit} disabled={savingSplit}>
+                      {savingSplit ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Invite by phone number */}
+                <div className="space-y-2">
+                  <Label htmlFor="invite-phone">Invite a player</Label>
+                  <div className="grid grid-cols-[1fr_auto] gap-2">
+                    <Input
+                      id="invite-phone"
+                      placeholder="Phone number (e.g., +919876543210)"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      disabled={placesLeft <= 0}
+                    />
+                    <Button
+                      type="button"
+                      onClick={handleInvite}
+                      disabled={!phone.trim() || inviting || placesLeft <= 0}
+                    >
+                      <UserPlus className="h-4 w-4 mr-1" />
+                      {inviting ? 'Inviting...' : 'Invite'}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {placesLeft > 0
+                      ? `${placesLeft} more player${placesLeft !== 1 ? 's' : ''} can join this booking`
+                      : 'This booking is full'}
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
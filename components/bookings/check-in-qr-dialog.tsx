@@ -0,0 +1,103 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import QRCode from 'qrcode'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { QrCode } from 'lucide-react'
+import { bookingService } from '@/lib/booking-service'
+import { formatTimeRange } from '@/lib/booking-rules'
+import { CHECK_IN_OPENS_MINUTES_BEFORE } from '@/lib/check-in-rules'
+import { useToast } from '@/hooks/use-toast'
+
+interface CheckInQrDialogProps {
+  booking: {
+    id: string
+    booking_date: string
+    start_time: string
+    end_time: string
+    game: { name: string }
+  } | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function CheckInQrDialog({ booking, open, onOpenChange }: CheckInQrDialogProps) {
+  const { toast } = useToast()
+  const [token, setToken] = useState<string | null>(null)
+  const [qrCode, setQrCode] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open && booking) {
+      loadCheckInCode(booking.id)
+    }
+  }, [open, booking])
+
+  const loadCheckInCode = async (bookingId: string) => {
+    try {
+      setLoading(true)
+      setToken(null)
+      setQrCode(null)
+      setMessage(null)
+
+      const { data: result, error } = await bookingService.getCheckInCode(bookingId)
+      if (error || !result) throw error
+
+      if (result.status === 'invalid') {
+        setMessage(result.message)
+        return
+      }
+
+      setToken(result.token)
+      setQrCode(await QRCode.toDataURL(result.token, { width: 256, margin: 1 }))
+    } catch (error) {
+      console.error('Error loading check-in code:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load your check-in code",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <QrCode className="h-5 w-5 mr-2" />
+            Check-in Code
+          </DialogTitle>
+          <DialogDescription>
+            {booking?.game?.name} on {booking?.booking_date}, {booking && formatTimeRange(booking.start_time, booking.end_time)}.
+            Show this code at the venue. Check-in opens {CHECK_IN_OPENS_MINUTES_BEFORE} minutes before your booking starts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading check-in code...</p>
+          </div>
+        ) : message ? (
+          <p className="text-sm text-red-600 py-4">{message}</p>
+        ) : qrCode && token ? (
+          <div className="flex flex-col items-center space-y-3">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={qrCode} alt="Check-in QR code" className="w-64 h-64" />
+            <p className="text-xs text-gray-500 break-all text-center">{token}</p>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
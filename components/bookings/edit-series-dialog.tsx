@@ -0,0 +1,217 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Repeat } from 'lucide-react'
+import { bookingService } from '@/lib/booking-service'
+import { settingsService, SystemSettings, DEFAULT_SETTINGS } from '@/lib/settings-service'
+import { calculateDuration, minutesToTime, timeToMinutes } from '@/lib/booking-rules'
+import { useToast } from '@/hooks/use-toast'
+
+interface EditSeriesDialogProps {
+  seriesId: string | null
+  gameName?: string
+  startTime?: string
+  endTime?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSeriesUpdated: () => void
+}
+
+export function EditSeriesDialog({ seriesId, gameName, startTime, endTime, open, onOpenChange, onSeriesUpdated }: EditSeriesDialogProps) {
+  const { toast } = useToast()
+  const [settings, setSettings] = useState<SystemSettings>(DEFAULT_SETTINGS)
+  const [newStartTime, setNewStartTime] = useState('')
+  const [newEndTime, setNewEndTime] = useState('')
+  const [conflictDates, setConflictDates] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setNewStartTime(startTime?.slice(0, 5) || '')
+      setNewEndTime(endTime?.slice(0, 5) || '')
+      setConflictDates([])
+      loadSettings()
+    }
+  }, [open, startTime, endTime])
+
+  const loadSettings = async () => {
+    const { data } = await settingsService.getSettings()
+    if (data) {
+      setSettings(data)
+    }
+  }
+
+  const generateTimeOptions = () => {
+    const options = []
+    const start = settings.is_24_7 ? 0 : timeToMinutes(settings.opening_time)
+    // In 24/7 mode end times wrap past midnight, so the last slot is the one before 00:00
+    const end = settings.is_24_7 ? 24 * 60 - settings.booking_slot_duration : timeToMinutes(settings.closing_time)
+
+    for (let minutes = start; minutes <= end; minutes += settings.booking_slot_duration) {
+      options.push(minutesToTime(minutes))
+    }
+
+    return options
+  }
+
+  const getEndTimeOptions = () => {
+    if (!newStartTime) return []
+
+    return generateTimeOptions().filter(time => {
+      const duration = calculateDuration(newStartTime, time, settings.is_24_7)
+      return duration >= settings.min_booking_duration && duration <= settings.max_booking_duration
+    })
+  }
+
+  const handleSave = async () => {
+    if (!seriesId || !newStartTime || !newEndTime) return
+
+    try {
+      setSaving(true)
+      setConflictDates([])
+
+      const { data: result, error } = await bookingService.updateSeries(seriesId, newStartTime, newEndTime)
+      if (error || !result) {
+        throw error
+      }
+
+      if (result.status === 'conflict') {
+        setConflictDates(result.conflictDates)
+        toast({
+          title: "Time unavailable",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      if (result.status === 'invalid') {
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      const moved = result.bookings.length
+      const details = [
+        result.refundAmount > 0 ? `₹${result.refundAmount} will be refunded.` : '',
+        result.skippedDates.length > 0
+          ? `${result.skippedDates.length} booking${result.skippedDates.length !== 1 ? 's' : ''} kept ${result.skippedDates.length !== 1 ? 'their' : 'its'} time because ${result.skippedDates.length !== 1 ? 'they are' : 'it is'} past the change deadline.`
+          : ''
+      ].filter(Boolean).join(' ')
+
+      toast({
+        title: "Success",
+        description: `${moved} booking${moved !== 1 ? 's' : ''} in this series moved to ${newStartTime} - ${newEndTime}. ${details}`.trim()
+      })
+
+      onOpenChange(false)
+      onSeriesUpdated()
+    } catch (error: any) {
+      console.error('Error updating series:', error)
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to update series",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Repeat className="h-5 w-5 mr-2" />
+            Edit Recurring Booking
+          </DialogTitle>
+          <DialogDescription>
+            Change the time of every upcoming {gameName ? `${gameName} ` : ''}booking in this series.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="grid gap-2">
+            <Label>Start Time</Label>
+            <Select
+              value={newStartTime}
+              onValueChange={(value) => {
+                setNewStartTime(value)
+                setNewEndTime('')
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Start time" />
+              </SelectTrigger>
+              <SelectContent className="max-h-60">
+                {generateTimeOptions().map((time) => (
+                  <SelectItem key={time} value={time}>{time}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>End Time</Label>
+            <Select value={newEndTime} onValueChange={setNewEndTime} disabled={!newStartTime}>
+              <SelectTrigger>
+                <SelectValue placeholder="End time" />
+              </SelectTrigger>
+              <SelectContent className="max-h-60">
+                {getEndTimeOptions().map((time) => (
+                  <SelectItem key={time} value={time}>{time}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {conflictDates.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm font-medium text-red-800 mb-2">Already booked on:</p>
+            <div className="grid grid-cols-2 gap-2">
+              {conflictDates.map((date) => (
+                <div key={date} className="text-xs text-red-700 bg-red-100 px-2 py-1 rounded">
+                  {new Date(date).toLocaleDateString('en-US', {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric'
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !newStartTime || !newEndTime}>
+            {saving ? 'Saving...' : 'Update Series'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
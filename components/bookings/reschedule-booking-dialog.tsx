@@ -0,0 +1,296 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { CalendarClock } from 'lucide-react'
+import { bookingService } from '@/lib/booking-service'
+import { gameService } from '@/lib/game-service'
+import { settingsService, SystemSettings, DEFAULT_SETTINGS } from '@/lib/settings-service'
+import { getVenueToday } from '@/lib/venue-time'
+import {
+  addDays,
+  calculateDuration,
+  getMinBookingDate,
+  getOperatingHours,
+  minutesToTime,
+  timeToMinutes
+} from '@/lib/booking-rules'
+import type { GameSchedule } from '@/lib/booking-rules'
+import { useToast } from '@/hooks/use-toast'
+
+interface RescheduleBookingDialogProps {
+  booking: {
+    id: string
+    booking_date: string
+    start_time: string
+    end_time: string
+    total_cost: number
+    game: { id: string; name: string }
+  } | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRescheduled: () => void
+}
+
+export function RescheduleBookingDialog({ booking, open, onOpenChange, onRescheduled }: RescheduleBookingDialogProps) {
+  const { toast } = useToast()
+  const [settings, setSettings] = useState<SystemSettings>(DEFAULT_SETTINGS)
+  const [schedule, setSchedule] = useState<GameSchedule | null>(null)
+  const [newDate, setNewDate] = useState('')
+  const [newStartTime, setNewStartTime] = useState('')
+  const [newEndTime, setNewEndTime] = useState('')
+  const [hasConflict, setHasConflict] = useState(false)
+  const [newCost, setNewCost] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open && booking) {
+      setNewDate(booking.booking_date)
+      setNewStartTime(booking.start_time.slice(0, 5))
+      setNewEndTime(booking.end_time.slice(0, 5))
+      setHasConflict(false)
+      setNewCost(null)
+      loadSettings()
+      loadSchedule(booking.game.id)
+    }
+  }, [open, booking])
+
+  // Check the new window against other bookings (this one excluded) and re-price it
+  useEffect(() => {
+    if (!open || !booking || !newDate || !newStartTime || !newEndTime) return
+
+    const checkNewTime = async () => {
+      const [conflict, { data: price }] = await Promise.all([
+        bookingService.checkBookingConflict(booking.game.id, newDate, newStartTime, newEndTime, booking.id),
+        bookingService.calculateBookingCost(booking.game.id, newDate, newStartTime, newEndTime)
+      ])
+
+      setHasConflict(Boolean(conflict))
+      setNewCost(price ? price.total : null)
+    }
+
+    checkNewTime()
+  }, [open, booking, newDate, newStartTime, newEndTime])
+
+  const loadSettings = async () => {
+    const { data } = await settingsService.getSettings()
+    if (data) {
+      setSettings(data)
+    }
+  }
+
+  const loadSchedule = async (gameId: string) => {
+    const { data, error } = await gameService.getGameSchedule(gameId)
+    if (error) {
+      console.error('Error fetching game schedule:', error)
+    }
+    setSchedule(data)
+  }
+
+  const today = getVenueToday(settings.venue_timezone)
+  const operatingHours = newDate ? getOperatingHours(settings, newDate, schedule) : null
+
+  const generateTimeOptions = () => {
+    if (!operatingHours || !operatingHours.isOpen) return []
+
+    const options = []
+    const start = operatingHours.is24_7 ? 0 : timeToMinutes(operatingHours.openingTime)
+    // In 24/7 mode end times wrap past midnight, so the last slot is the one before 00:00
+    const end = operatingHours.is24_7 ? 24 * 60 - settings.booking_slot_duration : timeToMinutes(operatingHours.closingTime)
+
+    for (let minutes = start; minutes <= end; minutes += settings.booking_slot_duration) {
+      options.push(minutesToTime(minutes))
+    }
+
+    return options
+  }
+
+  const getEndTimeOptions = () => {
+    if (!newStartTime || !operatingHours) return []
+
+    return generateTimeOptions().filter(time => {
+      const duration = calculateDuration(newStartTime, time, operatingHours.is24_7)
+      return duration >= settings.min_booking_duration && duration <= settings.max_booking_duration
+    })
+  }
+
+  const isUnchanged = booking !== null &&
+    newDate === booking.booking_date &&
+    newStartTime === booking.start_time.slice(0, 5) &&
+    newEndTime === booking.end_time.slice(0, 5)
+
+  const handleSave = async () => {
+    if (!booking || !newDate || !newStartTime || !newEndTime) return
+
+    try {
+      setSaving(true)
+
+      const { data: result, error } = await bookingService.rescheduleBooking(booking.id, {
+        bookingDate: newDate,
+        startTime: newStartTime,
+        endTime: newEndTime
+      })
+      if (error || !result) {
+        throw error
+      }
+
+      if (result.status === 'conflict') {
+        setHasConflict(true)
+        toast({
+          title: "Time unavailable",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      if (result.status === 'invalid') {
+        toast({
+          title: "Error",
+          description: result.message,
+          variant: "destructive"
+        })
+        return
+      }
+
+      const details = [
+        result.booking.status === 'pending' ? 'Awaiting admin approval.' : '',
+        result.refundAmount > 0 ? `₹${result.refundAmount} will be refunded.` : ''
+      ].filter(Boolean).join(' ')
+
+      toast({
+        title: "Success",
+        description: `Booking moved to ${newDate}, ${newStartTime} - ${newEndTime}. ${details}`.trim()
+      })
+
+      onOpenChange(false)
+      onRescheduled()
+    } catch (error: any) {
+      console.error('Error rescheduling booking:', error)
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to reschedule booking",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2" />
+            Reschedule Booking
+          </DialogTitle>
+          <DialogDescription>
+            Move your {booking?.game.name ? `${booking.game.name} ` : ''}booking to a new date and time.
+            {settings.require_admin_approval && ' The new time may need admin approval.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="reschedule-date">Date</Label>
+            <Input
+              id="reschedule-date"
+              type="date"
+              min={getMinBookingDate(settings, today)}
+              max={addDays(today, settings.advance_booking_days)}
+              value={newDate}
+              onChange={(e) => {
+                setNewDate(e.target.value)
+                setNewStartTime('')
+                setNewEndTime('')
+              }}
+            />
+            {operatingHours && !operatingHours.isOpen && (
+              <p className="text-sm text-red-600">
+                Closed on this date{operatingHours.closedReason ? `: ${operatingHours.closedReason}` : ''}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Start Time</Label>
+              <Select
+                value={newStartTime}
+                onValueChange={(value) => {
+                  setNewStartTime(value)
+                  setNewEndTime('')
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Start time" />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  {generateTimeOptions().map((time) => (
+                    <SelectItem key={time} value={time}>{time}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label>End Time</Label>
+              <Select value={newEndTime} onValueChange={setNewEndTime} disabled={!newStartTime}>
+                <SelectTrigger>
+                  <SelectValue placeholder="End time" />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  {getEndTimeOptions().map((time) => (
+                    <SelectItem key={time} value={time}>{time}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        {hasConflict && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">This time is already booked. Please choose another time.</p>
+          </div>
+        )}
+
+        {!hasConflict && newCost !== null && newEndTime && booking && (
+          <div className="p-3 bg-gray-50 border rounded-lg text-sm text-gray-700">
+            New price: <strong>₹{newCost}</strong> (currently ₹{booking.total_cost}).
+            Any promo discount on this booking is applied to the new price.
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || hasConflict || isUnchanged || !newDate || !newStartTime || !newEndTime}
+          >
+            {saving ? 'Saving...' : 'Reschedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
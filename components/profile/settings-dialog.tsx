@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/use-auth'
 import { useToast } from '@/hooks/use-toast'
 import {
@@ -15,8 +15,10 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
-import { Settings, User, Lock, Eye, EyeOff } from 'lucide-react'
+import { Switch } from '@/components/ui/switch'
+import { Settings, User, Lock, Eye, EyeOff, Bell } from 'lucide-react'
 import { authService } from '@/lib/auth'
+import { notificationService, NotificationPreferences, DEFAULT_NOTIFICATION_PREFERENCES } from '@/lib/notification-service'
 
 interface SettingsDialogProps {
   open: boolean
@@ -38,8 +40,51 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
   const [showNewPassword, setShowNewPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
 
+  // Notification preferences state
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+  const [isSavingPreferences, setIsSavingPreferences] = useState(false)
+
+  useEffect(() => {
+    if (!open || !profile) return
+
+    const loadPreferences = async () => {
+      const { data, error } = await notificationService.getPreferences(profile.id)
+      if (error) {
+        console.error('Error loading notification preferences:', error)
+      }
+      if (data) {
+        setPreferences(data)
+      }
+    }
+
+    loadPreferences()
+  }, [open, profile])
+
   if (!profile) return null
 
+  const handleUpdatePreferences = async () => {
+    try {
+      setIsSavingPreferences(true)
+      const { error } = await notificationService.updatePreferences(profile.id, preferences)
+
+      if (error) throw error
+
+      toast({
+        title: "Success",
+        description: "Notification preferences saved"
+      })
+    } catch (error) {
+      console.error('Error saving notification preferences:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save notification preferences",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSavingPreferences(false)
+    }
+  }
+
   const handleUpdateName = async () => {
     if (!newName.trim()) {
       toast({
@@ -264,6 +309,63 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
               </Button>
             </CardContent>
           </Card>
+
+          <Separator />
+
+          {/* Notification Preferences */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm flex items-center">
+                <Bell className="h-4 w-4 mr-2" />
+                Notifications
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Choose how we tell you about booking confirmations, approvals, reminders and cancellations.
+              </p>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="notify-email">Email</Label>
+                <Switch
+                  id="notify-email"
+                  checked={preferences.email_enabled}
+                  onCheckedChange={(checked) => setPreferences(prev => ({ ...prev, email_enabled: checked }))}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="notify-sms">SMS</Label>
+                <Switch
+                  id="notify-sms"
+                  checked={preferences.sms_enabled}
+                  onCheckedChange={(checked) => setPreferences(prev => ({ ...prev, sms_enabled: checked }))}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="notify-whatsapp">WhatsApp</Label>
+                <Switch
+                  id="notify-whatsapp"
+                  checked={preferences.whatsapp_enabled}
+                  onCheckedChange={(checked) => setPreferences(prev => ({ ...prev, whatsapp_enabled: checked }))}
+                />
+              </div>
+
+              {(preferences.sms_enabled || preferences.whatsapp_enabled) && !profile.phone && (
+                <p className="text-xs text-orange-600">Add a phone number to your profile to get SMS and WhatsApp messages.</p>
+              )}
+
+              <Button
+                onClick={handleUpdatePreferences}
+                disabled={isSavingPreferences}
+                className="w-full"
+                variant="outline"
+              >
+                {isSavingPreferences ? 'Saving...' : 'Save Preferences'}
+              </Button>
+            </CardContent>
+          </Card>
         </div>
       </DialogContent>
     </Dialog>
@@ -3,14 +3,19 @@
 import { useState, useEffect, createContext, useContext } from 'react'
 import { User } from '@supabase/supabase-js'
 import { authService, Profile } from '@/lib/auth'
+import type { OtpPurpose } from '@/lib/phone-rules'
 
 interface AuthContextType {
   user: User | null
   profile: Profile | null
   loading: boolean
   signIn: (phone: string, password: string) => Promise<any>
-  signUp: (phone: string, password: string, name: string, role?: 'user' | 'admin') => Promise<any>
+  signInWithCode: (phone: string, code: string) => Promise<any>
+  requestPhoneCode: (phone: string, purpose: OtpPurpose) => Promise<any>
+  signUp: (phone: string, password: string, name: string, code: string) => Promise<any>
+  resetPassword: (phone: string, password: string, code: string) => Promise<any>
   signOut: () => Promise<any>
+  refreshProfile: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | null>(null)
@@ -66,8 +71,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return result
   }
 
-  const signUp = async (phone: string, password: string, name: string, role: 'user' | 'admin' = 'user') => {
-    const result = await authService.signUp(phone, password, name, role)
+  const signInWithCode = async (phone: string, code: string) => {
+    const result = await authService.signInWithCode(phone, code)
+    return result
+  }
+
+  const requestPhoneCode = async (phone: string, purpose: OtpPurpose) => {
+    const result = await authService.requestPhoneCode(phone, purpose)
+    return result
+  }
+
+  const signUp = async (phone: string, password: string, name: string, code: string) => {
+    const result = await authService.signUp(phone, password, name, code)
+    return result
+  }
+
+  const resetPassword = async (phone: string, password: string, code: string) => {
+    const result = await authService.resetPassword(phone, password, code)
     return result
   }
 
@@ -80,13 +100,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return result
   }
 
+  // Reload the profile after the server changes it, e.g. when a role is granted
+  const refreshProfile = async () => {
+    if (!user) return
+    const profile = await authService.getUserProfile(user.id)
+    setProfile(profile)
+  }
+
   const contextValue: AuthContextType = {
     user,
     profile,
     loading,
     signIn,
+    signInWithCode,
+    requestPhoneCode,
     signUp,
+    resetPassword,
     signOut,
+    refreshProfile,
   }
 
   return (
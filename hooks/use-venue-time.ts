@@ -0,0 +1,17 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { settingsService } from '@/lib/settings-service'
+import { DEFAULT_VENUE_TIMEZONE, getVenueToday } from '@/lib/venue-time'
+
+// The venue's timezone and today's date there, for pages that pick or compare
+// dates. Starts on the default timezone until the configured one has loaded.
+export function useVenueTime() {
+  const [timeZone, setTimeZone] = useState(DEFAULT_VENUE_TIMEZONE)
+
+  useEffect(() => {
+    settingsService.getVenueTimeZone().then(setTimeZone)
+  }, [])
+
+  return { timeZone, today: getVenueToday(timeZone) }
+}
@@ -0,0 +1,116 @@
+import { createHash, randomBytes } from 'crypto'
+import { supabaseAdmin } from './supabase-server'
+import { PASSWORD_RESET_MAX_PER_DAY } from './phone-rules'
+import type { Database } from './supabase'
+
+type AccountAuditInsert = Database['public']['Tables']['account_audit_log']['Insert']
+type AdminInvite = Database['public']['Tables']['admin_invites']['Row']
+type Role = Database['public']['Tables']['profiles']['Row']['role']
+
+export const PASSWORD_RESET_REQUIRED_MESSAGE = 'Your password has been reset by the venue. Use "Forgot password?" to set a new one.'
+
+// Record a security-sensitive change to an account
+export async function recordAccountEvent(entry: AccountAuditInsert) {
+  const { error } = await supabaseAdmin
+    .from('account_audit_log')
+    .insert([entry])
+
+  if (error) throw error
+}
+
+// Why the account's owner can't reset its password again yet, or null if they can
+export async function checkPasswordResetLimit(userId: string, now: Date = new Date()): Promise<string | null> {
+  const { count, error } = await supabaseAdmin
+    .from('account_audit_log')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('action', 'password_reset')
+    .gte('created_at', new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString())
+
+  if (error) throw error
+
+  if ((count || 0) >= PASSWORD_RESET_MAX_PER_DAY) {
+    return 'This password has been reset too many times today. Please try again tomorrow or contact the venue.'
+  }
+
+  return null
+}
+
+// Give an account a new password, clearing any reset an admin forced on it
+export async function setAccountPassword(userId: string, password: string) {
+  const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, { password })
+  if (error) throw error
+
+  const { error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .update({ password_reset_required: false })
+    .eq('id', userId)
+
+  if (profileError) throw profileError
+}
+
+// Replace an account's password with a random one nobody knows, end every
+// session it has and make the owner set a new password before they can use
+// the app again. The flag goes first, so the API refuses the account even if
+// a later step fails.
+export async function forcePasswordReset(userId: string) {
+  const { error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .update({ password_reset_required: true })
+    .eq('id', userId)
+
+  if (profileError) throw profileError
+
+  const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+    password: randomBytes(32).toString('base64url')
+  })
+  if (error) throw error
+
+  const { error: revokeError } = await supabaseAdmin.rpc('revoke_user_sessions', { p_user_id: userId })
+  if (revokeError) throw revokeError
+}
+
+// Invites are looked up by a hash of their token, which is never stored
+function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// Create a single-use admin invite. The token is returned only here, for the
+// link shown to the admin who created it.
+export async function createAdminInvite(
+  createdBy: string,
+  details: Pick<AdminInvite, 'phone' | 'note' | 'expires_at'>
+): Promise<{ invite: AdminInvite; token: string }> {
+  const token = randomBytes(24).toString('base64url')
+
+  const { data, error } = await supabaseAdmin
+    .from('admin_invites')
+    .insert([{ ...details, token_hash: hashInviteToken(token), created_by: createdBy }])
+    .select()
+    .single()
+
+  if (error) throw error
+  return { invite: data, token }
+}
+
+// The invite a token belongs to, whatever state it is in
+export async function findInviteByToken(token: string): Promise<AdminInvite | null> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_invites')
+    .select('*')
+    .eq('token_hash', hashInviteToken(token.trim()))
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Give a user a new role
+export async function setUserRole(userId: string, role: Role) {
+  const { error } = await supabaseAdmin
+    .from('profiles')
+    .update({ role })
+    .eq('id', userId)
+
+  if (error) throw error
+}
@@ -0,0 +1,165 @@
+import { timeToMinutes } from './booking-rules'
+import { getBookingWindow } from './booking-status-rules'
+
+export type ApprovalRuleType = 'trusted_user' | 'game' | 'off_peak' | 'max_cost'
+
+export interface ApprovalRule {
+  id: string
+  name: string
+  rule_type: ApprovalRuleType
+  min_completed_bookings: number | null // trusted_user only
+  game_ids: string[] | null // game only
+  weekdays: number[] | null // off_peak only, 0 = Sunday; empty means every day
+  start_time: string | null // off_peak only
+  end_time: string | null // off_peak only; an end before the start wraps past midnight
+  max_total_cost: number | null // max_cost only
+  is_active: boolean
+}
+
+// How a booking's status was decided, recorded on the booking
+export type ApprovalDecisionType = 'not_required' | 'auto_approved' | 'needs_review'
+
+export interface ApprovalDecision {
+  status: 'pending' | 'confirmed'
+  decision: ApprovalDecisionType
+  rule: Pick<ApprovalRule, 'id' | 'name'> | null // the rule that auto-approved the booking
+}
+
+export interface ApprovalCandidate {
+  gameId: string
+  bookingDate: string
+  startTime: string
+  endTime: string
+  totalCost: number
+}
+
+// The user's past attendance, for trusted_user rules
+export interface UserBookingRecord {
+  completedBookings: number
+  noShows: number
+}
+
+export const APPROVAL_RULE_TYPE_LABELS: Record<ApprovalRuleType, string> = {
+  trusted_user: 'Trusted user',
+  game: 'Specific games',
+  off_peak: 'Off-peak hours',
+  max_cost: 'Low cost'
+}
+
+export const APPROVAL_DECISION_LABELS: Record<ApprovalDecisionType, string> = {
+  not_required: 'Approval not required',
+  auto_approved: 'Auto-approved',
+  needs_review: 'Needs review'
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+// Whether the whole booking falls inside the rule's hours, on one of its days
+function withinOffPeakHours(rule: ApprovalRule, candidate: ApprovalCandidate): boolean {
+  if (!rule.start_time || !rule.end_time) return false
+
+  const weekday = new Date(`${candidate.bookingDate}T00:00:00Z`).getUTCDay()
+  if (rule.weekdays && rule.weekdays.length > 0 && !rule.weekdays.includes(weekday)) {
+    return false
+  }
+
+  const bandStart = timeToMinutes(rule.start_time)
+  let bandEnd = timeToMinutes(rule.end_time)
+  if (bandEnd <= bandStart) bandEnd += MINUTES_PER_DAY
+
+  const start = timeToMinutes(candidate.startTime)
+  let end = timeToMinutes(candidate.endTime)
+  if (end <= start) end += MINUTES_PER_DAY
+
+  // A booking early in the morning can sit in the part of a band that wrapped past midnight
+  return [0, MINUTES_PER_DAY].some(offset =>
+    start + offset >= bandStart && end + offset <= bandEnd
+  )
+}
+
+export function matchesApprovalRule(rule: ApprovalRule, candidate: ApprovalCandidate, record: UserBookingRecord): boolean {
+  if (!rule.is_active) return false
+
+  switch (rule.rule_type) {
+    case 'trusted_user':
+      return rule.min_completed_bookings !== null &&
+        record.completedBookings >= rule.min_completed_bookings &&
+        record.noShows === 0
+    case 'game':
+      return !!rule.game_ids && rule.game_ids.includes(candidate.gameId)
+    case 'off_peak':
+      return withinOffPeakHours(rule, candidate)
+    case 'max_cost':
+      return rule.max_total_cost !== null && candidate.totalCost <= rule.max_total_cost
+  }
+}
+
+// Whether a booking is confirmed straight away. When admin approval is
+// required, the first active rule the booking matches confirms it; anything
+// else waits in the pending queue for an admin.
+export function decideApproval(
+  requireApproval: boolean,
+  rules: ApprovalRule[],
+  candidate: ApprovalCandidate,
+  record: UserBookingRecord
+): ApprovalDecision {
+  if (!requireApproval) {
+    return { status: 'confirmed', decision: 'not_required', rule: null }
+  }
+
+  const rule = rules.find(r => matchesApprovalRule(r, candidate, record))
+  return rule
+    ? { status: 'confirmed', decision: 'auto_approved', rule: { id: rule.id, name: rule.name } }
+    : { status: 'pending', decision: 'needs_review', rule: null }
+}
+
+// When a pending booking expires if nobody acts on it: slaHours after it
+// started waiting, or cutoffMinutes before it starts, whichever comes first
+export function getApprovalDeadline(
+  booking: { pending_since: string | null; created_at: string; booking_date: string; start_time: string; end_time: string },
+  slaHours: number,
+  cutoffMinutes: number,
+  timeZone: string
+): Date {
+  const waitingSince = new Date(booking.pending_since || booking.created_at).getTime()
+  const cutoff = getBookingWindow(booking, timeZone).start.getTime() - cutoffMinutes * 60 * 1000
+  return new Date(Math.min(waitingSince + slaHours * 60 * 60 * 1000, cutoff))
+}
+
+// Validate an approval rule before it is saved
+export function validateApprovalRule(rule: Partial<ApprovalRule>): string[] {
+  const errors: string[] = []
+
+  if (!rule.name || !rule.name.trim()) {
+    errors.push('Rule name is required')
+  }
+
+  switch (rule.rule_type) {
+    case 'trusted_user':
+      if (rule.min_completed_bookings === undefined || rule.min_completed_bookings === null ||
+          isNaN(rule.min_completed_bookings) || rule.min_completed_bookings < 1) {
+        errors.push('Trusted user rules need at least 1 completed booking')
+      }
+      break
+    case 'game':
+      if (!rule.game_ids || rule.game_ids.length === 0) {
+        errors.push('Select at least one game')
+      }
+      break
+    case 'off_peak':
+      if (!rule.start_time || !rule.end_time) {
+        errors.push('Off-peak rules need a start and end time')
+      } else if (rule.start_time === rule.end_time) {
+        errors.push('Start and end time must be different')
+      }
+      break
+    case 'max_cost':
+      if (rule.max_total_cost === undefined || rule.max_total_cost === null ||
+          isNaN(rule.max_total_cost) || rule.max_total_cost <= 0) {
+        errors.push('Low cost rules need a maximum cost above ₹0')
+      }
+      break
+  }
+
+  return errors
+}
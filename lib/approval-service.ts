@@ -0,0 +1,81 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import { validateApprovalRule } from './approval-rules'
+import type { ApprovalRule } from './approval-rules'
+
+type ApprovalRuleInsert = Database['public']['Tables']['approval_rules']['Insert']
+type ApprovalRuleUpdate = Database['public']['Tables']['approval_rules']['Update']
+
+export class ApprovalService {
+  // Get every approval rule, active or not (admin only)
+  async getAllRules() {
+    try {
+      const { data, error } = await supabase
+        .from('approval_rules')
+        .select('*')
+        .order('rule_type', { ascending: true })
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return { data: data as ApprovalRule[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Create an approval rule (admin only)
+  async createRule(rule: ApprovalRuleInsert) {
+    try {
+      const { data, error } = await supabase
+        .from('approval_rules')
+        .insert([rule])
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Update an approval rule (admin only)
+  async updateRule(ruleId: string, rule: ApprovalRuleUpdate) {
+    try {
+      const { data, error } = await supabase
+        .from('approval_rules')
+        .update({ ...rule, updated_at: new Date().toISOString() })
+        .eq('id', ruleId)
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Delete an approval rule (admin only)
+  async deleteRule(ruleId: string) {
+    try {
+      const { error } = await supabase
+        .from('approval_rules')
+        .delete()
+        .eq('id', ruleId)
+
+      if (error) throw error
+      return { data: null, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Validate a rule before saving
+  validateRule(rule: Partial<ApprovalRule>): { isValid: boolean; errors: string[] } {
+    const errors = validateApprovalRule(rule)
+    return { isValid: errors.length === 0, errors }
+  }
+}
+
+export const approvalService = new ApprovalService()
@@ -0,0 +1,146 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+
+type AuditLogRow = Database['public']['Tables']['booking_audit_log']['Row']
+type AccountAuditRow = Database['public']['Tables']['account_audit_log']['Row']
+
+export interface BookingAuditEntry extends AuditLogRow {
+  // Null when the change was made by the system (a scheduled job or the database)
+  changer: {
+    id: string
+    name: string
+    email: string
+    role: string
+  } | null
+  booking: {
+    id: string
+    booking_date: string
+    start_time: string
+    end_time: string
+    game: { name: string } | null
+    user: { name: string; email: string } | null
+  } | null
+}
+
+export interface AccountAuditEntry extends AccountAuditRow {
+  actor: {
+    id: string
+    name: string
+    role: string
+  } | null
+}
+
+export interface AuditLogFilters {
+  newStatus?: string
+  fromDate?: string // YYYY-MM-DD, on when the change was made
+  toDate?: string
+  limit?: number
+}
+
+const AUDIT_LOG_SELECT = `
+  *,
+  changer:profiles(id, name, email, role),
+  booking:bookings(
+    id,
+    booking_date,
+    start_time,
+    end_time,
+    game:games(name),
+    user:profiles(name, email)
+  )
+`
+
+const ACCOUNT_AUDIT_LOG_SELECT = `
+  *,
+  actor:profiles!account_audit_log_actor_id_fkey(id, name, role)
+`
+
+// What happened to an account, as shown in its history
+export function getAccountAuditActionLabel(action: AccountAuditRow['action']): string {
+  switch (action) {
+    case 'password_reset':
+      return 'Password reset'
+    case 'password_reset_forced':
+      return 'Password reset forced'
+    case 'role_changed':
+      return 'Role changed'
+    case 'invite_created':
+      return 'Admin invite created'
+    case 'invite_revoked':
+      return 'Admin invite withdrawn'
+    case 'invite_accepted':
+      return 'Admin invite accepted'
+    default:
+      return action
+  }
+}
+
+// Who made a change, as shown in the audit trail
+export function getAuditActorLabel(entry: BookingAuditEntry): string {
+  if (!entry.changer) return 'System'
+  return entry.changer.role === 'admin' ? `${entry.changer.name} (admin)` : entry.changer.name
+}
+
+export class AuditService {
+  // Every status change of one booking, oldest first (admin only)
+  async getBookingAuditLog(bookingId: string): Promise<{ data: BookingAuditEntry[] | null; error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('booking_audit_log')
+        .select(AUDIT_LOG_SELECT)
+        .eq('booking_id', bookingId)
+        .order('changed_at', { ascending: true })
+
+      if (error) throw error
+      return { data: (data || []) as unknown as BookingAuditEntry[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Security changes to one user's account, newest first (admin only)
+  async getAccountAuditLog(userId: string): Promise<{ data: AccountAuditEntry[] | null; error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('account_audit_log')
+        .select(ACCOUNT_AUDIT_LOG_SELECT)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return { data: (data || []) as unknown as AccountAuditEntry[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Recent status changes across all bookings, newest first (admin only)
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<{ data: BookingAuditEntry[] | null; error: any }> {
+    try {
+      let query = supabase
+        .from('booking_audit_log')
+        .select(AUDIT_LOG_SELECT)
+        .order('changed_at', { ascending: false })
+        .limit(filters.limit || 500)
+
+      if (filters.newStatus) {
+        query = query.eq('new_status', filters.newStatus)
+      }
+      if (filters.fromDate) {
+        query = query.gte('changed_at', `${filters.fromDate}T00:00:00`)
+      }
+      if (filters.toDate) {
+        query = query.lte('changed_at', `${filters.toDate}T23:59:59.999`)
+      }
+
+      const { data, error } = await query
+
+      if (error) throw error
+      return { data: (data || []) as unknown as BookingAuditEntry[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+}
+
+export const auditService = new AuditService()
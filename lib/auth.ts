@@ -1,4 +1,6 @@
 import { supabase } from './supabase'
+import { getAccountEmail, getLegacyAccountEmail, normalizePhone } from './phone-rules'
+import type { OtpPurpose } from './phone-rules'
 import type { User } from '@supabase/supabase-js'
 
 export interface Profile {
@@ -7,51 +9,70 @@ export interface Profile {
   phone: string
   name: string
   role: 'user' | 'admin'
+  phone_verified_at: string | null
+  password_reset_required: boolean
   created_at: string
   updated_at: string
 }
 
+export type SendPhoneCodeResult =
+  | { status: 'sent'; phone: string; resendAfterSeconds: number }
+  | { status: 'invalid'; message: string }
+  | { status: 'rate_limited'; message: string }
+
+export interface VerifyPhoneCodeRequest {
+  phone: string
+  purpose: OtpPurpose
+  code: string
+  name?: string // sign-up only
+  password?: string // sign-up and password reset
+}
+
+// tokenHash is exchanged for a session in the browser
+export type VerifyPhoneCodeResult =
+  | { status: 'verified'; tokenHash: string }
+  | { status: 'invalid'; message: string }
+
 export class AuthService {
-  async signUp(phone: string, password: string, name: string, role: 'user' | 'admin' = 'user') {
-    try {
-      // Create a temporary email using phone number for Supabase auth
-      const email = `${phone.replace(/[^0-9]/g, '')}@boundarybox.temp`
+  // Text a one-time code to a phone number, to sign in or to finish signing up
+  async requestPhoneCode(phone: string, purpose: OtpPurpose): Promise<{ data: SendPhoneCodeResult | null; error: any }> {
+    return this.callAuthApi<SendPhoneCodeResult>('/api/auth/otp', { phone, purpose })
+  }
 
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            name,
-            phone,
-            role,
-            // Add role to app_metadata for JWT claims
-            app_metadata: {
-              role
-            }
-          }
-        }
-      })
+  // Create an account once the code texted to its phone number has been entered
+  async signUp(phone: string, password: string, name: string, code: string) {
+    return this.verifyPhoneCode({ phone, purpose: 'sign_up', code, name, password })
+  }
 
-      if (error) throw error
+  // Set a new password after proving the account's phone number with a texted
+  // code; the user is signed in once it is changed
+  async resetPassword(phone: string, password: string, code: string) {
+    return this.verifyPhoneCode({ phone, purpose: 'password_reset', code, password })
+  }
 
-      return { data, error: null }
-    } catch (error) {
-      return { data: null, error }
-    }
+  // Sign in with the code texted to the account's phone number
+  async signInWithCode(phone: string, code: string) {
+    return this.verifyPhoneCode({ phone, purpose: 'sign_in', code })
   }
 
   async signIn(phone: string, password: string) {
     try {
-      // Convert phone to email format for Supabase auth
-      const email = `${phone.replace(/[^0-9]/g, '')}@boundarybox.temp`
+      const normalized = normalizePhone(phone)
+      if (!normalized) throw new Error('Please enter a valid phone number')
 
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
+      const result = await supabase.auth.signInWithPassword({
+        email: getAccountEmail(normalized),
         password,
       })
 
-      return { data, error }
+      // Accounts that haven't signed in with a code yet still use an email
+      // made from the number exactly as it was typed at sign-up
+      const legacyEmail = getLegacyAccountEmail(phone)
+      if (result.error && legacyEmail !== getAccountEmail(normalized)) {
+        return await supabase.auth.signInWithPassword({ email: legacyEmail, password })
+      }
+
+      return result
     } catch (error) {
       return { data: null, error }
     }
@@ -92,7 +113,7 @@ export class AuthService {
     })
   }
 
-  async updateProfile(userId: string, updates: Partial<Pick<Profile, 'name' | 'phone'>>) {
+  async updateProfile(userId: string, updates: Partial<Pick<Profile, 'name'>>) {
     try {
       const { data, error } = await supabase
         .from('profiles')
@@ -136,6 +157,46 @@ export class AuthService {
       return { data: null, error }
     }
   }
+
+  // Check a code with the server and start a session with the token it returns
+  private async verifyPhoneCode(request: VerifyPhoneCodeRequest) {
+    try {
+      const { data: result, error } = await this.callAuthApi<VerifyPhoneCodeResult>('/api/auth/otp/verify', request)
+      if (error) throw error
+      if (result!.status === 'invalid') throw new Error(result!.message)
+
+      const { data, error: sessionError } = await supabase.auth.verifyOtp({
+        token_hash: result!.tokenHash,
+        type: 'magiclink'
+      })
+
+      if (sessionError) throw sessionError
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Call a sign-in route; these work without a session
+  private async callAuthApi<T>(path: string, body: unknown): Promise<{ data: T | null; error: any }> {
+    try {
+      const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+      const result = await response.json()
+
+      if (response.ok || response.status === 422 || response.status === 429) {
+        return { data: result as T, error: null }
+      }
+
+      throw new Error(result.error || 'Request failed')
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
 }
 
 export const authService = new AuthService()
\ No newline at end of file
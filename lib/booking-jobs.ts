@@ -0,0 +1,264 @@
+import { supabaseAdmin } from './supabase-server'
+import { getServerSettings } from './booking-server'
+import { claimJobDelivery } from './job-runner'
+import { notifyAdmins, notifyBooking } from './notification-server'
+import { renderApprovalNudge } from './notification-templates'
+import { getHoursUntilBooking } from './cancellation-rules'
+import { addDays } from './booking-rules'
+import { getVenueToday } from './venue-time'
+import { getBookingWindow, getClosingStatus } from './booking-status-rules'
+import { getApprovalDeadline } from './approval-rules'
+import { getPaidAmounts, refundBookingPayment } from './payment-server'
+import type { PendingBookingSummary } from './notification-templates'
+import type { Job } from './job-runner'
+
+interface PendingBookingRow {
+  id: string
+  booking_date: string
+  start_time: string
+  end_time: string
+  created_at: string
+  pending_since: string | null
+  game: { name: string } | null
+  profile: { name: string } | null
+}
+
+// Remind users of confirmed bookings. Only the closest offset that has been
+// reached is sent, so a booking made an hour ahead doesn't also get the 24h reminder.
+const bookingReminders: Job = {
+  name: 'booking-reminders',
+  description: 'Remind users of upcoming confirmed bookings',
+  async run(now) {
+    const settings = await getServerSettings()
+    const offsets = [...settings.reminder_offsets_hours].sort((a, b) => a - b)
+    if (offsets.length === 0) return { processed: 0 }
+
+    const today = getVenueToday(settings.venue_timezone, now)
+    const lastDate = addDays(today, Math.ceil(offsets[offsets.length - 1] / 24) + 1)
+
+    const { data: bookings, error } = await supabaseAdmin
+      .from('bookings')
+      .select('id, booking_date, start_time')
+      .eq('status', 'confirmed')
+      .gte('booking_date', addDays(today, -1))
+      .lte('booking_date', lastDate)
+
+    if (error) throw error
+
+    let processed = 0
+    for (const booking of bookings || []) {
+      const hoursUntil = getHoursUntilBooking(booking.booking_date, booking.start_time, now, settings.venue_timezone)
+      const offset = offsets.find(hours => hoursUntil <= hours)
+      if (hoursUntil <= 0 || offset === undefined) continue
+
+      // Keyed on the booking's time too, so a rescheduled booking is reminded again
+      const key = `${booking.id}:${booking.booking_date}T${booking.start_time}:${offset}h`
+      if (!(await claimJobDelivery(this.name, key))) continue
+
+      await notifyBooking(booking.id, 'booking_reminder')
+      processed++
+    }
+
+    return { processed }
+  }
+}
+
+const PENDING_EXPIRED_REASON = 'Request expired before an admin reviewed it'
+
+// Expire booking requests nobody approved or rejected in time (see
+// getApprovalDeadline) so they stop holding the slot. Paid requests are
+// refunded in full, since the user never got an answer.
+const expirePendingBookings: Job = {
+  name: 'expire-pending-bookings',
+  description: 'Expire booking requests not reviewed in time',
+  async run(now) {
+    const settings = await getServerSettings()
+
+    const { data: bookings, error } = await supabaseAdmin
+      .from('bookings')
+      .select('id, booking_date, start_time, end_time, created_at, pending_since')
+      .eq('status', 'pending')
+
+    if (error) throw error
+
+    const due = (bookings || []).filter(booking =>
+      getApprovalDeadline(booking, settings.approval_sla_hours, settings.approval_cutoff_minutes, settings.venue_timezone) <= now
+    )
+    const paidAmounts = await getPaidAmounts(due.map(booking => booking.id))
+
+    let processed = 0
+    for (const booking of due) {
+      const refundAmount = paidAmounts.get(booking.id) || 0
+      const { data: expired, error: updateError } = await supabaseAdmin
+        .from('bookings')
+        .update({
+          status: 'canceled',
+          notes: PENDING_EXPIRED_REASON,
+          cancelled_at: now.toISOString(),
+          refund_percent: refundAmount > 0 ? 100 : null,
+          refund_amount: refundAmount > 0 ? refundAmount : null,
+          updated_at: now.toISOString()
+        })
+        .eq('id', booking.id)
+        .eq('status', 'pending')
+        .select('id')
+        .maybeSingle()
+
+      // One booking that can't be expired mustn't hold up the rest
+      if (updateError) {
+        console.error(`Error expiring booking ${booking.id}:`, updateError)
+        continue
+      }
+      if (!expired) continue
+      processed++
+
+      if (refundAmount > 0) {
+        try {
+          await refundBookingPayment(booking.id, refundAmount, PENDING_EXPIRED_REASON)
+        } catch (refundError) {
+          // The expiry stands; the recorded refund_amount shows what is still owed
+          console.error('Error refunding expired booking:', refundError)
+        }
+      }
+
+      // Requests for slots already under way are closed quietly
+      if (getBookingWindow(booking, settings.venue_timezone).start <= now) continue
+
+      const { error: offerError } = await supabaseAdmin.rpc('offer_waitlist_slot', { p_booking_id: booking.id })
+      if (offerError) {
+        console.error('Error offering freed slot to waitlist:', offerError)
+      }
+
+      await notifyBooking(booking.id, 'booking_rejected', { reason: PENDING_EXPIRED_REASON })
+    }
+
+    return { processed }
+  }
+}
+
+// Nudge admins about upcoming bookings that have been waiting for approval,
+// once for each configured threshold, in a single digest per run
+const approvalNudges: Job = {
+  name: 'approval-nudges',
+  description: 'Remind admins of bookings waiting for approval',
+  async run(now) {
+    const settings = await getServerSettings()
+    const thresholds = [...settings.approval_nudge_hours].sort((a, b) => b - a)
+    if (thresholds.length === 0) return { processed: 0 }
+
+    const { data: bookings, error } = await supabaseAdmin
+      .from('bookings')
+      .select(`
+        id,
+        booking_date,
+        start_time,
+        end_time,
+        created_at,
+        pending_since,
+        game:games(name),
+        profile:profiles(name)
+      `)
+      .eq('status', 'pending')
+      .gte('booking_date', getVenueToday(settings.venue_timezone, now))
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    const due: PendingBookingSummary[] = []
+    for (const booking of (bookings || []) as unknown as PendingBookingRow[]) {
+      if (getHoursUntilBooking(booking.booking_date, booking.start_time, now, settings.venue_timezone) <= 0) continue
+
+      const hoursPending = (now.getTime() - new Date(booking.pending_since || booking.created_at).getTime()) / (1000 * 60 * 60)
+      const threshold = thresholds.find(hours => hoursPending >= hours)
+      if (threshold === undefined) continue
+
+      if (!(await claimJobDelivery(this.name, `${booking.id}:${threshold}h`))) continue
+
+      due.push({
+        userName: booking.profile?.name || 'Unknown user',
+        gameName: booking.game?.name || 'Unknown game',
+        bookingDate: booking.booking_date,
+        startTime: booking.start_time,
+        endTime: booking.end_time,
+        hoursPending
+      })
+    }
+
+    if (due.length > 0) {
+      await notifyAdmins('approval_nudge', renderApprovalNudge(due))
+    }
+
+    return { processed: due.length }
+  }
+}
+
+// Expire lapsed waitlist offers and pass each window to the next user in line
+const expireWaitlistOffers: Job = {
+  name: 'expire-waitlist-offers',
+  description: 'Expire lapsed waitlist offers',
+  async run() {
+    const { data, error } = await supabaseAdmin.rpc('expire_waitlist_offers')
+
+    if (error) throw error
+    return { processed: data || 0 }
+  }
+}
+
+// Close confirmed bookings once they are over, as completed or no-show
+// (see getClosingStatus), so stats and history don't wait on an admin
+const closePastBookings: Job = {
+  name: 'close-past-bookings',
+  description: 'Mark past confirmed bookings completed or no-show',
+  async run(now) {
+    const settings = await getServerSettings()
+
+    const { data: bookings, error } = await supabaseAdmin
+      .from('bookings')
+      .select('id, booking_date, start_time, end_time, checked_in_at')
+      .eq('status', 'confirmed')
+      .lte('booking_date', addDays(getVenueToday(settings.venue_timezone, now), 1))
+
+    if (error) throw error
+
+    // Days on which staff checked anyone in, so a missing check-in means something
+    const dates = Array.from(new Set((bookings || []).map(booking => booking.booking_date)))
+    const checkInDates = new Set<string>()
+    if (dates.length > 0) {
+      const { data: checkIns, error: checkInError } = await supabaseAdmin
+        .from('bookings')
+        .select('booking_date')
+        .in('booking_date', dates)
+        .not('checked_in_at', 'is', null)
+
+      if (checkInError) throw checkInError
+      for (const checkIn of checkIns || []) {
+        checkInDates.add(checkIn.booking_date)
+      }
+    }
+
+    let processed = 0
+    for (const booking of bookings || []) {
+      const status = getClosingStatus(booking, checkInDates.has(booking.booking_date), settings.auto_close_grace_minutes, now, settings.venue_timezone)
+      if (!status) continue
+
+      const { data: closed, error: updateError } = await supabaseAdmin
+        .from('bookings')
+        .update({
+          status,
+          notes: status === 'no_show' ? 'Marked as no-show: never checked in' : 'Completed automatically after the booking ended',
+          updated_at: now.toISOString()
+        })
+        .eq('id', booking.id)
+        .eq('status', 'confirmed')
+        .select('id')
+        .maybeSingle()
+
+      if (updateError) throw updateError
+      if (closed) processed++
+    }
+
+    return { processed }
+  }
+}
+
+export const BOOKING_JOBS: Job[] = [bookingReminders, expirePendingBookings, approvalNudges, expireWaitlistOffers, closePastBookings]
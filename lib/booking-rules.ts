@@ -0,0 +1,283 @@
+import type { SystemSettings } from './settings-service'
+
+export interface BookingWindow {
+  bookingDate: string
+  startTime: string
+  endTime: string
+}
+
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'biweekly'
+  occurrences?: number
+  untilDate?: string
+}
+
+export interface WeekdayHours {
+  weekday: number // 0 = Sunday
+  is_closed: boolean
+  opening_time: string | null
+  closing_time: string | null
+}
+
+export interface BlackoutDate {
+  blackout_date: string
+  reason: string | null
+}
+
+// A game's own schedule; null hours fall back to the global settings
+export interface GameSchedule {
+  opening_time: string | null
+  closing_time: string | null
+  weekday_hours: WeekdayHours[]
+  blackout_dates: BlackoutDate[]
+}
+
+// A booking window as local YYYY-MM-DDTHH:MM:SS timestamps; the end is exclusive
+export interface TimeRange {
+  startsAt: string
+  endsAt: string
+}
+
+// An active booking as far as court availability is concerned
+export interface CourtBooking {
+  court_id: string | null
+  starts_at: string
+  ends_at: string
+}
+
+export interface OperatingHours {
+  isOpen: boolean
+  is24_7: boolean
+  openingTime: string
+  closingTime: string
+  closedReason?: string
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Upper bound on the number of bookings a single series can create
+export const MAX_SERIES_OCCURRENCES = 26
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2})?$/
+
+// Convert an HH:MM (or HH:MM:SS) string to minutes past midnight
+export function timeToMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number)
+  return hour * 60 + minute
+}
+
+// Convert minutes past midnight to an HH:MM string, wrapping at 24 hours
+export function minutesToTime(minutes: number): string {
+  const wrapped = ((minutes % (24 * 60)) + 24 * 60) % (24 * 60)
+  const hour = Math.floor(wrapped / 60)
+  const minute = wrapped % 60
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`
+}
+
+// Add a number of days to a YYYY-MM-DD date string
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+// Add a number of months to a YYYY-MM-DD date string; days past the end of a
+// shorter month roll over, as Date does
+export function addMonths(date: string, months: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  return result.toISOString().split('T')[0]
+}
+
+// Booking duration in hours; in 24/7 mode an end time before the start wraps past midnight
+export function calculateDuration(startTime: string, endTime: string, is24_7: boolean): number {
+  const startTotalMinutes = timeToMinutes(startTime)
+  let endTotalMinutes = timeToMinutes(endTime)
+
+  if (is24_7 && endTotalMinutes <= startTotalMinutes) {
+    endTotalMinutes += 24 * 60
+  }
+
+  if (endTotalMinutes <= startTotalMinutes) return 0
+
+  return (endTotalMinutes - startTotalMinutes) / 60
+}
+
+// Earliest bookable date; same-day bookings are only allowed in 24/7 mode
+export function getMinBookingDate(settings: SystemSettings, today: string): string {
+  return settings.is_24_7 ? today : addDays(today, 1)
+}
+
+// Operating hours for a game on a date. Blackout dates close the game,
+// weekday hours override the game's own hours, which override the global settings.
+export function getOperatingHours(settings: SystemSettings, date: string, schedule?: GameSchedule | null): OperatingHours {
+  const globalHours: OperatingHours = {
+    isOpen: true,
+    is24_7: settings.is_24_7,
+    openingTime: settings.opening_time,
+    closingTime: settings.closing_time
+  }
+
+  if (!schedule) return globalHours
+
+  const blackout = schedule.blackout_dates.find(b => b.blackout_date === date)
+  if (blackout) {
+    return { ...globalHours, isOpen: false, closedReason: blackout.reason || 'Closed on this date' }
+  }
+
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+  const weekdayHours = schedule.weekday_hours.find(h => h.weekday === weekday)
+
+  if (weekdayHours?.is_closed) {
+    return { ...globalHours, isOpen: false, closedReason: `Closed on ${WEEKDAY_NAMES[weekday]}s` }
+  }
+
+  if (weekdayHours?.opening_time && weekdayHours.closing_time) {
+    return { isOpen: true, is24_7: false, openingTime: weekdayHours.opening_time, closingTime: weekdayHours.closing_time }
+  }
+
+  if (schedule.opening_time && schedule.closing_time) {
+    return { isOpen: true, is24_7: false, openingTime: schedule.opening_time, closingTime: schedule.closing_time }
+  }
+
+  return globalHours
+}
+
+// Normalise a stored timestamp so timestamps compare as strings
+export function toTimestamp(value: string): string {
+  return value.replace(' ', 'T').slice(0, 19)
+}
+
+// The window a booking date and times describe. An end time at or before the
+// start time is on the next day, as the database's booking_window() has it.
+export function getBookingRange(date: string, startTime: string, endTime: string): TimeRange {
+  const endDate = timeToMinutes(endTime) <= timeToMinutes(startTime) ? addDays(date, 1) : date
+  return {
+    startsAt: `${date}T${startTime.slice(0, 5)}:00`,
+    endsAt: `${endDate}T${endTime.slice(0, 5)}:00`
+  }
+}
+
+// Check whether two time ranges overlap
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return toTimestamp(a.startsAt) < toTimestamp(b.endsAt) && toTimestamp(a.endsAt) > toTimestamp(b.startsAt)
+}
+
+// HH:MM - HH:MM for display, flagging a booking that ends the next day
+export function formatTimeRange(startTime: string, endTime: string): string {
+  const overnight = timeToMinutes(endTime) <= timeToMinutes(startTime)
+  return `${startTime.slice(0, 5)} - ${endTime.slice(0, 5)}${overnight ? ' (+1 day)' : ''}`
+}
+
+// Courts (in the given order) with no booking overlapping the time range
+export function findFreeCourtIds(courtIds: string[], bookings: CourtBooking[], range: TimeRange): string[] {
+  const busy = new Set(
+    bookings
+      .filter(booking => rangesOverlap(range, { startsAt: booking.starts_at, endsAt: booking.ends_at }))
+      .map(booking => booking.court_id)
+  )
+
+  return courtIds.filter(courtId => !busy.has(courtId))
+}
+
+// Dates of every occurrence in a recurring series, starting from the first booking date
+export function generateSeriesDates(startDate: string, recurrence: RecurrenceRule): string[] {
+  const step = recurrence.frequency === 'biweekly' ? 14 : 7
+  const limit = Math.min(recurrence.occurrences || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES)
+  const dates: string[] = []
+
+  for (let date = startDate; dates.length < limit; date = addDays(date, step)) {
+    if (recurrence.untilDate && date > recurrence.untilDate) break
+    dates.push(date)
+  }
+
+  return dates
+}
+
+// Validate the recurrence options of a series request
+export function validateRecurrence(startDate: string, recurrence: RecurrenceRule): string[] {
+  const errors: string[] = []
+
+  if (!['weekly', 'biweekly'].includes(recurrence.frequency)) {
+    errors.push('Repeat frequency must be weekly or biweekly')
+  }
+
+  if (!recurrence.occurrences && !recurrence.untilDate) {
+    errors.push('Choose a number of occurrences or an end date for the series')
+  }
+
+  if (recurrence.occurrences !== undefined &&
+      (!Number.isInteger(recurrence.occurrences) || recurrence.occurrences < 2 || recurrence.occurrences > MAX_SERIES_OCCURRENCES)) {
+    errors.push(`A series must have between 2 and ${MAX_SERIES_OCCURRENCES} occurrences`)
+  }
+
+  if (recurrence.untilDate && (!DATE_PATTERN.test(recurrence.untilDate) || recurrence.untilDate <= startDate)) {
+    errors.push('Series end date must be after the first booking date')
+  }
+
+  return errors
+}
+
+// Validate a requested booking window against the system settings and the
+// game's schedule. Later occurrences of a series skip the advance booking limit.
+export function validateBookingWindow(
+  window: BookingWindow,
+  settings: SystemSettings,
+  today: string,
+  options: { ignoreAdvanceLimit?: boolean, schedule?: GameSchedule | null } = {}
+): string[] {
+  const errors: string[] = []
+  const { bookingDate, startTime, endTime } = window
+
+  if (!DATE_PATTERN.test(bookingDate) || !TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+    return ['Invalid booking date or time']
+  }
+
+  const minDate = getMinBookingDate(settings, today)
+  const maxDate = addDays(today, settings.advance_booking_days)
+
+  if (bookingDate < minDate) {
+    errors.push(settings.is_24_7 ? 'Booking date cannot be in the past' : 'Bookings must be made at least one day in advance')
+  }
+
+  if (!options.ignoreAdvanceLimit && bookingDate > maxDate) {
+    errors.push(`Bookings can only be made up to ${settings.advance_booking_days} days in advance`)
+  }
+
+  const hours = getOperatingHours(settings, bookingDate, options.schedule)
+  if (!hours.isOpen) {
+    errors.push(`${hours.closedReason} - no bookings are available`)
+    return errors
+  }
+
+  const startMinutes = timeToMinutes(startTime)
+  const endMinutes = timeToMinutes(endTime)
+  const gridOrigin = hours.is24_7 ? 0 : timeToMinutes(hours.openingTime)
+  const slotDuration = settings.booking_slot_duration
+
+  if ((startMinutes - gridOrigin) % slotDuration !== 0 || (endMinutes - gridOrigin) % slotDuration !== 0) {
+    errors.push(`Start and end times must fall on ${slotDuration}-minute intervals`)
+  }
+
+  if (!hours.is24_7) {
+    const openMinutes = timeToMinutes(hours.openingTime)
+    const closeMinutes = timeToMinutes(hours.closingTime)
+
+    if (startMinutes < openMinutes || endMinutes > closeMinutes) {
+      errors.push(`Bookings must be between ${hours.openingTime.slice(0, 5)} and ${hours.closingTime.slice(0, 5)}`)
+    }
+  }
+
+  const duration = calculateDuration(startTime, endTime, hours.is24_7)
+
+  if (duration <= 0) {
+    errors.push('End time must be after start time')
+  } else if (duration < settings.min_booking_duration) {
+    errors.push(`Minimum booking duration is ${settings.min_booking_duration} hour${settings.min_booking_duration !== 1 ? 's' : ''}`)
+  } else if (duration > settings.max_booking_duration) {
+    errors.push(`Maximum booking duration is ${settings.max_booking_duration} hour${settings.max_booking_duration !== 1 ? 's' : ''}`)
+  }
+
+  return errors
+}
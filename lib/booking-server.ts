@@ -0,0 +1,266 @@
+import { supabaseAdmin } from './supabase-server'
+import { DEFAULT_SETTINGS, SystemSettings } from './settings-service'
+import { getBookingRange } from './booking-rules'
+import type { GameSchedule } from './booking-rules'
+import type { PricingRule } from './pricing-rules'
+import { decideApproval } from './approval-rules'
+import type { ApprovalCandidate, ApprovalDecision, ApprovalRule, UserBookingRecord } from './approval-rules'
+import { checkPromoEligibility, normalizePromoCode } from './promo-rules'
+import type { PromoCode } from './promo-rules'
+import type { CancellationQuote } from './cancellation-rules'
+import { refundBookingPayment } from './payment-server'
+import type { BookingSlot } from './booking-service'
+import type { Database } from './supabase'
+
+type Game = Database['public']['Tables']['games']['Row']
+type GameCourt = Database['public']['Tables']['game_courts']['Row']
+type Booking = Database['public']['Tables']['bookings']['Row']
+
+// Postgres exclusion_violation, raised by the reservation functions when a slot is taken
+export const SLOT_CONFLICT_CODE = '23P01'
+
+// Custom SQLSTATE raised by reserve_booking when a promo code's usage limit is reached
+export const PROMO_LIMIT_CODE = 'PL001'
+
+// Custom SQLSTATE raised when inviting a player would exceed the game's max_players
+export const PARTICIPANT_LIMIT_CODE = 'GP001'
+
+// Current system settings, read with the service role (settings are admin-only under RLS)
+export async function getServerSettings(): Promise<SystemSettings> {
+  const { data, error } = await supabaseAdmin
+    .from('system_settings')
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw error
+  return { ...DEFAULT_SETTINGS, ...data }
+}
+
+// A game together with its schedule, or null if it doesn't exist
+export async function getServerGame(gameId: string): Promise<{ game: Game, schedule: GameSchedule } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('games')
+    .select(`
+      *,
+      weekday_hours:game_weekday_hours(*),
+      blackout_dates:game_blackout_dates(*)
+    `)
+    .eq('id', gameId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const { weekday_hours, blackout_dates, ...game } = data
+
+  return {
+    game: game as Game,
+    schedule: {
+      opening_time: game.opening_time,
+      closing_time: game.closing_time,
+      weekday_hours: weekday_hours || [],
+      blackout_dates: blackout_dates || []
+    }
+  }
+}
+
+// An active court of the game, or null if there is no such court
+export async function getServerCourt(gameId: string, courtId: string): Promise<GameCourt | null> {
+  const { data, error } = await supabaseAdmin
+    .from('game_courts')
+    .select('*')
+    .eq('id', courtId)
+    .eq('game_id', gameId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Active pricing rules for a game, including global rules
+export async function getServerPricingRules(gameId: string): Promise<PricingRule[]> {
+  const { data, error } = await supabaseAdmin
+    .from('pricing_rules')
+    .select('*')
+    .eq('is_active', true)
+    .or(`game_id.is.null,game_id.eq.${gameId}`)
+
+  if (error) throw error
+  return (data || []) as PricingRule[]
+}
+
+// Returns a function deciding whether each of a user's new or moved bookings
+// is confirmed straight away. The approval rules and the user's attendance
+// record are loaded once, and only when approval is required.
+export async function getApprovalDecider(
+  settings: SystemSettings,
+  userId: string
+): Promise<(candidate: ApprovalCandidate) => ApprovalDecision> {
+  let rules: ApprovalRule[] = []
+  const record: UserBookingRecord = { completedBookings: 0, noShows: 0 }
+
+  if (settings.require_admin_approval) {
+    const { data, error } = await supabaseAdmin
+      .from('approval_rules')
+      .select('*')
+      .eq('is_active', true)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    rules = (data || []) as ApprovalRule[]
+  }
+
+  if (rules.some(rule => rule.rule_type === 'trusted_user')) {
+    const { data: history, error } = await supabaseAdmin
+      .from('bookings')
+      .select('status')
+      .eq('user_id', userId)
+      .in('status', ['completed', 'no_show'])
+
+    if (error) throw error
+    for (const booking of history || []) {
+      if (booking.status === 'completed') record.completedBookings++
+      else record.noShows++
+    }
+  }
+
+  return (candidate) => decideApproval(settings.require_admin_approval, rules, candidate, record)
+}
+
+// Record how a booking's status was decided, returning the updated booking
+export async function recordApprovalDecision(bookingId: string, decision: ApprovalDecision): Promise<Booking> {
+  const { data, error } = await supabaseAdmin
+    .from('bookings')
+    .update({
+      approval_decision: decision.decision,
+      approval_rule_id: decision.rule?.id ?? null,
+      approval_rule_name: decision.rule?.name ?? null
+    })
+    .eq('id', bookingId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Look up a promo code and check it can be used by this user for this game.
+// Usage limits are checked again atomically when the booking is reserved.
+export async function resolvePromoCode(
+  code: string,
+  userId: string,
+  gameId: string
+): Promise<{ promo: PromoCode, error: null } | { promo: null, error: string }> {
+  const { data: promo, error } = await supabaseAdmin
+    .from('promo_codes')
+    .select('*')
+    .eq('code', normalizePromoCode(code))
+    .maybeSingle()
+
+  if (error) throw error
+  if (!promo) {
+    return { promo: null, error: 'Invalid promo code' }
+  }
+
+  const [{ data: totalRedemptions, error: totalError }, { data: userRedemptions, error: userError }] = await Promise.all([
+    supabaseAdmin.rpc('count_promo_redemptions', { p_promo_code_id: promo.id }),
+    supabaseAdmin.rpc('count_promo_redemptions', { p_promo_code_id: promo.id, p_user_id: userId })
+  ])
+
+  if (totalError) throw totalError
+  if (userError) throw userError
+
+  const eligibilityError = checkPromoEligibility(promo, gameId, new Date(), {
+    totalRedemptions: totalRedemptions || 0,
+    userRedemptions: userRedemptions || 0
+  })
+
+  return eligibilityError
+    ? { promo: null, error: eligibilityError }
+    : { promo: promo as PromoCode, error: null }
+}
+
+// Active bookings for a game (or one of its courts) that overlap the window the
+// given date and times describe, including overnight bookings on either side
+export async function findConflictingSlots(
+  gameId: string,
+  bookingDate: string,
+  startTime: string,
+  endTime: string,
+  excludeBookingIds: string[] = [],
+  courtId?: string | null
+): Promise<BookingSlot[]> {
+  const { startsAt, endsAt } = getBookingRange(bookingDate, startTime, endTime)
+  const { data, error } = await supabaseAdmin
+    .from('bookings')
+    .select('id, court_id, booking_date, start_time, end_time, status')
+    .eq('game_id', gameId)
+    .lt('starts_at', endsAt)
+    .gt('ends_at', startsAt)
+    .is('session_id', null)
+    .in('status', ['pending', 'confirmed'])
+    .order('starts_at', { ascending: true })
+
+  if (error) throw error
+
+  return ((data || []) as BookingSlot[])
+    .filter(slot => !excludeBookingIds.includes(slot.id))
+    .filter(slot => !courtId || slot.court_id === courtId)
+}
+
+// Cancel a booking on the user's behalf, recording the quoted refund and paying
+// it back. Returns null if the booking was no longer active.
+export async function cancelBookingWithRefund(
+  booking: Booking,
+  quote: CancellationQuote,
+  reason: string,
+  cancelledBy: string
+): Promise<Booking | null> {
+  const { data: canceled, error } = await supabaseAdmin
+    .from('bookings')
+    .update({
+      status: 'canceled',
+      notes: reason,
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: cancelledBy,
+      refund_percent: quote.refundPercent,
+      refund_amount: quote.refundAmount,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', booking.id)
+    .in('status', ['pending', 'confirmed'])
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!canceled) return null
+
+  if (quote.refundAmount > 0) {
+    try {
+      await refundBookingPayment(booking.id, quote.refundAmount, reason)
+    } catch (refundError) {
+      // The cancellation stands; the recorded refund_amount shows what is still owed
+      console.error('Error refunding cancelled booking:', refundError)
+    }
+  }
+
+  const { error: offerError } = await supabaseAdmin.rpc('offer_waitlist_slot', { p_booking_id: booking.id })
+  if (offerError) {
+    console.error('Error offering freed slot to waitlist:', offerError)
+  }
+
+  return canceled
+}
+
+// Pay back what a rescheduled booking no longer costs. The move stands if the
+// refund fails; it is logged for staff to settle.
+export async function refundRescheduleDifference(bookingId: string, refundAmount: number) {
+  if (refundAmount <= 0) return
+
+  try {
+    await refundBookingPayment(bookingId, refundAmount, 'Rescheduled to a cheaper time')
+  } catch (refundError) {
+    console.error('Error refunding rescheduled booking:', refundError)
+  }
+}
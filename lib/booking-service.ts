@@ -1,9 +1,29 @@
 import { supabase } from './supabase'
 import type { Database } from './supabase'
+import { addDays, addMonths, generateSeriesDates } from './booking-rules'
+import { waitlistService } from './waitlist-service'
+import { pricingService } from './pricing-service'
+import { settingsService } from './settings-service'
+import { notificationService } from './notification-service'
+import { calculateBookingPrice } from './pricing-rules'
+import { getVenueToday } from './venue-time'
+import { BOOKING_STATUS_CODE, BookingStatusError, checkStatusTransition } from './booking-status-rules'
+import type { BookingStatus } from './booking-status-rules'
+import type { PriceBreakdown } from './pricing-rules'
+import type { CancellationQuote } from './cancellation-rules'
+import type { BookingNotificationEvent } from './notification-templates'
+import type { RecurrenceRule } from './booking-rules'
+import type { CostSplit, SplitMode } from './cost-split-rules'
 
 type Booking = Database['public']['Tables']['bookings']['Row']
-type BookingInsert = Database['public']['Tables']['bookings']['Insert']
 type BookingUpdate = Database['public']['Tables']['bookings']['Update']
+type BookingParticipant = Database['public']['Tables']['booking_participants']['Row']
+
+// The notification an admin's status change sends to the booking's owner
+const STATUS_NOTIFICATIONS: Partial<Record<Booking['status'], BookingNotificationEvent>> = {
+  confirmed: 'booking_approved',
+  canceled: 'booking_cancelled'
+}
 
 export interface BookingWithDetails extends Booking {
   game: {
@@ -20,34 +40,273 @@ export interface BookingWithDetails extends Booking {
   }
 }
 
+export interface BookingRequest {
+  gameId: string
+  bookingDate: string
+  startTime: string
+  endTime: string
+  notes?: string | null
+  recurrence?: RecurrenceRule
+  promoCode?: string
+  // Without a court the booking gets any free court of the game
+  courtId?: string | null
+}
+
+export interface BookingSlot {
+  id: string
+  court_id: string | null
+  booking_date: string
+  start_time: string
+  end_time: string
+  status: Booking['status']
+}
+
+// Result returned by POST /api/bookings
+export type CreateBookingResult =
+  | { status: 'created'; booking: Booking }
+  | { status: 'series_created'; seriesId: string; bookings: Booking[]; skippedDates: string[] }
+  | { status: 'conflict'; message: string; conflicts: BookingSlot[] }
+  | { status: 'invalid'; message: string; errors: string[] }
+
+// Result returned by PATCH /api/bookings/series/[seriesId]
+export type UpdateSeriesResult =
+  | {
+      status: 'updated'
+      bookings: Booking[]
+      refundAmount: number
+      // Occurrences inside the cancellation deadline, which keep their time
+      skippedDates: string[]
+    }
+  | { status: 'conflict'; message: string; conflictDates: string[] }
+  | { status: 'invalid'; message: string; errors: string[] }
+
+export interface RescheduleRequest {
+  bookingDate: string
+  startTime: string
+  endTime: string
+}
+
+// Result returned by PATCH /api/bookings/[bookingId]
+export type RescheduleBookingResult =
+  | { status: 'rescheduled'; booking: Booking; refundAmount: number }
+  | { status: 'conflict'; message: string; conflicts: BookingSlot[] }
+  | { status: 'invalid'; message: string; errors: string[] }
+
+// Result returned by POST /api/bookings/[bookingId]/cancel
+export type CancelBookingResult =
+  | { status: 'canceled'; booking: Booking; refundAmount: number }
+  | { status: 'invalid'; message: string; errors: string[] }
+
+// Result returned by DELETE /api/bookings/series/[seriesId]
+export interface CancelSeriesResult {
+  status: 'canceled'
+  bookings: Booking[]
+  refundAmount: number
+  // Occurrences inside the cancellation deadline, which are kept
+  skippedDates: string[]
+}
+
+// Result returned by GET /api/bookings/[bookingId]/check-in
+export type CheckInCodeResult =
+  | { status: 'issued'; token: string }
+  | { status: 'invalid'; message: string }
+
+export interface CheckedInBooking extends Booking {
+  game: { name: string } | null
+  profile: { name: string; email: string } | null
+}
+
+// Result returned by POST /api/check-in
+export type CheckInResult =
+  | { status: 'checked_in'; booking: CheckedInBooking; alreadyCheckedIn: boolean }
+  | { status: 'invalid'; message: string }
+
+export interface BookingParticipantWithProfile extends BookingParticipant {
+  profile: { name: string; phone: string } | null
+}
+
+// Result returned by GET /api/bookings/[bookingId]/participants
+export interface BookingRoster {
+  organiser: { id: string; name: string }
+  totalCost: number
+  maxPlayers: number
+  splitMode: SplitMode
+  participants: BookingParticipantWithProfile[]
+  split: CostSplit
+}
+
+// Result returned by POST /api/bookings/[bookingId]/participants
+export type InviteParticipantResult =
+  | { status: 'invited'; participant: BookingParticipant }
+  | { status: 'invalid'; message: string; errors: string[] }
+
+// Result returned by PUT /api/bookings/[bookingId]/participants
+export type UpdateCostSplitResult =
+  | { status: 'updated'; split: CostSplit }
+  | { status: 'invalid'; message: string; errors: string[] }
+
+// Result returned by PATCH /api/bookings/[bookingId]/participants/[participantId]
+export type RespondToInvitationResult =
+  | { status: 'responded'; participant: BookingParticipant }
+  | { status: 'invalid'; message: string; errors: string[] }
+
+// A booking the user plays in without having made it
+export interface ParticipatingBooking extends BookingParticipant {
+  booking: Booking & {
+    game: { id: string; name: string; description: string; price_per_hour: number; max_players: number } | null
+  }
+}
+
+export interface SeriesOccurrencePreview {
+  date: string
+  hasConflict: boolean
+}
+
 export class BookingService {
-  // Create a new booking
-  async createBooking(bookingData: BookingInsert) {
+  // Create a new booking through the server-side booking API, which validates
+  // the request and reserves the slot atomically
+  async createBooking(request: BookingRequest): Promise<{ data: CreateBookingResult | null; error: any }> {
+    return this.callBookingApi<CreateBookingResult>('/api/bookings', 'POST', request)
+  }
+
+  // Check every occurrence of a proposed series for conflicts before it is submitted
+  async previewSeries(
+    gameId: string,
+    bookingDate: string,
+    startTime: string,
+    endTime: string,
+    recurrence: RecurrenceRule,
+    courtId?: string
+  ): Promise<{ data: SeriesOccurrencePreview[] | null; error: any }> {
     try {
-      // First check for conflicts
-      const hasConflict = await this.checkBookingConflict(
-        bookingData.game_id,
-        bookingData.booking_date,
-        bookingData.start_time,
-        bookingData.end_time
+      const dates = generateSeriesDates(bookingDate, recurrence)
+      const data = await Promise.all(
+        dates.map(async (date) => ({
+          date,
+          hasConflict: Boolean(await this.checkBookingConflict(gameId, date, startTime, endTime, undefined, courtId))
+        }))
       )
 
-      if (hasConflict) {
-        throw new Error('Time slot is already booked')
-      }
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Move the remaining occurrences of a series to a new time
+  async updateSeries(seriesId: string, startTime: string, endTime: string): Promise<{ data: UpdateSeriesResult | null; error: any }> {
+    return this.callBookingApi<UpdateSeriesResult>(`/api/bookings/series/${seriesId}`, 'PATCH', { startTime, endTime })
+  }
+
+  // Cancel every upcoming occurrence of a series that is still outside the cancellation deadline
+  async cancelSeries(seriesId: string, reason?: string): Promise<{ data: CancelSeriesResult | null; error: any }> {
+    return this.callBookingApi<CancelSeriesResult>(`/api/bookings/series/${seriesId}`, 'DELETE', { reason })
+  }
+
+  // Move a booking to a new date and time; it is re-priced and may need approval again
+  async rescheduleBooking(bookingId: string, request: RescheduleRequest): Promise<{ data: RescheduleBookingResult | null; error: any }> {
+    return this.callBookingApi<RescheduleBookingResult>(`/api/bookings/${bookingId}`, 'PATCH', request)
+  }
+
+  // The refund a user would get for cancelling a booking now
+  async getCancellationQuote(bookingId: string): Promise<{ data: CancellationQuote | null; error: any }> {
+    return this.callBookingApi<CancellationQuote>(`/api/bookings/${bookingId}/cancel`, 'GET')
+  }
 
+  // Cancel a booking under the cancellation policy, refunding any payment
+  async cancelBooking(bookingId: string, reason?: string): Promise<{ data: CancelBookingResult | null; error: any }> {
+    return this.callBookingApi<CancelBookingResult>(`/api/bookings/${bookingId}/cancel`, 'POST', { reason })
+  }
+
+  // The signed check-in code for a confirmed booking, shown to the user as a QR code
+  async getCheckInCode(bookingId: string): Promise<{ data: CheckInCodeResult | null; error: any }> {
+    return this.callBookingApi<CheckInCodeResult>(`/api/bookings/${bookingId}/check-in`, 'GET')
+  }
+
+  // Check a booking in at the venue from its scanned code (staff only)
+  async checkIn(token: string): Promise<{ data: CheckInResult | null; error: any }> {
+    return this.callBookingApi<CheckInResult>('/api/check-in', 'POST', { token })
+  }
+
+  // The organiser and players of a booking with everyone's share of the cost
+  async getBookingRoster(bookingId: string): Promise<{ data: BookingRoster | null; error: any }> {
+    return this.callBookingApi<BookingRoster>(`/api/bookings/${bookingId}/participants`, 'GET')
+  }
+
+  // Invite another registered user to a booking by phone number (organiser only)
+  async inviteParticipant(bookingId: string, phone: string): Promise<{ data: InviteParticipantResult | null; error: any }> {
+    return this.callBookingApi<InviteParticipantResult>(`/api/bookings/${bookingId}/participants`, 'POST', { phone })
+  }
+
+  // Split a booking's cost equally or by custom shares, keyed by participant id (organiser only)
+  async updateCostSplit(
+    bookingId: string,
+    splitMode: SplitMode,
+    shares: Record<string, number> = {}
+  ): Promise<{ data: UpdateCostSplitResult | null; error: any }> {
+    return this.callBookingApi<UpdateCostSplitResult>(`/api/bookings/${bookingId}/participants`, 'PUT', { splitMode, shares })
+  }
+
+  // Accept or decline an invitation; declining after accepting leaves the booking
+  async respondToInvitation(
+    bookingId: string,
+    participantId: string,
+    response: 'accept' | 'decline'
+  ): Promise<{ data: RespondToInvitationResult | null; error: any }> {
+    return this.callBookingApi<RespondToInvitationResult>(
+      `/api/bookings/${bookingId}/participants/${participantId}`,
+      'PATCH',
+      { response }
+    )
+  }
+
+  // Bookings the user has been invited to or plays in as a participant
+  async getParticipatingBookings(userId: string): Promise<{ data: ParticipatingBooking[] | null; error: any }> {
+    try {
       const { data, error } = await supabase
-        .from('bookings')
-        .insert([bookingData])
+        .from('booking_participants')
         .select(`
           *,
-          game:games(*),
-          profile:profiles(*)
+          booking:bookings(
+            *,
+            game:games(id, name, description, price_per_hour, max_players)
+          )
         `)
-        .single()
+        .eq('user_id', userId)
+        .in('status', ['invited', 'accepted'])
 
       if (error) throw error
-      return { data, error: null }
+      return { data: (data || []) as unknown as ParticipatingBooking[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Call one of the server-side booking routes as the signed-in user.
+  // Conflicts (409) and validation failures (422) are typed results, not errors.
+  private async callBookingApi<T>(path: string, method: string, body?: unknown): Promise<{ data: T | null; error: any }> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('You must be logged in to manage bookings')
+      }
+
+      const response = await fetch(path, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      })
+
+      const result = await response.json()
+
+      if (response.ok || response.status === 409 || response.status === 422) {
+        return { data: result as T, error: null }
+      }
+
+      throw new Error(result.error || 'Booking request failed')
     } catch (error) {
       return { data: null, error }
     }
@@ -88,6 +347,7 @@ export class BookingService {
         .select(`
           *,
           game:games(*),
+          court:game_courts(name),
           user:profiles(*)
         `)
         .order('created_at', { ascending: false })
@@ -105,42 +365,84 @@ export class BookingService {
     }
   }
 
-  // Update booking status
-  async updateBookingStatus(bookingId: string, status: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed', notes?: string) {
+  // Update booking status (admin) and notify the booking's owner. Changes that
+  // break the transition rules fail with a BookingStatusError.
+  async updateBookingStatus(
+    bookingId: string,
+    status: BookingStatus,
+    notes?: string,
+    notification: BookingNotificationEvent | undefined = STATUS_NOTIFICATIONS[status]
+  ) {
     try {
+      const { data: current, error: fetchError } = await supabase
+        .from('bookings')
+        .select('status, booking_date, start_time, end_time')
+        .eq('id', bookingId)
+        .single()
+
+      if (fetchError) throw fetchError
+
+      const timeZone = await settingsService.getVenueTimeZone()
+      const transitionError = checkStatusTransition(current, status, new Date(), timeZone)
+      if (transitionError) throw transitionError
+
       const updateData: BookingUpdate = { status }
       if (notes !== undefined) {
         updateData.notes = notes
       }
 
+      // Guarded on the status we checked, in case someone else changed it meanwhile
       const { data, error } = await supabase
         .from('bookings')
         .update(updateData)
         .eq('id', bookingId)
+        .eq('status', current.status)
         .select(`
           *,
           game:games(*),
           user:profiles(*)
         `)
-        .single()
+        .maybeSingle()
 
+      if (error?.code === BOOKING_STATUS_CODE) {
+        throw new BookingStatusError('invalid_transition', error.message)
+      }
       if (error) throw error
+      if (!data) {
+        throw new BookingStatusError('invalid_transition', 'This booking was changed by someone else. Refresh and try again.')
+      }
+
+      // A freed slot goes to the first user waiting for it
+      if (status === 'canceled' || status === 'no_show') {
+        const { error: offerError } = await waitlistService.offerFreedSlot(bookingId)
+        if (offerError) {
+          console.error('Error offering freed slot to waitlist:', offerError)
+        }
+      }
+
+      if (notification) {
+        const { error: notifyError } = await notificationService.notifyBookingEvent(bookingId, notification, notes)
+        if (notifyError) {
+          console.error('Error sending booking notification:', notifyError)
+        }
+      }
+
       return { data, error: null }
     } catch (error) {
       return { data: null, error }
     }
   }
 
-  // Cancel a booking
-  async cancelBooking(bookingId: string, reason?: string) {
-    return this.updateBookingStatus(bookingId, 'canceled', reason)
-  }
-
   // Confirm a booking
   async confirmBooking(bookingId: string) {
     return this.updateBookingStatus(bookingId, 'confirmed')
   }
 
+  // Reject a pending booking (frees up the slot and refunds any payment)
+  async rejectBooking(bookingId: string, reason?: string) {
+    return this.callAdminCancelApi(bookingId, reason, true)
+  }
+
   // Mark booking as no-show
   async markNoShow(bookingId: string, notes?: string) {
     return this.updateBookingStatus(bookingId, 'no_show', notes || 'Customer did not show up')
@@ -151,18 +453,33 @@ export class BookingService {
     return this.updateBookingStatus(bookingId, 'completed', notes || 'Booking completed successfully')
   }
 
-  // Admin cancel booking (frees up the slot)
+  // Admin cancel booking (frees up the slot and refunds any payment)
   async adminCancelBooking(bookingId: string, reason?: string) {
-    return this.updateBookingStatus(bookingId, 'canceled', reason || 'Cancelled by admin')
+    return this.callAdminCancelApi(bookingId, reason, false)
+  }
+
+  // Cancellations the rules refuse come back as BookingStatusErrors, like other status changes
+  private async callAdminCancelApi(bookingId: string, reason: string | undefined, reject: boolean) {
+    const { data, error } = await this.callBookingApi<CancelBookingResult>(
+      `/api/bookings/${bookingId}/admin-cancel`,
+      'POST',
+      { reason, reject }
+    )
+
+    if (data?.status === 'invalid') {
+      return { data: null, error: new BookingStatusError('invalid_transition', data.message) }
+    }
+    return { data, error }
   }
 
-  // Check for booking conflicts
+  // Check for booking conflicts: on the given court, or on every court of the game
   async checkBookingConflict(
     gameId: string,
     bookingDate: string,
     startTime: string,
     endTime: string,
-    excludeBookingId?: string
+    excludeBookingId?: string,
+    courtId?: string
   ) {
     try {
       const { data, error } = await supabase.rpc('check_booking_conflict', {
@@ -170,7 +487,8 @@ export class BookingService {
         p_booking_date: bookingDate,
         p_start_time: startTime,
         p_end_time: endTime,
-        p_exclude_booking_id: excludeBookingId || null
+        p_exclude_booking_id: excludeBookingId || null,
+        p_court_id: courtId || null
       })
 
       if (error) throw error
@@ -181,16 +499,38 @@ export class BookingService {
     }
   }
 
-  // Calculate booking cost
-  async calculateBookingCost(gameId: string, startTime: string, endTime: string) {
+  // Calculate booking cost with the game's pricing rules applied
+  async calculateBookingCost(
+    gameId: string,
+    bookingDate: string,
+    startTime: string,
+    endTime: string
+  ): Promise<{ data: PriceBreakdown | null; error: any }> {
     try {
-      const { data, error } = await supabase.rpc('calculate_booking_cost', {
-        p_game_id: gameId,
-        p_start_time: startTime,
-        p_end_time: endTime
-      })
+      const { data: game, error: gameError } = await supabase
+        .from('games')
+        .select('price_per_hour')
+        .eq('id', gameId)
+        .single()
 
-      if (error) throw error
+      if (gameError) throw gameError
+
+      const [{ data: rules, error: rulesError }, { data: settings, error: settingsError }] = await Promise.all([
+        pricingService.getRulesForGame(gameId),
+        settingsService.getSettings()
+      ])
+
+      if (rulesError) throw rulesError
+      if (settingsError) throw settingsError
+
+      const data = calculateBookingPrice(
+        game.price_per_hour,
+        bookingDate,
+        startTime,
+        endTime,
+        rules || [],
+        settings?.is_24_7 ?? false
+      )
       return { data, error: null }
     } catch (error) {
       return { data: null, error }
@@ -242,7 +582,7 @@ export class BookingService {
   // Get upcoming bookings for a user
   async getUpcomingBookings(userId: string) {
     try {
-      const today = new Date().toISOString().split('T')[0]
+      const today = getVenueToday(await settingsService.getVenueTimeZone())
       
       const { data, error } = await supabase
         .from('bookings')
@@ -267,7 +607,7 @@ export class BookingService {
   // Get booking history for a user
   async getBookingHistory(userId: string) {
     try {
-      const today = new Date().toISOString().split('T')[0]
+      const today = getVenueToday(await settingsService.getVenueTimeZone())
       
       const { data, error } = await supabase
         .from('bookings')
@@ -294,6 +634,7 @@ export class BookingService {
         .select(`
           *,
           game:games(*),
+          court:game_courts(name),
           user:profiles(*)
         `)
         .eq('status', 'pending')
@@ -310,20 +651,18 @@ export class BookingService {
   async getRevenueAnalytics(timeFilter: string = 'all') {
     try {
       let dateFilter = ''
-      const now = new Date()
+      // Reporting periods follow the venue's calendar
+      const today = getVenueToday(await settingsService.getVenueTimeZone())
 
       switch (timeFilter) {
         case 'week':
-          const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-          dateFilter = weekAgo.toISOString().split('T')[0]
+          dateFilter = addDays(today, -7)
           break
         case 'month':
-          const monthAgo = new Date(now.getFullYear(), now.getMonth() - 1, now.getDate())
-          dateFilter = monthAgo.toISOString().split('T')[0]
+          dateFilter = addMonths(today, -1)
           break
         case 'year':
-          const yearAgo = new Date(now.getFullYear() - 1, now.getMonth(), now.getDate())
-          dateFilter = yearAgo.toISOString().split('T')[0]
+          dateFilter = addMonths(today, -12)
           break
       }
 
@@ -333,7 +672,8 @@ export class BookingService {
         .select(`
           *,
           game:games(*),
-          user:profiles(*)
+          user:profiles(*),
+          promo_code:promo_codes(code)
         `)
         .eq('status', 'confirmed')
 
@@ -345,12 +685,13 @@ export class BookingService {
 
       if (error) throw error
 
-      // Calculate analytics
+      // Calculate analytics; total_cost is what the customer paid, after any promo discount
       const totalRevenue = bookings?.reduce((sum, booking) => sum + booking.total_cost, 0) || 0
+      const totalDiscounts = bookings?.reduce((sum, booking) => sum + (booking.discount_amount || 0), 0) || 0
+      const grossRevenue = totalRevenue + totalDiscounts
 
-      const today = new Date().toISOString().split('T')[0]
-      const thisWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
-      const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0]
+      const thisWeek = addDays(today, -7)
+      const thisMonth = `${today.slice(0, 7)}-01`
 
       const dailyRevenue = bookings?.filter(b => b.booking_date === today).reduce((sum, b) => sum + b.total_cost, 0) || 0
       const weeklyRevenue = bookings?.filter(b => b.booking_date >= thisWeek).reduce((sum, b) => sum + b.total_cost, 0) || 0
@@ -378,7 +719,7 @@ export class BookingService {
 
       // Monthly breakdown
       const monthlyBreakdown = bookings?.reduce((acc, booking) => {
-        const month = new Date(booking.booking_date).toLocaleDateString('en-US', { year: 'numeric', month: 'short' })
+        const month = new Date(`${booking.booking_date}T00:00:00Z`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', timeZone: 'UTC' })
         if (!acc[month]) {
           acc[month] = { revenue: 0, bookings: 0 }
         }
@@ -395,6 +736,25 @@ export class BookingService {
         }))
         .sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime())
 
+      // Redemptions per promo code
+      const promoUsage = bookings?.filter(b => b.promo_code_id).reduce((acc, booking) => {
+        const code = booking.promo_code?.code || 'Deleted code'
+        if (!acc[code]) {
+          acc[code] = { redemptions: 0, discount: 0, revenue: 0 }
+        }
+        acc[code].redemptions += 1
+        acc[code].discount += booking.discount_amount
+        acc[code].revenue += booking.total_cost
+        return acc
+      }, {} as Record<string, { redemptions: number, discount: number, revenue: number }>) || {}
+
+      const promoRedemptions = Object.entries(promoUsage)
+        .map(([code, stats]) => ({
+          code,
+          ...(stats as { redemptions: number, discount: number, revenue: number })
+        }))
+        .sort((a, b) => b.redemptions - a.redemptions)
+
       // Recent transactions
       const recentTransactions = bookings?.slice(0, 10).map(booking => ({
         id: booking.id,
@@ -407,11 +767,14 @@ export class BookingService {
 
       const analyticsData = {
         totalRevenue,
+        grossRevenue,
+        totalDiscounts,
         monthlyRevenue,
         weeklyRevenue,
         dailyRevenue,
         topGames,
         monthlyBreakdown: monthlyBreakdownArray,
+        promoRedemptions,
         recentTransactions
       }
 
@@ -0,0 +1,117 @@
+import { getBookingRange } from './booking-rules'
+import { venueTimeToDate } from './venue-time'
+
+export type BookingStatus = 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
+
+export type StatusTransitionErrorCode =
+  | 'invalid_transition' // the status can't follow the current one
+  | 'not_started' // the booking hasn't started yet
+  | 'already_started' // the booking has already started
+  | 'already_ended' // the booking is already over
+
+// The statuses each status may move to. Canceled and completed are final; a
+// no-show can still be corrected to completed if the customer turned up late.
+// Confirmed -> pending happens when a rescheduled booking needs approval again.
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'canceled'],
+  confirmed: ['pending', 'completed', 'no_show', 'canceled'],
+  no_show: ['completed'],
+  completed: [],
+  canceled: []
+}
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'pending',
+  confirmed: 'confirmed',
+  canceled: 'canceled',
+  no_show: 'no-show',
+  completed: 'completed'
+}
+
+// SQLSTATE raised by the database when a status change breaks the transition rules
+export const BOOKING_STATUS_CODE = 'BS001'
+
+// Raised when a status change breaks the transition rules
+export class BookingStatusError extends Error {
+  constructor(public readonly code: StatusTransitionErrorCode, message: string) {
+    super(message)
+    this.name = 'BookingStatusError'
+  }
+}
+
+// Start and end of a booking at the venue; overnight bookings end the next day
+export function getBookingWindow(booking: { booking_date: string; start_time: string; end_time: string }, timeZone: string) {
+  const { startsAt, endsAt } = getBookingRange(booking.booking_date, booking.start_time, booking.end_time)
+  return {
+    start: venueTimeToDate(startsAt, timeZone),
+    end: venueTimeToDate(endsAt, timeZone)
+  }
+}
+
+// Why a booking can't move to the given status now, or null if it can.
+// Bookings are confirmed or sent back for approval before they start, marked
+// completed or no-show once they have started, and canceled until they end.
+// A request nobody reviewed can be canceled at any time, so it never gets stuck
+// pending once its slot has passed.
+export function checkStatusTransition(
+  booking: { status: BookingStatus; booking_date: string; start_time: string; end_time: string },
+  to: BookingStatus,
+  now: Date,
+  timeZone: string
+): BookingStatusError | null {
+  if (!BOOKING_STATUS_TRANSITIONS[booking.status].includes(to)) {
+    return new BookingStatusError(
+      'invalid_transition',
+      `A ${BOOKING_STATUS_LABELS[booking.status]} booking can't be marked ${BOOKING_STATUS_LABELS[to]}`
+    )
+  }
+
+  const { start, end } = getBookingWindow(booking, timeZone)
+
+  switch (to) {
+    case 'confirmed':
+    case 'pending':
+      if (now >= start) {
+        return new BookingStatusError('already_started', `This booking has already started, so it can't be marked ${BOOKING_STATUS_LABELS[to]}`)
+      }
+      break
+    case 'completed':
+    case 'no_show':
+      if (now < start) {
+        return new BookingStatusError('not_started', `This booking hasn't started yet, so it can't be marked ${BOOKING_STATUS_LABELS[to]}`)
+      }
+      break
+    case 'canceled':
+      if (booking.status !== 'pending' && now >= end) {
+        return new BookingStatusError('already_ended', 'This booking has already ended, so it can\'t be canceled')
+      }
+      break
+  }
+
+  return null
+}
+
+// The status a past confirmed booking should be closed with now, or null if
+// it isn't due yet. Checked-in bookings complete as soon as they end; the rest
+// wait out the grace period, so staff can still check in or close them by hand.
+// Without a check-in the user is only a no-show if staff were checking people
+// in that day; otherwise there is nothing to say they didn't turn up.
+export function getClosingStatus(
+  booking: { booking_date: string; start_time: string; end_time: string; checked_in_at: string | null },
+  checkInsRecorded: boolean,
+  graceMinutes: number,
+  now: Date,
+  timeZone: string
+): 'completed' | 'no_show' | null {
+  const { end } = getBookingWindow(booking, timeZone)
+
+  if (booking.checked_in_at) {
+    return now >= end ? 'completed' : null
+  }
+
+  if (now.getTime() < end.getTime() + graceMinutes * 60 * 1000) {
+    return null
+  }
+
+  return checkInsRecorded ? 'no_show' : 'completed'
+}
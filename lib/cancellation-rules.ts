@@ -0,0 +1,126 @@
+import { venueTimeToDate } from './venue-time'
+
+export interface RefundTier {
+  min_hours_before: number
+  refund_percent: number
+}
+
+export interface CancellationPolicy {
+  cancellation_deadline: number // hours before the booking starts
+  refund_tiers: RefundTier[]
+  venue_timezone: string // booking times are venue wall-clock times
+}
+
+export interface CancellationQuote {
+  allowed: boolean
+  reason?: string
+  hoursBefore: number
+  refundPercent: number
+  // Refund of what the user has paid and not yet had back; unpaid bookings have nothing to refund
+  refundAmount: number
+}
+
+export const DEFAULT_REFUND_TIERS: RefundTier[] = [
+  { min_hours_before: 24, refund_percent: 100 },
+  { min_hours_before: 2, refund_percent: 50 }
+]
+
+// Hours from now until the booking starts at the venue (negative once it has started)
+export function getHoursUntilBooking(bookingDate: string, startTime: string, now: Date, timeZone: string): number {
+  const start = venueTimeToDate(`${bookingDate}T${startTime.slice(0, 5)}:00`, timeZone)
+  return (start.getTime() - now.getTime()) / (1000 * 60 * 60)
+}
+
+// Refund percentage for cancelling this many hours ahead: the first tier whose
+// threshold is met, checked from the longest notice down; 0% if none are
+export function getRefundPercent(tiers: RefundTier[], hoursBefore: number): number {
+  const tier = [...tiers]
+    .sort((a, b) => b.min_hours_before - a.min_hours_before)
+    .find(t => hoursBefore >= t.min_hours_before)
+
+  return tier ? tier.refund_percent : 0
+}
+
+// Whether a booking can be cancelled now, and what the user would get back of
+// paidAmount (what they have paid for it, less earlier refunds)
+export function quoteCancellation(
+  booking: { booking_date: string; start_time: string },
+  policy: CancellationPolicy,
+  now: Date,
+  paidAmount: number
+): CancellationQuote {
+  const hoursBefore = getHoursUntilBooking(booking.booking_date, booking.start_time, now, policy.venue_timezone)
+
+  if (hoursBefore <= 0) {
+    return { allowed: false, reason: 'This booking has already started', hoursBefore, refundPercent: 0, refundAmount: 0 }
+  }
+
+  if (hoursBefore < policy.cancellation_deadline) {
+    return {
+      allowed: false,
+      reason: `Bookings can't be cancelled less than ${policy.cancellation_deadline} hour${policy.cancellation_deadline !== 1 ? 's' : ''} before they start`,
+      hoursBefore,
+      refundPercent: 0,
+      refundAmount: 0
+    }
+  }
+
+  const refundPercent = getRefundPercent(policy.refund_tiers, hoursBefore)
+
+  return {
+    allowed: true,
+    hoursBefore,
+    refundPercent,
+    refundAmount: Math.round(paidAmount * refundPercent / 100)
+  }
+}
+
+// Refund for a booking the venue cancels or rejects: whatever the user paid
+// comes back in full, whatever the notice
+export function quoteAdminCancellation(
+  booking: { booking_date: string; start_time: string },
+  timeZone: string,
+  now: Date,
+  paidAmount: number
+): CancellationQuote {
+  return {
+    allowed: true,
+    hoursBefore: getHoursUntilBooking(booking.booking_date, booking.start_time, now, timeZone),
+    refundPercent: 100,
+    refundAmount: paidAmount
+  }
+}
+
+// The refund for moving a booking the user has paidAmount towards to a time
+// costing newCost, or null if it can't move there. A paid booking can't move
+// somewhere dearer, since the difference can't be charged; a cheaper time
+// refunds the difference.
+export function getRescheduleRefund(paidAmount: number, newCost: number): number | null {
+  if (paidAmount <= 0) return 0
+  return newCost > paidAmount ? null : paidAmount - newCost
+}
+
+// Validate refund tiers before they are saved
+export function validateRefundTiers(tiers: RefundTier[]): string[] {
+  const errors: string[] = []
+
+  if (tiers.some(tier => isNaN(tier.min_hours_before) || tier.min_hours_before < 0 || tier.min_hours_before > 720)) {
+    errors.push('Refund tier hours must be between 0 and 720')
+  }
+
+  if (tiers.some(tier => isNaN(tier.refund_percent) || tier.refund_percent < 0 || tier.refund_percent > 100)) {
+    errors.push('Refund percentages must be between 0 and 100')
+  }
+
+  const hours = tiers.map(tier => tier.min_hours_before)
+  if (new Set(hours).size !== hours.length) {
+    errors.push('Each refund tier needs a different number of hours')
+  }
+
+  const sorted = [...tiers].sort((a, b) => b.min_hours_before - a.min_hours_before)
+  if (sorted.some((tier, index) => index > 0 && tier.refund_percent > sorted[index - 1].refund_percent)) {
+    errors.push('Refunds must not increase as the booking gets closer')
+  }
+
+  return errors
+}
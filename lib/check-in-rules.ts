@@ -0,0 +1,25 @@
+import { getBookingWindow } from './booking-status-rules'
+
+// How early before the start time a booking can be checked in
+export const CHECK_IN_OPENS_MINUTES_BEFORE = 30
+
+// Why a booking can't be checked in now, or null if it can. Check-in opens
+// shortly before the booking starts and stays open until it ends.
+export function checkCheckInWindow(
+  booking: { booking_date: string; start_time: string; end_time: string },
+  now: Date,
+  timeZone: string
+): string | null {
+  const { start, end } = getBookingWindow(booking, timeZone)
+  const opens = new Date(start.getTime() - CHECK_IN_OPENS_MINUTES_BEFORE * 60 * 1000)
+
+  if (now < opens) {
+    return `Check-in opens ${CHECK_IN_OPENS_MINUTES_BEFORE} minutes before the booking starts (${booking.start_time.slice(0, 5)} on ${booking.booking_date})`
+  }
+
+  if (now >= end) {
+    return 'This booking has already ended'
+  }
+
+  return null
+}
@@ -0,0 +1,43 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { Database } from './supabase'
+
+type Booking = Database['public']['Tables']['bookings']['Row']
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function getSecret(): string {
+  const secret = process.env.CHECK_IN_TOKEN_SECRET
+  if (!secret) {
+    throw new Error('Missing CHECK_IN_TOKEN_SECRET. Check-in codes cannot be signed without it.')
+  }
+  return secret
+}
+
+// The signature covers the booking's time as well as its id, so rescheduling
+// a booking invalidates any code issued for the old time
+function sign(booking: Pick<Booking, 'id' | 'booking_date' | 'start_time'>): string {
+  return createHmac('sha256', getSecret())
+    .update(`${booking.id}:${booking.booking_date}T${booking.start_time.slice(0, 5)}`)
+    .digest('base64url')
+}
+
+// The code shown as a QR code to the booking's owner: "<booking id>.<signature>"
+export function createCheckInToken(booking: Pick<Booking, 'id' | 'booking_date' | 'start_time'>): string {
+  return `${booking.id}.${sign(booking)}`
+}
+
+// The booking id a check-in code claims to be for, before it is verified.
+// Anything that isn't a booking id is rejected here, so scanning some other
+// QR code never reaches the database.
+export function getCheckInTokenBookingId(token: string): string | null {
+  const [bookingId, signature] = token.trim().split('.')
+  return bookingId && signature && UUID_PATTERN.test(bookingId) ? bookingId : null
+}
+
+// Whether a check-in code was issued by us for this booking at its current time
+export function verifyCheckInToken(token: string, booking: Pick<Booking, 'id' | 'booking_date' | 'start_time'>): boolean {
+  const expected = Buffer.from(createCheckInToken(booking))
+  const received = Buffer.from(token.trim())
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
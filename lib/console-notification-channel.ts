@@ -0,0 +1,21 @@
+import { appendFile } from 'fs/promises'
+import type { NotificationChannel, NotificationChannelName, NotificationMessage } from './notification-channel'
+
+// Local sink for development. Messages are printed, and appended to
+// NOTIFICATION_LOG_FILE when it is set, instead of being delivered.
+export class ConsoleNotificationChannel implements NotificationChannel {
+  constructor(
+    readonly name: NotificationChannelName,
+    private readonly logFile?: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const entry = `[${new Date().toISOString()}] ${this.name} to ${message.to}: ${message.subject}\n${message.body}\n`
+
+    console.log(entry)
+
+    if (this.logFile) {
+      await appendFile(this.logFile, `${entry}\n`)
+    }
+  }
+}
@@ -0,0 +1,57 @@
+export type SplitMode = 'equal' | 'custom'
+
+export type ParticipantStatus = 'invited' | 'accepted' | 'declined'
+
+export interface SplitParticipant {
+  id: string
+  status: ParticipantStatus
+  share_amount: number | null
+}
+
+export interface CostSplit {
+  organiserShare: number
+  // Keyed by participant id; only accepted players pay a share
+  shares: Record<string, number>
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// Invited and accepted players hold a place in the booking's roster
+export function holdsRosterPlace(status: ParticipantStatus): boolean {
+  return status === 'invited' || status === 'accepted'
+}
+
+// Each accepted player's share of a booking's cost. The organiser pays
+// whatever is left, which also absorbs rounding in an equal split.
+export function splitBookingCost(totalCost: number, splitMode: SplitMode, participants: SplitParticipant[]): CostSplit {
+  const accepted = participants.filter(p => p.status === 'accepted')
+  const shares: Record<string, number> = {}
+
+  if (splitMode === 'equal') {
+    const share = roundAmount(totalCost / (accepted.length + 1))
+    accepted.forEach(p => { shares[p.id] = share })
+  } else {
+    accepted.forEach(p => { shares[p.id] = roundAmount(p.share_amount || 0) })
+  }
+
+  const othersTotal = Object.values(shares).reduce((sum, share) => sum + share, 0)
+  return { organiserShare: roundAmount(totalCost - othersTotal), shares }
+}
+
+// Errors in a set of custom shares; they may not add up to more than the booking costs
+export function validateCustomShares(totalCost: number, shares: number[]): string[] {
+  const errors: string[] = []
+
+  if (shares.some(share => !Number.isFinite(share) || share < 0)) {
+    errors.push('Shares must be zero or more')
+  }
+
+  const sum = shares.reduce((total, share) => total + share, 0)
+  if (roundAmount(sum) > totalCost) {
+    errors.push(`Shares add up to ₹${roundAmount(sum)}, more than the booking's ₹${totalCost}`)
+  }
+
+  return errors
+}
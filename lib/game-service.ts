@@ -1,9 +1,23 @@
 import { supabase } from './supabase'
 import type { Database } from './supabase'
+import { settingsService } from './settings-service'
+import { getVenueToday } from './venue-time'
+import { addDays, findFreeCourtIds, getBookingRange, getOperatingHours, minutesToTime, timeToMinutes } from './booking-rules'
+import type { GameSchedule, WeekdayHours } from './booking-rules'
 
 type Game = Database['public']['Tables']['games']['Row']
 type GameInsert = Database['public']['Tables']['games']['Insert']
 type GameUpdate = Database['public']['Tables']['games']['Update']
+type GameCourt = Database['public']['Tables']['game_courts']['Row']
+type GameCourtUpdate = Database['public']['Tables']['game_courts']['Update']
+type Booking = Database['public']['Tables']['bookings']['Row']
+type OpenSession = Database['public']['Tables']['open_sessions']['Row']
+
+export interface CourtOccupancy {
+  court: GameCourt
+  bookings: (Pick<Booking, 'id' | 'booking_date' | 'start_time' | 'end_time' | 'status'> & { user: { name: string } | null })[]
+  sessions: Pick<OpenSession, 'id' | 'title' | 'session_date' | 'start_time' | 'end_time'>[]
+}
 
 export class GameService {
   // Get all games
@@ -139,77 +153,201 @@ export class GameService {
     }
   }
 
-  // Get available time slots for a game on a specific date
-  async getAvailableTimeSlots(gameId: string, date: string) {
+  // Get a game's operating hours, weekday overrides and blackout dates
+  async getGameSchedule(gameId: string): Promise<{ data: GameSchedule | null; error: any }> {
+    try {
+      const timeZone = await settingsService.getVenueTimeZone()
+      const [gameResult, weekdayResult, blackoutResult] = await Promise.all([
+        supabase
+          .from('games')
+          .select('opening_time, closing_time')
+          .eq('id', gameId)
+          .single(),
+        supabase
+          .from('game_weekday_hours')
+          .select('*')
+          .eq('game_id', gameId)
+          .order('weekday', { ascending: true }),
+        supabase
+          .from('game_blackout_dates')
+          .select('*')
+          .eq('game_id', gameId)
+          .gte('blackout_date', getVenueToday(timeZone))
+          .order('blackout_date', { ascending: true })
+      ])
+
+      if (gameResult.error) throw gameResult.error
+      if (weekdayResult.error) throw weekdayResult.error
+      if (blackoutResult.error) throw blackoutResult.error
+
+      return {
+        data: {
+          opening_time: gameResult.data.opening_time,
+          closing_time: gameResult.data.closing_time,
+          weekday_hours: weekdayResult.data || [],
+          blackout_dates: blackoutResult.data || []
+        },
+        error: null
+      }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Replace a game's weekday-specific hours (admin only)
+  async saveWeekdayHours(gameId: string, weekdayHours: WeekdayHours[]) {
+    try {
+      const weekdays = weekdayHours.map(h => h.weekday)
+
+      // Weekdays without an override fall back to the game's default hours
+      let deleteQuery = supabase
+        .from('game_weekday_hours')
+        .delete()
+        .eq('game_id', gameId)
+
+      if (weekdays.length > 0) {
+        deleteQuery = deleteQuery.not('weekday', 'in', `(${weekdays.join(',')})`)
+      }
+
+      const { error: deleteError } = await deleteQuery
+      if (deleteError) throw deleteError
+
+      if (weekdayHours.length === 0) {
+        return { data: [], error: null }
+      }
+
+      const { data, error } = await supabase
+        .from('game_weekday_hours')
+        .upsert(
+          weekdayHours.map(h => ({
+            game_id: gameId,
+            weekday: h.weekday,
+            is_closed: h.is_closed,
+            opening_time: h.is_closed ? null : h.opening_time,
+            closing_time: h.is_closed ? null : h.closing_time,
+            updated_at: new Date().toISOString()
+          })),
+          { onConflict: 'game_id,weekday' }
+        )
+        .select()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Add a blackout date for maintenance or tournaments (admin only)
+  async addBlackoutDate(gameId: string, blackoutDate: string, reason?: string) {
+    try {
+      const { data, error } = await supabase
+        .from('game_blackout_dates')
+        .insert([{ game_id: gameId, blackout_date: blackoutDate, reason: reason || null }])
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Remove a blackout date (admin only)
+  async removeBlackoutDate(blackoutId: string) {
     try {
-      // Get all bookings for this game on the specified date
+      const { error } = await supabase
+        .from('game_blackout_dates')
+        .delete()
+        .eq('id', blackoutId)
+
+      if (error) throw error
+      return { data: null, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Get available time slots for a game on a specific date. A slot is available
+  // while at least one active court (or the given court) is free for all of it.
+  // In 24/7 mode slots may run past midnight into the next day.
+  async getAvailableTimeSlots(gameId: string, date: string, courtId?: string) {
+    try {
+      const dayStart = `${date}T00:00:00`
+      const nextDayEnd = `${addDays(date, 2)}T00:00:00`
+
+      // Get all bookings overlapping the date or the night after it, including
+      // overnight bookings from the day before
       const { data: bookings, error } = await supabase
         .from('bookings')
-        .select('start_time, end_time')
+        .select('court_id, starts_at, ends_at')
         .eq('game_id', gameId)
-        .eq('booking_date', date)
+        .lt('starts_at', nextDayEnd)
+        .gt('ends_at', dayStart)
         .in('status', ['pending', 'confirmed'])
-        .order('start_time', { ascending: true })
+        .order('starts_at', { ascending: true })
 
       if (error) throw error
 
-      // Generate time slots with 30-minute intervals from 6:00 AM to 10:00 PM
-      const generateTimeSlots = () => {
-        const slots = []
-        const startHour = 6 // 6:00 AM
-        const endHour = 22 // 10:00 PM
-
-        for (let hour = startHour; hour < endHour; hour++) {
-          // Add slots for :00 and :30 minutes
-          for (let minute = 0; minute < 60; minute += 30) {
-            const startTime = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`
+      // Open sessions hold their court for the whole session
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('open_sessions')
+        .select('court_id, starts_at, ends_at')
+        .eq('game_id', gameId)
+        .lt('starts_at', nextDayEnd)
+        .gt('ends_at', dayStart)
+        .eq('status', 'scheduled')
 
-            // Generate possible end times (1 hour, 1.5 hours, 2 hours, etc.)
-            for (let duration = 1; duration <= 4; duration += 0.5) {
-              const endHour = hour + Math.floor(duration)
-              const endMinute = minute + ((duration % 1) * 60)
+      if (sessionsError) throw sessionsError
 
-              let finalEndHour = endHour
-              let finalEndMinute = endMinute
+      const { data: courts, error: courtsError } = await this.getCourts(gameId, { activeOnly: true })
+      if (courtsError || !courts) throw courtsError
 
-              if (finalEndMinute >= 60) {
-                finalEndHour += 1
-                finalEndMinute -= 60
-              }
+      const { data: settings, error: settingsError } = await settingsService.getSettings()
+      if (settingsError || !settings) throw settingsError
 
-              // Don't go beyond 10:00 PM
-              if (finalEndHour > 22) break
+      const { data: schedule, error: scheduleError } = await this.getGameSchedule(gameId)
+      if (scheduleError) throw scheduleError
 
-              const endTime = `${finalEndHour.toString().padStart(2, '0')}:${finalEndMinute.toString().padStart(2, '0')}`
+      const hours = getOperatingHours(settings, date, schedule)
+      if (!hours.isOpen) {
+        return { data: [], error: null }
+      }
 
-              slots.push({
-                start: startTime,
-                end: endTime,
-                duration: duration
-              })
-            }
+      // Generate slots on the configured interval within the game's hours for that day
+      const generateTimeSlots = () => {
+        const slots = []
+        const slotDuration = settings.booking_slot_duration
+        const openMinutes = hours.is24_7 ? 0 : timeToMinutes(hours.openingTime)
+        const closeMinutes = hours.is24_7 ? 24 * 60 : timeToMinutes(hours.closingTime)
+
+        for (let start = openMinutes; start < closeMinutes; start += slotDuration) {
+          for (let duration = settings.min_booking_duration; duration <= settings.max_booking_duration; duration += slotDuration / 60) {
+            const end = start + duration * 60
+
+            // Don't go beyond closing time; only 24/7 slots can end the next day
+            if (!hours.is24_7 && end > closeMinutes) break
+
+            slots.push({
+              start: minutesToTime(start),
+              end: minutesToTime(end),
+              duration: duration
+            })
           }
         }
 
         return slots
       }
 
-      const allPossibleSlots = generateTimeSlots()
+      const courtIds = courts
+        .map(court => court.id)
+        .filter(id => !courtId || id === courtId)
 
-      // Filter out slots that conflict with existing bookings
-      const availableSlots = allPossibleSlots.filter(slot => {
-        return !bookings.some(booking => {
-          const bookingStart = booking.start_time
-          const bookingEnd = booking.end_time
-
-          // Check if there's any overlap
-          return (
-            (slot.start >= bookingStart && slot.start < bookingEnd) ||
-            (slot.end > bookingStart && slot.end <= bookingEnd) ||
-            (slot.start <= bookingStart && slot.end >= bookingEnd)
-          )
-        })
-      })
+      // Keep slots with at least one free court, listing which ones
+      const availableSlots = generateTimeSlots()
+        .map(slot => ({ ...slot, freeCourtIds: findFreeCourtIds(courtIds, [...bookings, ...sessions], getBookingRange(date, slot.start, slot.end)) }))
+        .filter(slot => slot.freeCourtIds.length > 0)
 
       return { data: availableSlots, error: null }
     } catch (error) {
@@ -217,6 +355,129 @@ export class GameService {
     }
   }
 
+  // Get a game's courts in display order
+  async getCourts(gameId: string, options: { activeOnly?: boolean } = {}): Promise<{ data: GameCourt[] | null; error: any }> {
+    try {
+      let query = supabase
+        .from('game_courts')
+        .select('*')
+        .eq('game_id', gameId)
+
+      if (options.activeOnly) {
+        query = query.eq('is_active', true)
+      }
+
+      const { data, error } = await query
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Add a court to a game (admin only)
+  async addCourt(gameId: string, name: string, sortOrder: number) {
+    try {
+      const { data, error } = await supabase
+        .from('game_courts')
+        .insert([{ game_id: gameId, name, sort_order: sortOrder }])
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Rename or (de)activate a court (admin only). Inactive courts keep their
+  // bookings but take no new ones.
+  async updateCourt(courtId: string, courtData: GameCourtUpdate) {
+    try {
+      const { data, error } = await supabase
+        .from('game_courts')
+        .update({ ...courtData, updated_at: new Date().toISOString() })
+        .eq('id', courtId)
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Delete a court that has never been booked (admin only)
+  async deleteCourt(courtId: string) {
+    try {
+      const { error } = await supabase
+        .from('game_courts')
+        .delete()
+        .eq('id', courtId)
+
+      if (error) throw error
+      return { data: null, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Each court of a game with its active bookings and open sessions on a date,
+  // including overnight ones carried over from the day before (admin only)
+  async getCourtOccupancy(gameId: string, date: string): Promise<{ data: CourtOccupancy[] | null; error: any }> {
+    try {
+      const dayStart = `${date}T00:00:00`
+      const dayEnd = `${addDays(date, 1)}T00:00:00`
+
+      const [
+        { data: courts, error: courtsError },
+        { data: bookings, error: bookingsError },
+        { data: sessions, error: sessionsError }
+      ] = await Promise.all([
+        this.getCourts(gameId),
+        supabase
+          .from('bookings')
+          .select(`
+            id, court_id, booking_date, start_time, end_time, status,
+            user:profiles(name)
+          `)
+          .eq('game_id', gameId)
+          .lt('starts_at', dayEnd)
+          .gt('ends_at', dayStart)
+          .in('status', ['pending', 'confirmed'])
+          .order('starts_at', { ascending: true }),
+        supabase
+          .from('open_sessions')
+          .select('id, court_id, title, session_date, start_time, end_time')
+          .eq('game_id', gameId)
+          .lt('starts_at', dayEnd)
+          .gt('ends_at', dayStart)
+          .eq('status', 'scheduled')
+          .order('starts_at', { ascending: true })
+      ])
+
+      if (courtsError) throw courtsError
+      if (bookingsError) throw bookingsError
+      if (sessionsError) throw sessionsError
+
+      const rows = (bookings || []) as unknown as (CourtOccupancy['bookings'][number] & { court_id: string | null })[]
+      const data = (courts || []).map(court => ({
+        court,
+        bookings: rows.filter(booking => booking.court_id === court.id),
+        sessions: (sessions || []).filter(session => session.court_id === court.id)
+      }))
+
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
   // Search games by name or description
   async searchGames(searchTerm: string) {
     try {
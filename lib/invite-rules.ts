@@ -0,0 +1,39 @@
+import type { Database } from './supabase'
+
+type AdminInvite = Database['public']['Tables']['admin_invites']['Row']
+
+// How long an admin invite can be used for
+export const DEFAULT_INVITE_EXPIRY_DAYS = 7
+export const MAX_INVITE_EXPIRY_DAYS = 30
+
+export type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+// Where an invite stands; only pending invites can be accepted or revoked
+export function getInviteStatus(
+  invite: Pick<AdminInvite, 'accepted_at' | 'revoked_at' | 'expires_at'>,
+  now: Date
+): InviteStatus {
+  if (invite.accepted_at) return 'accepted'
+  if (invite.revoked_at) return 'revoked'
+  if (new Date(invite.expires_at) <= now) return 'expired'
+  return 'pending'
+}
+
+// Why an invite can't be used, or null if it can
+export function getInviteError(status: InviteStatus): string | null {
+  switch (status) {
+    case 'accepted':
+      return 'This invite has already been used'
+    case 'revoked':
+      return 'This invite has been withdrawn'
+    case 'expired':
+      return 'This invite has expired. Ask an admin for a new one.'
+    default:
+      return null
+  }
+}
+
+// The page an invited person opens to accept their invite
+export function getInvitePath(token: string): string {
+  return `/invite/${token}`
+}
@@ -0,0 +1,73 @@
+import { supabaseAdmin } from './supabase-server'
+
+export interface JobResult {
+  processed: number
+}
+
+// A scheduled job. Jobs must be safe to re-run at any time: anything they send
+// is claimed with claimJobDelivery first.
+export interface Job {
+  name: string
+  description: string
+  run(now: Date): Promise<JobResult>
+}
+
+export interface JobRunSummary {
+  job: string
+  status: 'succeeded' | 'failed'
+  processed: number
+  error?: string
+}
+
+// Claim a delivery before making it. Returns false if this job already made it.
+// Claiming first means a crash mid-send loses one message rather than repeating it.
+export async function claimJobDelivery(job: string, dedupeKey: string): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('job_deliveries')
+    .insert([{ job, dedupe_key: dedupeKey }])
+
+  if (error?.code === '23505') return false
+  if (error) throw error
+  return true
+}
+
+// Run a job and record the run in job_runs
+export async function runJob(job: Job, now: Date): Promise<JobRunSummary> {
+  const { data: run, error: runError } = await supabaseAdmin
+    .from('job_runs')
+    .insert([{ job: job.name, started_at: now.toISOString() }])
+    .select()
+    .single()
+
+  if (runError) throw runError
+
+  let summary: JobRunSummary
+  try {
+    const { processed } = await job.run(now)
+    summary = { job: job.name, status: 'succeeded', processed }
+  } catch (error) {
+    console.error(`Error running job ${job.name}:`, error)
+    summary = {
+      job: job.name,
+      status: 'failed',
+      processed: 0,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+
+  const { error: finishError } = await supabaseAdmin
+    .from('job_runs')
+    .update({
+      status: summary.status,
+      processed: summary.processed,
+      error: summary.error || null,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', run.id)
+
+  if (finishError) {
+    console.error('Error recording job run:', finishError)
+  }
+
+  return summary
+}
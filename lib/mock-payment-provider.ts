@@ -0,0 +1,64 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { WebhookSignatureError } from './payment-provider'
+import type {
+  CreatePaymentIntentParams,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentIntent,
+  PaymentProvider,
+  RefundResult
+} from './payment-provider'
+
+// Local provider for development and tests. No money moves: intents are
+// completed by /api/payments/mock/confirm, which sends a webhook signed with
+// the same HMAC scheme a real gateway would use.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock'
+  readonly signatureHeader = 'x-mock-signature'
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const id = `mock_pi_${randomUUID()}`
+
+    return {
+      id,
+      provider: this.name,
+      amount: params.amount,
+      currency: params.currency,
+      clientSecret: `${id}_secret`,
+      checkoutUrl: null
+    }
+  }
+
+  async refundPayment(intentId: string, amount: number): Promise<RefundResult> {
+    return { id: `mock_re_${randomUUID()}`, amount }
+  }
+
+  verifyWebhook(payload: string, signature: string | null): PaymentEvent {
+    if (!signature) {
+      throw new WebhookSignatureError('Missing webhook signature')
+    }
+
+    const expected = Buffer.from(this.sign(payload))
+    const received = Buffer.from(signature)
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new WebhookSignatureError()
+    }
+
+    return JSON.parse(payload) as PaymentEvent
+  }
+
+  // Build a signed webhook body, as the gateway would send it
+  createSignedEvent(type: PaymentEventType, intentId: string, amount: number): { payload: string; signature: string } {
+    const event: PaymentEvent = { id: `mock_evt_${randomUUID()}`, type, intentId, amount }
+    const payload = JSON.stringify(event)
+
+    return { payload, signature: this.sign(payload) }
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.webhookSecret).update(payload).digest('hex')
+  }
+}
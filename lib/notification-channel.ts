@@ -0,0 +1,14 @@
+export type NotificationChannelName = 'email' | 'sms' | 'whatsapp'
+
+export interface NotificationMessage {
+  to: string // email address or phone number, depending on the channel
+  subject: string
+  body: string
+}
+
+// A way of delivering messages to users. Implementations run on the server
+// only and are selected per channel with the NOTIFICATION_*_PROVIDER variables.
+export interface NotificationChannel {
+  readonly name: NotificationChannelName
+  send(message: NotificationMessage): Promise<void>
+}
@@ -0,0 +1,216 @@
+import { supabaseAdmin } from './supabase-server'
+import { getServerSettings } from './booking-server'
+import { ConsoleNotificationChannel } from './console-notification-channel'
+import { TwilioNotificationChannel } from './twilio-notification-channel'
+import { ResendEmailChannel } from './resend-email-channel'
+import { renderBookingNotification } from './notification-templates'
+import { isInternalEmail } from './phone-rules'
+import type { BookingNotificationData, BookingNotificationEvent, RenderedNotification } from './notification-templates'
+import type { NotificationChannel, NotificationChannelName } from './notification-channel'
+import type { Database } from './supabase'
+
+const channels = new Map<NotificationChannelName, NotificationChannel>()
+
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    throw new Error(`Missing ${name}. It is required by the configured notification provider.`)
+  }
+  return value
+}
+
+// The configured channel (NOTIFICATION_EMAIL_PROVIDER, NOTIFICATION_SMS_PROVIDER;
+// both default to the console sink)
+export function getNotificationChannel(name: NotificationChannelName): NotificationChannel {
+  const existing = channels.get(name)
+  if (existing) return existing
+
+  const envName = name === 'email' ? 'NOTIFICATION_EMAIL_PROVIDER' : 'NOTIFICATION_SMS_PROVIDER'
+  const provider = process.env[envName] || 'console'
+
+  let channel: NotificationChannel
+  switch (provider) {
+    case 'console':
+      channel = new ConsoleNotificationChannel(name, process.env.NOTIFICATION_LOG_FILE)
+      break
+    case 'resend':
+      if (name !== 'email') {
+        throw new Error('Resend can only send email')
+      }
+      channel = new ResendEmailChannel(requireEnv('RESEND_API_KEY'), requireEnv('NOTIFICATION_EMAIL_FROM'))
+      break
+    case 'twilio':
+      if (name === 'email') {
+        throw new Error('Twilio can only send SMS and WhatsApp messages')
+      }
+      channel = new TwilioNotificationChannel(name, {
+        accountSid: requireEnv('TWILIO_ACCOUNT_SID'),
+        authToken: requireEnv('TWILIO_AUTH_TOKEN'),
+        from: requireEnv('TWILIO_FROM_NUMBER')
+      })
+      break
+    default:
+      throw new Error(`Unknown notification provider: ${provider}`)
+  }
+
+  channels.set(name, channel)
+  return channel
+}
+
+// Accounts signed up by phone only have an internal auth email, which can't
+// receive mail. Their emails go by SMS instead once the number is verified.
+function getEmailRecipient(profile: { email: string | null; phone: string | null; phone_verified_at: string | null }) {
+  if (profile.email && !isInternalEmail(profile.email)) {
+    return { channel: 'email' as const, to: profile.email }
+  }
+  if (profile.phone && profile.phone_verified_at) {
+    return { channel: 'sms' as const, to: profile.phone }
+  }
+  return null
+}
+
+// Record a send attempt; logging problems are reported but never fail the send
+async function logNotification(entry: Database['public']['Tables']['notification_log']['Insert']) {
+  const { error } = await supabaseAdmin
+    .from('notification_log')
+    .insert([entry])
+
+  if (error) {
+    console.error('Error logging notification:', error)
+  }
+}
+
+// Send a booking notification on every channel the user has turned on; the
+// recipient is the booking's owner unless another player is named.
+// Failures are logged rather than thrown so they never undo the booking change
+// that triggered them. Returns the number of messages sent.
+export async function notifyBooking(
+  bookingId: string,
+  event: BookingNotificationEvent,
+  details: Pick<BookingNotificationData, 'reason' | 'refundAmount' | 'extraOccurrences' | 'organiserName'> = {},
+  recipientId?: string
+): Promise<number> {
+  try {
+    const { data: booking, error } = await supabaseAdmin
+      .from('bookings')
+      .select(`
+        *,
+        game:games(name),
+        profile:profiles(name, email, phone, phone_verified_at)
+      `)
+      .eq('id', bookingId)
+      .single()
+
+    if (error) throw error
+
+    const userId = recipientId || booking.user_id
+
+    const [{ data: preferences, error: preferencesError }, { data: recipientProfile, error: profileError }, settings] = await Promise.all([
+      supabaseAdmin
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      userId === booking.user_id
+        ? Promise.resolve({ data: booking.profile, error: null })
+        : supabaseAdmin
+            .from('profiles')
+            .select('name, email, phone, phone_verified_at')
+            .eq('id', userId)
+            .maybeSingle(),
+      getServerSettings()
+    ])
+
+    if (preferencesError) throw preferencesError
+    if (profileError) throw profileError
+
+    const profile = recipientProfile as { name: string; email: string; phone: string; phone_verified_at: string | null } | null
+
+    const recipients: { channel: NotificationChannelName; to: string }[] = []
+    if (settings.send_sms_notifications && profile?.phone) {
+      if (preferences?.sms_enabled) recipients.push({ channel: 'sms', to: profile.phone })
+      if (preferences?.whatsapp_enabled) recipients.push({ channel: 'whatsapp', to: profile.phone })
+    }
+    const emailRecipient = profile && (preferences?.email_enabled ?? true) ? getEmailRecipient(profile) : null
+    if (emailRecipient && !recipients.some(recipient => recipient.channel === emailRecipient.channel)) {
+      recipients.unshift(emailRecipient)
+    }
+
+    const message = renderBookingNotification(event, {
+      userName: profile?.name || 'there',
+      gameName: booking.game?.name || 'your game',
+      bookingDate: booking.booking_date,
+      startTime: booking.start_time,
+      endTime: booking.end_time,
+      totalCost: booking.total_cost,
+      status: booking.status,
+      refundAmount: booking.refund_amount,
+      ...details
+    })
+
+    let sent = 0
+    for (const recipient of recipients) {
+      let sendError: string | null = null
+
+      try {
+        await getNotificationChannel(recipient.channel).send({ to: recipient.to, ...message })
+        sent++
+      } catch (channelError) {
+        console.error(`Error sending ${recipient.channel} notification:`, channelError)
+        sendError = channelError instanceof Error ? channelError.message : 'Unknown error'
+      }
+
+      await logNotification({
+        user_id: userId,
+        booking_id: booking.id,
+        event,
+        channel: recipient.channel,
+        recipient: recipient.to,
+        status: sendError ? 'failed' : 'sent',
+        error: sendError
+      })
+    }
+
+    return sent
+  } catch (error) {
+    console.error(`Error sending ${event} notification:`, error)
+    return 0
+  }
+}
+
+// Email every admin, or text admins without a real email address. Returns the
+// number of messages sent.
+export async function notifyAdmins(event: string, message: RenderedNotification): Promise<number> {
+  const { data: admins, error } = await supabaseAdmin
+    .from('profiles')
+    .select('id, email, phone, phone_verified_at')
+    .eq('role', 'admin')
+
+  if (error) throw error
+
+  let sent = 0
+  for (const admin of admins || []) {
+    const recipient = getEmailRecipient(admin)
+    if (!recipient) continue
+
+    let sendError: string | null = null
+    try {
+      await getNotificationChannel(recipient.channel).send({ to: recipient.to, ...message })
+      sent++
+    } catch (channelError) {
+      console.error('Error sending admin notification:', channelError)
+      sendError = channelError instanceof Error ? channelError.message : 'Unknown error'
+    }
+
+    await logNotification({
+      user_id: admin.id,
+      event,
+      channel: recipient.channel,
+      recipient: recipient.to,
+      status: sendError ? 'failed' : 'sent',
+      error: sendError
+    })
+  }
+
+  return sent
+}
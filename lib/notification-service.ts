@@ -0,0 +1,83 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import type { BookingNotificationEvent } from './notification-templates'
+
+export type NotificationPreferences = Pick<
+  Database['public']['Tables']['notification_preferences']['Row'],
+  'email_enabled' | 'sms_enabled' | 'whatsapp_enabled'
+>
+
+// Used until a user saves their own preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email_enabled: true,
+  sms_enabled: false,
+  whatsapp_enabled: false
+}
+
+export class NotificationService {
+  // Get a user's notification channel preferences
+  async getPreferences(userId: string): Promise<{ data: NotificationPreferences | null; error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('email_enabled, sms_enabled, whatsapp_enabled')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) throw error
+      return { data: data || { ...DEFAULT_NOTIFICATION_PREFERENCES }, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Save a user's notification channel preferences
+  async updatePreferences(userId: string, preferences: NotificationPreferences) {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: userId,
+          ...preferences,
+          updated_at: new Date().toISOString()
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Ask the server to notify a booking's owner about an admin's status change
+  async notifyBookingEvent(bookingId: string, event: BookingNotificationEvent, reason?: string) {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('You must be logged in to send notifications')
+      }
+
+      const response = await fetch('/api/notifications/booking', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ bookingId, event, reason })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send notification')
+      }
+
+      return { data: result as { sent: number }, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+}
+
+export const notificationService = new NotificationService()
@@ -0,0 +1,116 @@
+import { formatTimeRange } from './booking-rules'
+
+export type BookingNotificationEvent =
+  | 'booking_created'
+  | 'booking_approved'
+  | 'booking_rejected'
+  | 'booking_reminder'
+  | 'booking_cancelled'
+  | 'booking_invitation'
+
+export const BOOKING_NOTIFICATION_LABELS: Record<BookingNotificationEvent, string> = {
+  booking_created: 'Booking created',
+  booking_approved: 'Booking approved',
+  booking_rejected: 'Booking rejected',
+  booking_reminder: 'Booking reminder',
+  booking_cancelled: 'Booking cancelled',
+  booking_invitation: 'Booking invitation'
+}
+
+export interface BookingNotificationData {
+  userName: string
+  gameName: string
+  bookingDate: string
+  startTime: string
+  endTime: string
+  totalCost: number
+  status: string
+  reason?: string | null
+  refundAmount?: number | null
+  extraOccurrences?: number // further dates booked in the same series
+  organiserName?: string // who sent a group booking invitation
+}
+
+export interface RenderedNotification {
+  subject: string
+  body: string
+}
+
+// Short enough to read as an SMS; email uses the same text
+export function renderBookingNotification(event: BookingNotificationEvent, data: BookingNotificationData): RenderedNotification {
+  const slot = `${data.gameName} on ${data.bookingDate}, ${formatTimeRange(data.startTime, data.endTime)}`
+  const greeting = `Hi ${data.userName},`
+
+  switch (event) {
+    case 'booking_created': {
+      const series = data.extraOccurrences
+        ? ` This is the first of ${data.extraOccurrences + 1} recurring bookings.`
+        : ''
+      return data.status === 'confirmed'
+        ? {
+            subject: `Booking confirmed: ${data.gameName}`,
+            body: `${greeting} your booking for ${slot} is confirmed. Total: ₹${data.totalCost}.${series}`
+          }
+        : {
+            subject: `Booking received: ${data.gameName}`,
+            body: `${greeting} we've received your booking for ${slot}. It is awaiting admin approval. Total: ₹${data.totalCost}.${series}`
+          }
+    }
+
+    case 'booking_approved':
+      return {
+        subject: `Booking approved: ${data.gameName}`,
+        body: `${greeting} your booking for ${slot} has been approved. See you there!`
+      }
+
+    case 'booking_rejected':
+      return {
+        subject: `Booking not approved: ${data.gameName}`,
+        body: `${greeting} your booking for ${slot} could not be approved.${data.reason ? ` Reason: ${data.reason}.` : ''}`
+      }
+
+    case 'booking_reminder':
+      return {
+        subject: `Reminder: ${data.gameName} on ${data.bookingDate}`,
+        body: `${greeting} this is a reminder of your booking for ${slot}.`
+      }
+
+    case 'booking_cancelled': {
+      const series = data.extraOccurrences
+        ? `, along with ${data.extraOccurrences} later booking${data.extraOccurrences !== 1 ? 's' : ''} in the series`
+        : ''
+      const refund = data.refundAmount ? ` ₹${data.refundAmount} will be refunded.` : ''
+      return {
+        subject: `Booking cancelled: ${data.gameName}`,
+        body: `${greeting} your booking for ${slot} has been cancelled${series}.${refund}`
+      }
+    }
+
+    case 'booking_invitation':
+      return {
+        subject: `You're invited: ${data.gameName}`,
+        body: `${greeting} ${data.organiserName || 'a player'} has invited you to join their booking for ${slot}. Accept or decline it from My Bookings.`
+      }
+  }
+}
+
+export interface PendingBookingSummary {
+  userName: string
+  gameName: string
+  bookingDate: string
+  startTime: string
+  endTime: string
+  hoursPending: number
+}
+
+// One digest per run for admins, listing bookings that have waited too long for approval
+export function renderApprovalNudge(bookings: PendingBookingSummary[]): RenderedNotification {
+  const lines = bookings.map(booking =>
+    `- ${booking.gameName} on ${booking.bookingDate}, ${formatTimeRange(booking.startTime, booking.endTime)} for ${booking.userName} (waiting ${Math.floor(booking.hoursPending)}h)`
+  )
+
+  return {
+    subject: `${bookings.length} booking${bookings.length !== 1 ? 's' : ''} awaiting approval`,
+    body: `These bookings are still waiting for approval:\n${lines.join('\n')}`
+  }
+}
@@ -0,0 +1,53 @@
+export type PaymentStatus = 'unpaid' | 'paid' | 'refunded' | 'partially_refunded'
+
+export interface CreatePaymentIntentParams {
+  bookingId: string
+  amount: number
+  currency: string
+  description?: string
+}
+
+export interface PaymentIntent {
+  id: string
+  provider: string
+  amount: number
+  currency: string
+  clientSecret: string
+  // Hosted checkout page, for providers that redirect the user to pay
+  checkoutUrl: string | null
+}
+
+export interface RefundResult {
+  id: string
+  amount: number
+}
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded'
+
+// A provider webhook event, normalised so the rest of the app doesn't depend on one provider
+export interface PaymentEvent {
+  id: string
+  type: PaymentEventType
+  intentId: string
+  amount: number
+  refundId?: string
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message)
+    this.name = 'WebhookSignatureError'
+  }
+}
+
+// Everything the app needs from a payment gateway. Implementations run on the
+// server only and are selected with the PAYMENT_PROVIDER environment variable.
+export interface PaymentProvider {
+  readonly name: string
+  // Name of the request header carrying the webhook signature
+  readonly signatureHeader: string
+  createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>
+  refundPayment(intentId: string, amount: number): Promise<RefundResult>
+  // Parse a webhook body, throwing WebhookSignatureError if it wasn't sent by the provider
+  verifyWebhook(payload: string, signature: string | null): PaymentEvent
+}
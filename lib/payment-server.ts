@@ -0,0 +1,198 @@
+import { supabaseAdmin } from './supabase-server'
+import { MockPaymentProvider } from './mock-payment-provider'
+import type { PaymentEvent, PaymentIntent, PaymentProvider } from './payment-provider'
+import type { Database } from './supabase'
+
+type Booking = Database['public']['Tables']['bookings']['Row']
+type Payment = Database['public']['Tables']['payments']['Row']
+
+export const PAYMENT_CURRENCY = 'INR'
+
+let provider: PaymentProvider | null = null
+
+// The configured payment provider (PAYMENT_PROVIDER, defaults to the mock provider
+// outside production so real payments are never silently skipped)
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider
+
+  const name = process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'production' ? null : 'mock')
+  if (!name) {
+    throw new Error('Missing PAYMENT_PROVIDER. Set it to a real payment provider in production.')
+  }
+
+  const webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET
+
+  if (!webhookSecret) {
+    throw new Error('Missing PAYMENT_WEBHOOK_SECRET. Payment webhooks cannot be verified without it.')
+  }
+
+  switch (name) {
+    case 'mock':
+      provider = new MockPaymentProvider(webhookSecret)
+      break
+    default:
+      throw new Error(`Unknown payment provider: ${name}`)
+  }
+
+  return provider
+}
+
+// Start a payment for a booking and record the attempt
+export async function createBookingPaymentIntent(booking: Booking): Promise<PaymentIntent> {
+  const paymentProvider = getPaymentProvider()
+
+  const intent = await paymentProvider.createPaymentIntent({
+    bookingId: booking.id,
+    amount: booking.total_cost,
+    currency: PAYMENT_CURRENCY,
+    description: `Booking ${booking.id} on ${booking.booking_date}`
+  })
+
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .insert([{
+      booking_id: booking.id,
+      user_id: booking.user_id,
+      provider: paymentProvider.name,
+      provider_intent_id: intent.id,
+      amount: intent.amount,
+      currency: intent.currency
+    }])
+
+  if (error) throw error
+  return intent
+}
+
+// Apply a verified webhook event. Returns false if the event was already handled.
+export async function applyPaymentEvent(event: PaymentEvent): Promise<boolean> {
+  const { error: eventError } = await supabaseAdmin
+    .from('payment_webhook_events')
+    .insert([{ id: event.id, type: event.type }])
+
+  // Providers retry deliveries; the primary key makes each event apply once
+  if (eventError?.code === '23505') return false
+  if (eventError) throw eventError
+
+  try {
+    await applyPaymentEventChanges(event)
+  } catch (error) {
+    // Release the event so the provider's retry can apply it
+    await supabaseAdmin
+      .from('payment_webhook_events')
+      .delete()
+      .eq('id', event.id)
+    throw error
+  }
+
+  return true
+}
+
+async function applyPaymentEventChanges(event: PaymentEvent) {
+  const { data: payment, error: paymentError } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq('provider_intent_id', event.intentId)
+    .maybeSingle()
+
+  if (paymentError) throw paymentError
+  if (!payment) {
+    throw new Error(`No payment found for intent ${event.intentId}`)
+  }
+
+  switch (event.type) {
+    case 'payment.succeeded': {
+      const { error } = await supabaseAdmin
+        .from('payments')
+        .update({ status: 'succeeded', updated_at: new Date().toISOString() })
+        .eq('id', payment.id)
+      if (error) throw error
+
+      const { error: bookingError } = await supabaseAdmin
+        .from('bookings')
+        .update({ payment_status: 'paid', updated_at: new Date().toISOString() })
+        .eq('id', payment.booking_id)
+        .eq('payment_status', 'unpaid')
+      if (bookingError) throw bookingError
+      break
+    }
+
+    case 'payment.failed': {
+      const { error } = await supabaseAdmin
+        .from('payments')
+        .update({ status: 'failed', updated_at: new Date().toISOString() })
+        .eq('id', payment.id)
+      if (error) throw error
+      break
+    }
+
+    case 'refund.succeeded': {
+      const { error } = await supabaseAdmin.rpc('record_payment_refund', {
+        p_payment_id: payment.id,
+        p_provider_refund_id: event.refundId || event.id,
+        p_amount: event.amount
+      })
+      if (error) throw error
+      break
+    }
+  }
+}
+
+// What each booking's successful payments add up to, less what has been
+// refunded. Bookings with nothing paid are left out.
+export async function getPaidAmounts(bookingIds: string[]): Promise<Map<string, number>> {
+  const paid = new Map<string, number>()
+  if (bookingIds.length === 0) return paid
+
+  const { data: payments, error } = await supabaseAdmin
+    .from('payments')
+    .select('booking_id, amount, amount_refunded')
+    .in('booking_id', bookingIds)
+    .eq('status', 'succeeded')
+
+  if (error) throw error
+
+  for (const payment of payments || []) {
+    const remaining = payment.amount - payment.amount_refunded
+    if (remaining > 0) {
+      paid.set(payment.booking_id, (paid.get(payment.booking_id) || 0) + remaining)
+    }
+  }
+
+  return paid
+}
+
+// What a booking's successful payments add up to, less what has been refunded
+export async function getPaidAmount(bookingId: string): Promise<number> {
+  return (await getPaidAmounts([bookingId])).get(bookingId) || 0
+}
+
+// Refund part or all of a booking's successful payment
+export async function refundBookingPayment(bookingId: string, amount: number, reason?: string): Promise<Payment | null> {
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .eq('status', 'succeeded')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!payment) return null
+
+  const refundable = Math.min(amount, payment.amount - payment.amount_refunded)
+  if (refundable <= 0) return payment
+
+  const refund = await getPaymentProvider().refundPayment(payment.provider_intent_id, refundable)
+
+  // Recorded now rather than waiting for the refund webhook; the refund id keeps it from counting twice
+  const { data: updated, error: refundError } = await supabaseAdmin.rpc('record_payment_refund', {
+    p_payment_id: payment.id,
+    p_provider_refund_id: refund.id,
+    p_amount: refund.amount,
+    p_reason: reason || null
+  })
+
+  if (refundError) throw refundError
+  return updated
+}
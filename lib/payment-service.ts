@@ -0,0 +1,82 @@
+import { supabase } from './supabase'
+import type { PaymentIntent } from './payment-provider'
+
+// Result returned by POST /api/payments/intent
+export type CreatePaymentIntentResult =
+  | { status: 'created'; intent: PaymentIntent }
+  | { status: 'invalid'; message: string }
+
+export type PayForBookingResult =
+  | { status: 'paid' }
+  | { status: 'redirect'; checkoutUrl: string }
+  | { status: 'invalid'; message: string }
+
+export class PaymentService {
+  // Pay for a booking: create a payment intent, then either send the user to the
+  // provider's checkout page or, with the mock provider, complete it straight away
+  async payForBooking(bookingId: string): Promise<{ data: PayForBookingResult | null; error: any }> {
+    try {
+      const result = await this.callPaymentApi<CreatePaymentIntentResult>('/api/payments/intent', { bookingId })
+
+      if (result.status === 'invalid') {
+        return { data: result, error: null }
+      }
+
+      const { intent } = result
+      if (intent.checkoutUrl) {
+        return { data: { status: 'redirect', checkoutUrl: intent.checkoutUrl }, error: null }
+      }
+
+      if (intent.provider === 'mock') {
+        await this.callPaymentApi('/api/payments/mock/confirm', { intentId: intent.id })
+        return { data: { status: 'paid' }, error: null }
+      }
+
+      throw new Error('This payment provider needs a checkout page')
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Get the payment attempts for a booking
+  async getBookingPayments(bookingId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  private async callPaymentApi<T>(path: string, body: unknown): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('You must be logged in to make a payment')
+    }
+
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify(body)
+    })
+
+    const result = await response.json()
+
+    if (response.ok || response.status === 422) {
+      return result as T
+    }
+
+    throw new Error(result.error || 'Payment request failed')
+  }
+}
+
+export const paymentService = new PaymentService()
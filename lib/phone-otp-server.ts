@@ -0,0 +1,171 @@
+import { createHash, randomInt, randomUUID, timingSafeEqual } from 'crypto'
+import { supabaseAdmin } from './supabase-server'
+import { getNotificationChannel } from './notification-server'
+import {
+  OTP_EXPIRY_MINUTES,
+  OTP_LENGTH,
+  OTP_MAX_ATTEMPTS,
+  checkOtpRateLimit,
+  getAccountEmail,
+  getPhoneVariants,
+  isInternalEmail
+} from './phone-rules'
+import type { OtpPurpose } from './phone-rules'
+import type { Database } from './supabase'
+
+type Profile = Database['public']['Tables']['profiles']['Row']
+
+// Each code is hashed with its row id, so equal codes never share a hash
+function hashCode(id: string, code: string): string {
+  return createHash('sha256').update(`${id}:${code}`).digest('hex')
+}
+
+// Send a new one-time code by SMS. Returns why it wasn't sent when the number
+// has asked for too many codes, or null once it is on its way.
+export async function sendPhoneOtp(phone: string, purpose: OtpPurpose, now: Date = new Date()): Promise<string | null> {
+  const { data: recent, error: recentError } = await supabaseAdmin
+    .from('phone_otp_codes')
+    .select('created_at')
+    .eq('phone', phone)
+    .gte('created_at', new Date(now.getTime() - 60 * 60 * 1000).toISOString())
+    .order('created_at', { ascending: false })
+
+  if (recentError) throw recentError
+
+  const limited = checkOtpRateLimit((recent || []).map(row => new Date(row.created_at)), now)
+  if (limited) return limited
+
+  const id = randomUUID()
+  const code = randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0')
+
+  const { error } = await supabaseAdmin
+    .from('phone_otp_codes')
+    .insert([{
+      id,
+      phone,
+      purpose,
+      code_hash: hashCode(id, code),
+      expires_at: new Date(now.getTime() + OTP_EXPIRY_MINUTES * 60 * 1000).toISOString()
+    }])
+
+  if (error) throw error
+
+  await getNotificationChannel('sms').send({
+    to: phone,
+    subject: 'Your Boundary Box code',
+    body: `${code} is your Boundary Box verification code. It expires in ${OTP_EXPIRY_MINUTES} minutes. Don't share it with anyone.`
+  })
+
+  return null
+}
+
+// Check a code against the latest one sent to the number for this purpose and
+// use it up. Returns why it was rejected, or null if it was right.
+export async function verifyPhoneOtp(phone: string, purpose: OtpPurpose, code: string, now: Date = new Date()): Promise<string | null> {
+  const { data: otp, error } = await supabaseAdmin
+    .from('phone_otp_codes')
+    .select('*')
+    .eq('phone', phone)
+    .eq('purpose', purpose)
+    .is('consumed_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+
+  if (!otp || new Date(otp.expires_at) <= now) {
+    return 'This code has expired. Please request a new one.'
+  }
+
+  // Every guess uses up an attempt before it is checked, so parallel guesses
+  // can't get more tries than the limit
+  const { data: attempts, error: attemptError } = await supabaseAdmin.rpc('record_otp_attempt', {
+    p_otp_id: otp.id,
+    p_max_attempts: OTP_MAX_ATTEMPTS
+  })
+
+  if (attemptError) throw attemptError
+  if (attempts === null) {
+    return 'Too many incorrect attempts. Please request a new code.'
+  }
+
+  const expected = Buffer.from(otp.code_hash)
+  const received = Buffer.from(hashCode(otp.id, code.trim()))
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return 'That code is incorrect'
+  }
+
+  // Only the first request to use the code succeeds
+  const { data: consumed, error: consumeError } = await supabaseAdmin
+    .from('phone_otp_codes')
+    .update({ consumed_at: now.toISOString() })
+    .eq('id', otp.id)
+    .is('consumed_at', null)
+    .select('id')
+
+  if (consumeError) throw consumeError
+  if (!consumed || consumed.length === 0) {
+    return 'This code has already been used. Please request a new one.'
+  }
+
+  return null
+}
+
+// The account for a number in E.164 form, including accounts created before
+// numbers were normalised, which may have stored it as typed
+export async function findProfileByPhone(phone: string): Promise<Profile | null> {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('*')
+    .in('phone', getPhoneVariants(phone))
+
+  if (error) throw error
+
+  const profiles = data || []
+  return profiles.find(profile => profile.phone === phone) || profiles[0] || null
+}
+
+// Record that a profile's owner has proven their number. Accounts created
+// before verification are moved over here: the number is stored in E.164 form
+// and the internal auth email is re-derived from it, so password sign-in no
+// longer depends on how the number was typed at sign-up. Returns the auth
+// email to sign in with.
+export async function markPhoneVerified(profile: Profile, phone: string, now: Date = new Date()): Promise<string> {
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(profile.id)
+  if (error) throw error
+
+  let email = data.user.email || getAccountEmail(phone)
+  if (isInternalEmail(email) && email !== getAccountEmail(phone)) {
+    email = getAccountEmail(phone)
+
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(profile.id, {
+      email,
+      email_confirm: true
+    })
+
+    if (updateError) throw updateError
+  }
+
+  const { error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .update({
+      phone,
+      email: isInternalEmail(profile.email) ? email : profile.email,
+      phone_verified_at: now.toISOString()
+    })
+    .eq('id', profile.id)
+
+  if (profileError) throw profileError
+  return email
+}
+
+// A single-use token the browser exchanges for a session with
+// supabase.auth.verifyOtp, once the server has checked the user's code
+export async function createSignInToken(email: string): Promise<string> {
+  const { data, error } = await supabaseAdmin.auth.admin.generateLink({ type: 'magiclink', email })
+
+  if (error) throw error
+  return data.properties.hashed_token
+}
@@ -0,0 +1,97 @@
+// Phone numbers and the one-time codes that prove a user owns one. Accounts
+// are keyed on the number in E.164 form (+<country code><number>), so the
+// same number typed with spaces, a leading 0 or without the country code
+// still finds the same account.
+
+// Country code assumed for numbers typed without one
+export const DEFAULT_COUNTRY_CODE = '91'
+
+// How long a code stays usable, and how often one can be requested
+export const OTP_LENGTH = 6
+export const OTP_EXPIRY_MINUTES = 5
+export const OTP_MAX_ATTEMPTS = 5
+export const OTP_RESEND_COOLDOWN_SECONDS = 60
+export const OTP_MAX_PER_HOUR = 5
+
+// How many times an account's password can be reset by its owner in a day
+export const PASSWORD_RESET_MAX_PER_DAY = 3
+
+// Matches the rule for changing a password in profile settings
+export const MIN_PASSWORD_LENGTH = 8
+
+export type OtpPurpose = 'sign_in' | 'sign_up' | 'password_reset'
+
+// Supabase auth still needs an email for password sign-in, so each account
+// has an internal one derived from its phone number. Accounts created before
+// phone verification used the digits exactly as typed.
+const ACCOUNT_EMAIL_DOMAIN = 'boundarybox.temp'
+
+// The number in E.164 form, or null if it can't be a phone number
+export function normalizePhone(input: string): string | null {
+  const trimmed = input.trim().replace(/[\s().-]/g, '')
+  let digits: string
+
+  if (trimmed.startsWith('+')) {
+    digits = trimmed.slice(1)
+  } else if (trimmed.startsWith('00')) {
+    digits = trimmed.slice(2)
+  } else if (/^0\d{10}$/.test(trimmed)) {
+    digits = DEFAULT_COUNTRY_CODE + trimmed.slice(1)
+  } else if (/^\d{10}$/.test(trimmed)) {
+    digits = DEFAULT_COUNTRY_CODE + trimmed
+  } else {
+    digits = trimmed
+  }
+
+  return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null
+}
+
+// The internal auth email for a phone number in E.164 form
+export function getAccountEmail(phone: string): string {
+  return `${phone.replace(/[^0-9]/g, '')}@${ACCOUNT_EMAIL_DOMAIN}`
+}
+
+// The auth email an account created before verification would have, from the
+// number exactly as the user typed it
+export function getLegacyAccountEmail(input: string): string {
+  return `${input.replace(/[^0-9]/g, '')}@${ACCOUNT_EMAIL_DOMAIN}`
+}
+
+// Whether an auth email is one of the internal ones derived from a phone
+// number, rather than a real address the user signed up with
+export function isInternalEmail(email: string): boolean {
+  return email.endsWith(`@${ACCOUNT_EMAIL_DOMAIN}`)
+}
+
+// Ways an unverified profile may have stored a number, for finding accounts
+// created before numbers were normalised
+export function getPhoneVariants(phone: string): string[] {
+  const digits = phone.slice(1)
+  const variants = [phone, digits]
+
+  if (digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    const national = digits.slice(DEFAULT_COUNTRY_CODE.length)
+    variants.push(national, `0${national}`)
+  }
+
+  return variants
+}
+
+// Why another code can't be sent yet, or null if it can. sentAt lists when
+// recent codes for the number were sent, newest first.
+export function checkOtpRateLimit(sentAt: Date[], now: Date): string | null {
+  const latest = sentAt[0]
+  if (latest) {
+    const waitSeconds = Math.ceil(OTP_RESEND_COOLDOWN_SECONDS - (now.getTime() - latest.getTime()) / 1000)
+    if (waitSeconds > 0) {
+      return `Please wait ${waitSeconds} seconds before requesting another code`
+    }
+  }
+
+  const hourAgo = now.getTime() - 60 * 60 * 1000
+  if (sentAt.filter(time => time.getTime() > hourAgo).length >= OTP_MAX_PER_HOUR) {
+    return 'Too many codes have been requested for this number. Please try again in an hour.'
+  }
+
+  return null
+}
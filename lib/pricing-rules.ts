@@ -0,0 +1,193 @@
+import { addDays, minutesToTime, timeToMinutes } from './booking-rules'
+
+export type PricingRuleType = 'time_band' | 'day_of_week' | 'holiday'
+
+export interface PricingRule {
+  id: string
+  name: string
+  game_id: string | null // null applies to every game
+  rule_type: PricingRuleType
+  weekdays: number[] | null // 0 = Sunday; day_of_week rules, optional filter for time bands
+  start_time: string | null // time_band only
+  end_time: string | null // time_band only; an end before the start wraps past midnight
+  holiday_date: string | null // holiday only
+  multiplier: number
+  priority: number
+  is_active: boolean
+}
+
+// A stretch of a booking priced at a single hourly rate
+export interface PriceSegment {
+  date: string
+  startTime: string
+  endTime: string
+  hours: number
+  rate: number
+  rules: string[] // names of the rules that set the rate
+  cost: number
+}
+
+export interface PriceBreakdown {
+  basePrice: number
+  segments: PriceSegment[]
+  total: number
+}
+
+export const PRICING_RULE_TYPE_LABELS: Record<PricingRuleType, string> = {
+  time_band: 'Time of day',
+  day_of_week: 'Day of week',
+  holiday: 'Holiday'
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// Game-specific rules win over global ones, then the higher priority wins
+function pickRule(rules: PricingRule[]): PricingRule | undefined {
+  return [...rules].sort((a, b) => {
+    if (!!a.game_id !== !!b.game_id) return a.game_id ? -1 : 1
+    return b.priority - a.priority
+  })[0]
+}
+
+function matchesWeekday(rule: PricingRule, weekday: number): boolean {
+  return !rule.weekdays || rule.weekdays.length === 0 || rule.weekdays.includes(weekday)
+}
+
+function bandContains(rule: PricingRule, minuteOfDay: number): boolean {
+  if (!rule.start_time || !rule.end_time) return false
+
+  const start = timeToMinutes(rule.start_time)
+  const end = timeToMinutes(rule.end_time)
+
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end
+}
+
+// Rules applying at a given minute of a given date. A holiday rule replaces every
+// other rule on its date; otherwise a day-of-week and a time band rule can stack.
+function rulesAt(rules: PricingRule[], date: string, minuteOfDay: number): PricingRule[] {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+
+  const holiday = pickRule(rules.filter(r => r.rule_type === 'holiday' && r.holiday_date === date))
+  if (holiday) return [holiday]
+
+  const day = pickRule(rules.filter(r => r.rule_type === 'day_of_week' && matchesWeekday(r, weekday)))
+  const band = pickRule(rules.filter(r =>
+    r.rule_type === 'time_band' && matchesWeekday(r, weekday) && bandContains(r, minuteOfDay)
+  ))
+
+  return [day, band].filter((rule): rule is PricingRule => !!rule)
+}
+
+// Price a booking segment by segment. The range is split at every time band
+// boundary and at midnight, so a booking spanning peak and off-peak hours is
+// charged the right rate for each part.
+export function calculateBookingPrice(
+  basePrice: number,
+  bookingDate: string,
+  startTime: string,
+  endTime: string,
+  rules: PricingRule[],
+  allowOvernight: boolean
+): PriceBreakdown {
+  const start = timeToMinutes(startTime)
+  let end = timeToMinutes(endTime)
+  if (allowOvernight && end <= start) {
+    end += MINUTES_PER_DAY
+  }
+
+  if (end <= start) {
+    return { basePrice, segments: [], total: 0 }
+  }
+
+  const activeRules = rules.filter(r => r.is_active)
+
+  const boundaries = new Set<number>([start, end])
+  if (start < MINUTES_PER_DAY && end > MINUTES_PER_DAY) {
+    boundaries.add(MINUTES_PER_DAY)
+  }
+  for (const rule of activeRules) {
+    if (rule.rule_type !== 'time_band' || !rule.start_time || !rule.end_time) continue
+
+    for (const dayOffset of [0, MINUTES_PER_DAY]) {
+      for (const point of [timeToMinutes(rule.start_time), timeToMinutes(rule.end_time)]) {
+        const absolute = point + dayOffset
+        if (absolute > start && absolute < end) {
+          boundaries.add(absolute)
+        }
+      }
+    }
+  }
+
+  const points = Array.from(boundaries).sort((a, b) => a - b)
+  const segments: PriceSegment[] = []
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const segmentStart = points[i]
+    const segmentEnd = points[i + 1]
+    const date = segmentStart >= MINUTES_PER_DAY ? addDays(bookingDate, 1) : bookingDate
+    const applied = rulesAt(activeRules, date, segmentStart % MINUTES_PER_DAY)
+    const rate = roundCurrency(applied.reduce((amount, rule) => amount * rule.multiplier, basePrice))
+    const hours = (segmentEnd - segmentStart) / 60
+    const ruleNames = applied.map(rule => rule.name)
+
+    // Merge with the previous segment when nothing about the price changed
+    const previous = segments[segments.length - 1]
+    if (previous && previous.date === date && previous.rate === rate && previous.rules.join() === ruleNames.join()) {
+      previous.endTime = minutesToTime(segmentEnd)
+      previous.hours += hours
+      previous.cost = roundCurrency(previous.rate * previous.hours)
+      continue
+    }
+
+    segments.push({
+      date,
+      startTime: minutesToTime(segmentStart),
+      endTime: minutesToTime(segmentEnd),
+      hours,
+      rate,
+      rules: ruleNames,
+      cost: roundCurrency(rate * hours)
+    })
+  }
+
+  const total = Math.round(segments.reduce((sum, segment) => sum + segment.rate * segment.hours, 0))
+
+  return { basePrice, segments, total }
+}
+
+// Validate a pricing rule before it is saved
+export function validatePricingRule(rule: Partial<PricingRule>): string[] {
+  const errors: string[] = []
+
+  if (!rule.name || !rule.name.trim()) {
+    errors.push('Rule name is required')
+  }
+
+  if (rule.multiplier === undefined || isNaN(rule.multiplier) || rule.multiplier < 0.1 || rule.multiplier > 10) {
+    errors.push('Multiplier must be between 0.1 and 10')
+  }
+
+  if (rule.rule_type === 'time_band') {
+    if (!rule.start_time || !rule.end_time) {
+      errors.push('Time of day rules need a start and end time')
+    } else if (rule.start_time === rule.end_time) {
+      errors.push('Start and end time must be different')
+    }
+  }
+
+  if (rule.rule_type === 'day_of_week' && (!rule.weekdays || rule.weekdays.length === 0)) {
+    errors.push('Select at least one day of the week')
+  }
+
+  if (rule.rule_type === 'holiday' && !rule.holiday_date) {
+    errors.push('Holiday rules need a date')
+  }
+
+  return errors
+}
@@ -0,0 +1,107 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import { validatePricingRule } from './pricing-rules'
+import type { PricingRule } from './pricing-rules'
+
+type PricingRuleInsert = Database['public']['Tables']['pricing_rules']['Insert']
+type PricingRuleUpdate = Database['public']['Tables']['pricing_rules']['Update']
+
+export interface PricingRuleWithGame extends PricingRule {
+  game: {
+    id: string
+    name: string
+  } | null
+}
+
+export class PricingService {
+  // Get every pricing rule, active or not (admin only)
+  async getAllRules() {
+    try {
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .select(`
+          *,
+          game:games(id, name)
+        `)
+        .order('rule_type', { ascending: true })
+        .order('priority', { ascending: false })
+
+      if (error) throw error
+      return { data: data as PricingRuleWithGame[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Get the active rules that apply to a game, including global rules
+  async getRulesForGame(gameId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .select('*')
+        .eq('is_active', true)
+        .or(`game_id.is.null,game_id.eq.${gameId}`)
+
+      if (error) throw error
+      return { data: data as PricingRule[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Create a pricing rule (admin only)
+  async createRule(rule: PricingRuleInsert) {
+    try {
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .insert([rule])
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Update a pricing rule (admin only)
+  async updateRule(ruleId: string, rule: PricingRuleUpdate) {
+    try {
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .update({ ...rule, updated_at: new Date().toISOString() })
+        .eq('id', ruleId)
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Delete a pricing rule (admin only)
+  async deleteRule(ruleId: string) {
+    try {
+      const { error } = await supabase
+        .from('pricing_rules')
+        .delete()
+        .eq('id', ruleId)
+
+      if (error) throw error
+      return { data: null, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Validate a rule before saving
+  validateRule(rule: Partial<PricingRule>): { isValid: boolean; errors: string[] } {
+    const errors = validatePricingRule(rule)
+    return { isValid: errors.length === 0, errors }
+  }
+}
+
+export const pricingService = new PricingService()
@@ -0,0 +1,92 @@
+export type DiscountType = 'percentage' | 'flat'
+
+export interface PromoCode {
+  id: string
+  code: string
+  description: string | null
+  discount_type: DiscountType
+  discount_value: number
+  valid_from: string | null
+  valid_until: string | null
+  max_redemptions: number | null
+  max_redemptions_per_user: number | null
+  game_ids: string[] | null // null or empty applies to every game
+  is_active: boolean
+}
+
+export interface PromoUsage {
+  totalRedemptions: number
+  userRedemptions: number
+}
+
+// Codes are stored upper-case; users can type them in any case
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+// Discount for a booking amount, never more than the amount itself
+export function calculateDiscount(promo: Pick<PromoCode, 'discount_type' | 'discount_value'>, amount: number): number {
+  const discount = promo.discount_type === 'percentage'
+    ? Math.round(amount * promo.discount_value / 100)
+    : Math.round(promo.discount_value)
+
+  return Math.min(Math.max(discount, 0), amount)
+}
+
+// Reason a code can't be applied to a booking, or null if it can
+export function checkPromoEligibility(promo: PromoCode, gameId: string, now: Date, usage: PromoUsage): string | null {
+  if (!promo.is_active) {
+    return 'This promo code is no longer active'
+  }
+
+  if (promo.valid_from && now < new Date(promo.valid_from)) {
+    return 'This promo code is not valid yet'
+  }
+
+  if (promo.valid_until && now > new Date(promo.valid_until)) {
+    return 'This promo code has expired'
+  }
+
+  if (promo.game_ids && promo.game_ids.length > 0 && !promo.game_ids.includes(gameId)) {
+    return 'This promo code does not apply to the selected game'
+  }
+
+  if (promo.max_redemptions !== null && usage.totalRedemptions >= promo.max_redemptions) {
+    return 'This promo code has reached its usage limit'
+  }
+
+  if (promo.max_redemptions_per_user !== null && usage.userRedemptions >= promo.max_redemptions_per_user) {
+    return 'You have already used this promo code'
+  }
+
+  return null
+}
+
+// Validate a promo code definition before it is saved
+export function validatePromoCode(promo: Partial<PromoCode>): string[] {
+  const errors: string[] = []
+
+  if (!promo.code || !/^[A-Z0-9_-]{3,32}$/.test(normalizePromoCode(promo.code))) {
+    errors.push('Code must be 3-32 letters, numbers, dashes or underscores')
+  }
+
+  if (promo.discount_value === undefined || isNaN(promo.discount_value) || promo.discount_value <= 0) {
+    errors.push('Discount must be greater than 0')
+  } else if (promo.discount_type === 'percentage' && promo.discount_value > 100) {
+    errors.push('Percentage discount cannot be more than 100%')
+  }
+
+  if (promo.valid_from && promo.valid_until && new Date(promo.valid_from) >= new Date(promo.valid_until)) {
+    errors.push('Valid until must be after valid from')
+  }
+
+  if (promo.max_redemptions !== undefined && promo.max_redemptions !== null && promo.max_redemptions < 1) {
+    errors.push('Total usage limit must be at least 1')
+  }
+
+  if (promo.max_redemptions_per_user !== undefined && promo.max_redemptions_per_user !== null && promo.max_redemptions_per_user < 1) {
+    errors.push('Per-user usage limit must be at least 1')
+  }
+
+  return errors
+}
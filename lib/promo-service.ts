@@ -0,0 +1,159 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import { normalizePromoCode, validatePromoCode } from './promo-rules'
+import type { PromoCode } from './promo-rules'
+
+type PromoCodeInsert = Database['public']['Tables']['promo_codes']['Insert']
+type PromoCodeUpdate = Database['public']['Tables']['promo_codes']['Update']
+
+export interface PromoCodeWithUsage extends PromoCode {
+  redemptions: number
+}
+
+export interface PromoPreviewRequest {
+  code: string
+  gameId: string
+  bookingDate: string
+  startTime: string
+  endTime: string
+}
+
+// Result returned by POST /api/promo-codes/validate
+export type PromoPreviewResult =
+  | { status: 'valid'; code: string; description: string | null; grossCost: number; discount: number; netCost: number }
+  | { status: 'invalid'; message: string }
+
+export class PromoService {
+  // Get every promo code with how many times it has been redeemed (admin only)
+  async getAllCodes() {
+    try {
+      const [{ data: codes, error }, { data: redeemed, error: redeemedError }] = await Promise.all([
+        supabase
+          .from('promo_codes')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('bookings')
+          .select('promo_code_id')
+          .not('promo_code_id', 'is', null)
+          .neq('status', 'canceled')
+      ])
+
+      if (error) throw error
+      if (redeemedError) throw redeemedError
+
+      const redemptions = (redeemed || []).reduce((acc, booking) => {
+        acc[booking.promo_code_id] = (acc[booking.promo_code_id] || 0) + 1
+        return acc
+      }, {} as Record<string, number>)
+
+      const data: PromoCodeWithUsage[] = (codes || []).map(code => ({
+        ...code,
+        redemptions: redemptions[code.id] || 0
+      }))
+
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Create a promo code (admin only)
+  async createCode(promo: PromoCodeInsert) {
+    try {
+      const { data, error } = await supabase
+        .from('promo_codes')
+        .insert([{ ...promo, code: normalizePromoCode(promo.code) }])
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('A promo code with this code already exists')
+        }
+        throw error
+      }
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Update a promo code (admin only)
+  async updateCode(promoId: string, promo: PromoCodeUpdate) {
+    try {
+      const { data, error } = await supabase
+        .from('promo_codes')
+        .update({
+          ...promo,
+          ...(promo.code ? { code: normalizePromoCode(promo.code) } : {}),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', promoId)
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('A promo code with this code already exists')
+        }
+        throw error
+      }
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Delete a promo code; bookings that used it keep their discount (admin only)
+  async deleteCode(promoId: string) {
+    try {
+      const { error } = await supabase
+        .from('promo_codes')
+        .delete()
+        .eq('id', promoId)
+
+      if (error) throw error
+      return { data: null, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Check a code against a prospective booking before it is submitted
+  async previewCode(request: PromoPreviewRequest): Promise<{ data: PromoPreviewResult | null; error: any }> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('You must be logged in to apply a promo code')
+      }
+
+      const response = await fetch('/api/promo-codes/validate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify(request)
+      })
+
+      const result = await response.json()
+
+      if (response.ok || response.status === 422) {
+        return { data: result as PromoPreviewResult, error: null }
+      }
+
+      throw new Error(result.error || 'Failed to check promo code')
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Validate a promo code definition before saving
+  validateCode(promo: Partial<PromoCode>): { isValid: boolean; errors: string[] } {
+    const errors = validatePromoCode(promo)
+    return { isValid: errors.length === 0, errors }
+  }
+}
+
+export const promoService = new PromoService()
@@ -0,0 +1,32 @@
+import type { NotificationChannel, NotificationMessage } from './notification-channel'
+
+// Email through Resend's HTTP API
+export class ResendEmailChannel implements NotificationChannel {
+  readonly name = 'email'
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.body
+      })
+    })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => null)
+      throw new Error(`Resend email send failed: ${result?.message || response.statusText}`)
+    }
+  }
+}
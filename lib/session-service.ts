@@ -0,0 +1,202 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import { bookingService } from './booking-service'
+import { settingsService } from './settings-service'
+import { getVenueToday } from './venue-time'
+import type { TimeRange } from './booking-rules'
+
+type OpenSession = Database['public']['Tables']['open_sessions']['Row']
+type OpenSessionInsert = Database['public']['Tables']['open_sessions']['Insert']
+type Booking = Database['public']['Tables']['bookings']['Row']
+
+export interface OpenSessionWithDetails extends OpenSession {
+  game: {
+    id: string
+    name: string
+    max_players: number
+  }
+  court: {
+    name: string
+  } | null
+  seatsTaken: number
+}
+
+export interface SessionSeat extends Booking {
+  user: {
+    name: string
+    email: string
+    phone: string
+  } | null
+}
+
+// Result returned by POST /api/sessions/[sessionId]/seats
+export type BookSeatResult =
+  | { status: 'booked'; booking: Booking }
+  | { status: 'unavailable'; message: string }
+
+export class SessionService {
+  // Upcoming scheduled sessions with the number of seats already taken
+  async getUpcomingSessions(gameId?: string): Promise<{ data: OpenSessionWithDetails[] | null; error: any }> {
+    try {
+      const today = getVenueToday(await settingsService.getVenueTimeZone())
+
+      let query = supabase
+        .from('open_sessions')
+        .select(`
+          *,
+          game:games(id, name, max_players),
+          court:game_courts(name)
+        `)
+        .eq('status', 'scheduled')
+        .gte('session_date', today)
+
+      if (gameId) {
+        query = query.eq('game_id', gameId)
+      }
+
+      const { data, error } = await query
+        .order('session_date', { ascending: true })
+        .order('start_time', { ascending: true })
+
+      if (error) throw error
+
+      const sessions = await Promise.all(
+        (data || []).map(async (session) => {
+          const { data: seatsTaken, error: seatsError } = await supabase.rpc('count_session_seats', { p_session_id: session.id })
+          if (seatsError) throw seatsError
+          return { ...session, seatsTaken: seatsTaken || 0 } as OpenSessionWithDetails
+        })
+      )
+
+      return { data: sessions, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Scheduled sessions of a game overlapping a time range; they take their
+  // court for the whole session
+  async getSessionsInRange(gameId: string, range: TimeRange) {
+    try {
+      const { data, error } = await supabase
+        .from('open_sessions')
+        .select('*')
+        .eq('game_id', gameId)
+        .lt('starts_at', range.endsAt)
+        .gt('ends_at', range.startsAt)
+        .eq('status', 'scheduled')
+        .order('starts_at', { ascending: true })
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Publish a session on a free court (admin only)
+  async createSession(session: OpenSessionInsert) {
+    try {
+      const { data, error } = await supabase
+        .from('open_sessions')
+        .insert([session])
+        .select()
+        .single()
+
+      if (error) {
+        // Raised by check_open_session_court when the court is taken
+        if (error.code === '23P01') {
+          throw new Error('This court is already booked at that time')
+        }
+        throw error
+      }
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Everyone holding or having held a seat in a session (admin only)
+  async getRoster(sessionId: string): Promise<{ data: SessionSeat[] | null; error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(`
+          *,
+          user:profiles(name, email, phone)
+        `)
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return { data: (data || []) as SessionSeat[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Cancel a session and every active seat in it (admin only); seat holders
+  // are notified like any other admin cancellation
+  async cancelSession(sessionId: string, reason?: string) {
+    try {
+      const { data, error } = await supabase
+        .from('open_sessions')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', sessionId)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      const { data: seats, error: seatsError } = await supabase
+        .from('bookings')
+        .select('id')
+        .eq('session_id', sessionId)
+        .in('status', ['pending', 'confirmed'])
+
+      if (seatsError) throw seatsError
+
+      for (const seat of seats || []) {
+        const { error: cancelError } = await bookingService.adminCancelBooking(seat.id, reason || 'Session cancelled')
+        if (cancelError) {
+          console.error('Error cancelling session seat:', cancelError)
+        }
+      }
+
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Book a seat in a session for the signed-in user
+  async bookSeat(sessionId: string, notes?: string): Promise<{ data: BookSeatResult | null; error: any }> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('You must be logged in to book a seat')
+      }
+
+      const response = await fetch(`/api/sessions/${sessionId}/seats`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ notes })
+      })
+
+      const result = await response.json()
+
+      if (response.ok || response.status === 409) {
+        return { data: result as BookSeatResult, error: null }
+      }
+
+      throw new Error(result.error || 'Failed to book seat')
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+}
+
+export const sessionService = new SessionService()
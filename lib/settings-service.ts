@@ -1,4 +1,7 @@
 import { supabase } from './supabase'
+import { DEFAULT_REFUND_TIERS, validateRefundTiers } from './cancellation-rules'
+import type { RefundTier } from './cancellation-rules'
+import { DEFAULT_VENUE_TIMEZONE, isValidTimeZone } from './venue-time'
 
 export interface SystemSettings {
   id?: string
@@ -7,14 +10,44 @@ export interface SystemSettings {
   is_24_7: boolean // 24/7 operation toggle
   advance_booking_days: number
   require_admin_approval: boolean
+  send_sms_notifications: boolean // allow SMS and WhatsApp notifications
   booking_slot_duration: number // in minutes
   min_booking_duration: number // in hours
   max_booking_duration: number // in hours
   cancellation_deadline: number // hours before booking
+  refund_tiers: RefundTier[] // refund percentage by how far ahead a booking is cancelled
+  waitlist_offer_minutes: number // how long a freed slot is held for a waitlisted user
+  reminder_offsets_hours: number[] // reminders go out this many hours before a booking
+  approval_nudge_hours: number[] // admins are nudged when a booking has been pending this long
+  auto_close_grace_minutes: number // past bookings are closed as completed or no-show this long after they end
+  approval_sla_hours: number // pending bookings expire after waiting this long for approval
+  approval_cutoff_minutes: number // ...or this long before they start, whichever comes first
+  venue_timezone: string // IANA timezone that booking dates and times are in
   created_at?: string
   updated_at?: string
 }
 
+export const DEFAULT_SETTINGS: SystemSettings = {
+  opening_time: '06:00',
+  closing_time: '22:00',
+  is_24_7: false,
+  advance_booking_days: 7,
+  require_admin_approval: true,
+  send_sms_notifications: false,
+  booking_slot_duration: 30,
+  min_booking_duration: 1,
+  max_booking_duration: 4,
+  cancellation_deadline: 2,
+  refund_tiers: DEFAULT_REFUND_TIERS,
+  waitlist_offer_minutes: 30,
+  reminder_offsets_hours: [24, 2],
+  approval_nudge_hours: [2, 12],
+  auto_close_grace_minutes: 60,
+  approval_sla_hours: 24,
+  approval_cutoff_minutes: 60,
+  venue_timezone: DEFAULT_VENUE_TIMEZONE
+}
+
 export class SettingsService {
   // Get current system settings
   async getSettings(): Promise<{ data: SystemSettings | null; error: any }> {
@@ -28,20 +61,10 @@ export class SettingsService {
         throw error
       }
 
-      // Return default settings if none exist
+      // Return default settings if none exist, or the user can't read them,
+      // keeping the venue's timezone so dates still follow its calendar
       if (!data) {
-        const defaultSettings: SystemSettings = {
-          opening_time: '06:00',
-          closing_time: '22:00',
-          is_24_7: false,
-          advance_booking_days: 7,
-          require_admin_approval: true,
-          booking_slot_duration: 30,
-          min_booking_duration: 1,
-          max_booking_duration: 4,
-          cancellation_deadline: 2
-        }
-        return { data: defaultSettings, error: null }
+        return { data: { ...DEFAULT_SETTINGS, venue_timezone: await this.getVenueTimeZone() }, error: null }
       }
 
       return { data, error: null }
@@ -51,6 +74,18 @@ export class SettingsService {
     }
   }
 
+  // The venue's timezone, for working out today and booking windows. Readable
+  // by every user, unlike the rest of the settings.
+  async getVenueTimeZone(): Promise<string> {
+    const { data, error } = await supabase.rpc('get_venue_timezone')
+
+    if (error) {
+      console.error('Error fetching venue timezone:', error)
+    }
+
+    return data || DEFAULT_VENUE_TIMEZONE
+  }
+
   // Update system settings
   async updateSettings(settings: Partial<SystemSettings>): Promise<{ data: SystemSettings | null; error: any }> {
     try {
@@ -95,19 +130,7 @@ export class SettingsService {
 
   // Reset settings to defaults
   async resetToDefaults(): Promise<{ data: SystemSettings | null; error: any }> {
-    const defaultSettings: Partial<SystemSettings> = {
-      opening_time: '06:00',
-      closing_time: '22:00',
-      is_24_7: false,
-      advance_booking_days: 7,
-      require_admin_approval: true,
-      booking_slot_duration: 30,
-      min_booking_duration: 1,
-      max_booking_duration: 4,
-      cancellation_deadline: 2
-    }
-
-    return this.updateSettings(defaultSettings)
+    return this.updateSettings({ ...DEFAULT_SETTINGS })
   }
 
   // Validate settings
@@ -150,6 +173,38 @@ export class SettingsService {
       errors.push('Cancellation deadline must be between 0 and 48 hours')
     }
 
+    if (settings.refund_tiers) {
+      errors.push(...validateRefundTiers(settings.refund_tiers))
+    }
+
+    if (settings.waitlist_offer_minutes !== undefined && (settings.waitlist_offer_minutes < 5 || settings.waitlist_offer_minutes > 1440)) {
+      errors.push('Waitlist offer window must be between 5 and 1440 minutes')
+    }
+
+    if (settings.reminder_offsets_hours && settings.reminder_offsets_hours.some(hours => isNaN(hours) || hours < 1 || hours > 168)) {
+      errors.push('Reminder times must be between 1 and 168 hours before a booking')
+    }
+
+    if (settings.approval_nudge_hours && settings.approval_nudge_hours.some(hours => isNaN(hours) || hours < 1 || hours > 168)) {
+      errors.push('Approval reminders must be between 1 and 168 hours after a booking is made')
+    }
+
+    if (settings.auto_close_grace_minutes !== undefined && (settings.auto_close_grace_minutes < 0 || settings.auto_close_grace_minutes > 1440)) {
+      errors.push('Auto-close grace period must be between 0 and 1440 minutes')
+    }
+
+    if (settings.approval_sla_hours !== undefined && (isNaN(settings.approval_sla_hours) || settings.approval_sla_hours < 1 || settings.approval_sla_hours > 168)) {
+      errors.push('Approval deadline must be between 1 and 168 hours')
+    }
+
+    if (settings.approval_cutoff_minutes !== undefined && (isNaN(settings.approval_cutoff_minutes) || settings.approval_cutoff_minutes < 0 || settings.approval_cutoff_minutes > 1440)) {
+      errors.push('Approval cutoff must be between 0 and 1440 minutes before a booking')
+    }
+
+    if (settings.venue_timezone !== undefined && !isValidTimeZone(settings.venue_timezone)) {
+      errors.push('Venue timezone must be a valid timezone such as Asia/Kolkata')
+    }
+
     return {
       isValid: errors.length === 0,
       errors
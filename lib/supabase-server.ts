@@ -0,0 +1,53 @@
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+if (!supabaseServiceKey) {
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY. Route handlers need the service role key in your .env.local file.')
+}
+
+// Service role client for route handlers only - it bypasses RLS, so every
+// route must authorise the caller itself before reading or writing data
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+})
+
+// Resolve the signed-in user from the request's bearer token. Accounts with a
+// forced password reset pending are treated as signed out.
+export async function getRequestUser(request: NextRequest) {
+  const authorization = request.headers.get('authorization')
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null
+
+  if (!token) return null
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token)
+  if (error || !data.user) return null
+
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .select('password_reset_required')
+    .eq('id', data.user.id)
+    .maybeSingle()
+
+  if (profileError) throw profileError
+  if (profile?.password_reset_required) return null
+
+  return data.user
+}
+
+// Whether a user has the admin role, read from their profile
+export async function isAdminUser(userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.role === 'admin'
+}
@@ -24,6 +24,8 @@ export type Database = {
           phone: string
           name: string
           role: 'user' | 'admin'
+          phone_verified_at: string | null
+          password_reset_required: boolean
           created_at: string
           updated_at: string
         }
@@ -33,6 +35,8 @@ export type Database = {
           phone: string
           name: string
           role?: 'user' | 'admin'
+          phone_verified_at?: string | null
+          password_reset_required?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -42,6 +46,8 @@ export type Database = {
           phone?: string
           name?: string
           role?: 'user' | 'admin'
+          phone_verified_at?: string | null
+          password_reset_required?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -53,6 +59,8 @@ export type Database = {
           description: string
           price_per_hour: number
           max_players: number
+          opening_time: string | null
+          closing_time: string | null
           created_at: string
           updated_at: string
         }
@@ -62,6 +70,8 @@ export type Database = {
           description: string
           price_per_hour: number
           max_players: number
+          opening_time?: string | null
+          closing_time?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -71,6 +81,8 @@ export type Database = {
           description?: string
           price_per_hour?: number
           max_players?: number
+          opening_time?: string | null
+          closing_time?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -80,12 +92,32 @@ export type Database = {
           id: string
           user_id: string
           game_id: string
+          court_id: string | null
+          session_id: string | null
           booking_date: string
           start_time: string
           end_time: string
+          // Maintained by the database; overnight bookings end the next day
+          starts_at: string
+          ends_at: string
           status: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
           total_cost: number
           notes: string | null
+          series_id: string | null
+          promo_code_id: string | null
+          discount_amount: number
+          payment_status: 'unpaid' | 'paid' | 'refunded' | 'partially_refunded'
+          cancelled_at: string | null
+          cancelled_by: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          approval_decision: 'not_required' | 'auto_approved' | 'needs_review' | null
+          approval_rule_id: string | null
+          approval_rule_name: string | null
+          pending_since: string | null
+          refund_percent: number | null
+          refund_amount: number | null
+          split_mode: 'equal' | 'custom'
           created_at: string
           updated_at: string
         }
@@ -93,12 +125,29 @@ export type Database = {
           id?: string
           user_id: string
           game_id: string
+          court_id?: string | null
+          session_id?: string | null
           booking_date: string
           start_time: string
           end_time: string
           status?: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
           total_cost?: number
           notes?: string | null
+          series_id?: string | null
+          promo_code_id?: string | null
+          discount_amount?: number
+          payment_status?: 'unpaid' | 'paid' | 'refunded' | 'partially_refunded'
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          approval_decision?: 'not_required' | 'auto_approved' | 'needs_review' | null
+          approval_rule_id?: string | null
+          approval_rule_name?: string | null
+          pending_since?: string | null
+          refund_percent?: number | null
+          refund_amount?: number | null
+          split_mode?: 'equal' | 'custom'
           created_at?: string
           updated_at?: string
         }
@@ -106,36 +155,873 @@ export type Database = {
           id?: string
           user_id?: string
           game_id?: string
+          court_id?: string | null
+          session_id?: string | null
           booking_date?: string
           start_time?: string
           end_time?: string
           status?: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
           total_cost?: number
           notes?: string | null
+          series_id?: string | null
+          promo_code_id?: string | null
+          discount_amount?: number
+          payment_status?: 'unpaid' | 'paid' | 'refunded' | 'partially_refunded'
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          approval_decision?: 'not_required' | 'auto_approved' | 'needs_review' | null
+          approval_rule_id?: string | null
+          approval_rule_name?: string | null
+          pending_since?: string | null
+          refund_percent?: number | null
+          refund_amount?: number | null
+          split_mode?: 'equal' | 'custom'
           created_at?: string
           updated_at?: string
         }
       }
+      booking_participants: {
+        Row: {
+          id: string
+          booking_id: string
+          user_id: string
+          status: 'invited' | 'accepted' | 'declined'
+          share_amount: number | null
+          invited_by: string | null
+          responded_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          user_id: string
+          status?: 'invited' | 'accepted' | 'declined'
+          share_amount?: number | null
+          invited_by?: string | null
+          responded_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          booking_id?: string
+          user_id?: string
+          status?: 'invited' | 'accepted' | 'declined'
+          share_amount?: number | null
+          invited_by?: string | null
+          responded_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      booking_audit_log: {
+        Row: {
+          id: string
+          booking_id: string | null
+          old_status: string | null
+          new_status: string | null
+          changed_by: string | null
+          changed_at: string
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id?: string | null
+          old_status?: string | null
+          new_status?: string | null
+          changed_by?: string | null
+          changed_at?: string
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          booking_id?: string | null
+          old_status?: string | null
+          new_status?: string | null
+          changed_by?: string | null
+          changed_at?: string
+          notes?: string | null
+          created_at?: string
+        }
+      }
+      booking_series: {
+        Row: {
+          id: string
+          user_id: string
+          game_id: string
+          frequency: 'weekly' | 'biweekly'
+          start_date: string
+          until_date: string | null
+          occurrences: number | null
+          start_time: string
+          end_time: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          game_id: string
+          frequency: 'weekly' | 'biweekly'
+          start_date: string
+          until_date?: string | null
+          occurrences?: number | null
+          start_time: string
+          end_time: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          game_id?: string
+          frequency?: 'weekly' | 'biweekly'
+          start_date?: string
+          until_date?: string | null
+          occurrences?: number | null
+          start_time?: string
+          end_time?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      waitlist_entries: {
+        Row: {
+          id: string
+          user_id: string
+          game_id: string
+          booking_date: string
+          start_time: string
+          end_time: string
+          status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled'
+          offered_at: string | null
+          offer_expires_at: string | null
+          booking_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          game_id: string
+          booking_date: string
+          start_time: string
+          end_time: string
+          status?: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled'
+          offered_at?: string | null
+          offer_expires_at?: string | null
+          booking_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          game_id?: string
+          booking_date?: string
+          start_time?: string
+          end_time?: string
+          status?: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled'
+          offered_at?: string | null
+          offer_expires_at?: string | null
+          booking_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      game_weekday_hours: {
+        Row: {
+          id: string
+          game_id: string
+          weekday: number
+          is_closed: boolean
+          opening_time: string | null
+          closing_time: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          weekday: number
+          is_closed?: boolean
+          opening_time?: string | null
+          closing_time?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          weekday?: number
+          is_closed?: boolean
+          opening_time?: string | null
+          closing_time?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      game_blackout_dates: {
+        Row: {
+          id: string
+          game_id: string
+          blackout_date: string
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          blackout_date: string
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          blackout_date?: string
+          reason?: string | null
+          created_at?: string
+        }
+      }
+      game_courts: {
+        Row: {
+          id: string
+          game_id: string
+          name: string
+          sort_order: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          name: string
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          name?: string
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      open_sessions: {
+        Row: {
+          id: string
+          game_id: string
+          court_id: string
+          title: string
+          session_date: string
+          start_time: string
+          end_time: string
+          starts_at: string
+          ends_at: string
+          price_per_seat: number
+          status: 'scheduled' | 'cancelled'
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          court_id: string
+          title: string
+          session_date: string
+          start_time: string
+          end_time: string
+          price_per_seat: number
+          status?: 'scheduled' | 'cancelled'
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          court_id?: string
+          title?: string
+          session_date?: string
+          start_time?: string
+          end_time?: string
+          price_per_seat?: number
+          status?: 'scheduled' | 'cancelled'
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      pricing_rules: {
+        Row: {
+          id: string
+          name: string
+          game_id: string | null
+          rule_type: 'time_band' | 'day_of_week' | 'holiday'
+          weekdays: number[] | null
+          start_time: string | null
+          end_time: string | null
+          holiday_date: string | null
+          multiplier: number
+          priority: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          game_id?: string | null
+          rule_type: 'time_band' | 'day_of_week' | 'holiday'
+          weekdays?: number[] | null
+          start_time?: string | null
+          end_time?: string | null
+          holiday_date?: string | null
+          multiplier?: number
+          priority?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          game_id?: string | null
+          rule_type?: 'time_band' | 'day_of_week' | 'holiday'
+          weekdays?: number[] | null
+          start_time?: string | null
+          end_time?: string | null
+          holiday_date?: string | null
+          multiplier?: number
+          priority?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      approval_rules: {
+        Row: {
+          id: string
+          name: string
+          rule_type: 'trusted_user' | 'game' | 'off_peak' | 'max_cost'
+          min_completed_bookings: number | null
+          game_ids: string[] | null
+          weekdays: number[] | null
+          start_time: string | null
+          end_time: string | null
+          max_total_cost: number | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          rule_type: 'trusted_user' | 'game' | 'off_peak' | 'max_cost'
+          min_completed_bookings?: number | null
+          game_ids?: string[] | null
+          weekdays?: number[] | null
+          start_time?: string | null
+          end_time?: string | null
+          max_total_cost?: number | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          rule_type?: 'trusted_user' | 'game' | 'off_peak' | 'max_cost'
+          min_completed_bookings?: number | null
+          game_ids?: string[] | null
+          weekdays?: number[] | null
+          start_time?: string | null
+          end_time?: string | null
+          max_total_cost?: number | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      promo_codes: {
+        Row: {
+          id: string
+          code: string
+          description: string | null
+          discount_type: 'percentage' | 'flat'
+          discount_value: number
+          valid_from: string | null
+          valid_until: string | null
+          max_redemptions: number | null
+          max_redemptions_per_user: number | null
+          game_ids: string[] | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          description?: string | null
+          discount_type: 'percentage' | 'flat'
+          discount_value: number
+          valid_from?: string | null
+          valid_until?: string | null
+          max_redemptions?: number | null
+          max_redemptions_per_user?: number | null
+          game_ids?: string[] | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          description?: string | null
+          discount_type?: 'percentage' | 'flat'
+          discount_value?: number
+          valid_from?: string | null
+          valid_until?: string | null
+          max_redemptions?: number | null
+          max_redemptions_per_user?: number | null
+          game_ids?: string[] | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      payments: {
+        Row: {
+          id: string
+          booking_id: string
+          user_id: string
+          provider: string
+          provider_intent_id: string
+          amount: number
+          currency: string
+          status: 'pending' | 'succeeded' | 'failed'
+          amount_refunded: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          user_id: string
+          provider: string
+          provider_intent_id: string
+          amount: number
+          currency?: string
+          status?: 'pending' | 'succeeded' | 'failed'
+          amount_refunded?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          booking_id?: string
+          user_id?: string
+          provider?: string
+          provider_intent_id?: string
+          amount?: number
+          currency?: string
+          status?: 'pending' | 'succeeded' | 'failed'
+          amount_refunded?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      payment_refunds: {
+        Row: {
+          id: string
+          payment_id: string
+          provider_refund_id: string
+          amount: number
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          payment_id: string
+          provider_refund_id: string
+          amount: number
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          payment_id?: string
+          provider_refund_id?: string
+          amount?: number
+          reason?: string | null
+          created_at?: string
+        }
+      }
+      payment_webhook_events: {
+        Row: {
+          id: string
+          type: string
+          received_at: string
+        }
+        Insert: {
+          id: string
+          type: string
+          received_at?: string
+        }
+        Update: {
+          id?: string
+          type?: string
+          received_at?: string
+        }
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          email_enabled: boolean
+          sms_enabled: boolean
+          whatsapp_enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          email_enabled?: boolean
+          sms_enabled?: boolean
+          whatsapp_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          email_enabled?: boolean
+          sms_enabled?: boolean
+          whatsapp_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      notification_log: {
+        Row: {
+          id: string
+          user_id: string
+          booking_id: string | null
+          event: string
+          channel: 'email' | 'sms' | 'whatsapp'
+          recipient: string
+          status: 'sent' | 'failed'
+          error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          booking_id?: string | null
+          event: string
+          channel: 'email' | 'sms' | 'whatsapp'
+          recipient: string
+          status: 'sent' | 'failed'
+          error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          booking_id?: string | null
+          event?: string
+          channel?: 'email' | 'sms' | 'whatsapp'
+          recipient?: string
+          status?: 'sent' | 'failed'
+          error?: string | null
+          created_at?: string
+        }
+      }
+      job_runs: {
+        Row: {
+          id: string
+          job: string
+          status: 'running' | 'succeeded' | 'failed'
+          processed: number
+          error: string | null
+          started_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          job: string
+          status?: 'running' | 'succeeded' | 'failed'
+          processed?: number
+          error?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+        Update: {
+          id?: string
+          job?: string
+          status?: 'running' | 'succeeded' | 'failed'
+          processed?: number
+          error?: string | null
+          started_at?: string
+          finished_at?: string | null
+        }
+      }
+      job_deliveries: {
+        Row: {
+          job: string
+          dedupe_key: string
+          created_at: string
+        }
+        Insert: {
+          job: string
+          dedupe_key: string
+          created_at?: string
+        }
+        Update: {
+          job?: string
+          dedupe_key?: string
+          created_at?: string
+        }
+      }
+      phone_otp_codes: {
+        Row: {
+          id: string
+          phone: string
+          purpose: 'sign_in' | 'sign_up' | 'password_reset'
+          code_hash: string
+          attempts: number
+          expires_at: string
+          consumed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          phone: string
+          purpose: 'sign_in' | 'sign_up' | 'password_reset'
+          code_hash: string
+          attempts?: number
+          expires_at: string
+          consumed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          phone?: string
+          purpose?: 'sign_in' | 'sign_up' | 'password_reset'
+          code_hash?: string
+          attempts?: number
+          expires_at?: string
+          consumed_at?: string | null
+          created_at?: string
+        }
+      }
+      account_audit_log: {
+        Row: {
+          id: string
+          user_id: string | null
+          action: 'password_reset' | 'password_reset_forced' | 'role_changed' | 'invite_created' | 'invite_revoked' | 'invite_accepted'
+          actor_id: string | null
+          invite_id: string | null
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          action: 'password_reset' | 'password_reset_forced' | 'role_changed' | 'invite_created' | 'invite_revoked' | 'invite_accepted'
+          actor_id?: string | null
+          invite_id?: string | null
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          action?: 'password_reset' | 'password_reset_forced' | 'role_changed' | 'invite_created' | 'invite_revoked' | 'invite_accepted'
+          actor_id?: string | null
+          invite_id?: string | null
+          notes?: string | null
+          created_at?: string
+        }
+      }
+      admin_invites: {
+        Row: {
+          id: string
+          token_hash: string
+          phone: string | null
+          note: string | null
+          created_by: string | null
+          expires_at: string
+          accepted_by: string | null
+          accepted_at: string | null
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          token_hash: string
+          phone?: string | null
+          note?: string | null
+          created_by?: string | null
+          expires_at: string
+          accepted_by?: string | null
+          accepted_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          token_hash?: string
+          phone?: string | null
+          note?: string | null
+          created_by?: string | null
+          expires_at?: string
+          accepted_by?: string | null
+          accepted_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+      }
     }
     Functions: {
-      calculate_booking_cost: {
+      record_payment_refund: {
+        Args: {
+          p_payment_id: string
+          p_provider_refund_id: string
+          p_amount: number
+          p_reason?: string | null
+        }
+        Returns: Database['public']['Tables']['payments']['Row']
+      }
+      count_promo_redemptions: {
+        Args: {
+          p_promo_code_id: string
+          p_user_id?: string | null
+        }
+        Returns: number
+      }
+      check_booking_conflict: {
         Args: {
           p_game_id: string
+          p_booking_date: string
           p_start_time: string
           p_end_time: string
+          p_exclude_booking_id?: string | null
+          p_court_id?: string | null
         }
-        Returns: number
+        Returns: boolean
       }
-      check_booking_conflict: {
+      reserve_booking: {
         Args: {
+          p_user_id: string
           p_game_id: string
           p_booking_date: string
           p_start_time: string
           p_end_time: string
-          p_exclude_booking_id?: string
+          p_status: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
+          p_total_cost: number
+          p_notes?: string | null
+          p_series_id?: string | null
+          p_promo_code_id?: string | null
+          p_discount_amount?: number
+          p_court_id?: string | null
+        }
+        Returns: Database['public']['Tables']['bookings']['Row']
+      }
+      reserve_session_seat: {
+        Args: {
+          p_user_id: string
+          p_session_id: string
+          p_status: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
+          p_total_cost: number
+          p_notes?: string | null
+        }
+        Returns: Database['public']['Tables']['bookings']['Row']
+      }
+      count_session_seats: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: number
+      }
+      is_booking_member: {
+        Args: {
+          p_booking_id: string
+          p_user_id: string
         }
         Returns: boolean
       }
+      get_venue_timezone: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      revoke_user_sessions: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      record_otp_attempt: {
+        Args: {
+          p_otp_id: string
+          p_max_attempts: number
+        }
+        Returns: number | null
+      }
+      update_booking_series_times: {
+        Args: {
+          p_series_id: string
+          p_from_date: string
+          p_start_time: string
+          p_end_time: string
+          p_status: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
+          p_costs: Record<string, number>
+        }
+        Returns: Database['public']['Tables']['bookings']['Row'][]
+      }
+      reschedule_booking: {
+        Args: {
+          p_booking_id: string
+          p_booking_date: string
+          p_start_time: string
+          p_end_time: string
+          p_status: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
+          p_total_cost: number
+          p_discount_amount?: number
+        }
+        Returns: Database['public']['Tables']['bookings']['Row'] | null
+      }
+      offer_waitlist_slot: {
+        Args: {
+          p_booking_id: string
+        }
+        Returns: Database['public']['Tables']['waitlist_entries']['Row'] | null
+      }
+      expire_waitlist_offers: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      claim_waitlist_offer: {
+        Args: {
+          p_entry_id: string
+          p_status: 'pending' | 'confirmed' | 'canceled' | 'no_show' | 'completed'
+          p_total_cost: number
+        }
+        Returns: Database['public']['Tables']['bookings']['Row']
+      }
     }
   }
 }
\ No newline at end of file
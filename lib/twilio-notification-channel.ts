@@ -0,0 +1,38 @@
+import type { NotificationChannel, NotificationMessage } from './notification-channel'
+
+export interface TwilioConfig {
+  accountSid: string
+  authToken: string
+  from: string // sending number, in E.164 format
+}
+
+// SMS and WhatsApp through Twilio's Messages API. WhatsApp uses the same API
+// with whatsapp: prefixed numbers.
+export class TwilioNotificationChannel implements NotificationChannel {
+  constructor(
+    readonly name: 'sms' | 'whatsapp',
+    private readonly config: TwilioConfig
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const address = (number: string) => this.name === 'whatsapp' ? `whatsapp:${number}` : number
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        From: address(this.config.from),
+        To: address(message.to),
+        Body: message.body
+      })
+    })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => null)
+      throw new Error(`Twilio ${this.name} send failed: ${result?.message || response.statusText}`)
+    }
+  }
+}
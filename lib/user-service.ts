@@ -3,6 +3,7 @@ import type { Database } from './supabase'
 
 type Profile = Database['public']['Tables']['profiles']['Row']
 type ProfileUpdate = Database['public']['Tables']['profiles']['Update']
+type AdminInvite = Database['public']['Tables']['admin_invites']['Row']
 
 export interface UserStats {
   totalBookings: number
@@ -12,6 +13,38 @@ export interface UserStats {
   favoriteGame?: string
 }
 
+export interface AdminInviteWithPeople extends AdminInvite {
+  creator: { name: string } | null
+  acceptor: { name: string } | null
+}
+
+export interface CreateInviteRequest {
+  phone?: string // only this number can accept the invite
+  note?: string
+  expiresInDays?: number
+}
+
+// The token is only ever returned here, when the invite is created
+export type CreateInviteResult =
+  | { status: 'created'; invite: AdminInvite; token: string }
+  | { status: 'invalid'; message: string }
+
+export type RevokeInviteResult =
+  | { status: 'revoked' }
+  | { status: 'invalid'; message: string }
+
+export type AcceptInviteResult =
+  | { status: 'accepted' }
+  | { status: 'invalid'; message: string }
+
+export type UpdateRoleResult =
+  | { status: 'updated'; role: 'user' | 'admin' }
+  | { status: 'invalid'; message: string }
+
+export type ForcePasswordResetResult =
+  | { status: 'reset'; notified: boolean }
+  | { status: 'invalid'; message: string }
+
 export class UserService {
   // Get all users (admin only)
   async getAllUsers() {
@@ -158,23 +191,50 @@ export class UserService {
     }
   }
 
-  // Update user role (admin only)
-  async updateUserRole(userId: string, role: 'user' | 'admin') {
+  // Change another user's role (admin only); roles can't be set from the client directly
+  async updateUserRole(userId: string, role: 'user' | 'admin'): Promise<{ data: UpdateRoleResult | null; error: any }> {
+    return this.callUserApi<UpdateRoleResult>(`/api/users/${userId}/role`, 'PATCH', { role })
+  }
+
+  // Every admin invite with who created and accepted it, newest first (admin only)
+  async getAdminInvites(): Promise<{ data: AdminInviteWithPeople[] | null; error: any }> {
     try {
       const { data, error } = await supabase
-        .from('profiles')
-        .update({ role })
-        .eq('id', userId)
-        .select()
-        .single()
+        .from('admin_invites')
+        .select(`
+          *,
+          creator:profiles!admin_invites_created_by_fkey(name),
+          acceptor:profiles!admin_invites_accepted_by_fkey(name)
+        `)
+        .order('created_at', { ascending: false })
 
       if (error) throw error
-      return { data, error: null }
+      return { data: (data || []) as unknown as AdminInviteWithPeople[], error: null }
     } catch (error) {
       return { data: null, error }
     }
   }
 
+  // Issue a single-use invite that makes whoever accepts it an admin (admin only)
+  async createAdminInvite(request: CreateInviteRequest): Promise<{ data: CreateInviteResult | null; error: any }> {
+    return this.callUserApi<CreateInviteResult>('/api/invites', 'POST', request)
+  }
+
+  // Withdraw an invite that hasn't been used yet (admin only)
+  async revokeAdminInvite(inviteId: string): Promise<{ data: RevokeInviteResult | null; error: any }> {
+    return this.callUserApi<RevokeInviteResult>(`/api/invites/${inviteId}`, 'DELETE')
+  }
+
+  // Accept an admin invite as the signed-in user
+  async acceptAdminInvite(token: string): Promise<{ data: AcceptInviteResult | null; error: any }> {
+    return this.callUserApi<AcceptInviteResult>('/api/invites/accept', 'POST', { token })
+  }
+
+  // Make a user choose a new password before they can sign in again (admin only)
+  async forcePasswordReset(userId: string, reason?: string): Promise<{ data: ForcePasswordResetResult | null; error: any }> {
+    return this.callUserApi<ForcePasswordResetResult>(`/api/users/${userId}/password-reset`, 'POST', { reason })
+  }
+
   // Search users by name or email (admin only)
   async searchUsers(searchTerm: string) {
     try {
@@ -293,6 +353,35 @@ export class UserService {
       return { data: null, error }
     }
   }
+
+  // Call a user management route as the signed-in admin
+  private async callUserApi<T>(path: string, method: string, body?: unknown): Promise<{ data: T | null; error: any }> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('You must be logged in to manage users')
+      }
+
+      const response = await fetch(path, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      })
+
+      const result = await response.json()
+
+      if (response.ok || response.status === 422) {
+        return { data: result as T, error: null }
+      }
+
+      throw new Error(result.error || 'User request failed')
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
 }
 
 export const userService = new UserService()
@@ -0,0 +1,79 @@
+// Dates and times as the venue sees them. Booking dates, times and the
+// starts_at/ends_at timestamps are wall-clock values in the venue's timezone,
+// so "today" and booking windows must be worked out there rather than in UTC
+// or in whatever timezone the browser or server happens to run in.
+
+export const DEFAULT_VENUE_TIMEZONE = 'Asia/Kolkata'
+
+interface WallClock {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+// Whether the runtime knows an IANA timezone name such as Asia/Kolkata
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The wall-clock reading in a timezone at an instant
+function getWallClock(instant: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant)
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour') % 24,
+    minute: part('minute'),
+    second: part('second')
+  }
+}
+
+// Minutes the timezone is ahead of UTC at an instant
+function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const clock = getWallClock(instant, timeZone)
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second)
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000)
+}
+
+// Today's date at the venue as YYYY-MM-DD
+export function getVenueToday(timeZone: string, now: Date = new Date()): string {
+  const clock = getWallClock(now, timeZone)
+  return `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`
+}
+
+// The instant a venue wall-clock time (YYYY-MM-DDTHH:MM[:SS]) happens
+export function venueTimeToDate(timestamp: string, timeZone: string): Date {
+  const [date, time = '00:00:00'] = timestamp.replace(' ', 'T').split('T')
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute, second = 0] = time.split(':').map(Number)
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second)
+
+  // Correct by the offset at the first guess, then again in case that guess
+  // was on the other side of a daylight saving change
+  const firstGuess = asUtc - getOffsetMinutes(new Date(asUtc), timeZone) * 60000
+  return new Date(asUtc - getOffsetMinutes(new Date(firstGuess), timeZone) * 60000)
+}
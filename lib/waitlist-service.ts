@@ -0,0 +1,135 @@
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import { settingsService } from './settings-service'
+import { getVenueToday } from './venue-time'
+
+type WaitlistEntry = Database['public']['Tables']['waitlist_entries']['Row']
+type Booking = Database['public']['Tables']['bookings']['Row']
+
+export interface WaitlistEntryWithGame extends WaitlistEntry {
+  game: {
+    id: string
+    name: string
+    price_per_hour: number
+  }
+}
+
+// Result returned by POST /api/waitlist/[entryId]/claim
+export type ClaimOfferResult =
+  | { status: 'claimed'; booking: Booking }
+  | { status: 'unavailable'; message: string }
+
+export class WaitlistService {
+  // Join the waitlist for a game, date and time window
+  async joinWaitlist(userId: string, gameId: string, bookingDate: string, startTime: string, endTime: string) {
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .insert([{
+          user_id: userId,
+          game_id: gameId,
+          booking_date: bookingDate,
+          start_time: startTime,
+          end_time: endTime
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        // Unique index on active entries
+        if (error.code === '23505') {
+          throw new Error('You are already on the waitlist for this slot')
+        }
+        throw error
+      }
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Get a user's active and recent waitlist entries
+  async getUserEntries(userId: string) {
+    try {
+      // Lapsed offers are expired lazily and passed to the next user in line
+      await supabase.rpc('expire_waitlist_offers')
+
+      const today = getVenueToday(await settingsService.getVenueTimeZone())
+
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .select(`
+          *,
+          game:games(id, name, price_per_hour)
+        `)
+        .eq('user_id', userId)
+        .gte('booking_date', today)
+        .in('status', ['waiting', 'offered', 'expired'])
+        .order('booking_date', { ascending: true })
+        .order('start_time', { ascending: true })
+
+      if (error) throw error
+      return { data: data as WaitlistEntryWithGame[], error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Leave the waitlist
+  async leaveWaitlist(entryId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', entryId)
+        .select()
+        .single()
+
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Offer the window of a canceled or no-show booking to the next waitlisted user
+  async offerFreedSlot(bookingId: string) {
+    try {
+      const { data, error } = await supabase.rpc('offer_waitlist_slot', { p_booking_id: bookingId })
+
+      if (error) throw error
+      return { data: data as WaitlistEntry | null, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
+  // Claim an open offer, turning it into a booking
+  async claimOffer(entryId: string): Promise<{ data: ClaimOfferResult | null; error: any }> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('You must be logged in to claim a slot')
+      }
+
+      const response = await fetch(`/api/waitlist/${entryId}/claim`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`
+        }
+      })
+
+      const result = await response.json()
+
+      if (response.ok || response.status === 409) {
+        return { data: result as ClaimOfferResult, error: null }
+      }
+
+      throw new Error(result.error || 'Failed to claim slot')
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+}
+
+export const waitlistService = new WaitlistService()
@@ -0,0 +1,27 @@
+#!/bin/bash
+
+# Trigger the scheduled jobs, e.g. from a local crontab:
+#   */5 * * * * cd /path/to/app && npm run jobs
+# Pass a job name to run just that one: npm run jobs -- booking-reminders
+
+if [ -f .env.local ]; then
+    set -a
+    . ./.env.local
+    set +a
+fi
+
+if [ -z "$CRON_SECRET" ]; then
+    echo "❌ CRON_SECRET is not set"
+    exit 1
+fi
+
+APP_URL="${APP_URL:-http://localhost:3000}"
+JOB_QUERY=""
+if [ -n "$1" ]; then
+    JOB_QUERY="?job=$1"
+fi
+
+curl -sS --fail-with-body -X POST \
+    -H "Authorization: Bearer $CRON_SECRET" \
+    "$APP_URL/api/jobs$JOB_QUERY"
+echo
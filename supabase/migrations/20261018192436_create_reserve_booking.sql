@@ -0,0 +1,54 @@
+-- Atomically reserve a booking slot.
+-- The conflict check and the insert run in one transaction while holding an
+-- advisory lock for the game and date, so two concurrent requests for the
+-- same slot can no longer both pass the check and double-book it.
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_status booking_status,
+  p_total_cost DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.bookings AS $$
+DECLARE
+  new_booking public.bookings;
+BEGIN
+  -- Serialise reservations for the same game and day
+  PERFORM pg_advisory_xact_lock(hashtext(p_game_id::text || ':' || p_booking_date::text));
+
+  IF check_booking_conflict(p_game_id, p_booking_date, p_start_time, p_end_time) THEN
+    -- exclusion_violation lets callers tell a slot conflict apart from other errors
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.bookings (
+    user_id,
+    game_id,
+    booking_date,
+    start_time,
+    end_time,
+    status,
+    total_cost,
+    notes
+  ) VALUES (
+    p_user_id,
+    p_game_id,
+    p_booking_date,
+    p_start_time,
+    p_end_time,
+    p_status,
+    p_total_cost,
+    p_notes
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server-side booking API (service role) may reserve slots
+REVOKE EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT) TO service_role;
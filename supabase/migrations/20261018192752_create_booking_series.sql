@@ -0,0 +1,139 @@
+-- Recurring bookings: a series groups the weekly/biweekly occurrences of one booking
+CREATE TABLE IF NOT EXISTS public.booking_series (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly')),
+  start_date DATE NOT NULL,
+  until_date DATE,
+  occurrences INTEGER CHECK (occurrences IS NULL OR occurrences > 0),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON public.bookings(series_id);
+
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own series, admins can see all of them
+CREATE POLICY "Users can read their own booking series" ON public.booking_series
+  FOR SELECT USING (
+    user_id = auth.uid() OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- reserve_booking gains an optional series id, so replace the old signature
+DROP FUNCTION IF EXISTS public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_status booking_status,
+  p_total_cost DECIMAL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL
+)
+RETURNS public.bookings AS $$
+DECLARE
+  new_booking public.bookings;
+BEGIN
+  -- Serialise reservations for the same game and day
+  PERFORM pg_advisory_xact_lock(hashtext(p_game_id::text || ':' || p_booking_date::text));
+
+  IF check_booking_conflict(p_game_id, p_booking_date, p_start_time, p_end_time) THEN
+    -- exclusion_violation lets callers tell a slot conflict apart from other errors
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.bookings (
+    user_id,
+    game_id,
+    booking_date,
+    start_time,
+    end_time,
+    status,
+    total_cost,
+    notes,
+    series_id
+  ) VALUES (
+    p_user_id,
+    p_game_id,
+    p_booking_date,
+    p_start_time,
+    p_end_time,
+    p_status,
+    p_total_cost,
+    p_notes,
+    p_series_id
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT, UUID) TO service_role;
+
+-- Move every remaining occurrence of a series to a new time.
+-- All occurrences are locked and re-checked before any is changed, so the
+-- edit either applies to the whole series or to none of it.
+CREATE OR REPLACE FUNCTION public.update_booking_series_times(
+  p_series_id UUID,
+  p_from_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_status booking_status,
+  p_total_cost DECIMAL
+)
+RETURNS SETOF public.bookings AS $$
+DECLARE
+  occurrence public.bookings;
+BEGIN
+  FOR occurrence IN
+    SELECT * FROM public.bookings
+    WHERE series_id = p_series_id
+      AND booking_date >= p_from_date
+      AND status IN ('pending', 'confirmed')
+    ORDER BY booking_date
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext(occurrence.game_id::text || ':' || occurrence.booking_date::text));
+
+    IF check_booking_conflict(occurrence.game_id, occurrence.booking_date, p_start_time, p_end_time, occurrence.id) THEN
+      RAISE EXCEPTION 'Time slot is already booked on %', occurrence.booking_date USING ERRCODE = '23P01';
+    END IF;
+  END LOOP;
+
+  UPDATE public.booking_series
+  SET start_time = p_start_time,
+      end_time = p_end_time,
+      updated_at = NOW()
+  WHERE id = p_series_id;
+
+  RETURN QUERY
+  UPDATE public.bookings
+  SET start_time = p_start_time,
+      end_time = p_end_time,
+      status = p_status,
+      total_cost = p_total_cost,
+      updated_at = NOW()
+  WHERE series_id = p_series_id
+    AND booking_date >= p_from_date
+    AND status IN ('pending', 'confirmed')
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.update_booking_series_times(UUID, DATE, TIME, TIME, booking_status, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_booking_series_times(UUID, DATE, TIME, TIME, booking_status, DECIMAL) TO service_role;
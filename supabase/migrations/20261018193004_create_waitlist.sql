@@ -0,0 +1,244 @@
+-- Waitlist for fully booked slots
+ALTER TABLE public.system_settings
+ADD COLUMN IF NOT EXISTS waitlist_offer_minutes INTEGER NOT NULL DEFAULT 30;
+
+CREATE TABLE IF NOT EXISTS public.waitlist_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  booking_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  offered_at TIMESTAMP WITH TIME ZONE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_slot ON public.waitlist_entries(game_id, booking_date, status);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_user_id ON public.waitlist_entries(user_id);
+
+-- One active waitlist entry per user and window
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_unique_active
+  ON public.waitlist_entries(user_id, game_id, booking_date, start_time, end_time)
+  WHERE status IN ('waiting', 'offered');
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own waitlist entries" ON public.waitlist_entries
+  FOR SELECT USING (
+    user_id = auth.uid() OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can join the waitlist" ON public.waitlist_entries
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND status = 'waiting');
+
+-- Users may only leave the waitlist; offers and claims are handled by the functions below
+CREATE POLICY "Users can leave the waitlist" ON public.waitlist_entries
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND status = 'cancelled');
+
+-- Whether an open waitlist offer to another user holds part of this window
+CREATE OR REPLACE FUNCTION public.check_waitlist_hold(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE game_id = p_game_id
+      AND booking_date = p_booking_date
+      AND status = 'offered'
+      AND offer_expires_at > NOW()
+      AND start_time < p_end_time
+      AND end_time > p_start_time
+      AND (p_user_id IS NULL OR user_id != p_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Offer a freed window to the first waitlisted user whose requested time is now free
+CREATE OR REPLACE FUNCTION public.offer_next_waitlist_entry(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME
+)
+RETURNS public.waitlist_entries AS $$
+DECLARE
+  entry public.waitlist_entries;
+  offer_minutes INTEGER;
+BEGIN
+  SELECT COALESCE(MAX(waitlist_offer_minutes), 30) INTO offer_minutes FROM public.system_settings;
+
+  FOR entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE game_id = p_game_id
+      AND booking_date = p_booking_date
+      AND status = 'waiting'
+      AND start_time < p_end_time
+      AND end_time > p_start_time
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF NOT check_booking_conflict(entry.game_id, entry.booking_date, entry.start_time, entry.end_time)
+       AND NOT check_waitlist_hold(entry.game_id, entry.booking_date, entry.start_time, entry.end_time) THEN
+      UPDATE public.waitlist_entries
+      SET status = 'offered',
+          offered_at = NOW(),
+          offer_expires_at = NOW() + make_interval(mins => offer_minutes),
+          updated_at = NOW()
+      WHERE id = entry.id
+      RETURNING * INTO entry;
+
+      RETURN entry;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called after a booking is canceled or marked no-show
+CREATE OR REPLACE FUNCTION public.offer_waitlist_slot(p_booking_id UUID)
+RETURNS public.waitlist_entries AS $$
+DECLARE
+  freed public.bookings;
+BEGIN
+  SELECT * INTO freed FROM public.bookings WHERE id = p_booking_id;
+
+  IF freed.id IS NULL OR freed.status NOT IN ('canceled', 'no_show') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN offer_next_waitlist_entry(freed.game_id, freed.booking_date, freed.start_time, freed.end_time);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Expire lapsed offers and pass each window on to the next user in line
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS INTEGER AS $$
+DECLARE
+  lapsed public.waitlist_entries;
+  expired_count INTEGER := 0;
+BEGIN
+  FOR lapsed IN
+    UPDATE public.waitlist_entries
+    SET status = 'expired',
+        updated_at = NOW()
+    WHERE status = 'offered'
+      AND offer_expires_at <= NOW()
+    RETURNING *
+  LOOP
+    expired_count := expired_count + 1;
+    PERFORM offer_next_waitlist_entry(lapsed.game_id, lapsed.booking_date, lapsed.start_time, lapsed.end_time);
+  END LOOP;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Turn an open offer into a booking for the waitlisted user
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(
+  p_entry_id UUID,
+  p_status booking_status,
+  p_total_cost DECIMAL
+)
+RETURNS public.bookings AS $$
+DECLARE
+  entry public.waitlist_entries;
+  new_booking public.bookings;
+BEGIN
+  SELECT * INTO entry FROM public.waitlist_entries WHERE id = p_entry_id FOR UPDATE;
+
+  IF entry.id IS NULL OR entry.status != 'offered' OR entry.offer_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This waitlist offer is no longer available' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(entry.game_id::text || ':' || entry.booking_date::text));
+
+  IF check_booking_conflict(entry.game_id, entry.booking_date, entry.start_time, entry.end_time) THEN
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, game_id, booking_date, start_time, end_time, status, total_cost, notes)
+  VALUES (entry.user_id, entry.game_id, entry.booking_date, entry.start_time, entry.end_time, p_status, p_total_cost, 'Claimed from waitlist')
+  RETURNING * INTO new_booking;
+
+  UPDATE public.waitlist_entries
+  SET status = 'claimed',
+      booking_id = new_booking.id,
+      updated_at = NOW()
+  WHERE id = entry.id;
+
+  RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Regular reservations must respect slots held for a waitlisted user
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_status booking_status,
+  p_total_cost DECIMAL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL
+)
+RETURNS public.bookings AS $$
+DECLARE
+  new_booking public.bookings;
+BEGIN
+  -- Serialise reservations for the same game and day
+  PERFORM pg_advisory_xact_lock(hashtext(p_game_id::text || ':' || p_booking_date::text));
+
+  IF check_booking_conflict(p_game_id, p_booking_date, p_start_time, p_end_time)
+     OR check_waitlist_hold(p_game_id, p_booking_date, p_start_time, p_end_time, p_user_id) THEN
+    -- exclusion_violation lets callers tell a slot conflict apart from other errors
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.bookings (
+    user_id,
+    game_id,
+    booking_date,
+    start_time,
+    end_time,
+    status,
+    total_cost,
+    notes,
+    series_id
+  ) VALUES (
+    p_user_id,
+    p_game_id,
+    p_booking_date,
+    p_start_time,
+    p_end_time,
+    p_status,
+    p_total_cost,
+    p_notes,
+    p_series_id
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.offer_waitlist_slot(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.offer_next_waitlist_entry(UUID, DATE, TIME, TIME) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_waitlist_offer(UUID, booking_status, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offer(UUID, booking_status, DECIMAL) TO service_role;
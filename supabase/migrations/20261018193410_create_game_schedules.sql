@@ -0,0 +1,64 @@
+-- Per-game operating hours and blackout dates.
+-- A game's own hours override the global opening/closing times; weekday rows
+-- override the game's hours for that day of the week.
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS opening_time TIME,
+ADD COLUMN IF NOT EXISTS closing_time TIME;
+
+ALTER TABLE public.games
+ADD CONSTRAINT games_hours_check CHECK (
+  (opening_time IS NULL AND closing_time IS NULL) OR
+  (opening_time IS NOT NULL AND closing_time IS NOT NULL AND opening_time < closing_time)
+);
+
+CREATE TABLE IF NOT EXISTS public.game_weekday_hours (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  is_closed BOOLEAN NOT NULL DEFAULT false,
+  opening_time TIME,
+  closing_time TIME,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (game_id, weekday),
+  CHECK (is_closed OR (opening_time IS NOT NULL AND closing_time IS NOT NULL AND opening_time < closing_time))
+);
+
+CREATE TABLE IF NOT EXISTS public.game_blackout_dates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  blackout_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (game_id, blackout_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_blackout_dates_date ON public.game_blackout_dates(game_id, blackout_date);
+
+ALTER TABLE public.game_weekday_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+-- Schedules are public so the booking page can show them
+CREATE POLICY "Anyone can read game weekday hours" ON public.game_weekday_hours
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can read game blackout dates" ON public.game_blackout_dates
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage game weekday hours" ON public.game_weekday_hours
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can manage game blackout dates" ON public.game_blackout_dates
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
@@ -0,0 +1,106 @@
+-- Dynamic pricing rules: time-of-day bands, day-of-week multipliers and holiday
+-- overrides, either global (game_id NULL) or for a single game.
+-- Prices are calculated by lib/pricing-rules.ts for both the booking page and the
+-- booking API, so the flat-rate calculate_booking_cost function is no longer used.
+CREATE TABLE IF NOT EXISTS public.pricing_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  game_id UUID REFERENCES public.games(id) ON DELETE CASCADE,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('time_band', 'day_of_week', 'holiday')),
+  weekdays SMALLINT[], -- 0 = Sunday
+  start_time TIME,
+  end_time TIME,
+  holiday_date DATE,
+  multiplier DECIMAL NOT NULL DEFAULT 1.0 CHECK (multiplier > 0),
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (rule_type <> 'time_band' OR (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time <> end_time)),
+  CHECK (rule_type <> 'day_of_week' OR cardinality(weekdays) > 0),
+  CHECK (rule_type <> 'holiday' OR holiday_date IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_game ON public.pricing_rules(game_id);
+
+ALTER TABLE public.pricing_rules ENABLE ROW LEVEL SECURITY;
+
+-- Active rules are public so the booking page can show the price breakdown
+CREATE POLICY "Anyone can read active pricing rules" ON public.pricing_rules
+  FOR SELECT USING (is_active);
+
+CREATE POLICY "Admins can manage pricing rules" ON public.pricing_rules
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DROP FUNCTION IF EXISTS public.calculate_booking_cost(UUID, TIME, TIME);
+
+-- Occurrences of a series can fall on differently priced days, so moving a
+-- series takes a cost per booking date instead of a single total. It follows
+-- the same rules as moving one booking: other users' waitlist offers hold
+-- their windows, and every window the series leaves is offered to the
+-- waitlist once the occurrences have moved.
+DROP FUNCTION IF EXISTS public.update_booking_series_times(UUID, DATE, TIME, TIME, booking_status, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.update_booking_series_times(
+  p_series_id UUID,
+  p_from_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_status booking_status,
+  p_costs JSONB -- { "YYYY-MM-DD": cost }
+)
+RETURNS SETOF public.bookings AS $$
+DECLARE
+  occurrence public.bookings;
+  originals public.bookings[] := '{}';
+BEGIN
+  FOR occurrence IN
+    SELECT * FROM public.bookings
+    WHERE series_id = p_series_id
+      AND booking_date >= p_from_date
+      AND status IN ('pending', 'confirmed')
+    ORDER BY booking_date
+    FOR UPDATE
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext(occurrence.game_id::text || ':' || occurrence.booking_date::text));
+
+    IF check_booking_conflict(occurrence.game_id, occurrence.booking_date, p_start_time, p_end_time, occurrence.id)
+       OR check_waitlist_hold(occurrence.game_id, occurrence.booking_date, p_start_time, p_end_time, occurrence.user_id) THEN
+      RAISE EXCEPTION 'Time slot is already booked on %', occurrence.booking_date USING ERRCODE = '23P01';
+    END IF;
+
+    originals := originals || occurrence;
+  END LOOP;
+
+  UPDATE public.booking_series
+  SET start_time = p_start_time,
+      end_time = p_end_time,
+      updated_at = NOW()
+  WHERE id = p_series_id;
+
+  RETURN QUERY
+  UPDATE public.bookings
+  SET start_time = p_start_time,
+      end_time = p_end_time,
+      status = p_status,
+      total_cost = COALESCE((p_costs ->> booking_date::text)::DECIMAL, total_cost),
+      updated_at = NOW()
+  WHERE series_id = p_series_id
+    AND booking_date >= p_from_date
+    AND status IN ('pending', 'confirmed')
+  RETURNING *;
+
+  FOREACH occurrence IN ARRAY originals LOOP
+    PERFORM offer_next_waitlist_entry(occurrence.game_id, occurrence.booking_date, occurrence.start_time, occurrence.end_time);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.update_booking_series_times(UUID, DATE, TIME, TIME, booking_status, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_booking_series_times(UUID, DATE, TIME, TIME, booking_status, JSONB) TO service_role;
@@ -0,0 +1,130 @@
+-- Promo codes: percentage or flat discounts with validity windows, usage limits
+-- and optional game restrictions. The discount is stored on the booking so
+-- revenue reports can show gross and net amounts.
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'flat')),
+  discount_value DECIMAL NOT NULL CHECK (discount_value > 0),
+  valid_from TIMESTAMP WITH TIME ZONE,
+  valid_until TIMESTAMP WITH TIME ZONE,
+  max_redemptions INTEGER CHECK (max_redemptions > 0), -- across all users
+  max_redemptions_per_user INTEGER CHECK (max_redemptions_per_user > 0),
+  game_ids UUID[], -- NULL or empty applies to every game
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from < valid_until)
+);
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS discount_amount DECIMAL NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_promo_code ON public.bookings(promo_code_id);
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are only readable by admins; users check a code through /api/promo-codes/validate
+CREATE POLICY "Admins can manage promo codes" ON public.promo_codes
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Redemptions that count towards a code's limits (cancelled bookings give the use back)
+CREATE OR REPLACE FUNCTION public.count_promo_redemptions(p_promo_code_id UUID, p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.bookings
+  WHERE promo_code_id = p_promo_code_id
+    AND status <> 'canceled'
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.count_promo_redemptions(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.count_promo_redemptions(UUID, UUID) TO service_role;
+
+-- Reservations can redeem a promo code; usage limits are checked under a row lock
+-- on the code so concurrent bookings cannot exceed them
+DROP FUNCTION IF EXISTS public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_status booking_status,
+  p_total_cost DECIMAL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL,
+  p_promo_code_id UUID DEFAULT NULL,
+  p_discount_amount DECIMAL DEFAULT 0
+)
+RETURNS public.bookings AS $$
+DECLARE
+  new_booking public.bookings;
+  promo public.promo_codes;
+BEGIN
+  -- Serialise reservations for the same game and day
+  PERFORM pg_advisory_xact_lock(hashtext(p_game_id::text || ':' || p_booking_date::text));
+
+  IF check_booking_conflict(p_game_id, p_booking_date, p_start_time, p_end_time)
+     OR check_waitlist_hold(p_game_id, p_booking_date, p_start_time, p_end_time, p_user_id) THEN
+    -- exclusion_violation lets callers tell a slot conflict apart from other errors
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  IF p_promo_code_id IS NOT NULL THEN
+    SELECT * INTO promo FROM public.promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+
+    IF promo.max_redemptions IS NOT NULL
+       AND count_promo_redemptions(promo.id) >= promo.max_redemptions THEN
+      RAISE EXCEPTION 'Promo code has reached its usage limit' USING ERRCODE = 'PL001';
+    END IF;
+
+    IF promo.max_redemptions_per_user IS NOT NULL
+       AND count_promo_redemptions(promo.id, p_user_id) >= promo.max_redemptions_per_user THEN
+      RAISE EXCEPTION 'Promo code has already been used' USING ERRCODE = 'PL001';
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings (
+    user_id,
+    game_id,
+    booking_date,
+    start_time,
+    end_time,
+    status,
+    total_cost,
+    notes,
+    series_id,
+    promo_code_id,
+    discount_amount
+  ) VALUES (
+    p_user_id,
+    p_game_id,
+    p_booking_date,
+    p_start_time,
+    p_end_time,
+    p_status,
+    p_total_cost,
+    p_notes,
+    p_series_id,
+    p_promo_code_id,
+    p_discount_amount
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT, UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT, UUID, UUID, DECIMAL) TO service_role;
@@ -0,0 +1,122 @@
+-- Online payments. Bookings carry a payment_status; each payment attempt is a
+-- row in payments, keyed by the provider's payment intent id. Payment state is
+-- only changed by the server (webhooks and refunds run with the service role).
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid'
+  CHECK (payment_status IN ('unpaid', 'paid', 'refunded', 'partially_refunded'));
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_intent_id TEXT NOT NULL UNIQUE,
+  amount DECIMAL NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  amount_refunded DECIMAL NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.payment_refunds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  provider_refund_id TEXT NOT NULL UNIQUE,
+  amount DECIMAL NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Webhook deliveries already handled, so retried deliveries are ignored
+CREATE TABLE IF NOT EXISTS public.payment_webhook_events (
+  id TEXT PRIMARY KEY, -- provider event id
+  type TEXT NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_booking ON public.payments(booking_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own payments" ON public.payments
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can read all payments" ON public.payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can read payment refunds" ON public.payment_refunds
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Users can update their own bookings (e.g. to cancel), so guard the payment column
+CREATE OR REPLACE FUNCTION public.protect_booking_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+     AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Payment status can only be changed by the payment system';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_payment_status ON public.bookings;
+CREATE TRIGGER protect_booking_payment_status
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_payment_status();
+
+-- Record a refund once (by provider refund id) and update the payment and booking
+CREATE OR REPLACE FUNCTION public.record_payment_refund(
+  p_payment_id UUID,
+  p_provider_refund_id TEXT,
+  p_amount DECIMAL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.payments AS $$
+DECLARE
+  payment public.payments;
+BEGIN
+  SELECT * INTO payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  INSERT INTO public.payment_refunds (payment_id, provider_refund_id, amount, reason)
+  VALUES (p_payment_id, p_provider_refund_id, p_amount, p_reason)
+  ON CONFLICT (provider_refund_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN payment;
+  END IF;
+
+  UPDATE public.payments
+  SET amount_refunded = LEAST(amount, amount_refunded + p_amount),
+      updated_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO payment;
+
+  UPDATE public.bookings
+  SET payment_status = CASE
+        WHEN payment.amount_refunded >= payment.amount THEN 'refunded'
+        ELSE 'partially_refunded'
+      END,
+      updated_at = NOW()
+  WHERE id = payment.booking_id;
+
+  RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_refund(UUID, TEXT, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_refund(UUID, TEXT, DECIMAL, TEXT) TO service_role;
@@ -0,0 +1,44 @@
+-- Cancellation policy. Users cancel through the server, which enforces the
+-- cancellation deadline and records the refund the refund tiers give them.
+ALTER TABLE public.system_settings
+ADD COLUMN IF NOT EXISTS refund_tiers JSONB NOT NULL DEFAULT '[
+  {"min_hours_before": 24, "refund_percent": 100},
+  {"min_hours_before": 2, "refund_percent": 50}
+]'::jsonb;
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS refund_percent INTEGER CHECK (refund_percent BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS refund_amount DECIMAL CHECK (refund_amount >= 0);
+
+-- Users can still update their own bookings, so stop them cancelling around the
+-- policy or writing their own refund. Admins and the server are unaffected.
+CREATE OR REPLACE FUNCTION public.protect_booking_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'canceled' AND OLD.status IS DISTINCT FROM 'canceled' THEN
+    RAISE EXCEPTION 'Bookings must be cancelled through the booking API';
+  END IF;
+
+  IF NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+     OR NEW.refund_percent IS DISTINCT FROM OLD.refund_percent
+     OR NEW.refund_amount IS DISTINCT FROM OLD.refund_amount THEN
+    RAISE EXCEPTION 'Refund details can only be set by the booking system';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_cancellation ON public.bookings;
+CREATE TRIGGER protect_booking_cancellation
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_cancellation();
@@ -0,0 +1,49 @@
+-- Move a single booking to a new date and time. The old window is offered to
+-- the waitlist once the booking has left it.
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_status booking_status,
+  p_total_cost DECIMAL,
+  p_discount_amount DECIMAL DEFAULT 0
+)
+RETURNS public.bookings AS $$
+DECLARE
+  original public.bookings;
+  moved public.bookings;
+BEGIN
+  SELECT * INTO original FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF original.id IS NULL OR original.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NULL;
+  END IF;
+
+  -- Serialise with reservations for the same game and day
+  PERFORM pg_advisory_xact_lock(hashtext(original.game_id::text || ':' || p_booking_date::text));
+
+  IF check_booking_conflict(original.game_id, p_booking_date, p_start_time, p_end_time, original.id)
+     OR check_waitlist_hold(original.game_id, p_booking_date, p_start_time, p_end_time, original.user_id) THEN
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  UPDATE public.bookings
+  SET booking_date = p_booking_date,
+      start_time = p_start_time,
+      end_time = p_end_time,
+      status = p_status,
+      total_cost = p_total_cost,
+      discount_amount = p_discount_amount,
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO moved;
+
+  PERFORM offer_next_waitlist_entry(original.game_id, original.booking_date, original.start_time, original.end_time);
+
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.reschedule_booking(UUID, DATE, TIME, TIME, booking_status, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reschedule_booking(UUID, DATE, TIME, TIME, booking_status, DECIMAL, DECIMAL) TO service_role;
@@ -0,0 +1,37 @@
+-- Scheduled jobs, triggered through /api/jobs by an external cron or
+-- scripts/run-jobs.sh. Each run is recorded, and job_deliveries makes sure a
+-- job never sends the same reminder twice however often it is re-run.
+ALTER TABLE public.system_settings
+ADD COLUMN IF NOT EXISTS reminder_offsets_hours INTEGER[] NOT NULL DEFAULT '{24,2}',
+ADD COLUMN IF NOT EXISTS approval_nudge_hours INTEGER[] NOT NULL DEFAULT '{2,12}';
+
+CREATE TABLE IF NOT EXISTS public.job_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  processed INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS public.job_deliveries (
+  job TEXT NOT NULL,
+  dedupe_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (job, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job ON public.job_runs(job, started_at DESC);
+
+ALTER TABLE public.job_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.job_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read job runs" ON public.job_runs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
@@ -0,0 +1,40 @@
+-- Booking status state machine. Mirrors BOOKING_STATUS_TRANSITIONS in
+-- lib/booking-status-rules.ts so that no client, admin or server code path can
+-- move a booking between statuses the app doesn't allow:
+--   pending   -> confirmed, canceled
+--   confirmed -> pending (rescheduled, needs approval again), completed, no_show, canceled
+--   no_show   -> completed (customer turned up late)
+--   canceled, completed are final
+-- The time guards (e.g. no completing a booking before it starts) are checked
+-- by the app, which knows the venue's local time; booking times here are naive.
+CREATE OR REPLACE FUNCTION public.is_valid_booking_status_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT p_from = p_to OR (p_from, p_to) IN (
+    ('pending', 'confirmed'),
+    ('pending', 'canceled'),
+    ('confirmed', 'pending'),
+    ('confirmed', 'completed'),
+    ('confirmed', 'no_show'),
+    ('confirmed', 'canceled'),
+    ('no_show', 'completed')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.enforce_booking_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.is_valid_booking_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'A % booking can''t be marked %', OLD.status, NEW.status
+      USING ERRCODE = 'BS001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_booking_status_transition ON public.bookings;
+CREATE TRIGGER enforce_booking_status_transition
+  BEFORE UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.enforce_booking_status_transition();
@@ -0,0 +1,78 @@
+-- Booking audit trail. booking_audit_log is written by free_booking_slot()
+-- (20261018191250_add_phone_support.sql); this records who made each change and why, and lets
+-- admins read the log joined to the people involved.
+
+-- Who cancelled a booking. Set by the server, which cancels on the user's
+-- behalf with the service role, so auth.uid() alone can't tell us. It points at
+-- auth.users so bookings keeps a single relationship to profiles for embedding.
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Point changed_by at profiles so the log can be joined to names and roles
+ALTER TABLE public.booking_audit_log
+DROP CONSTRAINT IF EXISTS booking_audit_log_changed_by_fkey;
+
+ALTER TABLE public.booking_audit_log
+ADD CONSTRAINT booking_audit_log_changed_by_fkey
+FOREIGN KEY (changed_by) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_booking_audit_log_booking ON public.booking_audit_log(booking_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_booking_audit_log_changed_at ON public.booking_audit_log(changed_at DESC);
+
+-- Log the acting user (falling back to cancelled_by for server-side
+-- cancellations) and the note saved with the change, if there was one
+CREATE OR REPLACE FUNCTION free_booking_slot()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.booking_audit_log (
+    booking_id,
+    old_status,
+    new_status,
+    changed_by,
+    changed_at,
+    notes
+  ) VALUES (
+    NEW.id,
+    OLD.status,
+    NEW.status,
+    COALESCE(auth.uid(), CASE WHEN NEW.status = 'canceled' THEN NEW.cancelled_by END),
+    NOW(),
+    CASE
+      WHEN NEW.notes IS DISTINCT FROM OLD.notes AND NEW.notes IS NOT NULL THEN NEW.notes
+      WHEN NEW.status = 'canceled' THEN 'Booking canceled - slot freed'
+      WHEN NEW.status = 'no_show' THEN 'Marked as no-show - slot freed'
+      WHEN NEW.status = 'completed' THEN 'Booking completed'
+      ELSE 'Status updated'
+    END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- cancelled_by is part of the cancellation record users can't write themselves
+CREATE OR REPLACE FUNCTION public.protect_booking_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'canceled' AND OLD.status IS DISTINCT FROM 'canceled' THEN
+    RAISE EXCEPTION 'Bookings must be cancelled through the booking API';
+  END IF;
+
+  IF NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+     OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+     OR NEW.refund_percent IS DISTINCT FROM OLD.refund_percent
+     OR NEW.refund_amount IS DISTINCT FROM OLD.refund_amount THEN
+    RAISE EXCEPTION 'Refund details can only be set by the booking system';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
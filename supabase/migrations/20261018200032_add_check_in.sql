@@ -0,0 +1,32 @@
+-- Venue check-in. Staff scan the QR code from the user's booking; the server
+-- verifies it and records the check-in. The close-past-bookings job then marks
+-- the booking completed once it ends.
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_checked_in
+ON public.bookings(booking_date)
+WHERE status = 'confirmed' AND checked_in_at IS NOT NULL;
+
+-- Users can update their own bookings, so stop them checking themselves in
+CREATE OR REPLACE FUNCTION public.protect_booking_check_in()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.checked_in_at IS DISTINCT FROM OLD.checked_in_at
+     OR NEW.checked_in_by IS DISTINCT FROM OLD.checked_in_by THEN
+    RAISE EXCEPTION 'Bookings can only be checked in through the check-in API';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_check_in ON public.bookings;
+CREATE TRIGGER protect_booking_check_in
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_check_in();
@@ -0,0 +1,10 @@
+-- Past confirmed bookings are closed by the close-past-bookings job: completed,
+-- or no-show when staff were checking people in that day and the user never
+-- checked in. The grace period gives staff time to close them by hand first.
+ALTER TABLE public.system_settings
+ADD COLUMN IF NOT EXISTS auto_close_grace_minutes INTEGER NOT NULL DEFAULT 60
+CHECK (auto_close_grace_minutes BETWEEN 0 AND 1440);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_confirmed_date
+ON public.bookings(booking_date)
+WHERE status = 'confirmed';
@@ -0,0 +1,62 @@
+-- Auto-approval rules. When require_admin_approval is on, a new or moved
+-- booking matching any active rule is confirmed straight away; the rest wait
+-- for an admin. Rules are evaluated by lib/approval-rules.ts in the booking API,
+-- which records the decision and the rule that made it on the booking.
+CREATE TABLE IF NOT EXISTS public.approval_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('trusted_user', 'game', 'off_peak', 'max_cost')),
+  min_completed_bookings INTEGER CHECK (min_completed_bookings > 0),
+  game_ids UUID[],
+  weekdays SMALLINT[], -- 0 = Sunday
+  start_time TIME,
+  end_time TIME,
+  max_total_cost DECIMAL CHECK (max_total_cost > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (rule_type <> 'trusted_user' OR min_completed_bookings IS NOT NULL),
+  CHECK (rule_type <> 'game' OR cardinality(game_ids) > 0),
+  CHECK (rule_type <> 'off_peak' OR (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time <> end_time)),
+  CHECK (rule_type <> 'max_cost' OR max_total_cost IS NOT NULL)
+);
+
+ALTER TABLE public.approval_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage approval rules" ON public.approval_rules
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- The rule name is copied so the record survives the rule being renamed or deleted
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS approval_decision TEXT CHECK (approval_decision IN ('not_required', 'auto_approved', 'needs_review')),
+ADD COLUMN IF NOT EXISTS approval_rule_id UUID REFERENCES public.approval_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS approval_rule_name TEXT;
+
+-- Only the booking API records approval decisions
+CREATE OR REPLACE FUNCTION public.protect_booking_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.approval_decision IS DISTINCT FROM OLD.approval_decision
+     OR NEW.approval_rule_id IS DISTINCT FROM OLD.approval_rule_id
+     OR NEW.approval_rule_name IS DISTINCT FROM OLD.approval_rule_name THEN
+    RAISE EXCEPTION 'Approval decisions can only be recorded by the booking system';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_approval ON public.bookings;
+CREATE TRIGGER protect_booking_approval
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_booking_approval();
@@ -0,0 +1,40 @@
+-- Approval SLA. A pending booking holds its slot, so requests nobody acts on
+-- are expired by the expire-pending-bookings job: after approval_sla_hours, or
+-- approval_cutoff_minutes before the booking starts, whichever comes first.
+ALTER TABLE public.system_settings
+ADD COLUMN IF NOT EXISTS approval_sla_hours INTEGER NOT NULL DEFAULT 24
+CHECK (approval_sla_hours BETWEEN 1 AND 168),
+ADD COLUMN IF NOT EXISTS approval_cutoff_minutes INTEGER NOT NULL DEFAULT 60
+CHECK (approval_cutoff_minutes BETWEEN 0 AND 1440);
+
+-- When the booking last started waiting for approval. A rescheduled booking
+-- that needs approval again gets a fresh clock; created_at would not.
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS pending_since TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.bookings
+SET pending_since = created_at
+WHERE status = 'pending' AND pending_since IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_pending_since
+ON public.bookings(pending_since)
+WHERE status = 'pending';
+
+-- Set on the way into pending and kept otherwise, so users can't extend their own deadline
+CREATE OR REPLACE FUNCTION public.set_booking_pending_since()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'pending' AND (TG_OP = 'INSERT' OR OLD.status <> 'pending') THEN
+    NEW.pending_since := NOW();
+  ELSIF TG_OP = 'UPDATE' THEN
+    NEW.pending_since := OLD.pending_since;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_booking_pending_since ON public.bookings;
+CREATE TRIGGER set_booking_pending_since
+  BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_pending_since();
@@ -0,0 +1,283 @@
+-- Courts: bookable units under a game (e.g. three badminton courts).
+-- Every game has at least one court; a slot is taken only once every active
+-- court is booked for it. Bookings either name a court or get any free one.
+CREATE TABLE IF NOT EXISTS public.game_courts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (game_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_courts_game ON public.game_courts(game_id, sort_order);
+
+-- Courts with bookings can't be deleted, only deactivated
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS court_id UUID REFERENCES public.game_courts(id);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_court_date ON public.bookings(court_id, booking_date);
+
+ALTER TABLE public.game_courts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read game courts" ON public.game_courts
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage game courts" ON public.game_courts
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Existing games become a single court holding all of their bookings
+INSERT INTO public.game_courts (game_id, name)
+SELECT id, 'Court 1' FROM public.games
+WHERE NOT EXISTS (SELECT 1 FROM public.game_courts WHERE game_courts.game_id = games.id);
+
+UPDATE public.bookings
+SET court_id = (
+  SELECT id FROM public.game_courts
+  WHERE game_courts.game_id = bookings.game_id
+  ORDER BY sort_order, name
+  LIMIT 1
+)
+WHERE court_id IS NULL;
+
+-- New games start with one court
+CREATE OR REPLACE FUNCTION public.create_default_game_court()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.game_courts (game_id, name) VALUES (NEW.id, 'Court 1');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS create_default_game_court ON public.games;
+CREATE TRIGGER create_default_game_court
+  AFTER INSERT ON public.games
+  FOR EACH ROW EXECUTE FUNCTION public.create_default_game_court();
+
+-- Whether a court has an active booking overlapping the window
+CREATE OR REPLACE FUNCTION public.is_court_booked(
+  p_court_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE court_id = p_court_id
+      AND booking_date = p_booking_date
+      AND status IN ('pending', 'confirmed')
+      AND start_time::TIME < p_end_time
+      AND end_time::TIME > p_start_time
+      AND (p_exclude_booking_id IS NULL OR id != p_exclude_booking_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Active courts of a game that are free for the whole window, in display order
+CREATE OR REPLACE FUNCTION public.find_free_courts(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+  SELECT id FROM public.game_courts
+  WHERE game_id = p_game_id
+    AND is_active
+    AND NOT is_court_booked(id, p_booking_date, p_start_time, p_end_time, p_exclude_booking_id)
+  ORDER BY sort_order, name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- A window conflicts when the chosen court is taken or, without a court, when
+-- every active court of the game is taken
+DROP FUNCTION IF EXISTS check_booking_conflict(UUID, DATE, TIME, TIME, UUID);
+
+CREATE OR REPLACE FUNCTION check_booking_conflict(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL,
+  p_court_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_court_id IS NOT NULL THEN
+    RETURN NOT EXISTS (
+      SELECT 1 FROM public.game_courts
+      WHERE id = p_court_id AND game_id = p_game_id AND is_active
+    ) OR is_court_booked(p_court_id, p_booking_date, p_start_time, p_end_time, p_exclude_booking_id);
+  END IF;
+
+  RETURN NOT EXISTS (
+    SELECT 1 FROM find_free_courts(p_game_id, p_booking_date, p_start_time, p_end_time, p_exclude_booking_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Open waitlist offers hold courts rather than the whole game: the window is
+-- held once other users' offers cover every court still free
+CREATE OR REPLACE FUNCTION public.check_waitlist_hold(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  hold_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO hold_count
+  FROM public.waitlist_entries
+  WHERE game_id = p_game_id
+    AND booking_date = p_booking_date
+    AND status = 'offered'
+    AND offer_expires_at > NOW()
+    AND start_time < p_end_time
+    AND end_time > p_start_time
+    AND (p_user_id IS NULL OR user_id != p_user_id);
+
+  RETURN hold_count > 0 AND hold_count >= (
+    SELECT COUNT(*) FROM find_free_courts(p_game_id, p_booking_date, p_start_time, p_end_time)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep every active booking on a court of its game that is free for its
+-- window. Bookings without a court (waitlist claims, or moves that leave their
+-- court double-booked) get the first free one.
+CREATE OR REPLACE FUNCTION public.assign_booking_court()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.court_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.game_courts WHERE id = NEW.court_id AND game_id = NEW.game_id
+  ) THEN
+    RAISE EXCEPTION 'Court does not belong to this game';
+  END IF;
+
+  IF NEW.court_id IS NOT NULL
+     AND NOT is_court_booked(NEW.court_id, NEW.booking_date, NEW.start_time, NEW.end_time, NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- An explicitly chosen court that is taken is a conflict, not a silent move
+  IF NEW.court_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.court_id IS DISTINCT FROM OLD.court_id) THEN
+    RAISE EXCEPTION 'Court is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  NEW.court_id := (
+    SELECT court FROM find_free_courts(NEW.game_id, NEW.booking_date, NEW.start_time, NEW.end_time, NEW.id) AS court
+    LIMIT 1
+  );
+
+  IF NEW.court_id IS NULL THEN
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS assign_booking_court ON public.bookings;
+CREATE TRIGGER assign_booking_court
+  BEFORE INSERT OR UPDATE OF game_id, court_id, booking_date, start_time, end_time, status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.assign_booking_court();
+
+-- Reservations may name a court; without one the trigger above picks any free court
+DROP FUNCTION IF EXISTS public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT, UUID, UUID, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.reserve_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_status booking_status,
+  p_total_cost DECIMAL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL,
+  p_promo_code_id UUID DEFAULT NULL,
+  p_discount_amount DECIMAL DEFAULT 0,
+  p_court_id UUID DEFAULT NULL
+)
+RETURNS public.bookings AS $$
+DECLARE
+  new_booking public.bookings;
+  promo public.promo_codes;
+BEGIN
+  -- Serialise reservations for the same game and day
+  PERFORM pg_advisory_xact_lock(hashtext(p_game_id::text || ':' || p_booking_date::text));
+
+  IF check_booking_conflict(p_game_id, p_booking_date, p_start_time, p_end_time, NULL, p_court_id)
+     OR check_waitlist_hold(p_game_id, p_booking_date, p_start_time, p_end_time, p_user_id) THEN
+    -- exclusion_violation lets callers tell a slot conflict apart from other errors
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  IF p_promo_code_id IS NOT NULL THEN
+    SELECT * INTO promo FROM public.promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+
+    IF promo.max_redemptions IS NOT NULL
+       AND count_promo_redemptions(promo.id) >= promo.max_redemptions THEN
+      RAISE EXCEPTION 'Promo code has reached its usage limit' USING ERRCODE = 'PL001';
+    END IF;
+
+    IF promo.max_redemptions_per_user IS NOT NULL
+       AND count_promo_redemptions(promo.id, p_user_id) >= promo.max_redemptions_per_user THEN
+      RAISE EXCEPTION 'Promo code has already been used' USING ERRCODE = 'PL001';
+    END IF;
+  END IF;
+
+  INSERT INTO public.bookings (
+    user_id,
+    game_id,
+    court_id,
+    booking_date,
+    start_time,
+    end_time,
+    status,
+    total_cost,
+    notes,
+    series_id,
+    promo_code_id,
+    discount_amount
+  ) VALUES (
+    p_user_id,
+    p_game_id,
+    p_court_id,
+    p_booking_date,
+    p_start_time,
+    p_end_time,
+    p_status,
+    p_total_cost,
+    p_notes,
+    p_series_id,
+    p_promo_code_id,
+    p_discount_amount
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT, UUID, UUID, DECIMAL, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_booking(UUID, UUID, DATE, TIME, TIME, booking_status, DECIMAL, TEXT, UUID, UUID, DECIMAL, UUID) TO service_role;
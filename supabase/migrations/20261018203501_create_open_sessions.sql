@@ -0,0 +1,234 @@
+-- Open sessions: an admin publishes a session on a court (e.g. open nets
+-- 6-8pm) and users book individual seats until the game's max_players is
+-- reached. Each seat is a booking linked to the session, so payments,
+-- cancellation, reminders and check-in work per seat. A cancelled seat only
+-- frees that seat; the session keeps the court.
+CREATE TABLE IF NOT EXISTS public.open_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  court_id UUID NOT NULL REFERENCES public.game_courts(id),
+  title TEXT NOT NULL,
+  session_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  price_per_seat DECIMAL NOT NULL CHECK (price_per_seat >= 0),
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (start_time < end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_sessions_date ON public.open_sessions(session_date, status);
+CREATE INDEX IF NOT EXISTS idx_open_sessions_court ON public.open_sessions(court_id, session_date);
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES public.open_sessions(id);
+
+-- One active seat per user and session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_unique_session_seat
+  ON public.bookings(session_id, user_id)
+  WHERE session_id IS NOT NULL AND status IN ('pending', 'confirmed');
+
+ALTER TABLE public.open_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read open sessions" ON public.open_sessions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage open sessions" ON public.open_sessions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Seats taken in a session; readable by everyone without exposing other users' bookings
+CREATE OR REPLACE FUNCTION public.count_session_seats(p_session_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.bookings
+  WHERE session_id = p_session_id
+    AND status IN ('pending', 'confirmed');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.count_session_seats(UUID) TO authenticated;
+
+-- A court is also taken by a scheduled session. Seats have no court of their
+-- own, so they never count against it.
+DROP FUNCTION IF EXISTS public.is_court_booked(UUID, DATE, TIME, TIME, UUID);
+
+CREATE OR REPLACE FUNCTION public.is_court_booked(
+  p_court_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL,
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE court_id = p_court_id
+      AND booking_date = p_booking_date
+      AND status IN ('pending', 'confirmed')
+      AND start_time::TIME < p_end_time
+      AND end_time::TIME > p_start_time
+      AND (p_exclude_booking_id IS NULL OR id != p_exclude_booking_id)
+  ) OR EXISTS (
+    SELECT 1 FROM public.open_sessions
+    WHERE court_id = p_court_id
+      AND session_date = p_booking_date
+      AND status = 'scheduled'
+      AND start_time < p_end_time
+      AND end_time > p_start_time
+      AND (p_exclude_session_id IS NULL OR id != p_exclude_session_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A session can only be published on a free, active court of its game
+CREATE OR REPLACE FUNCTION public.check_open_session_court()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_courts
+    WHERE id = NEW.court_id AND game_id = NEW.game_id AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Court is not available for this game';
+  END IF;
+
+  -- Serialise with reservations for the same game and day
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.game_id::text || ':' || NEW.session_date::text));
+
+  IF is_court_booked(NEW.court_id, NEW.session_date, NEW.start_time, NEW.end_time, NULL, NEW.id) THEN
+    RAISE EXCEPTION 'Court is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_open_session_court ON public.open_sessions;
+CREATE TRIGGER check_open_session_court
+  BEFORE INSERT OR UPDATE OF game_id, court_id, session_date, start_time, end_time, status ON public.open_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.check_open_session_court();
+
+-- Seats don't occupy a court
+CREATE OR REPLACE FUNCTION public.assign_booking_court()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') OR NEW.session_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.court_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.game_courts WHERE id = NEW.court_id AND game_id = NEW.game_id
+  ) THEN
+    RAISE EXCEPTION 'Court does not belong to this game';
+  END IF;
+
+  IF NEW.court_id IS NOT NULL
+     AND NOT is_court_booked(NEW.court_id, NEW.booking_date, NEW.start_time, NEW.end_time, NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- An explicitly chosen court that is taken is a conflict, not a silent move
+  IF NEW.court_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.court_id IS DISTINCT FROM OLD.court_id) THEN
+    RAISE EXCEPTION 'Court is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  NEW.court_id := (
+    SELECT court FROM find_free_courts(NEW.game_id, NEW.booking_date, NEW.start_time, NEW.end_time, NEW.id) AS court
+    LIMIT 1
+  );
+
+  IF NEW.court_id IS NULL THEN
+    RAISE EXCEPTION 'Time slot is already booked' USING ERRCODE = '23P01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A freed seat is not a freed court, so the waitlist is left alone
+CREATE OR REPLACE FUNCTION public.offer_waitlist_slot(p_booking_id UUID)
+RETURNS public.waitlist_entries AS $$
+DECLARE
+  freed public.bookings;
+BEGIN
+  SELECT * INTO freed FROM public.bookings WHERE id = p_booking_id;
+
+  IF freed.id IS NULL OR freed.status NOT IN ('canceled', 'no_show') OR freed.session_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN offer_next_waitlist_entry(freed.game_id, freed.booking_date, freed.start_time, freed.end_time);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Book one seat in a session. The session row is locked so concurrent
+-- requests cannot oversell the game's max_players.
+CREATE OR REPLACE FUNCTION public.reserve_session_seat(
+  p_user_id UUID,
+  p_session_id UUID,
+  p_status booking_status,
+  p_total_cost DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.bookings AS $$
+DECLARE
+  session public.open_sessions;
+  capacity INTEGER;
+  new_booking public.bookings;
+BEGIN
+  SELECT * INTO session FROM public.open_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF session.id IS NULL OR session.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This session is no longer available' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT max_players INTO capacity FROM public.games WHERE id = session.game_id;
+
+  IF count_session_seats(session.id) >= capacity THEN
+    -- exclusion_violation, as for a taken slot
+    RAISE EXCEPTION 'This session is full' USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.bookings (
+    user_id,
+    game_id,
+    session_id,
+    booking_date,
+    start_time,
+    end_time,
+    status,
+    total_cost,
+    notes
+  ) VALUES (
+    p_user_id,
+    session.game_id,
+    session.id,
+    session.session_date,
+    session.start_time,
+    session.end_time,
+    p_status,
+    p_total_cost,
+    p_notes
+  )
+  RETURNING * INTO new_booking;
+
+  RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_session_seat(UUID, UUID, booking_status, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_session_seat(UUID, UUID, booking_status, DECIMAL, TEXT) TO service_role;
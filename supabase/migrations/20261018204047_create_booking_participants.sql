@@ -0,0 +1,91 @@
+-- Group bookings: the organiser (bookings.user_id) invites other registered
+-- users by phone number. Invitees accept or decline, and the booking's cost is
+-- split equally between the organiser and accepted players, or by custom
+-- shares with the organiser paying the remainder.
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS split_mode TEXT NOT NULL DEFAULT 'equal' CHECK (split_mode IN ('equal', 'custom'));
+
+CREATE TABLE IF NOT EXISTS public.booking_participants (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'accepted', 'declined')),
+  -- Only used when the booking's split_mode is 'custom'
+  share_amount DECIMAL CHECK (share_amount >= 0),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (booking_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_participants_user ON public.booking_participants(user_id, status);
+
+-- Whether a user is the organiser or a current (invited or accepted) player of
+-- a booking. Security definer so the policies below don't recurse into each other.
+CREATE OR REPLACE FUNCTION public.is_booking_member(p_booking_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.bookings WHERE id = p_booking_id AND user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.booking_participants
+    WHERE booking_id = p_booking_id
+      AND user_id = p_user_id
+      AND status IN ('invited', 'accepted')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.is_booking_member(UUID, UUID) TO authenticated;
+
+ALTER TABLE public.booking_participants ENABLE ROW LEVEL SECURITY;
+
+-- Invitations, responses and shares go through the server's booking routes
+CREATE POLICY "Members can read their booking's players" ON public.booking_participants
+  FOR SELECT USING (
+    user_id = auth.uid() OR is_booking_member(booking_id, auth.uid()) OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Players can read bookings they are invited to" ON public.bookings
+  FOR SELECT USING (is_booking_member(id, auth.uid()));
+
+-- The organiser and every invited or accepted player count towards the game's
+-- max_players. The booking row is locked so concurrent invitations can't overfill it.
+CREATE OR REPLACE FUNCTION public.check_booking_participant_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  capacity INTEGER;
+  players INTEGER;
+BEGIN
+  IF NEW.status = 'declined' OR (TG_OP = 'UPDATE' AND OLD.status <> 'declined') THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM public.bookings WHERE id = NEW.booking_id FOR UPDATE;
+
+  SELECT games.max_players INTO capacity
+  FROM public.bookings
+  JOIN public.games ON games.id = bookings.game_id
+  WHERE bookings.id = NEW.booking_id;
+
+  SELECT COUNT(*) + 1 INTO players
+  FROM public.booking_participants
+  WHERE booking_id = NEW.booking_id
+    AND status IN ('invited', 'accepted')
+    AND id != NEW.id;
+
+  IF players >= capacity THEN
+    RAISE EXCEPTION 'Booking already has the maximum number of players' USING ERRCODE = 'GP001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_booking_participant_limit ON public.booking_participants;
+CREATE TRIGGER check_booking_participant_limit
+  BEFORE INSERT OR UPDATE OF status ON public.booking_participants
+  FOR EACH ROW EXECUTE FUNCTION public.check_booking_participant_limit();
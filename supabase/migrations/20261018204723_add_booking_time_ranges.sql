@@ -0,0 +1,189 @@
+-- Booking windows as real timestamp ranges. booking_date, start_time and
+-- end_time stay the way a booking is entered and shown; an end time at or
+-- before the start time is on the next day (overnight bookings in 24/7 mode).
+-- starts_at/ends_at hold the actual window in venue-local time, availability
+-- compares those ranges, and an exclusion constraint makes a double-booked
+-- court impossible even when two requests race across midnight.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- The window a date and a pair of times describe
+CREATE OR REPLACE FUNCTION public.booking_window(p_date DATE, p_start_time TIME, p_end_time TIME)
+RETURNS TSRANGE AS $$
+  SELECT tsrange(
+    p_date + p_start_time,
+    p_date + p_end_time + CASE WHEN p_end_time <= p_start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP;
+
+ALTER TABLE public.open_sessions
+ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP;
+
+-- Keep the timestamps in step with the date and times every writer sets
+CREATE OR REPLACE FUNCTION public.set_booking_time_range()
+RETURNS TRIGGER AS $$
+DECLARE
+  booked TSRANGE;
+BEGIN
+  booked := booking_window(NEW.booking_date, NEW.start_time::TIME, NEW.end_time::TIME);
+  NEW.starts_at := lower(booked);
+  NEW.ends_at := upper(booked);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_booking_time_range ON public.bookings;
+CREATE TRIGGER set_booking_time_range
+  BEFORE INSERT OR UPDATE OF booking_date, start_time, end_time ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_time_range();
+
+CREATE OR REPLACE FUNCTION public.set_open_session_time_range()
+RETURNS TRIGGER AS $$
+DECLARE
+  booked TSRANGE;
+BEGIN
+  booked := booking_window(NEW.session_date, NEW.start_time, NEW.end_time);
+  NEW.starts_at := lower(booked);
+  NEW.ends_at := upper(booked);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_open_session_time_range ON public.open_sessions;
+CREATE TRIGGER set_open_session_time_range
+  BEFORE INSERT OR UPDATE OF session_date, start_time, end_time ON public.open_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.set_open_session_time_range();
+
+UPDATE public.bookings
+SET starts_at = lower(booking_window(booking_date, start_time::TIME, end_time::TIME)),
+    ends_at = upper(booking_window(booking_date, start_time::TIME, end_time::TIME))
+WHERE starts_at IS NULL;
+
+UPDATE public.open_sessions
+SET starts_at = lower(booking_window(session_date, start_time, end_time)),
+    ends_at = upper(booking_window(session_date, start_time, end_time))
+WHERE starts_at IS NULL;
+
+ALTER TABLE public.bookings
+ALTER COLUMN starts_at SET NOT NULL,
+ALTER COLUMN ends_at SET NOT NULL;
+
+ALTER TABLE public.open_sessions
+ALTER COLUMN starts_at SET NOT NULL,
+ALTER COLUMN ends_at SET NOT NULL;
+
+-- No two active bookings on one court may overlap. Seats in open sessions have
+-- no court and are not covered. Overnight bookings that the old same-day
+-- string checks let overlap must be resolved before this constraint applies.
+ALTER TABLE public.bookings
+DROP CONSTRAINT IF EXISTS bookings_no_court_overlap;
+
+ALTER TABLE public.bookings
+ADD CONSTRAINT bookings_no_court_overlap EXCLUDE USING gist (
+  court_id WITH =,
+  tsrange(starts_at, ends_at) WITH &&
+) WHERE (court_id IS NOT NULL AND status IN ('pending', 'confirmed'));
+
+CREATE INDEX IF NOT EXISTS idx_bookings_game_range ON public.bookings USING gist (game_id, tsrange(starts_at, ends_at));
+CREATE INDEX IF NOT EXISTS idx_open_sessions_court_range ON public.open_sessions USING gist (court_id, tsrange(starts_at, ends_at));
+
+-- Court occupancy by range, so a booking that runs past midnight also blocks
+-- the start of the next day
+CREATE OR REPLACE FUNCTION public.is_court_booked(
+  p_court_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL,
+  p_exclude_session_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  requested TSRANGE := booking_window(p_booking_date, p_start_time, p_end_time);
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE court_id = p_court_id
+      AND status IN ('pending', 'confirmed')
+      AND tsrange(starts_at, ends_at) && requested
+      AND (p_exclude_booking_id IS NULL OR id != p_exclude_booking_id)
+  ) OR EXISTS (
+    SELECT 1 FROM public.open_sessions
+    WHERE court_id = p_court_id
+      AND status = 'scheduled'
+      AND tsrange(starts_at, ends_at) && requested
+      AND (p_exclude_session_id IS NULL OR id != p_exclude_session_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Waitlist windows overlap by range as well
+CREATE OR REPLACE FUNCTION public.check_waitlist_hold(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  hold_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO hold_count
+  FROM public.waitlist_entries
+  WHERE game_id = p_game_id
+    AND booking_date BETWEEN p_booking_date - 1 AND p_booking_date + 1
+    AND status = 'offered'
+    AND offer_expires_at > NOW()
+    AND booking_window(booking_date, start_time, end_time) && booking_window(p_booking_date, p_start_time, p_end_time)
+    AND (p_user_id IS NULL OR user_id != p_user_id);
+
+  RETURN hold_count > 0 AND hold_count >= (
+    SELECT COUNT(*) FROM find_free_courts(p_game_id, p_booking_date, p_start_time, p_end_time)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.offer_next_waitlist_entry(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_start_time TIME,
+  p_end_time TIME
+)
+RETURNS public.waitlist_entries AS $$
+DECLARE
+  entry public.waitlist_entries;
+  offer_minutes INTEGER;
+BEGIN
+  SELECT COALESCE(MAX(waitlist_offer_minutes), 30) INTO offer_minutes FROM public.system_settings;
+
+  FOR entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE game_id = p_game_id
+      AND booking_date BETWEEN p_booking_date - 1 AND p_booking_date + 1
+      AND status = 'waiting'
+      AND booking_window(booking_date, start_time, end_time) && booking_window(p_booking_date, p_start_time, p_end_time)
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF NOT check_booking_conflict(entry.game_id, entry.booking_date, entry.start_time, entry.end_time)
+       AND NOT check_waitlist_hold(entry.game_id, entry.booking_date, entry.start_time, entry.end_time) THEN
+      UPDATE public.waitlist_entries
+      SET status = 'offered',
+          offered_at = NOW(),
+          offer_expires_at = NOW() + make_interval(mins => offer_minutes),
+          updated_at = NOW()
+      WHERE id = entry.id
+      RETURNING * INTO entry;
+
+      RETURN entry;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
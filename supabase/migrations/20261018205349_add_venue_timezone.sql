@@ -0,0 +1,14 @@
+-- Venue timezone. Booking dates and times, and the starts_at/ends_at ranges,
+-- are wall-clock times at the venue; the app works out "today", booking
+-- windows and reporting boundaries in this timezone rather than in UTC.
+ALTER TABLE public.system_settings
+ADD COLUMN IF NOT EXISTS venue_timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- Settings are admin-only under RLS, but every user's pages need the venue's
+-- calendar to know what "today" is
+CREATE OR REPLACE FUNCTION public.get_venue_timezone()
+RETURNS TEXT AS $$
+  SELECT COALESCE((SELECT venue_timezone FROM public.system_settings LIMIT 1), 'Asia/Kolkata');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_venue_timezone() TO anon, authenticated;
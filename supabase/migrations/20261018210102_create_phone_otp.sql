@@ -0,0 +1,24 @@
+-- Phone verification. Users sign in or sign up with a one-time code sent to
+-- their phone; only a hash of each code is stored. Codes are issued and
+-- checked by /api/auth/otp with the service role, so the table has no
+-- policies and is unreadable to clients.
+CREATE TABLE IF NOT EXISTS public.phone_otp_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone VARCHAR(20) NOT NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('sign_in', 'sign_up')),
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_otp_codes_phone ON public.phone_otp_codes(phone, created_at DESC);
+
+ALTER TABLE public.phone_otp_codes ENABLE ROW LEVEL SECURITY;
+
+-- When the profile's phone number was last proven with a code. Accounts
+-- created before verification have none until their first code sign-in,
+-- which also normalises their number and internal auth email.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS phone_verified_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,62 @@
+-- Password resets. Users reset their own password after proving they own the
+-- account's phone number with a one-time code; admins can force a reset, which
+-- replaces the password with a random one until the user sets a new one.
+ALTER TABLE public.phone_otp_codes
+DROP CONSTRAINT IF EXISTS phone_otp_codes_purpose_check;
+
+ALTER TABLE public.phone_otp_codes
+ADD CONSTRAINT phone_otp_codes_purpose_check
+CHECK (purpose IN ('sign_in', 'sign_up', 'password_reset'));
+
+-- Set by a forced reset and cleared when the user sets a new password.
+-- The app signs the user out while it is set.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS password_reset_required BOOLEAN NOT NULL DEFAULT false;
+
+-- Security-sensitive changes to accounts, written by the server with the
+-- service role. actor_id is who made the change: the user themselves for a
+-- self-service reset, or the admin who forced one.
+CREATE TABLE IF NOT EXISTS public.account_audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('password_reset', 'password_reset_forced')),
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_audit_log_user ON public.account_audit_log(user_id, created_at DESC);
+
+ALTER TABLE public.account_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read account audit logs" ON public.account_audit_log
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Users can edit their own profile, but whether their number is verified and
+-- whether they owe a password reset are only set by the server
+CREATE OR REPLACE FUNCTION public.protect_profile_security()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.phone_verified_at IS DISTINCT FROM OLD.phone_verified_at
+     OR NEW.password_reset_required IS DISTINCT FROM OLD.password_reset_required THEN
+    RAISE EXCEPTION 'Phone verification and password resets can only be changed by the server';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_security_trigger ON public.profiles;
+CREATE TRIGGER protect_profile_security_trigger
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_security();
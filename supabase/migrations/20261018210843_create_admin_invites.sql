@@ -0,0 +1,96 @@
+-- Server-controlled roles. Sign-up metadata is written by the client, so it
+-- can no longer choose a role: every new account starts as a user. Admins are
+-- made by accepting an invite issued by an existing admin, or by an admin
+-- changing a user's role through /api/users/[userId]/role. The first admin is
+-- promoted directly in the database (see DEPLOYMENT.md).
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, phone, name, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'phone', '+91' || LPAD((EXTRACT(EPOCH FROM NOW())::bigint % 10000000000)::text, 10, '0')),
+    COALESCE(NEW.raw_user_meta_data->>'name', 'User'),
+    'user'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Single-use admin invites. Only a hash of each invite's token is kept; the
+-- link containing the token is shown once to the admin who created it.
+-- An invite may be limited to one phone number.
+CREATE TABLE IF NOT EXISTS public.admin_invites (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE,
+  phone VARCHAR(20),
+  note TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_invites_created_at ON public.admin_invites(created_at DESC);
+
+ALTER TABLE public.admin_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read admin invites" ON public.admin_invites
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Role changes and invites are part of the account audit trail
+ALTER TABLE public.account_audit_log
+DROP CONSTRAINT IF EXISTS account_audit_log_action_check;
+
+ALTER TABLE public.account_audit_log
+ADD CONSTRAINT account_audit_log_action_check
+CHECK (action IN (
+  'password_reset',
+  'password_reset_forced',
+  'role_changed',
+  'invite_created',
+  'invite_revoked',
+  'invite_accepted'
+));
+
+-- Invites aren't tied to an account until they are accepted
+ALTER TABLE public.account_audit_log
+ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.account_audit_log
+ADD COLUMN IF NOT EXISTS invite_id UUID REFERENCES public.admin_invites(id) ON DELETE SET NULL;
+
+-- Roles join the fields only the server may change. Statements run directly
+-- against the database (no API role at all) are trusted, so the first admin
+-- can be promoted from the SQL editor.
+CREATE OR REPLACE FUNCTION public.protect_profile_security()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Roles can only be changed through the user management API';
+  END IF;
+
+  -- The number is what sign-in codes, phone-limited invites and SMS
+  -- notifications trust, so it only changes through code verification
+  IF NEW.phone IS DISTINCT FROM OLD.phone
+     OR NEW.phone_verified_at IS DISTINCT FROM OLD.phone_verified_at
+     OR NEW.password_reset_required IS DISTINCT FROM OLD.password_reset_required THEN
+    RAISE EXCEPTION 'Phone numbers, phone verification and password resets can only be changed by the server';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,37 @@
+-- Time guards for booking status changes, now that bookings carry their
+-- window (starts_at/ends_at) and the venue's timezone is known. Mirrors
+-- checkStatusTransition in lib/booking-status-rules.ts:
+--   confirmed, pending   only before the booking starts
+--   completed, no_show   only once it has started
+--   canceled             until it ends, or at any time while still pending,
+--                        so unreviewed requests can always be expired
+-- Both sides are venue wall-clock times, and the change is judged against the
+-- window the booking had before the update, as the app does.
+CREATE OR REPLACE FUNCTION public.enforce_booking_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  venue_now TIMESTAMP := NOW() AT TIME ZONE public.get_venue_timezone();
+BEGIN
+  IF NOT public.is_valid_booking_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'A % booking can''t be marked %', OLD.status, NEW.status
+      USING ERRCODE = 'BS001';
+  END IF;
+
+  IF NEW.status IN ('confirmed', 'pending') AND venue_now >= OLD.starts_at THEN
+    RAISE EXCEPTION 'This booking has already started, so it can''t be marked %', NEW.status
+      USING ERRCODE = 'BS001';
+  END IF;
+
+  IF NEW.status IN ('completed', 'no_show') AND venue_now < OLD.starts_at THEN
+    RAISE EXCEPTION 'This booking hasn''t started yet, so it can''t be marked %', NEW.status
+      USING ERRCODE = 'BS001';
+  END IF;
+
+  IF NEW.status = 'canceled' AND OLD.status <> 'pending' AND venue_now >= OLD.ends_at THEN
+    RAISE EXCEPTION 'This booking has already ended, so it can''t be canceled'
+      USING ERRCODE = 'BS001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
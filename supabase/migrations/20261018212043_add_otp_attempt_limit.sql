@@ -0,0 +1,15 @@
+-- Count a guess at a sign-in code before it is checked. The increment and the
+-- limit check are one statement, so parallel guesses can't slip past the limit
+-- between reading the count and writing it back. Returns the new count, or
+-- NULL once the code has no attempts left.
+CREATE OR REPLACE FUNCTION public.record_otp_attempt(p_otp_id UUID, p_max_attempts INTEGER)
+RETURNS INTEGER AS $$
+  UPDATE public.phone_otp_codes
+  SET attempts = attempts + 1
+  WHERE id = p_otp_id
+    AND attempts < p_max_attempts
+  RETURNING attempts;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_otp_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_otp_attempt(UUID, INTEGER) TO service_role;
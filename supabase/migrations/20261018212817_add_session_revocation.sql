@@ -0,0 +1,12 @@
+-- End every session a user has, for forced password resets. Their refresh
+-- tokens stop working at once, and the auth server refuses their access
+-- tokens from then on, so the API routes stop accepting them too. Tokens
+-- already issued are only trusted by RLS until they expire.
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(p_user_id UUID)
+RETURNS VOID AS $$
+  DELETE FROM auth.refresh_tokens WHERE user_id = p_user_id::TEXT;
+  DELETE FROM auth.sessions WHERE user_id = p_user_id;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_user_sessions(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(UUID) TO service_role;